@@ -32,6 +32,16 @@ check_env_var "VITE_FIREBASE_APP_ID" "$VITE_FIREBASE_APP_ID" || missing_vars=$((
 check_env_var "VITE_SCREENSHOT_API_URL" "$VITE_SCREENSHOT_API_URL" || missing_vars=$((missing_vars + 1))
 check_env_var "VITE_SCREENSHOT_API_KEY" "$VITE_SCREENSHOT_API_KEY" || missing_vars=$((missing_vars + 1))
 
+# Optional page metadata proxy; without it bookmark details are not pre-filled
+if [ -z "$VITE_METADATA_PROXY_URL" ]; then
+    log_message "INFO: VITE_METADATA_PROXY_URL is not set, page metadata suggestions are disabled"
+fi
+
+# Optional link checker; without it bookmarks carry no link health status
+if [ -z "$VITE_LINK_CHECKER_URL" ]; then
+    log_message "INFO: VITE_LINK_CHECKER_URL is not set, broken link checks are disabled"
+fi
+
 # Generate runtime configuration from environment variables
 log_message "Generating runtime configuration..."
 cat > /usr/share/nginx/html/config.js << EOF
@@ -43,7 +53,11 @@ window.ENV = {
   VITE_FIREBASE_MESSAGING_SENDER_ID: "${VITE_FIREBASE_MESSAGING_SENDER_ID}",
   VITE_FIREBASE_APP_ID: "${VITE_FIREBASE_APP_ID}",
   VITE_SCREENSHOT_API_URL: "${VITE_SCREENSHOT_API_URL}",
-  VITE_SCREENSHOT_API_KEY: "${VITE_SCREENSHOT_API_KEY}"
+  VITE_SCREENSHOT_API_KEY: "${VITE_SCREENSHOT_API_KEY}",
+  VITE_THUMBNAIL_PROVIDERS: "${VITE_THUMBNAIL_PROVIDERS}",
+  VITE_METADATA_PROXY_URL: "${VITE_METADATA_PROXY_URL}",
+  VITE_LINK_CHECKER_URL: "${VITE_LINK_CHECKER_URL}",
+  VITE_TRASH_RETENTION_DAYS: "${VITE_TRASH_RETENTION_DAYS}"
 };
 
 // Configuration status for application
@@ -0,0 +1,305 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in for the page metadata proxy (VITE_METADATA_PROXY_URL) and the
+ * link checker (VITE_LINK_CHECKER_URL).
+ *
+ *   GET /api/v1/page?url=<page url>   -> the page's HTML
+ *   GET /api/v1/check?url=<page url>  -> {"statusCode": 200, "finalUrl": "..."}
+ *   GET /health                       -> "ok"
+ *
+ * Pages on the reserved fixture.test host are served from the fixtures below, so
+ * development and tests work offline and give predictable results:
+ *   http://fixture.test/article   OpenGraph, Twitter card and JSON-LD
+ *   http://fixture.test/json-ld   JSON-LD only
+ *   http://fixture.test/minimal   <title> and a relative favicon only
+ *   http://fixture.test/oembed    oEmbed discovery link only, to /oembed.json
+ *   http://fixture.test/moved     301 redirect to /article (link checker only)
+ *   any other fixture.test path   404
+ * Run with --offline to serve the "minimal" fixture for every other URL instead of
+ * fetching it, and to report every other link as healthy.
+ *
+ * The stub only listens on 127.0.0.1, only lets the app's origin (--origin, default
+ * http://localhost:5173) read its responses, and refuses URLs that resolve to loopback,
+ * private or link-local addresses, so it can't be used to reach services on this
+ * machine or the local network.
+ *
+ * Usage: npm run metadata-proxy [-- --port 8787] [-- --origin http://localhost:5173] [-- --offline]
+ */
+
+import http from 'node:http';
+import dns from 'node:dns/promises';
+import net from 'node:net';
+
+const args = process.argv.slice(2);
+const getArg = (name) => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+const PORT = Number(getArg('--port') ?? (process.env.PORT || 8787));
+const HOST = '127.0.0.1';
+const APP_ORIGIN = getArg('--origin') ?? process.env.APP_ORIGIN ?? 'http://localhost:5173';
+const OFFLINE = args.includes('--offline');
+const FETCH_TIMEOUT = 8000;
+const MAX_HTML_LENGTH = 2 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+
+// Loopback, private, link-local and other non-public ranges the stub won't fetch from
+const BLOCKED_ADDRESSES = new net.BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+].forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4'));
+[
+  ['::', 128],
+  ['::1', 128],
+  ['::ffff:0:0', 96], // IPv4-mapped addresses
+  ['fc00::', 7],
+  ['fe80::', 10],
+].forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6'));
+
+const FIXTURE_HOST = 'fixture.test';
+
+const FIXTURES = {
+  '/article': `<!doctype html>
+<html>
+  <head>
+    <title>Fixture Article | Example Site</title>
+    <meta name="description" content="Plain meta description">
+    <meta property="og:title" content="Fixture Article">
+    <meta property="og:description" content="An article served by the metadata proxy stub.">
+    <meta property="og:site_name" content="Example Site">
+    <meta property="og:image" content="/images/article.jpg">
+    <meta name="twitter:card" content="summary_large_image">
+    <meta name="twitter:title" content="Fixture Article (Twitter)">
+    <link rel="icon" href="/favicon-16.png" sizes="16x16">
+    <link rel="icon" href="/favicon-64.png" sizes="64x64">
+    <script type="application/ld+json">
+      {"@context": "https://schema.org", "@type": "Article", "headline": "Fixture Article (JSON-LD)"}
+    </script>
+  </head>
+  <body><h1>Fixture Article</h1></body>
+</html>`,
+  '/json-ld': `<!doctype html>
+<html>
+  <head>
+    <script type="application/ld+json">
+      {
+        "@context": "https://schema.org",
+        "@graph": [
+          {"@type": "Organization", "name": "Example Publisher"},
+          {
+            "@type": "BlogPosting",
+            "headline": "Structured Data Only",
+            "description": "Everything on this page comes from JSON-LD.",
+            "image": {"@type": "ImageObject", "url": "https://fixture.test/images/json-ld.png"},
+            "publisher": {"@type": "Organization", "name": "Example Publisher"}
+          }
+        ]
+      }
+    </script>
+  </head>
+  <body></body>
+</html>`,
+  '/oembed': `<!doctype html>
+<html>
+  <head>
+    <title>oEmbed Only</title>
+    <link rel="alternate" type="application/json+oembed" href="/oembed.json?url=http%3A%2F%2Ffixture.test%2Foembed" title="oEmbed Only">
+  </head>
+  <body></body>
+</html>`,
+  '/oembed.json': JSON.stringify({
+    version: '1.0',
+    type: 'rich',
+    title: 'oEmbed Only',
+    thumbnail_url: 'https://fixture.test/images/oembed.jpg',
+    thumbnail_width: 400,
+    thumbnail_height: 300,
+  }),
+  '/minimal': `<!doctype html>
+<html>
+  <head>
+    <title>  Minimal   Page  </title>
+    <link rel="shortcut icon" href="favicon.ico">
+  </head>
+  <body></body>
+</html>`,
+};
+
+// Redirects between fixture pages, as seen by the link checker
+const FIXTURE_REDIRECTS = {
+  '/moved': '/article',
+};
+
+const log = (message) => console.log(`[${new Date().toISOString()}] ${message}`);
+
+const send = (res, status, body, contentType = 'text/plain; charset=utf-8') => {
+  res.writeHead(status, {
+    'Content-Type': contentType,
+    'Access-Control-Allow-Origin': APP_ORIGIN,
+    'Access-Control-Allow-Headers': 'Accept',
+  });
+  res.end(body);
+};
+
+// Resolve the host and refuse it when any of its addresses isn't public
+const assertPublicHost = async (url) => {
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses = await dns.lookup(hostname, { all: true });
+  if (addresses.some(({ address, family }) => BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'))) {
+    const error = new Error(`${url.hostname} resolves to a private address`);
+    error.status = 403;
+    throw error;
+  }
+};
+
+// fetch() following redirects by hand, so every hop is checked, not just the first URL
+const fetchPublic = async (target, options) => {
+  let url = new URL(target);
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicHost(url);
+    const response = await fetch(url, { ...options, redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, finalUrl: url.href };
+    }
+
+    await response.body?.cancel();
+    url = new URL(location, url);
+    if (redirects >= MAX_REDIRECTS || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+      const error = new Error('Too many or invalid redirects');
+      error.status = 502;
+      throw error;
+    }
+  }
+};
+
+const fetchPage = async (target) => {
+  const { response } = await fetchPublic(target, {
+    headers: { 'User-Agent': 'better-bookmarks-metadata-proxy/1.0', Accept: 'text/html' },
+    signal: AbortSignal.timeout(FETCH_TIMEOUT),
+  });
+
+  if (!response.ok) {
+    const error = new Error(`Upstream responded with HTTP ${response.status}`);
+    error.status = 502;
+    throw error;
+  }
+
+  const html = await response.text();
+  return html.slice(0, MAX_HTML_LENGTH);
+};
+
+const parseTarget = (res, rawUrl) => {
+  let target;
+  try {
+    target = new URL(rawUrl ?? '');
+  } catch {
+    send(res, 400, 'Missing or invalid "url" parameter');
+    return null;
+  }
+
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+    send(res, 400, 'Only http and https URLs are supported');
+    return null;
+  }
+  return target;
+};
+
+// Status code and final URL of a page; HEAD first, GET for servers that refuse HEAD
+const checkLink = async (target) => {
+  for (const method of ['HEAD', 'GET']) {
+    const { response, finalUrl } = await fetchPublic(target, {
+      method,
+      headers: { 'User-Agent': 'better-bookmarks-link-checker/1.0' },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT),
+    });
+    await response.body?.cancel();
+
+    if (method === 'GET' || (response.status !== 405 && response.status !== 501)) {
+      return { statusCode: response.status, finalUrl };
+    }
+  }
+};
+
+const handleCheck = async (res, rawUrl) => {
+  const target = parseTarget(res, rawUrl);
+  if (!target) return;
+
+  let result;
+  if (target.hostname === FIXTURE_HOST) {
+    const redirect = FIXTURE_REDIRECTS[target.pathname];
+    const pathname = redirect ?? target.pathname;
+    result = {
+      statusCode: FIXTURES[pathname] ? 200 : 404,
+      finalUrl: new URL(pathname, target).href,
+    };
+  } else if (OFFLINE) {
+    result = { statusCode: 200, finalUrl: target.href };
+  } else {
+    try {
+      result = await checkLink(target.href);
+    } catch (error) {
+      if (error.status === 403) {
+        return send(res, 403, `Unable to check link: ${error.message}`);
+      }
+      // Unreachable (DNS failure, refused connection, timeout): a result, not a checker error
+      result = { statusCode: null, finalUrl: null };
+    }
+  }
+
+  send(res, 200, JSON.stringify(result), 'application/json');
+};
+
+const handlePage = async (res, rawUrl) => {
+  const target = parseTarget(res, rawUrl);
+  if (!target) return;
+
+  if (target.hostname === FIXTURE_HOST || OFFLINE) {
+    const fixture = target.hostname === FIXTURE_HOST ? FIXTURES[target.pathname] : FIXTURES['/minimal'];
+    return fixture
+      ? send(res, 200, fixture, 'text/html; charset=utf-8')
+      : send(res, 404, `No fixture for ${target.pathname}`);
+  }
+
+  try {
+    send(res, 200, await fetchPage(target.href), 'text/html; charset=utf-8');
+  } catch (error) {
+    const status = error.status ?? (error.name === 'TimeoutError' ? 504 : 502);
+    send(res, status, `Unable to fetch page: ${error.message}`);
+  }
+};
+
+const server = http.createServer((req, res) => {
+  const requestUrl = new URL(req.url ?? '/', `http://localhost:${PORT}`);
+  log(`${req.method} ${requestUrl.pathname}${requestUrl.search}`);
+
+  if (req.method === 'OPTIONS') {
+    return send(res, 204, '');
+  }
+  if (req.method !== 'GET') {
+    return send(res, 405, 'Method not allowed');
+  }
+
+  switch (requestUrl.pathname) {
+    case '/health':
+      return send(res, 200, 'ok');
+    case '/api/v1/page':
+      return handlePage(res, requestUrl.searchParams.get('url'));
+    case '/api/v1/check':
+      return handleCheck(res, requestUrl.searchParams.get('url'));
+    default:
+      return send(res, 404, 'Not found');
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  log(
+    `Metadata proxy and link checker stub listening on http://${HOST}:${PORT} for ${APP_ORIGIN}${OFFLINE ? ' (offline)' : ''}`
+  );
+});
@@ -0,0 +1,345 @@
+import React, { useState, useEffect } from "react";
+import {
+  X,
+  Download,
+  Upload,
+  CheckCircle,
+  AlertTriangle,
+} from "lucide-react";
+import type {
+  BackupRestoreMode,
+  BackupRestorePreview,
+  BackupRestoreReport,
+  BookmarkBackup,
+  BookmarkImportProgress,
+} from "../types/bookmark";
+import { bookmarkService } from "../services/bookmarkService";
+import {
+  getBackupFileName,
+  parseBackup,
+  serializeVerifiedBackup,
+} from "../utils/backup";
+import clsx from "clsx";
+
+interface BackupModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onRestored: (report: BackupRestoreReport) => void;
+}
+
+type BackupStep = "start" | "preview" | "restoring" | "done";
+
+export const BackupModal: React.FC<BackupModalProps> = ({
+  isOpen,
+  onClose,
+  onRestored,
+}) => {
+  const [step, setStep] = useState<BackupStep>("start");
+  const [exporting, setExporting] = useState(false);
+  const [backup, setBackup] = useState<BookmarkBackup | null>(null);
+  const [preview, setPreview] = useState<BackupRestorePreview | null>(null);
+  const [mode, setMode] = useState<BackupRestoreMode>("merge");
+  const [progress, setProgress] = useState<BookmarkImportProgress>({
+    processed: 0,
+    total: 0,
+  });
+  const [report, setReport] = useState<BackupRestoreReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the wizard every time the modal is opened
+  useEffect(() => {
+    if (isOpen) {
+      setStep("start");
+      setBackup(null);
+      setPreview(null);
+      setMode("merge");
+      setReport(null);
+      setError(null);
+      setProgress({ processed: 0, total: 0 });
+    }
+  }, [isOpen]);
+
+  const handleExport = async () => {
+    try {
+      setError(null);
+      setExporting(true);
+      const data = await bookmarkService.exportBackup();
+      const blob = new Blob([serializeVerifiedBackup(data)], {
+        type: "application/json",
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = getBackupFileName(data.exportedAt);
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setError(null);
+      const parsed = parseBackup(await file.text());
+      setBackup(parsed);
+      setPreview(await bookmarkService.previewBackupRestore(parsed));
+      setStep("preview");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid backup file");
+    } finally {
+      // Allow selecting the same file again after an error
+      e.target.value = "";
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+
+    try {
+      setError(null);
+      setStep("restoring");
+      const result = await bookmarkService.restoreBackup(
+        backup,
+        mode,
+        setProgress
+      );
+      setReport(result);
+      setStep("done");
+      onRestored(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Restore failed");
+      setStep("preview");
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const progressPercent =
+    progress.total > 0
+      ? Math.round((progress.processed / progress.total) * 100)
+      : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen px-4 pt-4 pb-20 text-center">
+        {/* Backdrop */}
+        <div
+          className="fixed inset-0 transition-opacity bg-black bg-opacity-50 backdrop-blur-md"
+          onClick={step === "restoring" ? undefined : onClose}
+        />
+
+        {/* Modal */}
+        <div className="relative inline-block w-full max-w-lg p-6 my-8 text-left align-middle transition-all transform card shadow-xl rounded-2xl z-10">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <h3
+              className="text-lg font-medium"
+              style={{ color: "var(--text-primary)" }}
+            >
+              Backup & Restore
+            </h3>
+            <button
+              onClick={onClose}
+              disabled={step === "restoring"}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors duration-200 disabled:opacity-50"
+            >
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          {error && (
+            <div className="mb-4 flex items-start space-x-2 text-sm text-red-600 dark:text-red-400">
+              <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {step === "start" && (
+            <div className="space-y-6">
+              <div className="space-y-2">
+                <h4
+                  className="text-sm font-medium"
+                  style={{ color: "var(--text-primary)" }}
+                >
+                  Export
+                </h4>
+                <p
+                  className="text-sm"
+                  style={{ color: "var(--text-secondary)" }}
+                >
+                  Download every bookmark, collection and tag as a JSON file.
+                </p>
+                <button
+                  type="button"
+                  onClick={handleExport}
+                  disabled={exporting}
+                  className="btn-primary flex items-center space-x-2"
+                >
+                  <Download className="h-4 w-4" />
+                  <span>{exporting ? "Exporting..." : "Download Backup"}</span>
+                </button>
+              </div>
+
+              <div className="space-y-2 pt-4 border-t border-gray-200 dark:border-gray-700">
+                <h4
+                  className="text-sm font-medium"
+                  style={{ color: "var(--text-primary)" }}
+                >
+                  Restore
+                </h4>
+                <p
+                  className="text-sm"
+                  style={{ color: "var(--text-secondary)" }}
+                >
+                  Select a backup file to preview what it contains before
+                  anything is written.
+                </p>
+                <label className="btn-secondary inline-flex items-center space-x-2 cursor-pointer">
+                  <Upload className="h-4 w-4" />
+                  <span>Choose Backup File</span>
+                  <input
+                    type="file"
+                    accept=".json,application/json"
+                    onChange={handleFileChange}
+                    className="hidden"
+                  />
+                </label>
+              </div>
+            </div>
+          )}
+
+          {step === "preview" && preview && backup && (
+            <div className="space-y-4">
+              <div className="text-sm space-y-1 text-gray-700 dark:text-gray-300">
+                <p>
+                  Backup from{" "}
+                  <span className="font-medium">
+                    {backup.exportedAt.toLocaleString()}
+                  </span>
+                </p>
+                <p>
+                  {preview.bookmarks} bookmarks, {preview.collections}{" "}
+                  collections, {preview.tags} tags
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                {(
+                  [
+                    {
+                      value: "merge",
+                      label: "Merge by URL",
+                      description: `Add ${preview.newBookmarks} new bookmarks and update ${preview.existingBookmarks} you already have.`,
+                    },
+                    {
+                      value: "replace",
+                      label: "Replace all",
+                      description: `Delete your ${preview.currentBookmarks} current bookmarks and collections, then restore the backup.`,
+                    },
+                  ] as const
+                ).map((option) => (
+                  <label
+                    key={option.value}
+                    className={clsx(
+                      "flex items-start space-x-3 p-3 rounded-lg border cursor-pointer transition-colors duration-200",
+                      mode === option.value
+                        ? "border-primary-500 bg-primary-50 dark:bg-primary-900/30"
+                        : "border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700"
+                    )}
+                  >
+                    <input
+                      type="radio"
+                      name="restore-mode"
+                      value={option.value}
+                      checked={mode === option.value}
+                      onChange={() => setMode(option.value)}
+                      className="mt-1 text-primary-600 focus:ring-primary-500"
+                    />
+                    <div>
+                      <p
+                        className="text-sm font-medium"
+                        style={{ color: "var(--text-primary)" }}
+                      >
+                        {option.label}
+                      </p>
+                      <p className="text-xs text-gray-600 dark:text-gray-400">
+                        {option.description}
+                      </p>
+                    </div>
+                  </label>
+                ))}
+              </div>
+
+              <div className="flex justify-end space-x-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setStep("start")}
+                  className="btn-secondary"
+                >
+                  Back
+                </button>
+                <button
+                  type="button"
+                  onClick={handleRestore}
+                  className={clsx(
+                    mode === "replace"
+                      ? "font-medium py-2 px-4 rounded-lg transition-colors duration-200 bg-red-600 hover:bg-red-700 text-white"
+                      : "btn-primary"
+                  )}
+                >
+                  {mode === "replace" ? "Replace All" : "Merge Backup"}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {step === "restoring" && (
+            <div className="space-y-3">
+              <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-primary-500 transition-all duration-300"
+                  style={{ width: `${progressPercent}%` }}
+                />
+              </div>
+              <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+                Restoring backup...
+              </p>
+            </div>
+          )}
+
+          {step === "done" && report && (
+            <div className="space-y-4">
+              <div className="flex items-center space-x-2">
+                <CheckCircle className="h-5 w-5 text-green-500" />
+                <span
+                  className="text-sm font-medium"
+                  style={{ color: "var(--text-primary)" }}
+                >
+                  Restore complete
+                </span>
+              </div>
+              <ul className="text-sm space-y-1 text-gray-700 dark:text-gray-300">
+                <li>Created: {report.created}</li>
+                <li>Updated: {report.updated}</li>
+                {report.deleted > 0 && <li>Deleted: {report.deleted}</li>}
+                <li>Collections created: {report.collectionsCreated}</li>
+                {report.invalid > 0 && <li>Invalid: {report.invalid}</li>}
+              </ul>
+              <div className="flex justify-end pt-4">
+                <button type="button" onClick={onClose} className="btn-primary">
+                  Done
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useMemo } from "react";
+import React, { useState, useCallback, useMemo, useRef } from "react";
 import { useToast } from "../hooks/useToast";
 import { Header } from "./Header";
 import { BookmarkFilters } from "./BookmarkFilters";
@@ -8,18 +8,66 @@ import { Pagination } from "./Pagination";
 import { LoadingState } from "./LoadingSpinner";
 import { EmptyState } from "./EmptyState";
 import { ConfirmDialog } from "./ConfirmDialog";
+import { CollectionSidebar } from "./CollectionSidebar";
+import { SavedSearchList } from "./SavedSearchList";
+import { ImportBookmarksModal } from "./ImportBookmarksModal";
+import { BackupModal } from "./BackupModal";
+import { ExportModal } from "./ExportModal";
+import { TagManagerModal } from "./TagManagerModal";
+import { DuplicatesModal } from "./DuplicatesModal";
+import { TrashModal } from "./TrashModal";
+import { BookmarkDetailsModal } from "./BookmarkDetailsModal";
+import { ReadLaterView } from "./ReadLaterView";
+import { PinnedStrip } from "./PinnedStrip";
+import { PendingSyncModal } from "./PendingSyncModal";
 import { useBookmarks } from "../hooks/useBookmarks";
+import { useCollections } from "../hooks/useCollections";
+import { useSavedSearches } from "../hooks/useSavedSearches";
+import { useTags } from "../hooks/useTags";
+import { usePendingSync } from "../hooks/usePendingSync";
+import { useLinkHealth } from "../hooks/useLinkHealth";
+import { useTrash } from "../hooks/useTrash";
+import { useReadLater } from "../hooks/useReadLater";
+import { usePinnedBookmarks } from "../hooks/usePinnedBookmarks";
 import { bookmarkService } from "../services/bookmarkService";
 import { Watermark } from "./Watermark";
+import { getPositiveTerms, parseSearchQuery } from "../utils/searchQuery";
+import { getTagNames } from "../utils/tagTree";
 import type {
+  BackupRestoreReport,
   Bookmark,
   BookmarkFormData,
+  BookmarkImportReport,
   BookmarkFilters as FilterType,
+  Collection,
+  CollectionFormData,
+  DuplicateMerge,
+  FavoriteFilter,
+  LinkHealthFilter,
+  ReadStatus,
+  SavedSearch,
   SortOption,
 } from "../types/bookmark";
+import type { ExportFormat } from "../utils/bookmarkExport";
 
 const ITEMS_PER_PAGE = 12;
 
+// Helper function to compare two lists of filter values, ignoring their order
+const haveSameValues = (a: string[], b: string[]): boolean =>
+  [...a].sort().join("\n") === [...b].sort().join("\n");
+
+// Helper function to check whether two filter states show the same bookmarks in the same order
+const areFiltersEqual = (a: FilterType, b: FilterType): boolean =>
+  a.search.trim() === b.search.trim() &&
+  haveSameValues(a.tags, b.tags) &&
+  a.tagFilterMode === b.tagFilterMode &&
+  a.sortBy === b.sortBy &&
+  a.collectionId === b.collectionId &&
+  a.includeSubcollections === b.includeSubcollections &&
+  haveSameValues(a.favorites, b.favorites) &&
+  haveSameValues(a.readStatuses, b.readStatuses) &&
+  haveSameValues(a.linkHealth, b.linkHealth);
+
 export const BookmarkApp: React.FC = () => {
   const { showToast } = useToast();
 
@@ -28,14 +76,34 @@ export const BookmarkApp: React.FC = () => {
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [tagFilterMode, setTagFilterMode] = useState<"AND" | "OR">("OR");
   const [sortBy, setSortBy] = useState<SortOption>("newest");
-  const [currentPage, setCurrentPage] = useState(1);
+  const [selectedCollectionId, setSelectedCollectionId] = useState<
+    string | null
+  >(null);
+  const [includeSubcollections, setIncludeSubcollections] = useState(true);
+  const [favoriteFilters, setFavoriteFilters] = useState<FavoriteFilter[]>([]);
+  const [readStatusFilters, setReadStatusFilters] = useState<ReadStatus[]>([]);
+  const [linkHealthFilters, setLinkHealthFilters] = useState<
+    LinkHealthFilter[]
+  >([]);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingBookmark, setEditingBookmark] = useState<Bookmark | null>(null);
   const [modalLoading, setModalLoading] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isBackupModalOpen, setIsBackupModalOpen] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat | null>(null);
+  const [isTagManagerOpen, setIsTagManagerOpen] = useState(false);
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [isReadLaterOpen, setIsReadLaterOpen] = useState(false);
+  const [detailsBookmark, setDetailsBookmark] = useState<Bookmark | null>(
+    null
+  );
+  const [isPendingSyncModalOpen, setIsPendingSyncModalOpen] = useState(false);
   const [confirmDialog, setConfirmDialog] = useState<{
     isOpen: boolean;
     title: string;
     message: string;
+    confirmText?: string; // "Delete" unless set
     onConfirm: () => void;
   }>({
     isOpen: false,
@@ -52,18 +120,109 @@ export const BookmarkApp: React.FC = () => {
       tags: selectedTags,
       tagFilterMode,
       sortBy,
+      collectionId: selectedCollectionId,
+      includeSubcollections,
+      favorites: favoriteFilters,
+      readStatuses: readStatusFilters,
+      linkHealth: linkHealthFilters,
     }),
-    [searchQuery, selectedTags, tagFilterMode, sortBy]
+    [
+      searchQuery,
+      selectedTags,
+      tagFilterMode,
+      sortBy,
+      selectedCollectionId,
+      includeSubcollections,
+      favoriteFilters,
+      readStatusFilters,
+      linkHealthFilters,
+    ]
   );
 
   // Load bookmarks with current filters and pagination
-  const { bookmarks, loading, error, pagination, refreshBookmarks } =
-    useBookmarks(filters, currentPage, ITEMS_PER_PAGE);
+  // Changing a filter goes back to page 1 in the same update
+  const {
+    bookmarks,
+    loading,
+    error,
+    pagination,
+    setCurrentPage,
+    refreshBookmarks,
+    updateLocalBookmark,
+  } = useBookmarks(filters, ITEMS_PER_PAGE);
+
+  // Load the user's collection tree
+  const { collections, refreshCollections } = useCollections();
+
+  // Tags with their stored colours and usage counts
+  const { tags, tagColors, refreshTags } = useTags(refreshTrigger);
+
+  // Deleted bookmarks, kept until the retention window runs out
+  const { trash, retentionDays, refreshTrash } = useTrash(refreshTrigger);
+  const { queue: readLaterQueue, counts: readStatusCounts } =
+    useReadLater(refreshTrigger);
+
+  // Pinned bookmarks, shown above the list regardless of page or filters
+  const { pinned } = usePinnedBookmarks(refreshTrigger);
+
+  // Named filter combinations with live result counts
+  const { savedSearches, counts: savedSearchCounts, refreshSavedSearches } =
+    useSavedSearches(refreshTrigger);
+  const activeSavedSearchId = useMemo(
+    () =>
+      savedSearches.find((savedSearch) =>
+        areFiltersEqual(savedSearch.filters, filters)
+      )?.id ?? null,
+    [savedSearches, filters]
+  );
+
+  // Changes made offline that are waiting to be written to Firestore
+  const {
+    operations: pendingOperations,
+    isOnline,
+    syncing,
+    syncNow,
+    retryOperation,
+    discardOperation,
+  } = usePendingSync();
+
+  // Broken-link checks: periodic in the background, or on demand
+  const {
+    enabled: linkCheckEnabled,
+    progress: linkCheckProgress,
+    checkFilteredLinks,
+    checkLink,
+  } = useLinkHealth();
+
+  // Syntax errors are shown under the search input; matched words are highlighted on cards
+  const parsedSearch = useMemo(
+    () => parseSearchQuery(searchQuery),
+    [searchQuery]
+  );
+  const searchError = parsedSearch.error;
+  const highlightTerms = useMemo(
+    () => getPositiveTerms(parsedSearch.ast, ["text", "title", "tag"]),
+    [parsedSearch]
+  );
+
+  // Sort to restore once the search is cleared, while relevance sorting is automatic
+  const sortBeforeSearchRef = useRef<SortOption | null>(null);
+
+  // Known tags and domains for search autocomplete
+  const [searchSuggestionSource, setSearchSuggestionSource] = useState<{
+    tags: string[];
+    domains: string[];
+  }>({ tags: [], domains: [] });
 
-  // Reset to first page when filters change
   React.useEffect(() => {
-    setCurrentPage(1);
-  }, [searchQuery, selectedTags, tagFilterMode, sortBy]);
+    Promise.all([bookmarkService.getAllTags(), bookmarkService.getAllDomains()])
+      .then(([tagTree, domains]) =>
+        setSearchSuggestionSource({ tags: getTagNames(tagTree), domains })
+      )
+      .catch(() => {
+        // Autocomplete is optional; search still works without it
+      });
+  }, [refreshTrigger]);
 
   // Modal handlers
   const handleAddBookmark = useCallback(() => {
@@ -89,10 +248,20 @@ export const BookmarkApp: React.FC = () => {
 
         if (editingBookmark) {
           await bookmarkService.updateBookmark(editingBookmark.id, formData);
-          showToast("success", "Bookmark updated successfully!");
+          showToast(
+            "success",
+            isOnline
+              ? "Bookmark updated successfully!"
+              : "Bookmark updated. It will sync when you're back online."
+          );
         } else {
           await bookmarkService.createBookmark(formData);
-          showToast("success", "Bookmark added successfully!");
+          showToast(
+            "success",
+            isOnline
+              ? "Bookmark added successfully!"
+              : "Bookmark added. It will sync when you're back online."
+          );
         }
 
         await refreshBookmarks();
@@ -108,7 +277,23 @@ export const BookmarkApp: React.FC = () => {
         setModalLoading(false);
       }
     },
-    [editingBookmark, showToast, refreshBookmarks, handleCloseModal]
+    [editingBookmark, isOnline, showToast, refreshBookmarks, handleCloseModal]
+  );
+
+  const handleRestoreBookmark = useCallback(
+    async (id: string) => {
+      try {
+        await bookmarkService.restoreBookmark(id);
+        showToast("success", "Bookmark restored.");
+        await refreshBookmarks();
+        setRefreshTrigger((prev) => prev + 1);
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Failed to restore bookmark";
+        showToast("error", message);
+      }
+    },
+    [showToast, refreshBookmarks]
   );
 
   const handleDeleteBookmark = useCallback(
@@ -116,12 +301,18 @@ export const BookmarkApp: React.FC = () => {
       setConfirmDialog({
         isOpen: true,
         title: "Delete Bookmark",
-        message:
-          "Are you sure you want to delete this bookmark? This action cannot be undone.",
+        message: `Move this bookmark to the trash? You can restore it from there for ${retentionDays} days.`,
         onConfirm: async () => {
           try {
             await bookmarkService.deleteBookmark(id);
-            showToast("success", "Bookmark deleted successfully!");
+            showToast(
+              "success",
+              isOnline
+                ? "Bookmark moved to the trash."
+                : "Bookmark moved to the trash. It will sync when you're back online.",
+              8000,
+              { label: "Undo", onClick: () => handleRestoreBookmark(id) }
+            );
             await refreshBookmarks();
             setRefreshTrigger((prev) => prev + 1);
           } catch (error) {
@@ -135,37 +326,546 @@ export const BookmarkApp: React.FC = () => {
         },
       });
     },
+    [isOnline, retentionDays, showToast, refreshBookmarks, handleRestoreBookmark]
+  );
+
+  const regenerateThumbnail = useCallback(
+    async (id: string, force: boolean) => {
+      try {
+        await bookmarkService.regenerateThumbnail(id, force);
+        showToast("success", "Thumbnail regenerated successfully!");
+
+        // Force a complete refresh from Firebase
+        await refreshBookmarks();
+        setRefreshTrigger((prev) => prev + 1);
+      } catch (error) {
+        const message =
+          error instanceof Error
+            ? error.message
+            : "Failed to regenerate thumbnail";
+        showToast("error", message);
+      }
+    },
     [showToast, refreshBookmarks]
   );
 
   const handleRegenerateThumbnail = useCallback(
+    async (id: string) => {
+      const bookmark = bookmarks.find((item) => item.id === id);
+      if (bookmark?.thumbnailSource !== "user") {
+        await regenerateThumbnail(id, false);
+        return;
+      }
+
+      // Uploaded thumbnails are only replaced on request
+      setConfirmDialog({
+        isOpen: true,
+        title: "Replace Thumbnail",
+        message:
+          "This bookmark uses a thumbnail you uploaded. Replace it with a generated one?",
+        confirmText: "Replace",
+        onConfirm: async () => {
+          setConfirmDialog((prev) => ({ ...prev, isOpen: false }));
+          await regenerateThumbnail(id, true);
+        },
+      });
+    },
+    [bookmarks, regenerateThumbnail]
+  );
+
+  // Link health handlers
+  const handleCheckLink = useCallback(
     async (id: string) => {
       try {
-        await bookmarkService.regenerateThumbnail(id);
-        showToast("success", "Thumbnail regenerated successfully!");
+        const report = await checkLink(id);
+        showToast(
+          report.broken > 0 ? "error" : "success",
+          report.broken > 0
+            ? "This link looks broken."
+            : report.redirected > 0
+            ? "This link redirects to a new address."
+            : "This link works."
+        );
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Failed to check link";
+        showToast("error", message);
+      }
+    },
+    [checkLink, showToast]
+  );
 
-        // Force a complete refresh from Firebase
+  const handleCheckLinks = useCallback(async () => {
+    try {
+      const report = await checkFilteredLinks(filters);
+      showToast(
+        "success",
+        `Checked ${report.checked} link${report.checked !== 1 ? "s" : ""}: ${
+          report.broken
+        } broken, ${report.redirected} redirected.`
+      );
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Failed to check links";
+      showToast("error", message);
+    }
+  }, [checkFilteredLinks, filters, showToast]);
+
+  const handleUpdateUrlToRedirect = useCallback(
+    async (id: string) => {
+      try {
+        await bookmarkService.updateUrlToRedirect(id);
+        showToast("success", "Bookmark URL updated to the redirect target.");
         await refreshBookmarks();
         setRefreshTrigger((prev) => prev + 1);
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Failed to update URL";
+        showToast("error", message);
+      }
+    },
+    [showToast, refreshBookmarks]
+  );
+
+  // Import handlers
+  const handleOpenImport = useCallback(() => {
+    setIsImportModalOpen(true);
+  }, []);
+
+  const handleImported = useCallback(
+    async (report: BookmarkImportReport) => {
+      showToast(
+        "success",
+        `Imported ${report.imported} bookmark${report.imported !== 1 ? "s" : ""}.`
+      );
+      await refreshBookmarks();
+      setRefreshTrigger((prev) => prev + 1);
+    },
+    [showToast, refreshBookmarks]
+  );
+
+  // Backup handlers
+  const handleOpenBackup = useCallback(() => {
+    setIsBackupModalOpen(true);
+  }, []);
+
+  const handleRestored = useCallback(
+    async (report: BackupRestoreReport) => {
+      showToast(
+        "success",
+        `Backup restored: ${report.created} created, ${report.updated} updated.`
+      );
+      await refreshBookmarks();
+      await refreshCollections();
+      setRefreshTrigger((prev) => prev + 1);
+    },
+    [showToast, refreshBookmarks, refreshCollections]
+  );
+
+  // Export handlers
+  const handleExported = useCallback(
+    (count: number) => {
+      setExportFormat(null);
+      showToast(
+        "success",
+        `Exported ${count} bookmark${count !== 1 ? "s" : ""}.`
+      );
+    },
+    [showToast]
+  );
+
+  // Tag management handlers
+  const handleOpenTagManager = useCallback(() => {
+    setIsTagManagerOpen(true);
+  }, []);
+
+  const handleTagsChanged = useCallback(
+    async (message: string) => {
+      showToast("success", message);
+      await refreshTags();
+      await refreshBookmarks();
+      setRefreshTrigger((prev) => prev + 1);
+    },
+    [showToast, refreshTags, refreshBookmarks]
+  );
+
+  // Duplicate handlers
+  const handleOpenDuplicates = useCallback(() => {
+    setIsDuplicatesOpen(true);
+  }, []);
+
+  const handleUndoMerge = useCallback(
+    async (merges: DuplicateMerge[]) => {
+      try {
+        // Latest merge first, in case one bookmark was kept by several merges
+        for (const merge of [...merges].reverse()) {
+          await bookmarkService.undoMergeDuplicates(merge);
+        }
+        showToast("success", "Merge undone.");
+        await refreshTags();
+        await refreshBookmarks();
+        setRefreshTrigger((prev) => prev + 1);
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Failed to undo the merge";
+        showToast("error", message);
+      }
+    },
+    [showToast, refreshTags, refreshBookmarks]
+  );
+
+  const handleDuplicatesMerged = useCallback(
+    async (message: string, merges: DuplicateMerge[]) => {
+      showToast("success", message, 8000, {
+        label: "Undo",
+        onClick: () => handleUndoMerge(merges),
+      });
+      await refreshTags();
+      await refreshBookmarks();
+      setRefreshTrigger((prev) => prev + 1);
+    },
+    [showToast, refreshTags, refreshBookmarks, handleUndoMerge]
+  );
+
+  // Trash handlers
+  const handleTrashChanged = useCallback(
+    async (message: string) => {
+      showToast("success", message);
+      await refreshTrash();
+      await refreshBookmarks();
+      setRefreshTrigger((prev) => prev + 1);
+    },
+    [showToast, refreshTrash, refreshBookmarks]
+  );
 
-        // Force page to re-render by updating current page
-        setCurrentPage((prev) => prev);
+  // Reading list handlers
+  const handleReadStatusChange = useCallback(
+    async (id: string, status: ReadStatus | null) => {
+      try {
+        await bookmarkService.setReadStatus(id, status);
+        await refreshBookmarks();
+        setRefreshTrigger((prev) => prev + 1);
       } catch (error) {
         const message =
           error instanceof Error
             ? error.message
-            : "Failed to regenerate thumbnail";
+            : "Failed to update reading status";
         showToast("error", message);
       }
     },
     [showToast, refreshBookmarks]
   );
 
-  // Search handler with debouncing
-  const handleSearchChange = useCallback((query: string) => {
-    setSearchQuery(query);
+  // Favorite and pin handlers
+  const handleToggleFavorite = useCallback(
+    async (id: string, favorite: boolean) => {
+      try {
+        await bookmarkService.setFavorite(id, favorite);
+        await refreshBookmarks();
+        setRefreshTrigger((prev) => prev + 1);
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Failed to update favorite";
+        showToast("error", message);
+      }
+    },
+    [showToast, refreshBookmarks]
+  );
+
+  const handleTogglePinned = useCallback(
+    async (id: string, isPinned: boolean) => {
+      try {
+        await bookmarkService.setPinned(id, isPinned);
+        await refreshBookmarks();
+        setRefreshTrigger((prev) => prev + 1);
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Failed to update pin";
+        showToast("error", message);
+      }
+    },
+    [showToast, refreshBookmarks]
+  );
+
+  const handleReorderPinned = useCallback(
+    async (orderedIds: string[]) => {
+      try {
+        await bookmarkService.reorderPinnedBookmarks(orderedIds);
+        setRefreshTrigger((prev) => prev + 1);
+      } catch (error) {
+        const message =
+          error instanceof Error
+            ? error.message
+            : "Failed to reorder pinned bookmarks";
+        showToast("error", message);
+      }
+    },
+    [showToast]
+  );
+
+  // Visit tracking; the card shows the visit right away, and the list is reloaded
+  // once the batched write lands if it is sorted by visits
+  const handleVisitBookmark = useCallback(
+    (id: string) => {
+      try {
+        if (bookmarkService.recordVisit(id)) {
+          updateLocalBookmark(id, (bookmark) => ({
+            visitCount: (bookmark.visitCount ?? 0) + 1,
+            lastVisitedAt: new Date(),
+          }));
+        }
+      } catch {
+        // Visit counts are best effort and never block opening a link
+      }
+    },
+    [updateLocalBookmark]
+  );
+
+  // Bookmark details handlers
+  const handleShowDetails = useCallback((bookmark: Bookmark) => {
+    setDetailsBookmark(bookmark);
   }, []);
 
+  const handleBookmarkReverted = useCallback(
+    async (message: string) => {
+      showToast("success", message);
+      await refreshBookmarks();
+      setRefreshTrigger((prev) => prev + 1);
+    },
+    [showToast, refreshBookmarks]
+  );
+
+  // Pending sync handlers
+  const handleSyncNow = useCallback(async () => {
+    await syncNow();
+    await refreshBookmarks();
+    setRefreshTrigger((prev) => prev + 1);
+  }, [syncNow, refreshBookmarks]);
+
+  const handleRetryOperation = useCallback(
+    async (id: string) => {
+      await retryOperation(id);
+      await refreshBookmarks();
+      setRefreshTrigger((prev) => prev + 1);
+    },
+    [retryOperation, refreshBookmarks]
+  );
+
+  const handleDiscardOperation = useCallback(
+    async (id: string) => {
+      await discardOperation(id);
+      await refreshBookmarks();
+      setRefreshTrigger((prev) => prev + 1);
+    },
+    [discardOperation, refreshBookmarks]
+  );
+
+  // Collection handlers
+  const handleCreateCollection = useCallback(
+    async (data: CollectionFormData) => {
+      try {
+        await bookmarkService.createCollection(data);
+        showToast("success", "Collection created successfully!");
+        await refreshCollections();
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Failed to create collection";
+        showToast("error", message);
+        throw error;
+      }
+    },
+    [showToast, refreshCollections]
+  );
+
+  const handleUpdateCollection = useCallback(
+    async (id: string, data: CollectionFormData) => {
+      try {
+        await bookmarkService.updateCollection(id, data);
+        showToast("success", "Collection updated successfully!");
+        await refreshCollections();
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Failed to update collection";
+        showToast("error", message);
+        throw error;
+      }
+    },
+    [showToast, refreshCollections]
+  );
+
+  const handleReorderCollections = useCallback(
+    async (orderedIds: string[]) => {
+      try {
+        await bookmarkService.reorderCollections(orderedIds);
+        await refreshCollections();
+      } catch (error) {
+        const message =
+          error instanceof Error
+            ? error.message
+            : "Failed to reorder collections";
+        showToast("error", message);
+        throw error;
+      }
+    },
+    [showToast, refreshCollections]
+  );
+
+  const handleDeleteCollection = useCallback(
+    (collection: Collection) => {
+      setConfirmDialog({
+        isOpen: true,
+        title: "Delete Collection",
+        message: `Are you sure you want to delete "${collection.name}"? Its bookmarks and sub-collections will be moved to the parent collection.`,
+        onConfirm: async () => {
+          try {
+            await bookmarkService.deleteCollection(collection.id);
+            showToast("success", "Collection deleted successfully!");
+            if (selectedCollectionId === collection.id) {
+              setSelectedCollectionId(collection.parentId);
+            }
+            await refreshCollections();
+            await refreshBookmarks();
+          } catch (error) {
+            const message =
+              error instanceof Error
+                ? error.message
+                : "Failed to delete collection";
+            showToast("error", message);
+          }
+          setConfirmDialog((prev) => ({ ...prev, isOpen: false }));
+        },
+      });
+    },
+    [showToast, refreshCollections, refreshBookmarks, selectedCollectionId]
+  );
+
+  // Saved search handlers
+  const handleOpenSavedSearch = useCallback((savedSearch: SavedSearch) => {
+    const saved = savedSearch.filters;
+    // The saved sort is restored as-is, not swapped for relevance while searching
+    sortBeforeSearchRef.current = null;
+    setSearchQuery(saved.search);
+    setSelectedTags(saved.tags);
+    setTagFilterMode(saved.tagFilterMode);
+    setSortBy(saved.sortBy);
+    setSelectedCollectionId(saved.collectionId);
+    setIncludeSubcollections(saved.includeSubcollections);
+    setFavoriteFilters(saved.favorites);
+    setReadStatusFilters(saved.readStatuses);
+    setLinkHealthFilters(saved.linkHealth);
+  }, []);
+
+  const handleCreateSavedSearch = useCallback(
+    async (name: string) => {
+      try {
+        await bookmarkService.createSavedSearch({ name, filters });
+        showToast("success", "Search saved successfully!");
+        await refreshSavedSearches();
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Failed to save search";
+        showToast("error", message);
+        throw error;
+      }
+    },
+    [filters, showToast, refreshSavedSearches]
+  );
+
+  const handleRenameSavedSearch = useCallback(
+    async (savedSearch: SavedSearch, name: string) => {
+      try {
+        await bookmarkService.updateSavedSearch(savedSearch.id, {
+          name,
+          filters: savedSearch.filters,
+        });
+        showToast("success", "Saved search renamed successfully!");
+        await refreshSavedSearches();
+      } catch (error) {
+        const message =
+          error instanceof Error
+            ? error.message
+            : "Failed to rename saved search";
+        showToast("error", message);
+        throw error;
+      }
+    },
+    [showToast, refreshSavedSearches]
+  );
+
+  const handleUpdateSavedSearchFilters = useCallback(
+    async (savedSearch: SavedSearch) => {
+      try {
+        await bookmarkService.updateSavedSearch(savedSearch.id, {
+          name: savedSearch.name,
+          filters,
+        });
+        showToast("success", `"${savedSearch.name}" now uses the current filters`);
+        await refreshSavedSearches();
+      } catch (error) {
+        const message =
+          error instanceof Error
+            ? error.message
+            : "Failed to update saved search";
+        showToast("error", message);
+        throw error;
+      }
+    },
+    [filters, showToast, refreshSavedSearches]
+  );
+
+  const handleDeleteSavedSearch = useCallback(
+    (savedSearch: SavedSearch) => {
+      setConfirmDialog({
+        isOpen: true,
+        title: "Delete Saved Search",
+        message: `Are you sure you want to delete "${savedSearch.name}"? Your bookmarks are not affected.`,
+        onConfirm: async () => {
+          try {
+            await bookmarkService.deleteSavedSearch(savedSearch.id);
+            showToast("success", "Saved search deleted successfully!");
+            await refreshSavedSearches();
+          } catch (error) {
+            const message =
+              error instanceof Error
+                ? error.message
+                : "Failed to delete saved search";
+            showToast("error", message);
+          }
+          setConfirmDialog((prev) => ({ ...prev, isOpen: false }));
+        },
+      });
+    },
+    [showToast, refreshSavedSearches]
+  );
+
+  const handleCollectionChange = useCallback((collectionId: string | null) => {
+    setSelectedCollectionId(collectionId);
+  }, []);
+
+  const handleIncludeSubcollectionsChange = useCallback((include: boolean) => {
+    setIncludeSubcollections(include);
+  }, []);
+
+  // Search handler with debouncing
+  const handleSearchChange = useCallback(
+    (query: string) => {
+      const searching = query.trim() !== "";
+      if (searching && !searchQuery.trim()) {
+        sortBeforeSearchRef.current = sortBy;
+        setSortBy("relevance");
+      } else if (!searching && sortBeforeSearchRef.current) {
+        setSortBy(sortBeforeSearchRef.current);
+        sortBeforeSearchRef.current = null;
+      }
+      setSearchQuery(query);
+      // Searching looks through every bookmark, not just the reading list
+      if (searching) {
+        setIsReadLaterOpen(false);
+      }
+    },
+    [searchQuery, sortBy]
+  );
+
   // Filter handlers
   const handleTagsChange = useCallback((tags: string[]) => {
     setSelectedTags(tags);
@@ -176,16 +876,33 @@ export const BookmarkApp: React.FC = () => {
   }, []);
 
   const handleSortChange = useCallback((sort: SortOption) => {
+    // A sort picked during a search is kept after the search is cleared
+    sortBeforeSearchRef.current = null;
     setSortBy(sort);
   }, []);
 
-  const handlePageChange = useCallback((page: number) => {
-    setCurrentPage(page);
-    window.scrollTo({ top: 0, behavior: "smooth" });
-  }, []);
+  const handlePageChange = useCallback(
+    (page: number) => {
+      setCurrentPage(page);
+      window.scrollTo({ top: 0, behavior: "smooth" });
+    },
+    [setCurrentPage]
+  );
 
   // Determine what to show in the main content area
   const renderMainContent = () => {
+    if (isReadLaterOpen) {
+      return (
+        <ReadLaterView
+          queue={readLaterQueue}
+          counts={readStatusCounts}
+          onReadStatusChange={handleReadStatusChange}
+          onVisit={handleVisitBookmark}
+          onClose={() => setIsReadLaterOpen(false)}
+        />
+      );
+    }
+
     if (loading) {
       return <LoadingState />;
     }
@@ -203,7 +920,13 @@ export const BookmarkApp: React.FC = () => {
 
     if (bookmarks.length === 0) {
       const hasFilters =
-        searchQuery || selectedTags.length > 0 || sortBy !== "newest";
+        searchQuery ||
+        selectedTags.length > 0 ||
+        sortBy !== "newest" ||
+        selectedCollectionId ||
+        favoriteFilters.length > 0 ||
+        readStatusFilters.length > 0 ||
+        linkHealthFilters.length > 0;
       return (
         <EmptyState
           type={hasFilters ? "no-results" : "no-bookmarks"}
@@ -222,7 +945,16 @@ export const BookmarkApp: React.FC = () => {
                 bookmark={bookmark}
                 onEdit={handleEditBookmark}
                 onDelete={handleDeleteBookmark}
+                onShowDetails={handleShowDetails}
                 onRegenerateThumbnail={handleRegenerateThumbnail}
+                onCheckLink={linkCheckEnabled ? handleCheckLink : undefined}
+                onUpdateUrlToRedirect={handleUpdateUrlToRedirect}
+                onReadStatusChange={handleReadStatusChange}
+                onToggleFavorite={handleToggleFavorite}
+                onTogglePinned={handleTogglePinned}
+                onVisit={handleVisitBookmark}
+                highlightTerms={highlightTerms}
+                tagColors={tagColors}
               />
             </div>
           ))}
@@ -243,7 +975,22 @@ export const BookmarkApp: React.FC = () => {
       <Header
         searchQuery={searchQuery}
         onSearchChange={handleSearchChange}
+        searchError={searchError}
+        searchSuggestionSource={searchSuggestionSource}
         onAddBookmark={handleAddBookmark}
+        onImportBookmarks={handleOpenImport}
+        onOpenBackup={handleOpenBackup}
+        onExport={setExportFormat}
+        onManageTags={handleOpenTagManager}
+        onFindDuplicates={handleOpenDuplicates}
+        onOpenTrash={() => setIsTrashOpen(true)}
+        trashCount={trash.length}
+        unreadCount={readStatusCounts.unread}
+        isReadLaterOpen={isReadLaterOpen}
+        onToggleReadLater={() => setIsReadLaterOpen((prev) => !prev)}
+        pendingSyncCount={pendingOperations.length}
+        isOffline={!isOnline}
+        onOpenPendingSync={() => setIsPendingSyncModalOpen(true)}
       />
 
       {/* Filters */}
@@ -251,15 +998,66 @@ export const BookmarkApp: React.FC = () => {
         selectedTags={selectedTags}
         tagFilterMode={tagFilterMode}
         sortBy={sortBy}
+        collections={collections}
+        selectedCollectionId={selectedCollectionId}
+        includeSubcollections={includeSubcollections}
         onTagsChange={handleTagsChange}
         onTagFilterModeChange={handleTagFilterModeChange}
         onSortChange={handleSortChange}
+        onCollectionChange={handleCollectionChange}
+        onIncludeSubcollectionsChange={handleIncludeSubcollectionsChange}
+        favoriteFilters={favoriteFilters}
+        readStatusFilters={readStatusFilters}
+        linkHealthFilters={linkHealthFilters}
+        onFavoriteFiltersChange={setFavoriteFilters}
+        onReadStatusFiltersChange={setReadStatusFilters}
+        onLinkHealthFiltersChange={setLinkHealthFilters}
         refreshTrigger={refreshTrigger}
+        tagColors={tagColors}
+        onCheckLinks={linkCheckEnabled ? handleCheckLinks : undefined}
+        linkCheckProgress={linkCheckProgress}
       />
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {renderMainContent()}
+        <div className="flex gap-8">
+          {/* Collection Tree */}
+          <div className="hidden lg:block w-64 flex-shrink-0 space-y-4">
+            <CollectionSidebar
+              collections={collections}
+              selectedCollectionId={selectedCollectionId}
+              onSelectCollection={handleCollectionChange}
+              onCreateCollection={handleCreateCollection}
+              onUpdateCollection={handleUpdateCollection}
+              onDeleteCollection={handleDeleteCollection}
+              onReorderCollections={handleReorderCollections}
+            />
+
+            {/* Saved Searches */}
+            <SavedSearchList
+              savedSearches={savedSearches}
+              counts={savedSearchCounts}
+              activeSavedSearchId={activeSavedSearchId}
+              onOpen={handleOpenSavedSearch}
+              onCreate={handleCreateSavedSearch}
+              onRename={handleRenameSavedSearch}
+              onUpdateFilters={handleUpdateSavedSearchFilters}
+              onDelete={handleDeleteSavedSearch}
+            />
+          </div>
+
+          <div className="flex-1 min-w-0">
+            {!isReadLaterOpen && (
+              <PinnedStrip
+                pinned={pinned}
+                onReorder={handleReorderPinned}
+                onUnpin={handleTogglePinned}
+                onVisit={handleVisitBookmark}
+              />
+            )}
+            {renderMainContent()}
+          </div>
+        </div>
       </main>
 
       {/* Modal */}
@@ -269,6 +1067,80 @@ export const BookmarkApp: React.FC = () => {
         onSubmit={handleSubmitBookmark}
         bookmark={editingBookmark}
         loading={modalLoading}
+        collections={collections}
+        defaultCollectionId={selectedCollectionId}
+        tagColors={tagColors}
+      />
+
+      {/* Import Modal */}
+      <ImportBookmarksModal
+        isOpen={isImportModalOpen}
+        onClose={() => setIsImportModalOpen(false)}
+        onImported={handleImported}
+      />
+
+      {/* Backup Modal */}
+      <BackupModal
+        isOpen={isBackupModalOpen}
+        onClose={() => setIsBackupModalOpen(false)}
+        onRestored={handleRestored}
+      />
+
+      {/* Export Modal */}
+      <ExportModal
+        isOpen={exportFormat !== null}
+        onClose={() => setExportFormat(null)}
+        format={exportFormat ?? "html"}
+        filters={filters}
+        collections={collections}
+        onExported={handleExported}
+      />
+
+      {/* Tag Manager Modal */}
+      <TagManagerModal
+        isOpen={isTagManagerOpen}
+        onClose={() => setIsTagManagerOpen(false)}
+        tags={tags}
+        tagColors={tagColors}
+        onTagsChanged={handleTagsChanged}
+      />
+
+      {/* Duplicates Modal */}
+      <DuplicatesModal
+        isOpen={isDuplicatesOpen}
+        onClose={() => setIsDuplicatesOpen(false)}
+        onMerged={handleDuplicatesMerged}
+      />
+
+      {/* Trash Modal */}
+      <TrashModal
+        isOpen={isTrashOpen}
+        onClose={() => setIsTrashOpen(false)}
+        trash={trash}
+        retentionDays={retentionDays}
+        onTrashChanged={handleTrashChanged}
+      />
+
+      {/* Bookmark Details Modal */}
+      <BookmarkDetailsModal
+        isOpen={detailsBookmark !== null}
+        onClose={() => setDetailsBookmark(null)}
+        bookmark={detailsBookmark}
+        collections={collections}
+        tagColors={tagColors}
+        onReverted={handleBookmarkReverted}
+      />
+
+      {/* Pending Sync Modal */}
+      <PendingSyncModal
+        isOpen={isPendingSyncModalOpen}
+        onClose={() => setIsPendingSyncModalOpen(false)}
+        operations={pendingOperations}
+        isOnline={isOnline}
+        syncing={syncing}
+        onSyncNow={handleSyncNow}
+        onRetry={handleRetryOperation}
+        onDiscard={handleDiscardOperation}
       />
 
       {/* Confirmation Dialog */}
@@ -276,7 +1148,7 @@ export const BookmarkApp: React.FC = () => {
         isOpen={confirmDialog.isOpen}
         title={confirmDialog.title}
         message={confirmDialog.message}
-        confirmText="Delete"
+        confirmText={confirmDialog.confirmText ?? "Delete"}
         cancelText="Cancel"
         variant="danger"
         onConfirm={confirmDialog.onConfirm}
@@ -6,56 +6,140 @@ import {
   Globe,
   MoreVertical,
   RefreshCw,
+  Activity,
+  AlertTriangle,
+  CornerUpRight,
+  Unlink,
+  Check,
+  History,
+  Clock,
+  BookOpen,
+  CheckCircle,
+  Archive,
+  RotateCcw,
+  X,
+  Eye,
+  Star,
+  Pin,
+  PinOff,
 } from "lucide-react";
-import type { Bookmark } from "../types/bookmark";
+import type { LucideIcon } from "lucide-react";
+import type {
+  Bookmark,
+  LinkHealthStatus,
+  ReadStatus,
+} from "../types/bookmark";
 import { enhancedThumbnailService } from "../services/enhancedThumbnailService";
+import { HighlightedText } from "./HighlightedText";
+import { getTagBadgeClass } from "../utils/tagColors";
 import clsx from "clsx";
 
 interface BookmarkCardProps {
   bookmark: Bookmark;
   onEdit: (bookmark: Bookmark) => void;
   onDelete: (id: string) => void;
+  onShowDetails?: (bookmark: Bookmark) => void;
   onRegenerateThumbnail?: (id: string) => void;
+  onCheckLink?: (id: string) => Promise<void>;
+  onUpdateUrlToRedirect?: (id: string) => Promise<void>;
+  onReadStatusChange?: (id: string, status: ReadStatus | null) => void;
+  onToggleFavorite?: (id: string, favorite: boolean) => void;
+  onTogglePinned?: (id: string, pinned: boolean) => void;
+  onVisit?: (id: string) => void;
+  highlightTerms?: string[];
+  tagColors?: Record<string, string>;
 }
 
+// Badge shown over the thumbnail for each link health status
+const HEALTH_BADGES: Record<
+  LinkHealthStatus,
+  { label: string; icon: LucideIcon; className: string }
+> = {
+  ok: { label: "Link OK", icon: Check, className: "bg-green-600 text-white" },
+  redirected: {
+    label: "Redirects",
+    icon: CornerUpRight,
+    className: "bg-amber-500 text-white",
+  },
+  broken: { label: "Broken", icon: Unlink, className: "bg-red-600 text-white" },
+  error: {
+    label: "Check failed",
+    icon: AlertTriangle,
+    className: "bg-gray-700 text-white",
+  },
+};
+
+// Badge shown over the thumbnail for bookmarks on the reading list
+const READ_STATUS_BADGES: Record<
+  ReadStatus,
+  { label: string; icon: LucideIcon; className: string }
+> = {
+  unread: {
+    label: "Unread",
+    icon: Clock,
+    className: "bg-primary-600 text-white",
+  },
+  reading: {
+    label: "Reading",
+    icon: BookOpen,
+    className: "bg-amber-500 text-white",
+  },
+  read: {
+    label: "Read",
+    icon: CheckCircle,
+    className: "bg-green-600 text-white",
+  },
+  archived: {
+    label: "Archived",
+    icon: Archive,
+    className: "bg-gray-600 text-white",
+  },
+};
+
+// Quick toggle moving a bookmark one step along the reading list
+const NEXT_READ_ACTIONS: Record<
+  ReadStatus | "none",
+  { status: ReadStatus; label: string; icon: LucideIcon }
+> = {
+  none: { status: "unread", label: "Read later", icon: Clock },
+  unread: { status: "read", label: "Mark as read", icon: CheckCircle },
+  reading: { status: "read", label: "Mark as read", icon: CheckCircle },
+  read: { status: "archived", label: "Archive", icon: Archive },
+  archived: { status: "unread", label: "Read again", icon: RotateCcw },
+};
+
 export const BookmarkCard: React.FC<BookmarkCardProps> = ({
   bookmark,
   onEdit,
   onDelete,
+  onShowDetails,
   onRegenerateThumbnail,
+  onCheckLink,
+  onUpdateUrlToRedirect,
+  onReadStatusChange,
+  onToggleFavorite,
+  onTogglePinned,
+  onVisit,
+  highlightTerms = [],
+  tagColors = {},
 }) => {
   const [imageError, setImageError] = useState(false);
   const [imageLoading, setImageLoading] = useState(true);
   const [showActions, setShowActions] = useState(false);
   const [isRegenerating, setIsRegenerating] = useState(false);
+  const [isCheckingLink, setIsCheckingLink] = useState(false);
+  const [isUpdatingUrl, setIsUpdatingUrl] = useState(false);
   const [menuPosition, setMenuPosition] = useState({ top: 0, right: 0 });
   const buttonRef = React.useRef<HTMLButtonElement>(null);
 
-  // Generate a consistent color for each tag based on its name
-  const getTagColor = (tag: string) => {
-    const colors = [
-      "bg-blue-100 text-blue-800 dark:bg-blue-500/20 dark:text-blue-300",
-      "bg-green-100 text-green-800 dark:bg-green-500/20 dark:text-green-300",
-      "bg-purple-100 text-purple-800 dark:bg-purple-500/20 dark:text-purple-300",
-      "bg-pink-100 text-pink-800 dark:bg-pink-500/20 dark:text-pink-300",
-      "bg-yellow-100 text-yellow-800 dark:bg-yellow-500/20 dark:text-yellow-300",
-      "bg-indigo-100 text-indigo-800 dark:bg-indigo-500/20 dark:text-indigo-300",
-      "bg-red-100 text-red-800 dark:bg-red-500/20 dark:text-red-300",
-      "bg-orange-100 text-orange-800 dark:bg-orange-500/20 dark:text-orange-300",
-      "bg-teal-100 text-teal-800 dark:bg-teal-500/20 dark:text-teal-300",
-      "bg-cyan-100 text-cyan-800 dark:bg-cyan-500/20 dark:text-cyan-300",
-    ];
-
-    // Generate a hash from the tag name to get consistent colors
-    let hash = 0;
-    for (let i = 0; i < tag.length; i++) {
-      const char = tag.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
+  const visitCount = bookmark.visitCount ?? 0;
 
-    return colors[Math.abs(hash) % colors.length];
-  };
+  const favoriteLabel = bookmark.favorite
+    ? "Remove from favorites"
+    : "Add to favorites";
+
+  // Stored tag colours, falling back to one derived from the tag name
+  const getTagColor = (tag: string) => getTagBadgeClass(tag, tagColors);
 
   const handleImageLoad = () => {
     setImageLoading(false);
@@ -106,6 +190,11 @@ export const BookmarkCard: React.FC<BookmarkCardProps> = ({
 
   const openBookmark = () => {
     window.open(bookmark.url, "_blank", "noopener,noreferrer");
+    onVisit?.(bookmark.id);
+    // Opening something saved for later starts reading it
+    if (bookmark.readState?.status === "unread") {
+      onReadStatusChange?.(bookmark.id, "reading");
+    }
   };
 
   const handleRegenerateThumbnail = async () => {
@@ -124,6 +213,54 @@ export const BookmarkCard: React.FC<BookmarkCardProps> = ({
     }
   };
 
+  const handleCheckLink = async () => {
+    if (!onCheckLink || isCheckingLink) return;
+
+    setIsCheckingLink(true);
+    setShowActions(false);
+
+    try {
+      await onCheckLink(bookmark.id);
+    } catch {
+      // Error handling is done in parent component
+    } finally {
+      setIsCheckingLink(false);
+    }
+  };
+
+  const handleUpdateUrl = async () => {
+    if (!onUpdateUrlToRedirect || isUpdatingUrl) return;
+
+    setIsUpdatingUrl(true);
+    try {
+      await onUpdateUrlToRedirect(bookmark.id);
+    } catch {
+      // Error handling is done in parent component
+    } finally {
+      setIsUpdatingUrl(false);
+    }
+  };
+
+  const health = bookmark.health;
+  const healthBadge = health ? HEALTH_BADGES[health.status] : null;
+  const healthTitle = health
+    ? [
+        healthBadge?.label,
+        health.statusCode !== null ? `HTTP ${health.statusCode}` : "no response",
+        health.consecutiveFailures > 1 &&
+          `failed ${health.consecutiveFailures} checks in a row`,
+        `checked ${formatDate(health.checkedAt)}`,
+      ]
+        .filter(Boolean)
+        .join(" · ")
+    : "";
+
+  const readStatusBadge = bookmark.readState
+    ? READ_STATUS_BADGES[bookmark.readState.status]
+    : null;
+  const nextReadAction =
+    NEXT_READ_ACTIONS[bookmark.readState?.status ?? "none"];
+
   const handleMenuToggle = () => {
     if (!showActions && buttonRef.current) {
       const rect = buttonRef.current.getBoundingClientRect();
@@ -163,6 +300,52 @@ export const BookmarkCard: React.FC<BookmarkCardProps> = ({
           </div>
         )}
 
+        {/* Link Health Badge */}
+        {health && healthBadge && (
+          <div
+            className={clsx(
+              "absolute top-2 left-2 z-20 inline-flex items-center rounded-full shadow",
+              health.status === "ok" ? "p-1" : "px-2 py-0.5 space-x-1",
+              healthBadge.className
+            )}
+            title={healthTitle}
+          >
+            <healthBadge.icon className="h-3 w-3" />
+            {health.status !== "ok" && (
+              <span className="text-xs font-medium">{healthBadge.label}</span>
+            )}
+          </div>
+        )}
+
+        {/* Reading List Badge (removes from the list on desktop; touch has no hover hint) */}
+        {readStatusBadge && (
+          <button
+            type="button"
+            onClick={() => onReadStatusChange?.(bookmark.id, null)}
+            disabled={!onReadStatusChange}
+            className={clsx(
+              "group/badge absolute bottom-2 left-2 z-20 inline-flex items-center px-2 py-0.5 space-x-1 rounded-full shadow pointer-events-none sm:pointer-events-auto",
+              readStatusBadge.className
+            )}
+            title={
+              onReadStatusChange
+                ? "Remove from reading list"
+                : readStatusBadge.label
+            }
+          >
+            <readStatusBadge.icon
+              className={clsx(
+                "h-3 w-3",
+                onReadStatusChange && "group-hover/badge:hidden"
+              )}
+            />
+            {onReadStatusChange && (
+              <X className="h-3 w-3 hidden group-hover/badge:block" />
+            )}
+            <span className="text-xs font-medium">{readStatusBadge.label}</span>
+          </button>
+        )}
+
         {/* Desktop Hover Overlay */}
         <div className="hidden sm:flex absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-40 transition-all duration-200 items-center justify-center opacity-0 group-hover:opacity-100">
           <div className="flex space-x-2">
@@ -180,6 +363,39 @@ export const BookmarkCard: React.FC<BookmarkCardProps> = ({
             >
               <Edit className="h-4 w-4 text-gray-700" />
             </button>
+            {onReadStatusChange && (
+              <button
+                onClick={() =>
+                  onReadStatusChange(bookmark.id, nextReadAction.status)
+                }
+                className="p-2 bg-white rounded-full shadow-lg hover:bg-gray-100 transition-colors duration-200"
+                title={nextReadAction.label}
+              >
+                <nextReadAction.icon className="h-4 w-4 text-gray-700" />
+              </button>
+            )}
+            {onTogglePinned && (
+              <button
+                onClick={() => onTogglePinned(bookmark.id, !bookmark.pinned)}
+                className="p-2 bg-white rounded-full shadow-lg hover:bg-gray-100 transition-colors duration-200"
+                title={bookmark.pinned ? "Unpin" : "Pin to top"}
+              >
+                {bookmark.pinned ? (
+                  <PinOff className="h-4 w-4 text-gray-700" />
+                ) : (
+                  <Pin className="h-4 w-4 text-gray-700" />
+                )}
+              </button>
+            )}
+            {onShowDetails && (
+              <button
+                onClick={() => onShowDetails(bookmark)}
+                className="p-2 bg-white rounded-full shadow-lg hover:bg-gray-100 transition-colors duration-200"
+                title="Details and history"
+              >
+                <History className="h-4 w-4 text-gray-700" />
+              </button>
+            )}
             {onRegenerateThumbnail && (
               <button
                 onClick={handleRegenerateThumbnail}
@@ -195,6 +411,21 @@ export const BookmarkCard: React.FC<BookmarkCardProps> = ({
                 />
               </button>
             )}
+            {onCheckLink && (
+              <button
+                onClick={handleCheckLink}
+                disabled={isCheckingLink}
+                className="p-2 bg-white rounded-full shadow-lg hover:bg-gray-100 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Check link"
+              >
+                <Activity
+                  className={clsx(
+                    "h-4 w-4 text-gray-700",
+                    isCheckingLink && "animate-pulse"
+                  )}
+                />
+              </button>
+            )}
             <button
               onClick={() => onDelete(bookmark.id)}
               className="p-2 bg-white rounded-full shadow-lg hover:bg-red-50 transition-colors duration-200"
@@ -255,6 +486,58 @@ export const BookmarkCard: React.FC<BookmarkCardProps> = ({
               <Edit className="h-4 w-4" />
               <span>Edit</span>
             </button>
+            {onReadStatusChange && (
+              <button
+                onClick={() => {
+                  onReadStatusChange(bookmark.id, nextReadAction.status);
+                  setShowActions(false);
+                }}
+                className="w-full px-3 py-2 text-left text-sm text-gray-900 dark:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center space-x-2"
+              >
+                <nextReadAction.icon className="h-4 w-4" />
+                <span>{nextReadAction.label}</span>
+              </button>
+            )}
+            {onReadStatusChange && bookmark.readState && (
+              <button
+                onClick={() => {
+                  onReadStatusChange(bookmark.id, null);
+                  setShowActions(false);
+                }}
+                className="w-full px-3 py-2 text-left text-sm text-gray-900 dark:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center space-x-2"
+              >
+                <X className="h-4 w-4" />
+                <span>Remove from Reading List</span>
+              </button>
+            )}
+            {onTogglePinned && (
+              <button
+                onClick={() => {
+                  onTogglePinned(bookmark.id, !bookmark.pinned);
+                  setShowActions(false);
+                }}
+                className="w-full px-3 py-2 text-left text-sm text-gray-900 dark:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center space-x-2"
+              >
+                {bookmark.pinned ? (
+                  <PinOff className="h-4 w-4" />
+                ) : (
+                  <Pin className="h-4 w-4" />
+                )}
+                <span>{bookmark.pinned ? "Unpin" : "Pin to Top"}</span>
+              </button>
+            )}
+            {onShowDetails && (
+              <button
+                onClick={() => {
+                  onShowDetails(bookmark);
+                  setShowActions(false);
+                }}
+                className="w-full px-3 py-2 text-left text-sm text-gray-900 dark:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center space-x-2"
+              >
+                <History className="h-4 w-4" />
+                <span>Details & History</span>
+              </button>
+            )}
             {onRegenerateThumbnail && (
               <button
                 onClick={handleRegenerateThumbnail}
@@ -270,6 +553,18 @@ export const BookmarkCard: React.FC<BookmarkCardProps> = ({
                 <span>Regenerate Thumbnail</span>
               </button>
             )}
+            {onCheckLink && (
+              <button
+                onClick={handleCheckLink}
+                disabled={isCheckingLink}
+                className="w-full px-3 py-2 text-left text-sm text-gray-900 dark:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Activity
+                  className={clsx("h-4 w-4", isCheckingLink && "animate-pulse")}
+                />
+                <span>Check Link</span>
+              </button>
+            )}
             <button
               onClick={() => {
                 onDelete(bookmark.id);
@@ -288,20 +583,43 @@ export const BookmarkCard: React.FC<BookmarkCardProps> = ({
       <div className="p-4 flex flex-col flex-1">
         <div className="flex-1 space-y-3">
           {/* Title */}
-          <h3
-            className="font-semibold line-clamp-2 cursor-pointer hover:text-primary-600 dark:hover:text-primary-400 transition-colors duration-200"
-            style={{ color: "var(--text-primary)" }}
-            onClick={openBookmark}
-            title={bookmark.title}
-          >
-            {bookmark.title}
-          </h3>
+          <div className="flex items-start space-x-2">
+            <h3
+              className="flex-1 font-semibold line-clamp-2 cursor-pointer hover:text-primary-600 dark:hover:text-primary-400 transition-colors duration-200"
+              style={{ color: "var(--text-primary)" }}
+              onClick={openBookmark}
+              title={bookmark.title}
+            >
+              <HighlightedText text={bookmark.title} terms={highlightTerms} />
+            </h3>
+            {onToggleFavorite && (
+              <button
+                onClick={() =>
+                  onToggleFavorite(bookmark.id, !bookmark.favorite)
+                }
+                className="flex-shrink-0 p-0.5 rounded text-gray-400 hover:text-yellow-500 transition-colors duration-200"
+                title={favoriteLabel}
+                aria-label={favoriteLabel}
+                aria-pressed={!!bookmark.favorite}
+              >
+                <Star
+                  className={clsx(
+                    "h-4 w-4",
+                    bookmark.favorite && "fill-yellow-400 text-yellow-400"
+                  )}
+                />
+              </button>
+            )}
+          </div>
 
           {/* Description - Fixed height container */}
           <div className="h-10">
             {bookmark.description && (
               <p className="text-sm text-gray-600 dark:text-gray-400 line-clamp-2">
-                {bookmark.description}
+                <HighlightedText
+                  text={bookmark.description}
+                  terms={highlightTerms}
+                />
               </p>
             )}
           </div>
@@ -311,6 +629,27 @@ export const BookmarkCard: React.FC<BookmarkCardProps> = ({
             {bookmark.url}
           </p>
 
+          {/* Redirect Target */}
+          {health?.status === "redirected" && health.redirectUrl && (
+            <div className="flex items-center space-x-2 text-xs text-amber-700 dark:text-amber-400">
+              <CornerUpRight className="h-3 w-3 flex-shrink-0" />
+              <span className="truncate flex-1" title={health.redirectUrl}>
+                {health.redirectUrl}
+              </span>
+              {onUpdateUrlToRedirect && (
+                <button
+                  type="button"
+                  onClick={handleUpdateUrl}
+                  disabled={isUpdatingUrl}
+                  className="flex-shrink-0 font-medium hover:underline disabled:opacity-50"
+                  title="Update the bookmark to the redirect target"
+                >
+                  {isUpdatingUrl ? "Updating..." : "Update URL"}
+                </button>
+              )}
+            </div>
+          )}
+
           {/* Tags - Fixed height container */}
           <div className="h-6 mb-3">
             {bookmark.tags.length > 0 && (
@@ -322,7 +661,7 @@ export const BookmarkCard: React.FC<BookmarkCardProps> = ({
                       tag
                     )}`}
                   >
-                    {tag}
+                    <HighlightedText text={tag} terms={highlightTerms} />
                   </span>
                 ))}
               </div>
@@ -331,11 +670,24 @@ export const BookmarkCard: React.FC<BookmarkCardProps> = ({
         </div>
 
         {/* Footer - Always at bottom */}
-        <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-500 mt-auto pt-3 border-t border-gray-100 dark:border-gray-700 flex-shrink-0">
-          <span>Added {formatDate(bookmark.createdAt)}</span>
-          {bookmark.updatedAt.getTime() !== bookmark.createdAt.getTime() && (
-            <span>Updated {formatDate(bookmark.updatedAt)}</span>
-          )}
+        <div className="text-xs text-gray-500 dark:text-gray-500 mt-auto pt-3 border-t border-gray-100 dark:border-gray-700 flex-shrink-0 space-y-1">
+          <div className="flex items-center justify-between">
+            <span>Added {formatDate(bookmark.createdAt)}</span>
+            {bookmark.updatedAt.getTime() !== bookmark.createdAt.getTime() && (
+              <span>Updated {formatDate(bookmark.updatedAt)}</span>
+            )}
+          </div>
+          <div className="flex items-center space-x-1">
+            <Eye className="h-3 w-3 flex-shrink-0" />
+            {visitCount > 0 && bookmark.lastVisitedAt ? (
+              <span>
+                Opened {visitCount} time{visitCount !== 1 ? "s" : ""} · last{" "}
+                {formatDate(bookmark.lastVisitedAt)}
+              </span>
+            ) : (
+              <span>Not opened yet</span>
+            )}
+          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,352 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  X,
+  RotateCcw,
+  AlertTriangle,
+  ExternalLink,
+  History,
+} from "lucide-react";
+import type {
+  Bookmark,
+  BookmarkRevision,
+  Collection,
+  RevisionChange,
+  RevisionField,
+  RevisionValue,
+} from "../types/bookmark";
+import { bookmarkService } from "../services/bookmarkService";
+import { getCollectionPath } from "../utils/collectionTree";
+import { diffWords } from "../utils/revisions";
+import { getTagBadgeClass } from "../utils/tagColors";
+import clsx from "clsx";
+
+interface BookmarkDetailsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  bookmark: Bookmark | null;
+  collections: Collection[];
+  tagColors?: Record<string, string>;
+  onReverted: (message: string) => void;
+}
+
+const FIELD_LABELS: Record<RevisionField, string> = {
+  title: "Title",
+  url: "URL",
+  description: "Description",
+  tags: "Tags",
+  collectionId: "Collection",
+};
+
+// Helper function to format when a bookmark or revision changed
+const formatDateTime = (date: Date): string =>
+  new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  }).format(date);
+
+const asText = (value: RevisionValue): string =>
+  typeof value === "string" ? value : "";
+
+const asTags = (value: RevisionValue): string[] =>
+  Array.isArray(value) ? value : [];
+
+export const BookmarkDetailsModal: React.FC<BookmarkDetailsModalProps> = ({
+  isOpen,
+  onClose,
+  bookmark,
+  collections,
+  tagColors = {},
+  onReverted,
+}) => {
+  // The bookmark as last saved here, so a revert shows up without reopening
+  const [current, setCurrent] = useState<Bookmark | null>(bookmark);
+  const [revisions, setRevisions] = useState<BookmarkRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async (bookmarkId: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      setRevisions(await bookmarkService.getBookmarkHistory(bookmarkId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load history");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen && bookmark) {
+      setCurrent(bookmark);
+      setRevisions([]);
+      loadHistory(bookmark.id);
+    }
+  }, [isOpen, bookmark, loadHistory]);
+
+  const getCollectionName = (collectionId: RevisionValue): string => {
+    if (typeof collectionId !== "string") return "No collection";
+    return getCollectionPath(collections, collectionId) || "Deleted collection";
+  };
+
+  const handleRevert = async (revisionId: string | null) => {
+    if (!current) return;
+
+    try {
+      setError(null);
+      setBusy(true);
+      const reverted = await bookmarkService.revertBookmark(
+        current.id,
+        revisionId
+      );
+      setCurrent(reverted);
+      onReverted(`Reverted "${reverted.title}"`);
+      await loadHistory(current.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Revert failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renderTextDiff = (change: RevisionChange) => (
+    <p className="text-sm break-words" style={{ color: "var(--text-primary)" }}>
+      {diffWords(asText(change.oldValue), asText(change.newValue)).map(
+        (segment, index) => (
+          <span
+            key={index}
+            className={clsx(
+              segment.type === "removed" &&
+                "bg-red-100 text-red-700 line-through dark:bg-red-900/30 dark:text-red-300",
+              segment.type === "added" &&
+                "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300"
+            )}
+          >
+            {segment.text}
+          </span>
+        )
+      )}
+    </p>
+  );
+
+  const renderReplacement = (oldText: string, newText: string) => (
+    <div className="text-sm break-all space-y-0.5">
+      <p className="text-red-700 line-through dark:text-red-300">{oldText}</p>
+      <p className="text-green-700 dark:text-green-300">{newText}</p>
+    </div>
+  );
+
+  const renderTagsDiff = (change: RevisionChange) => {
+    const oldTags = asTags(change.oldValue);
+    const newTags = asTags(change.newValue);
+    const removed = oldTags.filter((tag) => !newTags.includes(tag));
+    const added = newTags.filter((tag) => !oldTags.includes(tag));
+
+    return (
+      <div className="flex flex-wrap gap-1">
+        {removed.map((tag) => (
+          <span
+            key={`removed-${tag}`}
+            className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-700 line-through dark:bg-red-900/30 dark:text-red-300"
+          >
+            {tag}
+          </span>
+        ))}
+        {added.map((tag) => (
+          <span
+            key={`added-${tag}`}
+            className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300"
+          >
+            {tag}
+          </span>
+        ))}
+        {removed.length === 0 && added.length === 0 && (
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            Reordered
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  const renderChange = (change: RevisionChange) => {
+    switch (change.field) {
+      case "title":
+      case "description":
+        return renderTextDiff(change);
+      case "url":
+        return renderReplacement(
+          asText(change.oldValue),
+          asText(change.newValue)
+        );
+      case "tags":
+        return renderTagsDiff(change);
+      case "collectionId":
+        return renderReplacement(
+          getCollectionName(change.oldValue),
+          getCollectionName(change.newValue)
+        );
+    }
+  };
+
+  const renderRevertButton = (revisionId: string | null) => (
+    <button
+      type="button"
+      onClick={() => handleRevert(revisionId)}
+      disabled={busy}
+      className="btn-secondary flex items-center space-x-1 py-1 px-2 text-xs flex-shrink-0"
+    >
+      <RotateCcw className="h-3 w-3" />
+      <span>Revert to this</span>
+    </button>
+  );
+
+  if (!isOpen || !current) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen px-4 pt-4 pb-20 text-center">
+        {/* Backdrop */}
+        <div
+          className="fixed inset-0 transition-opacity bg-black bg-opacity-50 backdrop-blur-md"
+          onClick={busy ? undefined : onClose}
+        />
+
+        {/* Modal */}
+        <div className="relative inline-block w-full max-w-2xl p-6 my-8 text-left align-middle transition-all transform card shadow-xl rounded-2xl z-10">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-4">
+            <h3
+              className="text-lg font-medium"
+              style={{ color: "var(--text-primary)" }}
+            >
+              Bookmark Details
+            </h3>
+            <button
+              onClick={onClose}
+              disabled={busy}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors duration-200 disabled:opacity-50"
+            >
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          {/* Details */}
+          <div className="space-y-2 pb-4 border-b border-gray-200 dark:border-gray-700">
+            <p
+              className="font-semibold break-words"
+              style={{ color: "var(--text-primary)" }}
+            >
+              {current.title}
+            </p>
+            <a
+              href={current.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center space-x-1 text-sm text-primary-600 dark:text-primary-400 hover:underline break-all"
+            >
+              <span>{current.url}</span>
+              <ExternalLink className="h-3 w-3 flex-shrink-0" />
+            </a>
+            {current.description && (
+              <p className="text-sm text-gray-600 dark:text-gray-400 whitespace-pre-line break-words">
+                {current.description}
+              </p>
+            )}
+            {current.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {current.tags.map((tag) => (
+                  <span
+                    key={tag}
+                    className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getTagBadgeClass(
+                      tag,
+                      tagColors
+                    )}`}
+                  >
+                    {tag}
+                  </span>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {getCollectionName(current.collectionId ?? null)} · Added{" "}
+              {formatDateTime(current.createdAt)} · Updated{" "}
+              {formatDateTime(current.updatedAt)}
+            </p>
+          </div>
+
+          {/* History */}
+          <div className="pt-4">
+            <h4
+              className="flex items-center space-x-2 mb-3 text-sm font-medium"
+              style={{ color: "var(--text-primary)" }}
+            >
+              <History className="h-4 w-4" />
+              <span>History</span>
+            </h4>
+
+            {error && (
+              <div className="mb-4 flex items-start space-x-2 text-sm text-red-600 dark:text-red-400">
+                <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            {loading && revisions.length === 0 ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-500"></div>
+              </div>
+            ) : revisions.length === 0 ? (
+              <p className="py-6 text-sm text-center text-gray-500 dark:text-gray-400">
+                This bookmark hasn't been edited yet.
+              </p>
+            ) : (
+              <ol className="max-h-96 overflow-y-auto pl-4 border-l-2 border-gray-200 dark:border-gray-700 space-y-4">
+                {revisions.map((revision, index) => (
+                  <li key={revision.id} className="relative">
+                    <span className="absolute -left-[1.4rem] top-1.5 h-2.5 w-2.5 rounded-full bg-primary-500" />
+                    <div className="flex items-center justify-between mb-2 space-x-2">
+                      <span className="text-xs text-gray-500 dark:text-gray-400">
+                        {formatDateTime(revision.createdAt)}
+                        {index === 0 && " · Current version"}
+                      </span>
+                      {index > 0 && renderRevertButton(revision.id)}
+                    </div>
+                    <div className="space-y-2">
+                      {revision.changes.map((change) => (
+                        <div key={change.field}>
+                          <p className="text-xs font-medium text-gray-500 dark:text-gray-400">
+                            {FIELD_LABELS[change.field]}
+                          </p>
+                          {renderChange(change)}
+                        </div>
+                      ))}
+                    </div>
+                  </li>
+                ))}
+
+                {/* The version before the oldest recorded edit */}
+                <li className="relative">
+                  <span className="absolute -left-[1.4rem] top-1.5 h-2.5 w-2.5 rounded-full bg-gray-300 dark:bg-gray-600" />
+                  <div className="flex items-center justify-between space-x-2">
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      Before{" "}
+                      {formatDateTime(
+                        revisions[revisions.length - 1].createdAt
+                      )}
+                    </span>
+                    {renderRevertButton(null)}
+                  </div>
+                </li>
+              </ol>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,56 +1,119 @@
-import React, { useState, useEffect } from "react";
-import { Filter, X } from "lucide-react";
-import type { SortOption } from "../types/bookmark";
+import React, { useState, useEffect, useMemo } from "react";
+import {
+  Activity,
+  Archive,
+  BookOpen,
+  CheckCircle,
+  ChevronDown,
+  ChevronRight,
+  Clock,
+  CornerUpRight,
+  Filter,
+  Pin,
+  Star,
+  Unlink,
+  X,
+} from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+import type {
+  BookmarkImportProgress,
+  Collection,
+  FavoriteFilter,
+  LinkHealthFilter,
+  ReadStatus,
+  SortOption,
+  TagTreeNode,
+} from "../types/bookmark";
 import { bookmarkService } from "../services/bookmarkService";
+import {
+  buildCollectionTree,
+  flattenCollectionTree,
+} from "../utils/collectionTree";
+import { getTagBadgeClass } from "../utils/tagColors";
 import clsx from "clsx";
 
 interface BookmarkFiltersProps {
   selectedTags: string[];
   tagFilterMode: "AND" | "OR";
   sortBy: SortOption;
+  collections: Collection[];
+  selectedCollectionId: string | null;
+  includeSubcollections: boolean;
   onTagsChange: (tags: string[]) => void;
   onTagFilterModeChange: (mode: "AND" | "OR") => void;
   onSortChange: (sort: SortOption) => void;
+  onCollectionChange: (collectionId: string | null) => void;
+  onIncludeSubcollectionsChange: (include: boolean) => void;
+  favoriteFilters: FavoriteFilter[];
+  readStatusFilters: ReadStatus[];
+  linkHealthFilters: LinkHealthFilter[];
+  onFavoriteFiltersChange: (filters: FavoriteFilter[]) => void;
+  onReadStatusFiltersChange: (filters: ReadStatus[]) => void;
+  onLinkHealthFiltersChange: (filters: LinkHealthFilter[]) => void;
   refreshTrigger?: number;
+  tagColors?: Record<string, string>;
+  onCheckLinks?: () => void; // Omitted when no link checker is configured
+  linkCheckProgress?: BookmarkImportProgress | null;
 }
 
+interface StateFilterOption<T extends string> {
+  value: T;
+  label: string;
+  icon: LucideIcon;
+}
+
+// Link health, reading status and favorite chips; chips of the same group match any of their states
+const LINK_HEALTH_FILTERS: StateFilterOption<LinkHealthFilter>[] = [
+  { value: "broken", label: "Broken", icon: Unlink },
+  { value: "redirected", label: "Redirected", icon: CornerUpRight },
+];
+
+const READ_STATUS_FILTERS: StateFilterOption<ReadStatus>[] = [
+  { value: "unread", label: "Unread", icon: Clock },
+  { value: "reading", label: "Reading", icon: BookOpen },
+  { value: "read", label: "Read", icon: CheckCircle },
+  { value: "archived", label: "Archived", icon: Archive },
+];
+
+const FAVORITE_FILTERS: StateFilterOption<FavoriteFilter>[] = [
+  { value: "favorite", label: "Favorites", icon: Star },
+  { value: "pinned", label: "Pinned", icon: Pin },
+];
+
 export const BookmarkFilters: React.FC<BookmarkFiltersProps> = ({
   selectedTags,
   tagFilterMode,
   sortBy,
+  collections,
+  selectedCollectionId,
+  includeSubcollections,
   onTagsChange,
   onTagFilterModeChange,
   onSortChange,
+  onCollectionChange,
+  onIncludeSubcollectionsChange,
+  favoriteFilters,
+  readStatusFilters,
+  linkHealthFilters,
+  onFavoriteFiltersChange,
+  onReadStatusFiltersChange,
+  onLinkHealthFiltersChange,
   refreshTrigger,
+  tagColors = {},
+  onCheckLinks,
+  linkCheckProgress = null,
 }) => {
-  const [availableTags, setAvailableTags] = useState<string[]>([]);
+  const [availableTags, setAvailableTags] = useState<TagTreeNode[]>([]);
+  const [expandedTags, setExpandedTags] = useState<Set<string>>(new Set());
   const [showFilters, setShowFilters] = useState(false);
 
-  // Generate a consistent color for each tag based on its name (same as BookmarkCard)
-  const getTagColor = (tag: string) => {
-    const colors = [
-      "bg-blue-100 text-blue-800 dark:bg-blue-500/20 dark:text-blue-300",
-      "bg-green-100 text-green-800 dark:bg-green-500/20 dark:text-green-300",
-      "bg-purple-100 text-purple-800 dark:bg-purple-500/20 dark:text-purple-300",
-      "bg-pink-100 text-pink-800 dark:bg-pink-500/20 dark:text-pink-300",
-      "bg-yellow-100 text-yellow-800 dark:bg-yellow-500/20 dark:text-yellow-300",
-      "bg-indigo-100 text-indigo-800 dark:bg-indigo-500/20 dark:text-indigo-300",
-      "bg-red-100 text-red-800 dark:bg-red-500/20 dark:text-red-300",
-      "bg-orange-100 text-orange-800 dark:bg-orange-500/20 dark:text-orange-300",
-      "bg-teal-100 text-teal-800 dark:bg-teal-500/20 dark:text-teal-300",
-      "bg-cyan-100 text-cyan-800 dark:bg-cyan-500/20 dark:text-cyan-300",
-    ];
-
-    // Generate a hash from the tag name to get consistent colors
-    let hash = 0;
-    for (let i = 0; i < tag.length; i++) {
-      const char = tag.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
+  const collectionOptions = useMemo(
+    () => flattenCollectionTree(buildCollectionTree(collections)),
+    [collections]
+  );
 
-    return colors[Math.abs(hash) % colors.length];
-  };
+  // Stored tag colours, falling back to one derived from the tag name
+  const getTagColor = (tag: string) => getTagBadgeClass(tag, tagColors);
 
   useEffect(() => {
     const loadTags = async () => {
@@ -76,12 +139,130 @@ export const BookmarkFilters: React.FC<BookmarkFiltersProps> = ({
     }
   };
 
+  const toggleExpanded = (tagName: string) => {
+    setExpandedTags((prev) => {
+      const next = new Set(prev);
+      if (next.has(tagName)) {
+        next.delete(tagName);
+      } else {
+        next.add(tagName);
+      }
+      return next;
+    });
+  };
+
+  const renderTagChip = (node: TagTreeNode) => {
+    const isSelected = selectedTags.includes(node.name);
+    return (
+      <button
+        key={node.name}
+        onClick={() => handleTagToggle(node.name)}
+        className={clsx(
+          "inline-flex items-center px-3 py-1 rounded-full text-sm font-medium transition-all duration-200",
+          isSelected
+            ? getTagColor(node.name)
+            : "bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+        )}
+        title={node.name}
+      >
+        {node.label}
+        <span className="ml-1.5 text-xs opacity-60">{node.count}</span>
+        {isSelected && <X className="ml-1 h-3 w-3" />}
+      </button>
+    );
+  };
+
+  // Flat tags render as chips; tags with nested tags render as collapsible groups
+  const renderTagNodes = (nodes: TagTreeNode[]): React.ReactNode => {
+    const leaves = nodes.filter((node) => node.children.length === 0);
+    const groups = nodes.filter((node) => node.children.length > 0);
+
+    return (
+      <div className="space-y-2">
+        {leaves.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {leaves.map(renderTagChip)}
+          </div>
+        )}
+        {groups.map((node) => {
+          const isExpanded = expandedTags.has(node.name);
+          return (
+            <div key={node.name}>
+              <div className="flex items-center space-x-1">
+                <button
+                  type="button"
+                  onClick={() => toggleExpanded(node.name)}
+                  className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                  aria-label={isExpanded ? "Collapse tag" : "Expand tag"}
+                >
+                  {isExpanded ? (
+                    <ChevronDown className="h-4 w-4" />
+                  ) : (
+                    <ChevronRight className="h-4 w-4" />
+                  )}
+                </button>
+                {renderTagChip(node)}
+              </div>
+              {isExpanded && (
+                <div className="pl-6 mt-2">{renderTagNodes(node.children)}</div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderStateChips = <T extends string>(
+    options: StateFilterOption<T>[],
+    selected: T[],
+    onChange: (values: T[]) => void
+  ) =>
+    options.map(({ value, label, icon: Icon }) => {
+      const isActive = selected.includes(value);
+      return (
+        <button
+          key={value}
+          onClick={() =>
+            onChange(
+              isActive
+                ? selected.filter((item) => item !== value)
+                : [...selected, value]
+            )
+          }
+          className={clsx(
+            "inline-flex items-center space-x-1 px-3 py-1 rounded-full text-sm font-medium transition-all duration-200",
+            isActive
+              ? "bg-primary-100 text-primary-800 dark:bg-primary-500/20 dark:text-primary-300"
+              : "bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+          )}
+        >
+          <Icon className="h-3 w-3" />
+          <span>{label}</span>
+          {isActive && <X className="h-3 w-3" />}
+        </button>
+      );
+    });
+
   const clearAllFilters = () => {
     onTagsChange([]);
     onSortChange("newest");
+    onCollectionChange(null);
+    onFavoriteFiltersChange([]);
+    onReadStatusFiltersChange([]);
+    onLinkHealthFiltersChange([]);
   };
 
-  const hasActiveFilters = selectedTags.length > 0 || sortBy !== "newest";
+  const stateFilterCount =
+    favoriteFilters.length +
+    readStatusFilters.length +
+    linkHealthFilters.length;
+
+  const hasActiveFilters =
+    selectedTags.length > 0 ||
+    sortBy !== "newest" ||
+    !!selectedCollectionId ||
+    stateFilterCount > 0;
 
   return (
     <div className="filter-bg">
@@ -101,7 +282,10 @@ export const BookmarkFilters: React.FC<BookmarkFiltersProps> = ({
             <span>Filters</span>
             {hasActiveFilters && (
               <span className="bg-primary-500 text-white text-xs rounded-full px-2 py-0.5">
-                {selectedTags.length + (sortBy !== "newest" ? 1 : 0)}
+                {selectedTags.length +
+                  (sortBy !== "newest" ? 1 : 0) +
+                  (selectedCollectionId ? 1 : 0) +
+                  stateFilterCount}
               </span>
             )}
           </button>
@@ -123,6 +307,12 @@ export const BookmarkFilters: React.FC<BookmarkFiltersProps> = ({
               <option value="oldest">Oldest first</option>
               <option value="title-asc">Title A-Z</option>
               <option value="title-desc">Title Z-A</option>
+              <option value="relevance">Most relevant</option>
+              <option value="most-visited">Most visited</option>
+              <option value="recently-visited">Recently opened</option>
+              <option value="least-recently-visited">
+                Least recently opened
+              </option>
             </select>
           </div>
         </div>
@@ -131,6 +321,46 @@ export const BookmarkFilters: React.FC<BookmarkFiltersProps> = ({
         {showFilters && (
           <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700 animate-fade-in">
             <div className="space-y-4">
+              {/* Collection Filter */}
+              {collectionOptions.length > 0 && (
+                <div>
+                  <h3
+                    className="text-sm font-medium mb-2"
+                    style={{ color: "var(--text-primary)" }}
+                  >
+                    Filter by Collection
+                  </h3>
+                  <div className="flex flex-wrap items-center gap-3">
+                    <select
+                      value={selectedCollectionId ?? ""}
+                      onChange={(e) => onCollectionChange(e.target.value || null)}
+                      className="input-field py-1 text-sm w-auto"
+                    >
+                      <option value="">All collections</option>
+                      {collectionOptions.map(({ collection, depth }) => (
+                        <option key={collection.id} value={collection.id}>
+                          {"\u00A0\u00A0".repeat(depth)}
+                          {collection.icon ? `${collection.icon} ` : ""}
+                          {collection.name}
+                        </option>
+                      ))}
+                    </select>
+                    <label className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+                      <input
+                        type="checkbox"
+                        checked={includeSubcollections}
+                        onChange={(e) =>
+                          onIncludeSubcollectionsChange(e.target.checked)
+                        }
+                        disabled={!selectedCollectionId}
+                        className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                      />
+                      <span>Include sub-collections</span>
+                    </label>
+                  </div>
+                </div>
+              )}
+
               {/* Tags Filter */}
               <div>
                 <div className="flex items-center justify-between mb-2">
@@ -205,26 +435,7 @@ export const BookmarkFilters: React.FC<BookmarkFiltersProps> = ({
                 )}
 
                 {availableTags.length > 0 ? (
-                  <div className="flex flex-wrap gap-2">
-                    {availableTags.map((tag) => {
-                      const isSelected = selectedTags.includes(tag);
-                      return (
-                        <button
-                          key={tag}
-                          onClick={() => handleTagToggle(tag)}
-                          className={clsx(
-                            "inline-flex items-center px-3 py-1 rounded-full text-sm font-medium transition-all duration-200",
-                            isSelected
-                              ? getTagColor(tag)
-                              : "bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
-                          )}
-                        >
-                          {tag}
-                          {isSelected && <X className="ml-1 h-3 w-3" />}
-                        </button>
-                      );
-                    })}
-                  </div>
+                  renderTagNodes(availableTags)
                 ) : (
                   <p className="text-sm text-gray-500 dark:text-gray-400">
                     No tags available. Add some bookmarks with tags to see them
@@ -233,16 +444,94 @@ export const BookmarkFilters: React.FC<BookmarkFiltersProps> = ({
                 )}
               </div>
 
+              {/* Link Health Filter */}
+              <div>
+                <h3
+                  className="text-sm font-medium mb-2"
+                  style={{ color: "var(--text-primary)" }}
+                >
+                  Link Health
+                </h3>
+                <div className="flex flex-wrap items-center gap-2">
+                  {renderStateChips(
+                    LINK_HEALTH_FILTERS,
+                    linkHealthFilters,
+                    onLinkHealthFiltersChange
+                  )}
+                  {onCheckLinks && (
+                    <button
+                      onClick={onCheckLinks}
+                      disabled={!!linkCheckProgress}
+                      className="inline-flex items-center space-x-1 text-sm text-primary-600 hover:text-primary-700 dark:text-primary-400 dark:hover:text-primary-300 disabled:opacity-60"
+                      title="Check the links of every bookmark matching the current filters"
+                    >
+                      <Activity
+                        className={clsx(
+                          "h-4 w-4",
+                          linkCheckProgress && "animate-pulse"
+                        )}
+                      />
+                      <span>
+                        {linkCheckProgress
+                          ? `Checking ${linkCheckProgress.processed}/${linkCheckProgress.total}...`
+                          : "Check links"}
+                      </span>
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {/* Favorites Filter */}
+              <div>
+                <h3
+                  className="text-sm font-medium mb-2"
+                  style={{ color: "var(--text-primary)" }}
+                >
+                  Favorites & Pins
+                </h3>
+                <div className="flex flex-wrap items-center gap-2">
+                  {renderStateChips(
+                    FAVORITE_FILTERS,
+                    favoriteFilters,
+                    onFavoriteFiltersChange
+                  )}
+                </div>
+              </div>
+
+              {/* Reading Status Filter */}
+              <div>
+                <h3
+                  className="text-sm font-medium mb-2"
+                  style={{ color: "var(--text-primary)" }}
+                >
+                  Reading Status
+                </h3>
+                <div className="flex flex-wrap items-center gap-2">
+                  {renderStateChips(
+                    READ_STATUS_FILTERS,
+                    readStatusFilters,
+                    onReadStatusFiltersChange
+                  )}
+                </div>
+              </div>
+
               {/* Active Filters Summary */}
               {hasActiveFilters && (
                 <div className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
                   <span>Active filters:</span>
+                  {selectedCollectionId && <span>1 collection</span>}
                   {selectedTags.length > 0 && (
                     <span>
                       {selectedTags.length} tag
                       {selectedTags.length !== 1 ? "s" : ""}
                     </span>
                   )}
+                  {stateFilterCount > 0 && (
+                    <span>
+                      {stateFilterCount} status
+                      {stateFilterCount !== 1 ? "es" : ""}
+                    </span>
+                  )}
                   {sortBy !== "newest" && (
                     <span>Sort: {sortBy.replace("-", " ")}</span>
                   )}
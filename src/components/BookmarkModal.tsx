@@ -1,8 +1,29 @@
-import React, { useState, useEffect } from "react";
-import { X, Plus, Trash2 } from "lucide-react";
-import type { Bookmark, BookmarkFormData } from "../types/bookmark";
+import React, { useState, useEffect, useMemo, useRef } from "react";
+import {
+  X,
+  Plus,
+  Trash2,
+  AlertTriangle,
+  Upload,
+  RotateCcw,
+} from "lucide-react";
+import type {
+  Bookmark,
+  BookmarkFormData,
+  Collection,
+  PageMetadata,
+} from "../types/bookmark";
 import { bookmarkService } from "../services/bookmarkService";
+import { metadataService } from "../services/metadataService";
 import { validateUrl, sanitizeText, validateTag } from "../utils/security";
+import {
+  buildCollectionTree,
+  flattenCollectionTree,
+} from "../utils/collectionTree";
+import { getTagBadgeClass, getTagDotClass } from "../utils/tagColors";
+import { getTagNames } from "../utils/tagTree";
+import { loadThumbnailImage } from "../utils/thumbnailCrop";
+import { ThumbnailCropper } from "./ThumbnailCropper";
 import clsx from "clsx";
 
 interface BookmarkModalProps {
@@ -11,6 +32,9 @@ interface BookmarkModalProps {
   onSubmit: (data: BookmarkFormData) => Promise<void>;
   bookmark?: Bookmark | null;
   loading?: boolean;
+  collections?: Collection[];
+  defaultCollectionId?: string | null;
+  tagColors?: Record<string, string>;
 }
 
 export const BookmarkModal: React.FC<BookmarkModalProps> = ({
@@ -19,65 +43,28 @@ export const BookmarkModal: React.FC<BookmarkModalProps> = ({
   onSubmit,
   bookmark,
   loading = false,
+  collections = [],
+  defaultCollectionId = null,
+  tagColors = {},
 }) => {
   const [formData, setFormData] = useState<BookmarkFormData>({
     title: "",
     url: "",
     description: "",
     tags: [],
+    collectionId: null,
   });
 
-  // Generate a consistent color for each tag based on its name (same as BookmarkCard)
-  const getTagColor = (tag: string) => {
-    const colors = [
-      "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
-      "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
-      "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200",
-      "bg-pink-100 text-pink-800 dark:bg-pink-900 dark:text-pink-200",
-      "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
-      "bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200",
-      "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
-      "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200",
-      "bg-teal-100 text-teal-800 dark:bg-teal-900 dark:text-teal-200",
-      "bg-cyan-100 text-cyan-800 dark:bg-cyan-900 dark:text-cyan-200",
-    ];
-
-    // Generate a hash from the tag name to get consistent colors
-    let hash = 0;
-    for (let i = 0; i < tag.length; i++) {
-      const char = tag.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
+  const collectionOptions = useMemo(
+    () => flattenCollectionTree(buildCollectionTree(collections)),
+    [collections]
+  );
 
-    return colors[Math.abs(hash) % colors.length];
-  };
+  // Stored tag colours, falling back to one derived from the tag name
+  const getTagColor = (tag: string) => getTagBadgeClass(tag, tagColors);
 
   // Get just the background color for the tag dot in suggestions
-  const getTagDotColor = (tag: string) => {
-    const colors = [
-      "bg-blue-500",
-      "bg-green-500",
-      "bg-purple-500",
-      "bg-pink-500",
-      "bg-yellow-500",
-      "bg-indigo-500",
-      "bg-red-500",
-      "bg-orange-500",
-      "bg-teal-500",
-      "bg-cyan-500",
-    ];
-
-    // Generate a hash from the tag name to get consistent colors (same logic as getTagColor)
-    let hash = 0;
-    for (let i = 0; i < tag.length; i++) {
-      const char = tag.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
-
-    return colors[Math.abs(hash) % colors.length];
-  };
+  const getTagDotColor = (tag: string) => getTagDotClass(tag, tagColors);
   const [tagInput, setTagInput] = useState("");
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [availableTags, setAvailableTags] = useState<string[]>([]);
@@ -88,6 +75,16 @@ export const BookmarkModal: React.FC<BookmarkModalProps> = ({
     "below"
   );
   const [maxVisibleTags, setMaxVisibleTags] = useState(8);
+  const [pageMetadata, setPageMetadata] = useState<PageMetadata | null>(null);
+  const [fetchingMetadata, setFetchingMetadata] = useState(false);
+  const [duplicate, setDuplicate] = useState<Bookmark | null>(null);
+  // Pending thumbnail change: a cropped image, null to go back to a generated one
+  const [customThumbnail, setCustomThumbnail] = useState<
+    string | null | undefined
+  >(undefined);
+  const [cropImage, setCropImage] = useState<HTMLImageElement | null>(null);
+  // Values last filled in from page metadata; fields still holding them may be replaced
+  const autoFilledRef = useRef({ title: "", description: "" });
 
   useEffect(() => {
     if (bookmark) {
@@ -96,6 +93,7 @@ export const BookmarkModal: React.FC<BookmarkModalProps> = ({
         url: bookmark.url,
         description: bookmark.description || "",
         tags: bookmark.tags, // tags are already strings
+        collectionId: bookmark.collectionId ?? null,
       });
     } else {
       setFormData({
@@ -103,18 +101,106 @@ export const BookmarkModal: React.FC<BookmarkModalProps> = ({
         url: "",
         description: "",
         tags: [],
+        collectionId: defaultCollectionId,
       });
     }
     setTagInput("");
     setErrors({});
     setShowTagSuggestions(false);
-  }, [bookmark, isOpen]);
+    setPageMetadata(null);
+    setDuplicate(null);
+    setCustomThumbnail(undefined);
+    setCropImage(null);
+    autoFilledRef.current = { title: "", description: "" };
+  }, [bookmark, isOpen, defaultCollectionId]);
+
+  // Warn when the URL is already bookmarked, ignoring tracking parameters, "www." and the like
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const urlValidation = validateUrl(formData.url);
+    if (!urlValidation.isValid || !urlValidation.sanitizedUrl) {
+      setDuplicate(null);
+      return;
+    }
+
+    const pageUrl = urlValidation.sanitizedUrl;
+    let cancelled = false;
+    const timeoutId = setTimeout(async () => {
+      const existing = await bookmarkService.findDuplicate(
+        pageUrl,
+        bookmark?.id
+      );
+      if (!cancelled) setDuplicate(existing);
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [formData.url, isOpen, bookmark]);
+
+  // Suggest details for new bookmarks once the URL stops changing
+  useEffect(() => {
+    if (!isOpen || bookmark || !metadataService.isEnabled()) return;
+
+    const urlValidation = validateUrl(formData.url);
+    if (!urlValidation.isValid || !urlValidation.sanitizedUrl) {
+      setPageMetadata(null);
+      return;
+    }
+
+    const pageUrl = urlValidation.sanitizedUrl;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(async () => {
+      try {
+        setFetchingMetadata(true);
+        const metadata = await metadataService.getMetadata(
+          pageUrl,
+          controller.signal
+        );
+        if (controller.signal.aborted) return;
+
+        const title = sanitizeText(metadata.title || "", 200);
+        const description = sanitizeText(metadata.description || "", 1000);
+        const previous = autoFilledRef.current;
+        autoFilledRef.current = { title, description };
+
+        // Only fill fields the user left empty or that hold an earlier suggestion
+        setFormData((prev) => ({
+          ...prev,
+          title:
+            title && (!prev.title.trim() || prev.title === previous.title)
+              ? title
+              : prev.title,
+          description:
+            description &&
+            (!prev.description?.trim() ||
+              prev.description === previous.description)
+              ? description
+              : prev.description,
+        }));
+        setPageMetadata(metadata);
+      } catch {
+        // Metadata is only a suggestion; the bookmark can still be added by hand
+        if (!controller.signal.aborted) setPageMetadata(null);
+      } finally {
+        if (!controller.signal.aborted) setFetchingMetadata(false);
+      }
+    }, 600);
+
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+      setFetchingMetadata(false);
+    };
+  }, [formData.url, isOpen, bookmark]);
 
   useEffect(() => {
     const loadTags = async () => {
       try {
-        const tags = await bookmarkService.getAllTags();
-        setAvailableTags(tags);
+        const tagTree = await bookmarkService.getAllTags();
+        setAvailableTags(getTagNames(tagTree));
       } catch (err) {
         // Silently handle tag loading errors
       }
@@ -226,7 +312,14 @@ export const BookmarkModal: React.FC<BookmarkModalProps> = ({
     }
 
     try {
-      await onSubmit(formData);
+      await onSubmit({
+        ...formData,
+        ...(pageMetadata && {
+          favicon: pageMetadata.favicon,
+          thumbnail: pageMetadata.thumbnail,
+        }),
+        ...(customThumbnail !== undefined && { customThumbnail }),
+      });
       // Only close the modal if submission was successful
       // If there's an error, it will be caught and the modal stays open
       onClose();
@@ -238,6 +331,45 @@ export const BookmarkModal: React.FC<BookmarkModalProps> = ({
     }
   };
 
+  const openThumbnailImage = async (file: File) => {
+    try {
+      setErrors((prev) => ({ ...prev, thumbnail: "" }));
+      setCropImage(await loadThumbnailImage(file));
+    } catch (error) {
+      setErrors((prev) => ({
+        ...prev,
+        thumbnail:
+          error instanceof Error ? error.message : "Unable to read the image",
+      }));
+    }
+  };
+
+  const handleThumbnailFileChange = (
+    e: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = e.target.files?.[0];
+    // Allow choosing the same file again
+    e.target.value = "";
+    if (file) openThumbnailImage(file);
+  };
+
+  // Pasting an image anywhere in the form opens it for cropping; text pastes are left alone
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const file = Array.from(e.clipboardData.files).find((item) =>
+      item.type.startsWith("image/")
+    );
+    if (file) {
+      e.preventDefault();
+      openThumbnailImage(file);
+    }
+  };
+
+  const hasCustomThumbnail =
+    typeof customThumbnail === "string" ||
+    (customThumbnail === undefined && bookmark?.thumbnailSource === "user");
+  const thumbnailPreview =
+    customThumbnail === undefined ? bookmark?.thumbnail : customThumbnail;
+
   const addTag = (tagName?: string) => {
     const trimmedTag = (tagName || tagInput).trim().toLowerCase();
     if (trimmedTag && !formData.tags.includes(trimmedTag)) {
@@ -294,7 +426,11 @@ export const BookmarkModal: React.FC<BookmarkModalProps> = ({
           </div>
 
           {/* Form */}
-          <form onSubmit={handleSubmit} className="space-y-4">
+          <form
+            onSubmit={handleSubmit}
+            onPaste={handlePaste}
+            className="space-y-4"
+          >
             {/* Title */}
             <div>
               <label
@@ -347,6 +483,116 @@ export const BookmarkModal: React.FC<BookmarkModalProps> = ({
               {errors.url && (
                 <p className="mt-1 text-sm text-red-600">{errors.url}</p>
               )}
+              {duplicate && (
+                <div className="mt-1 flex items-start space-x-2 text-xs text-amber-600 dark:text-amber-400">
+                  <AlertTriangle className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" />
+                  <span className="min-w-0 break-words">
+                    Already bookmarked as "{duplicate.title}"
+                    {duplicate.url !== formData.url.trim() &&
+                      ` (${duplicate.url})`}
+                  </span>
+                </div>
+              )}
+              {fetchingMetadata && (
+                <div className="mt-1 flex items-center space-x-2 text-xs text-gray-500 dark:text-gray-400">
+                  <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-primary-500"></div>
+                  <span>Fetching page details...</span>
+                </div>
+              )}
+              {pageMetadata?.thumbnail && customThumbnail === undefined && (
+                <div className="relative mt-2 rounded-lg overflow-hidden border border-gray-200 dark:border-gray-700">
+                  <img
+                    src={pageMetadata.thumbnail}
+                    alt="Suggested thumbnail"
+                    className="w-full h-32 object-cover"
+                    onError={() =>
+                      setPageMetadata((prev) =>
+                        prev ? { ...prev, thumbnail: undefined } : prev
+                      )
+                    }
+                  />
+                  <span className="absolute bottom-2 left-2 px-2 py-0.5 rounded text-xs text-white bg-black/60">
+                    Suggested thumbnail
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setPageMetadata((prev) =>
+                        prev ? { ...prev, thumbnail: undefined } : prev
+                      )
+                    }
+                    className="absolute top-2 right-2 p-1 rounded-full text-white bg-black/60 hover:bg-black/80 transition-colors duration-200"
+                    title="Generate a thumbnail instead"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {/* Thumbnail */}
+            <div>
+              <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Thumbnail
+              </span>
+              {cropImage ? (
+                <ThumbnailCropper
+                  image={cropImage}
+                  onApply={(dataUrl) => {
+                    setCustomThumbnail(dataUrl);
+                    setCropImage(null);
+                  }}
+                  onCancel={() => setCropImage(null)}
+                />
+              ) : (
+                <div className="flex items-center space-x-3">
+                  {thumbnailPreview ? (
+                    <img
+                      src={thumbnailPreview}
+                      alt="Thumbnail"
+                      className="w-24 h-[4.5rem] flex-shrink-0 rounded-lg object-cover border border-gray-200 dark:border-gray-700"
+                    />
+                  ) : (
+                    <div className="w-24 h-[4.5rem] flex-shrink-0 rounded-lg border border-dashed border-gray-300 dark:border-gray-600" />
+                  )}
+                  <div className="min-w-0 space-y-1">
+                    <label className="btn-secondary inline-flex items-center space-x-1 text-sm cursor-pointer">
+                      <Upload className="h-4 w-4" />
+                      <span>Upload image</span>
+                      <input
+                        type="file"
+                        accept="image/*"
+                        onChange={handleThumbnailFileChange}
+                        className="hidden"
+                      />
+                    </label>
+                    {hasCustomThumbnail && (
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setCustomThumbnail(
+                            bookmark?.thumbnailSource === "user"
+                              ? null
+                              : undefined
+                          )
+                        }
+                        className="flex items-center space-x-1 text-xs text-primary-600 dark:text-primary-400 hover:underline"
+                      >
+                        <RotateCcw className="h-3 w-3" />
+                        <span>Use automatic thumbnail</span>
+                      </button>
+                    )}
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {customThumbnail === null
+                        ? "A thumbnail will be generated when you save."
+                        : "Or paste an image. It is cropped to 4:3."}
+                    </p>
+                  </div>
+                </div>
+              )}
+              {errors.thumbnail && (
+                <p className="mt-1 text-sm text-red-600">{errors.thumbnail}</p>
+              )}
             </div>
 
             {/* Description */}
@@ -381,6 +627,38 @@ export const BookmarkModal: React.FC<BookmarkModalProps> = ({
               )}
             </div>
 
+            {/* Collection */}
+            {collectionOptions.length > 0 && (
+              <div>
+                <label
+                  htmlFor="collection"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                >
+                  Collection
+                </label>
+                <select
+                  id="collection"
+                  value={formData.collectionId ?? ""}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      collectionId: e.target.value || null,
+                    }))
+                  }
+                  className="input-field"
+                >
+                  <option value="">No collection</option>
+                  {collectionOptions.map(({ collection, depth }) => (
+                    <option key={collection.id} value={collection.id}>
+                      {"\u00A0\u00A0".repeat(depth)}
+                      {collection.icon ? `${collection.icon} ` : ""}
+                      {collection.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             {/* Tags */}
             <div className="relative">
               <label
@@ -0,0 +1,345 @@
+import React, { useState, useMemo } from "react";
+import {
+  ChevronDown,
+  ChevronRight,
+  ChevronUp,
+  Edit,
+  Folder,
+  FolderPlus,
+  Library,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import type {
+  Collection,
+  CollectionFormData,
+  CollectionTreeNode,
+} from "../types/bookmark";
+import { buildCollectionTree } from "../utils/collectionTree";
+import clsx from "clsx";
+
+interface CollectionSidebarProps {
+  collections: Collection[];
+  selectedCollectionId: string | null;
+  onSelectCollection: (id: string | null) => void;
+  onCreateCollection: (data: CollectionFormData) => Promise<void>;
+  onUpdateCollection: (id: string, data: CollectionFormData) => Promise<void>;
+  onDeleteCollection: (collection: Collection) => void;
+  onReorderCollections: (orderedIds: string[]) => Promise<void>;
+}
+
+// Inline editor state: either creating a child of `parentId` or renaming `collectionId`
+type EditorState =
+  | { mode: "create"; parentId: string | null }
+  | { mode: "rename"; collectionId: string }
+  | null;
+
+interface CollectionEditorProps {
+  initialName?: string;
+  initialIcon?: string;
+  depth: number;
+  onSave: (name: string, icon: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+const CollectionEditor: React.FC<CollectionEditorProps> = ({
+  initialName = "",
+  initialIcon = "",
+  depth,
+  onSave,
+  onCancel,
+}) => {
+  const [name, setName] = useState(initialName);
+  const [icon, setIcon] = useState(initialIcon);
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || saving) return;
+
+    try {
+      setSaving(true);
+      await onSave(name, icon);
+    } catch {
+      // Error handling is done in the parent component via toast
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="flex items-center space-x-1 py-1"
+      style={{ paddingLeft: `${depth * 12 + 8}px` }}
+    >
+      <input
+        type="text"
+        value={icon}
+        onChange={(e) => setIcon(e.target.value)}
+        className="input-field w-10 px-1 py-1 text-center text-sm"
+        placeholder="📁"
+        maxLength={4}
+        aria-label="Collection icon"
+      />
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") onCancel();
+        }}
+        className="input-field flex-1 min-w-0 py-1 text-sm"
+        placeholder="Collection name"
+        autoFocus
+        disabled={saving}
+      />
+    </form>
+  );
+};
+
+export const CollectionSidebar: React.FC<CollectionSidebarProps> = ({
+  collections,
+  selectedCollectionId,
+  onSelectCollection,
+  onCreateCollection,
+  onUpdateCollection,
+  onDeleteCollection,
+  onReorderCollections,
+}) => {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [editor, setEditor] = useState<EditorState>(null);
+
+  const tree = useMemo(() => buildCollectionTree(collections), [collections]);
+
+  const toggleCollapsed = (id: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleCreate = async (parentId: string | null, name: string, icon: string) => {
+    await onCreateCollection({ name, icon, parentId });
+    setEditor(null);
+    if (parentId) {
+      setCollapsed((prev) => {
+        const next = new Set(prev);
+        next.delete(parentId);
+        return next;
+      });
+    }
+  };
+
+  const handleRename = async (collection: Collection, name: string, icon: string) => {
+    await onUpdateCollection(collection.id, {
+      name,
+      icon,
+      parentId: collection.parentId,
+    });
+    setEditor(null);
+  };
+
+  const handleMove = (siblings: CollectionTreeNode[], index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= siblings.length) return;
+
+    const orderedIds = siblings.map((node) => node.collection.id);
+    [orderedIds[index], orderedIds[target]] = [orderedIds[target], orderedIds[index]];
+    onReorderCollections(orderedIds).catch(() => {
+      // Error handling is done in the parent component via toast
+    });
+  };
+
+  const renderNodes = (nodes: CollectionTreeNode[]): React.ReactNode =>
+    nodes.map((node, index) => {
+      const { collection, children, depth } = node;
+      const isSelected = selectedCollectionId === collection.id;
+      const isCollapsed = collapsed.has(collection.id);
+      const isRenaming =
+        editor?.mode === "rename" && editor.collectionId === collection.id;
+      const isCreatingChild =
+        editor?.mode === "create" && editor.parentId === collection.id;
+
+      return (
+        <li key={collection.id}>
+          {isRenaming ? (
+            <CollectionEditor
+              initialName={collection.name}
+              initialIcon={collection.icon}
+              depth={depth}
+              onSave={(name, icon) => handleRename(collection, name, icon)}
+              onCancel={() => setEditor(null)}
+            />
+          ) : (
+            <div
+              className={clsx(
+                "group flex items-center rounded-lg pr-1 transition-colors duration-200",
+                isSelected
+                  ? "bg-primary-50 dark:bg-primary-900/40 text-primary-700 dark:text-primary-300"
+                  : "text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+              )}
+              style={{ paddingLeft: `${depth * 12}px` }}
+            >
+              <button
+                type="button"
+                onClick={() => toggleCollapsed(collection.id)}
+                className={clsx(
+                  "p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200",
+                  children.length === 0 && "invisible"
+                )}
+                aria-label={isCollapsed ? "Expand collection" : "Collapse collection"}
+              >
+                {isCollapsed ? (
+                  <ChevronRight className="h-3 w-3" />
+                ) : (
+                  <ChevronDown className="h-3 w-3" />
+                )}
+              </button>
+              <button
+                type="button"
+                onClick={() => onSelectCollection(collection.id)}
+                className="flex items-center flex-1 min-w-0 space-x-2 py-1.5 text-left text-sm"
+                title={collection.name}
+              >
+                {collection.icon ? (
+                  <span className="w-4 text-center flex-shrink-0">
+                    {collection.icon}
+                  </span>
+                ) : (
+                  <Folder className="h-4 w-4 flex-shrink-0" />
+                )}
+                <span className="truncate">{collection.name}</span>
+              </button>
+
+              {/* Actions */}
+              <div className="hidden group-hover:flex items-center flex-shrink-0">
+                <button
+                  type="button"
+                  onClick={() => handleMove(nodes, index, -1)}
+                  disabled={index === 0}
+                  className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 disabled:opacity-30"
+                  title="Move up"
+                >
+                  <ChevronUp className="h-3 w-3" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleMove(nodes, index, 1)}
+                  disabled={index === nodes.length - 1}
+                  className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 disabled:opacity-30"
+                  title="Move down"
+                >
+                  <ChevronDown className="h-3 w-3" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setEditor({ mode: "create", parentId: collection.id })
+                  }
+                  className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                  title="Add sub-collection"
+                >
+                  <FolderPlus className="h-3 w-3" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setEditor({ mode: "rename", collectionId: collection.id })
+                  }
+                  className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                  title="Rename collection"
+                >
+                  <Edit className="h-3 w-3" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onDeleteCollection(collection)}
+                  className="p-1 text-gray-400 hover:text-red-600"
+                  title="Delete collection"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              </div>
+            </div>
+          )}
+
+          {(!isCollapsed || isCreatingChild) && (
+            <ul>
+              {!isCollapsed && renderNodes(children)}
+              {isCreatingChild && (
+                <li>
+                  <CollectionEditor
+                    depth={depth + 1}
+                    onSave={(name, icon) =>
+                      handleCreate(collection.id, name, icon)
+                    }
+                    onCancel={() => setEditor(null)}
+                  />
+                </li>
+              )}
+            </ul>
+          )}
+        </li>
+      );
+    });
+
+  return (
+    <aside className="card p-3">
+      <div className="flex items-center justify-between mb-2 px-1">
+        <h2
+          className="text-sm font-medium"
+          style={{ color: "var(--text-primary)" }}
+        >
+          Collections
+        </h2>
+        <button
+          type="button"
+          onClick={() => setEditor({ mode: "create", parentId: null })}
+          className="p-1 rounded text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+          title="New collection"
+        >
+          <Plus className="h-4 w-4" />
+        </button>
+      </div>
+
+      <button
+        type="button"
+        onClick={() => onSelectCollection(null)}
+        className={clsx(
+          "flex items-center w-full space-x-2 px-2 py-1.5 rounded-lg text-left text-sm transition-colors duration-200",
+          selectedCollectionId === null
+            ? "bg-primary-50 dark:bg-primary-900/40 text-primary-700 dark:text-primary-300"
+            : "text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+        )}
+      >
+        <Library className="h-4 w-4" />
+        <span>All bookmarks</span>
+      </button>
+
+      <ul className="mt-1">
+        {renderNodes(tree)}
+        {editor?.mode === "create" && editor.parentId === null && (
+          <li>
+            <CollectionEditor
+              depth={0}
+              onSave={(name, icon) => handleCreate(null, name, icon)}
+              onCancel={() => setEditor(null)}
+            />
+          </li>
+        )}
+      </ul>
+
+      {collections.length === 0 && editor === null && (
+        <p className="px-2 mt-2 text-xs text-gray-500 dark:text-gray-400">
+          Group bookmarks into nested collections like "Projects/Client A".
+        </p>
+      )}
+    </aside>
+  );
+};
@@ -0,0 +1,238 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { X, Merge, AlertTriangle, CheckCircle } from "lucide-react";
+import type { DuplicateGroup, DuplicateMerge } from "../types/bookmark";
+import { bookmarkService } from "../services/bookmarkService";
+import clsx from "clsx";
+
+interface DuplicatesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onMerged: (message: string, merges: DuplicateMerge[]) => void;
+}
+
+// Helper function to describe how many bookmarks an operation changed
+const formatBookmarkCount = (count: number): string =>
+  `${count} bookmark${count !== 1 ? "s" : ""}`;
+
+export const DuplicatesModal: React.FC<DuplicatesModalProps> = ({
+  isOpen,
+  onClose,
+  onMerged,
+}) => {
+  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+  // Bookmark kept for each group, keyed by canonical URL (defaults to the oldest)
+  const [keepIds, setKeepIds] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadGroups = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setGroups(await bookmarkService.findDuplicateGroups());
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to look for duplicates"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      setKeepIds({});
+      loadGroups();
+    }
+  }, [isOpen, loadGroups]);
+
+  const getKeepId = (group: DuplicateGroup) =>
+    keepIds[group.canonicalUrl] ?? group.bookmarks[0].id;
+
+  const mergeGroups = async (selectedGroups: DuplicateGroup[]) => {
+    try {
+      setError(null);
+      setBusy(true);
+      const merges: DuplicateMerge[] = [];
+      for (const group of selectedGroups) {
+        const keepId = getKeepId(group);
+        merges.push(
+          await bookmarkService.mergeDuplicates(
+            keepId,
+            group.bookmarks.map((bookmark) => bookmark.id)
+          )
+        );
+      }
+      const removed = merges.reduce(
+        (total, merge) => total + merge.duplicateIds.length,
+        0
+      );
+      onMerged(
+        `Merged away ${formatBookmarkCount(removed)}. They were moved to the trash.`,
+        merges
+      );
+      await loadGroups();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Merge failed");
+      await loadGroups();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen px-4 pt-4 pb-20 text-center">
+        {/* Backdrop */}
+        <div
+          className="fixed inset-0 transition-opacity bg-black bg-opacity-50 backdrop-blur-md"
+          onClick={busy ? undefined : onClose}
+        />
+
+        {/* Modal */}
+        <div className="relative inline-block w-full max-w-2xl p-6 my-8 text-left align-middle transition-all transform card shadow-xl rounded-2xl z-10">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-2">
+            <h3
+              className="text-lg font-medium"
+              style={{ color: "var(--text-primary)" }}
+            >
+              Duplicate Bookmarks
+            </h3>
+            <button
+              onClick={onClose}
+              disabled={busy}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors duration-200 disabled:opacity-50"
+            >
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+          <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
+            Bookmarks that point to the same page once tracking parameters,
+            "www.", trailing slashes and in-page anchors are ignored. Merging
+            keeps the selected bookmark with every tag, the longest description
+            and the earliest creation date, and moves the others to the trash.
+          </p>
+
+          {error && (
+            <div className="mb-4 flex items-start space-x-2 text-sm text-red-600 dark:text-red-400">
+              <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {loading && groups.length === 0 ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-500"></div>
+            </div>
+          ) : groups.length === 0 ? (
+            <div className="flex flex-col items-center py-8 text-sm text-gray-500 dark:text-gray-400">
+              <CheckCircle className="h-8 w-8 mb-2 text-green-500" />
+              No duplicate bookmarks found.
+            </div>
+          ) : (
+            <ul className="max-h-[28rem] overflow-y-auto space-y-3">
+              {groups.map((group) => {
+                const keepId = getKeepId(group);
+
+                return (
+                  <li
+                    key={group.canonicalUrl}
+                    className="rounded-lg border border-gray-200 dark:border-gray-700 p-3"
+                  >
+                    <div className="flex items-center justify-between mb-2 space-x-2">
+                      <span className="text-xs font-mono text-gray-500 dark:text-gray-400 truncate">
+                        {group.canonicalUrl}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => mergeGroups([group])}
+                        disabled={busy}
+                        className="btn-secondary flex items-center space-x-1 py-1 px-2 text-xs flex-shrink-0"
+                      >
+                        <Merge className="h-3 w-3" />
+                        <span>Merge {group.bookmarks.length}</span>
+                      </button>
+                    </div>
+
+                    <div className="space-y-1">
+                      {group.bookmarks.map((bookmark) => (
+                        <label
+                          key={bookmark.id}
+                          className={clsx(
+                            "flex items-start space-x-2 p-2 rounded-md cursor-pointer",
+                            bookmark.id === keepId
+                              ? "bg-primary-50 dark:bg-primary-900/20"
+                              : "hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                          )}
+                        >
+                          <input
+                            type="radio"
+                            name={`keep-${group.canonicalUrl}`}
+                            checked={bookmark.id === keepId}
+                            onChange={() =>
+                              setKeepIds((prev) => ({
+                                ...prev,
+                                [group.canonicalUrl]: bookmark.id,
+                              }))
+                            }
+                            disabled={busy}
+                            className="mt-1 text-primary-600 focus:ring-primary-500"
+                            aria-label={`Keep ${bookmark.title}`}
+                          />
+                          <div className="min-w-0 flex-1">
+                            <p
+                              className="text-sm font-medium truncate"
+                              style={{ color: "var(--text-primary)" }}
+                            >
+                              {bookmark.title}
+                            </p>
+                            <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                              {bookmark.url}
+                            </p>
+                            <p className="text-xs text-gray-400 dark:text-gray-500">
+                              Added {bookmark.createdAt.toLocaleDateString()}
+                              {bookmark.tags.length > 0 &&
+                                ` · ${bookmark.tags.join(", ")}`}
+                            </p>
+                          </div>
+                        </label>
+                      ))}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {/* Actions */}
+          {groups.length > 1 && (
+            <div className="flex items-center justify-between pt-4 mt-4 border-t border-gray-200 dark:border-gray-700">
+              <span className="text-sm text-gray-700 dark:text-gray-300">
+                {groups.length} groups,{" "}
+                {formatBookmarkCount(
+                  groups.reduce(
+                    (total, group) => total + group.bookmarks.length,
+                    0
+                  )
+                )}
+              </span>
+              <button
+                type="button"
+                onClick={() => mergeGroups(groups)}
+                disabled={busy}
+                className="btn-primary flex items-center space-x-1 py-1"
+              >
+                <Merge className="h-4 w-4" />
+                <span>{busy ? "Merging..." : "Merge all"}</span>
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,297 @@
+import React, { useState, useEffect, useMemo } from "react";
+import { X, Download, AlertTriangle } from "lucide-react";
+import type { BookmarkFilters, Collection } from "../types/bookmark";
+import { bookmarkService } from "../services/bookmarkService";
+import {
+  CSV_COLUMNS,
+  DEFAULT_CSV_COLUMNS,
+  EXPORT_FORMATS,
+  exportBookmarks,
+} from "../utils/bookmarkExport";
+import type {
+  CsvColumn,
+  ExportFormat,
+  MarkdownGrouping,
+} from "../utils/bookmarkExport";
+import { getCollectionPath } from "../utils/collectionTree";
+import clsx from "clsx";
+
+interface ExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  format: ExportFormat;
+  filters: BookmarkFilters; // The filters of the current view
+  collections: Collection[];
+  onExported: (count: number) => void;
+}
+
+type ExportScope = "view" | "library";
+
+const MARKDOWN_GROUPINGS: Array<{ value: MarkdownGrouping; label: string }> = [
+  { value: "tag", label: "By tag" },
+  { value: "date", label: "By month added" },
+];
+
+export const ExportModal: React.FC<ExportModalProps> = ({
+  isOpen,
+  onClose,
+  format,
+  filters,
+  collections,
+  onExported,
+}) => {
+  const [selectedFormat, setSelectedFormat] = useState<ExportFormat>(format);
+  const [scope, setScope] = useState<ExportScope>("view");
+  const [csvColumns, setCsvColumns] =
+    useState<CsvColumn[]>(DEFAULT_CSV_COLUMNS);
+  const [grouping, setGrouping] = useState<MarkdownGrouping>("tag");
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the format picked in the menu every time the modal is opened
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedFormat(format);
+      setScope("view");
+      setError(null);
+    }
+  }, [isOpen, format]);
+
+  const collectionPaths = useMemo(
+    () =>
+      Object.fromEntries(
+        collections.map((collection) => [
+          collection.id,
+          getCollectionPath(collections, collection.id),
+        ])
+      ),
+    [collections]
+  );
+
+  const toggleCsvColumn = (column: CsvColumn) => {
+    setCsvColumns((prev) =>
+      prev.includes(column)
+        ? prev.filter((item) => item !== column)
+        : [...prev, column]
+    );
+  };
+
+  const handleExport = async () => {
+    try {
+      setError(null);
+      setExporting(true);
+      const bookmarks = await bookmarkService.getBookmarksForExport(
+        scope === "view" ? filters : null
+      );
+      const file = exportBookmarks(bookmarks, selectedFormat, {
+        csvColumns,
+        markdownGrouping: grouping,
+        collectionPaths,
+      });
+      const blob = new Blob([file.content], { type: file.mimeType });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = file.fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+      onExported(bookmarks.length);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen px-4 pt-4 pb-20 text-center">
+        {/* Backdrop */}
+        <div
+          className="fixed inset-0 transition-opacity bg-black bg-opacity-50 backdrop-blur-md"
+          onClick={exporting ? undefined : onClose}
+        />
+
+        {/* Modal */}
+        <div className="relative inline-block w-full max-w-lg p-6 my-8 text-left align-middle transition-all transform card shadow-xl rounded-2xl z-10">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <h3
+              className="text-lg font-medium"
+              style={{ color: "var(--text-primary)" }}
+            >
+              Export Bookmarks
+            </h3>
+            <button
+              onClick={onClose}
+              disabled={exporting}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors duration-200 disabled:opacity-50"
+            >
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          {error && (
+            <div className="mb-4 flex items-start space-x-2 text-sm text-red-600 dark:text-red-400">
+              <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <div className="space-y-6">
+            {/* Format */}
+            <div className="space-y-2">
+              <h4
+                className="text-sm font-medium"
+                style={{ color: "var(--text-primary)" }}
+              >
+                Format
+              </h4>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(
+                  (option) => (
+                    <button
+                      key={option}
+                      type="button"
+                      onClick={() => setSelectedFormat(option)}
+                      className={clsx(
+                        "px-3 py-1 rounded-full text-sm font-medium transition-colors duration-200",
+                        selectedFormat === option
+                          ? "bg-primary-600 text-white"
+                          : "bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+                      )}
+                    >
+                      {EXPORT_FORMATS[option].label}
+                    </button>
+                  )
+                )}
+              </div>
+              {selectedFormat === "html" && (
+                <p
+                  className="text-sm"
+                  style={{ color: "var(--text-secondary)" }}
+                >
+                  Can be imported by Chrome, Firefox, Safari and Edge. Tags are
+                  kept for browsers and services that read them.
+                </p>
+              )}
+            </div>
+
+            {/* Scope */}
+            <div className="space-y-2">
+              <h4
+                className="text-sm font-medium"
+                style={{ color: "var(--text-primary)" }}
+              >
+                Bookmarks
+              </h4>
+              <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="radio"
+                  name="export-scope"
+                  checked={scope === "view"}
+                  onChange={() => setScope("view")}
+                  className="text-primary-600 focus:ring-primary-500"
+                />
+                <span>
+                  Those matching the current search and filters, in the current
+                  order
+                </span>
+              </label>
+              <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="radio"
+                  name="export-scope"
+                  checked={scope === "library"}
+                  onChange={() => setScope("library")}
+                  className="text-primary-600 focus:ring-primary-500"
+                />
+                <span>The whole library</span>
+              </label>
+            </div>
+
+            {/* CSV Columns */}
+            {selectedFormat === "csv" && (
+              <div className="space-y-2">
+                <h4
+                  className="text-sm font-medium"
+                  style={{ color: "var(--text-primary)" }}
+                >
+                  Columns
+                </h4>
+                <div className="grid grid-cols-2 gap-2">
+                  {CSV_COLUMNS.map((column) => (
+                    <label
+                      key={column.id}
+                      className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={csvColumns.includes(column.id)}
+                        onChange={() => toggleCsvColumn(column.id)}
+                        className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                      />
+                      <span>{column.label}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Markdown Grouping */}
+            {selectedFormat === "markdown" && (
+              <div className="space-y-2">
+                <h4
+                  className="text-sm font-medium"
+                  style={{ color: "var(--text-primary)" }}
+                >
+                  Sections
+                </h4>
+                {MARKDOWN_GROUPINGS.map((option) => (
+                  <label
+                    key={option.value}
+                    className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300"
+                  >
+                    <input
+                      type="radio"
+                      name="export-grouping"
+                      checked={grouping === option.value}
+                      onChange={() => setGrouping(option.value)}
+                      className="text-primary-600 focus:ring-primary-500"
+                    />
+                    <span>{option.label}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                disabled={exporting}
+                className="btn-secondary"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleExport}
+                disabled={
+                  exporting ||
+                  (selectedFormat === "csv" && csvColumns.length === 0)
+                }
+                className="btn-primary flex items-center space-x-2"
+              >
+                <Download className="h-4 w-4" />
+                <span>{exporting ? "Exporting..." : "Download"}</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,26 +1,76 @@
 import React, { useState } from "react";
-import { Search, Moon, Sun, Plus, LogOut, User } from "lucide-react";
+import {
+  Moon,
+  Sun,
+  Plus,
+  LogOut,
+  User,
+  Upload,
+  Archive,
+  CloudOff,
+  RefreshCw,
+  Tags,
+  CopyCheck,
+  Trash2,
+  BookOpen,
+  Download,
+} from "lucide-react";
 import { useTheme } from "../hooks/useTheme";
 import { useAuth } from "../hooks/useAuth";
 import { useToast } from "../hooks/useToast";
+import { SearchInput } from "./SearchInput";
+import type { SearchQueryError } from "../types/bookmark";
+import { EXPORT_FORMATS } from "../utils/bookmarkExport";
+import type { ExportFormat } from "../utils/bookmarkExport";
 import clsx from "clsx";
 import logo32 from "../assets/logo_32x32.png";
 
 interface HeaderProps {
   searchQuery: string;
   onSearchChange: (query: string) => void;
+  searchError: SearchQueryError | null;
+  searchSuggestionSource: { tags: string[]; domains: string[] };
   onAddBookmark: () => void;
+  onImportBookmarks: () => void;
+  onOpenBackup: () => void;
+  onExport: (format: ExportFormat) => void;
+  onManageTags: () => void;
+  onFindDuplicates: () => void;
+  onOpenTrash: () => void;
+  trashCount: number;
+  unreadCount: number;
+  isReadLaterOpen: boolean;
+  onToggleReadLater: () => void;
+  pendingSyncCount: number;
+  isOffline: boolean;
+  onOpenPendingSync: () => void;
 }
 
 export const Header: React.FC<HeaderProps> = ({
   searchQuery,
   onSearchChange,
+  searchError,
+  searchSuggestionSource,
   onAddBookmark,
+  onImportBookmarks,
+  onOpenBackup,
+  onExport,
+  onManageTags,
+  onFindDuplicates,
+  onOpenTrash,
+  trashCount,
+  unreadCount,
+  isReadLaterOpen,
+  onToggleReadLater,
+  pendingSyncCount,
+  isOffline,
+  onOpenPendingSync,
 }) => {
   const { theme, toggleTheme } = useTheme();
   const { user, logout } = useAuth();
   const { showToast } = useToast();
   const [showUserMenu, setShowUserMenu] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
 
   const handleLogout = async () => {
     try {
@@ -33,6 +83,137 @@ export const Header: React.FC<HeaderProps> = ({
     setShowUserMenu(false);
   };
 
+  const handleImport = () => {
+    setShowUserMenu(false);
+    onImportBookmarks();
+  };
+
+  const handleBackup = () => {
+    setShowUserMenu(false);
+    onOpenBackup();
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    setShowExportMenu(false);
+    onExport(format);
+  };
+
+  const handleManageTags = () => {
+    setShowUserMenu(false);
+    onManageTags();
+  };
+
+  const handleFindDuplicates = () => {
+    setShowUserMenu(false);
+    onFindDuplicates();
+  };
+
+  const handleOpenTrash = () => {
+    setShowUserMenu(false);
+    onOpenTrash();
+  };
+
+  const showSyncIndicator = isOffline || pendingSyncCount > 0;
+  const pendingSyncLabel = `${pendingSyncCount} change${
+    pendingSyncCount !== 1 ? "s" : ""
+  } waiting to sync`;
+  const syncIndicatorTitle = isOffline
+    ? pendingSyncCount > 0
+      ? `Offline - ${pendingSyncLabel}`
+      : "Offline"
+    : pendingSyncLabel;
+
+  const renderSyncIndicator = (iconClassName: string) => (
+    <button
+      onClick={onOpenPendingSync}
+      className={clsx(
+        "relative p-2 rounded-lg transition-colors duration-200",
+        "text-amber-600 hover:text-amber-700 dark:text-amber-400 dark:hover:text-amber-300",
+        "hover:bg-gray-100 dark:hover:bg-gray-800",
+        "focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2"
+      )}
+      title={syncIndicatorTitle}
+      aria-label={syncIndicatorTitle}
+    >
+      {isOffline ? (
+        <CloudOff className={iconClassName} />
+      ) : (
+        <RefreshCw className={iconClassName} />
+      )}
+      {pendingSyncCount > 0 && (
+        <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-amber-500 text-white text-xs font-medium flex items-center justify-center">
+          {pendingSyncCount}
+        </span>
+      )}
+    </button>
+  );
+
+  const readLaterTitle =
+    unreadCount > 0
+      ? `Read later - ${unreadCount} unread`
+      : "Read later";
+
+  const renderReadLaterButton = (iconClassName: string) => (
+    <button
+      onClick={onToggleReadLater}
+      className={clsx(
+        "relative p-2 rounded-lg transition-colors duration-200",
+        isReadLaterOpen
+          ? "text-primary-600 bg-primary-50 dark:text-primary-400 dark:bg-primary-500/20"
+          : "text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800",
+        "focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2"
+      )}
+      title={readLaterTitle}
+      aria-label={readLaterTitle}
+      aria-pressed={isReadLaterOpen}
+    >
+      <BookOpen className={iconClassName} />
+      {unreadCount > 0 && (
+        <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-primary-500 text-white text-xs font-medium flex items-center justify-center">
+          {unreadCount > 99 ? "99+" : unreadCount}
+        </span>
+      )}
+    </button>
+  );
+
+  const renderExportMenu = (iconClassName: string) => (
+    <div className="relative">
+      <button
+        onClick={() => setShowExportMenu(!showExportMenu)}
+        className={clsx(
+          "p-2 rounded-lg transition-colors duration-200",
+          "text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200",
+          "hover:bg-gray-100 dark:hover:bg-gray-800",
+          "focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2"
+        )}
+        title="Export bookmarks"
+        aria-label="Export bookmarks"
+        aria-expanded={showExportMenu}
+      >
+        <Download className={iconClassName} />
+      </button>
+
+      {showExportMenu && (
+        <div className="absolute right-0 mt-2 w-56 bg-white dark:bg-gray-800 rounded-md shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none z-50">
+          <div className="py-1">
+            <div className="px-4 py-2 text-xs font-medium text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-600">
+              Export as
+            </div>
+            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                className="flex items-center w-full px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                {EXPORT_FORMATS[format].label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+
   return (
     <header className="sticky top-0 z-40 header-bg backdrop-blur-md">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -64,6 +245,15 @@ export const Header: React.FC<HeaderProps> = ({
                 <Plus className="h-4 w-4" />
               </button>
 
+              {/* Export */}
+              {renderExportMenu("h-4 w-4")}
+
+              {/* Read Later */}
+              {renderReadLaterButton("h-4 w-4")}
+
+              {/* Pending Sync Indicator */}
+              {showSyncIndicator && renderSyncIndicator("h-4 w-4")}
+
               {/* Theme Toggle */}
               <button
                 onClick={toggleTheme}
@@ -105,6 +295,46 @@ export const Header: React.FC<HeaderProps> = ({
                           {user?.email || "User"}
                         </p>
                       </div>
+                      <button
+                        onClick={handleImport}
+                        className="flex items-center w-full px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                      >
+                        <Upload className="h-4 w-4 mr-2" />
+                        Import bookmarks
+                      </button>
+                      <button
+                        onClick={handleBackup}
+                        className="flex items-center w-full px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                      >
+                        <Archive className="h-4 w-4 mr-2" />
+                        Backup & restore
+                      </button>
+                      <button
+                        onClick={handleManageTags}
+                        className="flex items-center w-full px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                      >
+                        <Tags className="h-4 w-4 mr-2" />
+                        Manage tags
+                      </button>
+                      <button
+                        onClick={handleFindDuplicates}
+                        className="flex items-center w-full px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                      >
+                        <CopyCheck className="h-4 w-4 mr-2" />
+                        Find duplicates
+                      </button>
+                      <button
+                        onClick={handleOpenTrash}
+                        className="flex items-center w-full px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                      >
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Trash
+                        {trashCount > 0 && (
+                          <span className="ml-auto text-xs text-gray-500 dark:text-gray-400">
+                            {trashCount}
+                          </span>
+                        )}
+                      </button>
                       <button
                         onClick={handleLogout}
                         className="flex items-center w-full px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
@@ -121,18 +351,14 @@ export const Header: React.FC<HeaderProps> = ({
 
           {/* Bottom row: Search Bar */}
           <div className="pb-3">
-            <div className="relative">
-              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                <Search className="h-5 w-5 text-gray-400" />
-              </div>
-              <input
-                type="text"
-                placeholder="Search bookmarks..."
-                value={searchQuery}
-                onChange={(e) => onSearchChange(e.target.value)}
-                className="input-field pl-10 pr-4 text-base"
-              />
-            </div>
+            <SearchInput
+              value={searchQuery}
+              onChange={onSearchChange}
+              placeholder="Search bookmarks..."
+              inputClassName="text-base"
+              error={searchError}
+              suggestionSource={searchSuggestionSource}
+            />
           </div>
         </div>
 
@@ -151,18 +377,13 @@ export const Header: React.FC<HeaderProps> = ({
 
           {/* Search Bar */}
           <div className="flex-1 max-w-lg mx-8">
-            <div className="relative">
-              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                <Search className="h-5 w-5 text-gray-400" />
-              </div>
-              <input
-                type="text"
-                placeholder="Search bookmarks, tags, or URLs..."
-                value={searchQuery}
-                onChange={(e) => onSearchChange(e.target.value)}
-                className="input-field pl-10 pr-4"
-              />
-            </div>
+            <SearchInput
+              value={searchQuery}
+              onChange={onSearchChange}
+              placeholder="Search, or try tag:, site:, is:untagged..."
+              error={searchError}
+              suggestionSource={searchSuggestionSource}
+            />
           </div>
 
           {/* Actions */}
@@ -176,6 +397,15 @@ export const Header: React.FC<HeaderProps> = ({
               <span className="hidden sm:inline">Add Bookmark</span>
             </button>
 
+            {/* Export */}
+            {renderExportMenu("h-5 w-5")}
+
+            {/* Read Later */}
+            {renderReadLaterButton("h-5 w-5")}
+
+            {/* Pending Sync Indicator */}
+            {showSyncIndicator && renderSyncIndicator("h-5 w-5")}
+
             {/* Theme Toggle */}
             <button
               onClick={toggleTheme}
@@ -217,6 +447,46 @@ export const Header: React.FC<HeaderProps> = ({
                         {user?.email || "User"}
                       </p>
                     </div>
+                    <button
+                      onClick={handleImport}
+                      className="flex items-center w-full px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                    >
+                      <Upload className="h-5 w-5 mr-2" />
+                      Import bookmarks
+                    </button>
+                    <button
+                      onClick={handleBackup}
+                      className="flex items-center w-full px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                    >
+                      <Archive className="h-5 w-5 mr-2" />
+                      Backup & restore
+                    </button>
+                    <button
+                      onClick={handleManageTags}
+                      className="flex items-center w-full px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                    >
+                      <Tags className="h-5 w-5 mr-2" />
+                      Manage tags
+                    </button>
+                    <button
+                      onClick={handleFindDuplicates}
+                      className="flex items-center w-full px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                    >
+                      <CopyCheck className="h-5 w-5 mr-2" />
+                      Find duplicates
+                    </button>
+                    <button
+                      onClick={handleOpenTrash}
+                      className="flex items-center w-full px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                    >
+                      <Trash2 className="h-5 w-5 mr-2" />
+                      Trash
+                      {trashCount > 0 && (
+                        <span className="ml-auto text-xs text-gray-500 dark:text-gray-400">
+                          {trashCount}
+                        </span>
+                      )}
+                    </button>
                     <button
                       onClick={handleLogout}
                       className="flex items-center w-full px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
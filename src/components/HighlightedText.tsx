@@ -0,0 +1,46 @@
+import React, { useMemo } from "react";
+import { getMatchWeight, tokenizeText } from "../utils/searchIndex";
+
+interface HighlightedTextProps {
+  text: string;
+  terms: string[];
+}
+
+// Words and the separators between them; words land on the odd indices
+const WORD_SPLIT_PATTERN = /([\p{L}\p{N}]+)/u;
+
+export const HighlightedText: React.FC<HighlightedTextProps> = ({
+  text,
+  terms,
+}) => {
+  const searchWords = useMemo(
+    () => terms.flatMap((term) => tokenizeText(term)),
+    [terms]
+  );
+
+  if (searchWords.length === 0) {
+    return <>{text}</>;
+  }
+
+  return (
+    <>
+      {text.split(WORD_SPLIT_PATTERN).map((part, index) => {
+        const isMatch =
+          index % 2 === 1 &&
+          searchWords.some(
+            (word) => getMatchWeight(part.toLowerCase(), word) > 0
+          );
+        return isMatch ? (
+          <mark
+            key={index}
+            className="bg-yellow-200 text-inherit dark:bg-yellow-500/30 rounded-sm"
+          >
+            {part}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{part}</React.Fragment>
+        );
+      })}
+    </>
+  );
+};
@@ -0,0 +1,467 @@
+import React, { useState, useEffect, useMemo } from "react";
+import { X, Upload, CheckCircle, AlertTriangle } from "lucide-react";
+import type {
+  BookmarkImportEntry,
+  BookmarkImportPreviewRow,
+  BookmarkImportProgress,
+  BookmarkImportReport,
+  BookmarkImportRowStatus,
+} from "../types/bookmark";
+import { bookmarkService } from "../services/bookmarkService";
+import { detectImporter, getImporters } from "../utils/importers";
+import type { BookmarkImporter } from "../utils/importers";
+import clsx from "clsx";
+
+interface ImportBookmarksModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: (report: BookmarkImportReport) => void;
+}
+
+type ImportStep = "select" | "preview" | "importing" | "done";
+
+// Rows rendered in the preview table; the summary above it counts every row
+const PREVIEW_ROW_LIMIT = 200;
+
+const ROW_STATUS_BADGES: Record<
+  BookmarkImportRowStatus,
+  { label: string; className: string }
+> = {
+  new: {
+    label: "New",
+    className:
+      "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+  },
+  duplicate: {
+    label: "Duplicate",
+    className:
+      "bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300",
+  },
+  invalid: {
+    label: "Invalid",
+    className: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300",
+  },
+};
+
+export const ImportBookmarksModal: React.FC<ImportBookmarksModalProps> = ({
+  isOpen,
+  onClose,
+  onImported,
+}) => {
+  const [step, setStep] = useState<ImportStep>("select");
+  const [sourceId, setSourceId] = useState(""); // Empty to detect the format
+  const [importer, setImporter] = useState<BookmarkImporter | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [fileContent, setFileContent] = useState("");
+  const [folderTags, setFolderTags] = useState(true);
+  const [entries, setEntries] = useState<BookmarkImportEntry[]>([]);
+  const [rows, setRows] = useState<BookmarkImportPreviewRow[]>([]);
+  const [progress, setProgress] = useState<BookmarkImportProgress>({
+    processed: 0,
+    total: 0,
+  });
+  const [report, setReport] = useState<BookmarkImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the wizard every time the modal is opened
+  useEffect(() => {
+    if (isOpen) {
+      setStep("select");
+      setSourceId("");
+      setImporter(null);
+      setFileName("");
+      setFileContent("");
+      setEntries([]);
+      setRows([]);
+      setReport(null);
+      setError(null);
+      setProgress({ processed: 0, total: 0 });
+    }
+  }, [isOpen]);
+
+  const importers = useMemo(() => getImporters(), []);
+  const selectedSource = importers.find((item) => item.id === sourceId);
+
+  // Re-parse and check the entries again when the folder mapping option changes
+  useEffect(() => {
+    if (!fileContent || !importer) return;
+
+    let cancelled = false;
+    const parsed = importer.parse(fileContent, { folderTags });
+    setEntries(parsed);
+    bookmarkService
+      .previewImport(parsed)
+      .then((result) => {
+        if (!cancelled) setRows(result);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Preview failed");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fileContent, importer, folderTags]);
+
+  const rowCounts = useMemo(
+    () =>
+      rows.reduce(
+        (counts, row) => ({ ...counts, [row.status]: counts[row.status] + 1 }),
+        { new: 0, duplicate: 0, invalid: 0 } as Record<
+          BookmarkImportRowStatus,
+          number
+        >
+      ),
+    [rows]
+  );
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    const content = await file.text();
+    // Allow selecting the same file again after an error
+    e.target.value = "";
+
+    const match = selectedSource
+      ? selectedSource.detect(content, file.name)
+        ? selectedSource
+        : null
+      : detectImporter(content, file.name);
+    if (!match) {
+      setError(
+        selectedSource
+          ? `This file does not look like a ${selectedSource.label} export.`
+          : "This file is not an export we can read. Pick its source and try again."
+      );
+      return;
+    }
+
+    setImporter(match);
+    setFileName(file.name);
+    setFileContent(content);
+    setRows([]);
+    setStep("preview");
+  };
+
+  const handleImport = async () => {
+    try {
+      setError(null);
+      setStep("importing");
+      const result = await bookmarkService.importBookmarks(
+        entries,
+        setProgress
+      );
+      setReport(result);
+      setStep("done");
+      onImported(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+      setStep("preview");
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const progressPercent =
+    progress.total > 0
+      ? Math.round((progress.processed / progress.total) * 100)
+      : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen px-4 pt-4 pb-20 text-center">
+        {/* Backdrop */}
+        <div
+          className="fixed inset-0 transition-opacity bg-black bg-opacity-50 backdrop-blur-md"
+          onClick={step === "importing" ? undefined : onClose}
+        />
+
+        {/* Modal */}
+        <div
+          className={clsx(
+            "relative inline-block w-full p-6 my-8 text-left align-middle transition-all transform card shadow-xl rounded-2xl z-10",
+            step === "preview" ? "max-w-3xl" : "max-w-lg"
+          )}
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <h3
+              className="text-lg font-medium"
+              style={{ color: "var(--text-primary)" }}
+            >
+              Import Bookmarks
+            </h3>
+            <button
+              onClick={onClose}
+              disabled={step === "importing"}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors duration-200 disabled:opacity-50"
+            >
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          {error && (
+            <div className="mb-4 flex items-start space-x-2 text-sm text-red-600 dark:text-red-400">
+              <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {step === "select" && (
+            <div className="space-y-4">
+              <div>
+                <label
+                  htmlFor="import-source"
+                  className="block text-sm font-medium mb-1"
+                  style={{ color: "var(--text-primary)" }}
+                >
+                  Import from
+                </label>
+                <select
+                  id="import-source"
+                  value={sourceId}
+                  onChange={(e) => {
+                    setSourceId(e.target.value);
+                    setError(null);
+                  }}
+                  className="input-field"
+                >
+                  <option value="">Detect from the file</option>
+                  {importers.map((item) => (
+                    <option key={item.id} value={item.id}>
+                      {item.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {selectedSource ? (
+                <p
+                  className="text-sm"
+                  style={{ color: "var(--text-secondary)" }}
+                >
+                  {selectedSource.instructions}
+                </p>
+              ) : (
+                <ul
+                  className="text-sm space-y-1 list-disc pl-5"
+                  style={{ color: "var(--text-secondary)" }}
+                >
+                  {importers.map((item) => (
+                    <li key={item.id}>
+                      <span className="font-medium">{item.label}:</span>{" "}
+                      {item.instructions}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <label className="flex flex-col items-center justify-center w-full h-32 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors duration-200">
+                <Upload className="h-8 w-8 text-gray-400 mb-2" />
+                <span className="text-sm text-gray-600 dark:text-gray-400">
+                  Choose an export file
+                </span>
+                <input
+                  type="file"
+                  accept={
+                    selectedSource
+                      ? selectedSource.accept
+                      : importers.map((item) => item.accept).join(",")
+                  }
+                  onChange={handleFileChange}
+                  className="hidden"
+                />
+              </label>
+            </div>
+          )}
+
+          {step === "preview" && importer && (
+            <div className="space-y-4">
+              <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+                Found <span className="font-medium">{entries.length}</span>{" "}
+                bookmark{entries.length !== 1 ? "s" : ""} in{" "}
+                <span className="font-medium">{fileName}</span> (
+                {importer.label}). Nothing is saved until you import.
+              </p>
+              {importer.supportsFolderTags && (
+                <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={folderTags}
+                    onChange={(e) => setFolderTags(e.target.checked)}
+                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span>Use folder names as tags</span>
+                </label>
+              )}
+              {rows.length > 0 && (
+                <>
+                  <div className="flex flex-wrap gap-2 text-xs">
+                    {(
+                      Object.keys(ROW_STATUS_BADGES) as BookmarkImportRowStatus[]
+                    ).map((status) => (
+                      <span
+                        key={status}
+                        className={clsx(
+                          "px-2 py-0.5 rounded-full font-medium",
+                          ROW_STATUS_BADGES[status].className
+                        )}
+                      >
+                        {ROW_STATUS_BADGES[status].label}: {rowCounts[status]}
+                      </span>
+                    ))}
+                  </div>
+                  <div className="max-h-80 overflow-auto rounded-lg border border-gray-200 dark:border-gray-700">
+                    <table className="w-full text-xs">
+                      <thead className="sticky top-0 bg-gray-50 dark:bg-gray-800 text-left text-gray-500 dark:text-gray-400">
+                        <tr>
+                          <th className="px-2 py-1 font-medium">Status</th>
+                          <th className="px-2 py-1 font-medium">Bookmark</th>
+                          <th className="px-2 py-1 font-medium">Tags</th>
+                          <th className="px-2 py-1 font-medium">Folder</th>
+                          <th className="px-2 py-1 font-medium">Notes</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-700 dark:text-gray-300">
+                        {rows.slice(0, PREVIEW_ROW_LIMIT).map((row, index) => (
+                          <tr key={`row-${index}`} className="align-top">
+                            <td className="px-2 py-1">
+                              <span
+                                className={clsx(
+                                  "px-2 py-0.5 rounded-full font-medium whitespace-nowrap",
+                                  ROW_STATUS_BADGES[row.status].className
+                                )}
+                              >
+                                {ROW_STATUS_BADGES[row.status].label}
+                              </span>
+                            </td>
+                            <td className="px-2 py-1 max-w-xs">
+                              <p className="truncate font-medium">
+                                {row.data?.title ||
+                                  row.entry.title ||
+                                  "(untitled)"}
+                              </p>
+                              <p className="truncate text-gray-500 dark:text-gray-400">
+                                {row.entry.url}
+                              </p>
+                            </td>
+                            <td className="px-2 py-1">
+                              {(row.data?.tags ?? row.entry.tags).join(", ")}
+                            </td>
+                            <td className="px-2 py-1">
+                              {row.entry.folder}
+                              {row.entry.readStatus === "archived" &&
+                                " (archived)"}
+                              {row.entry.favorite && " ★"}
+                            </td>
+                            <td
+                              className={clsx(
+                                "px-2 py-1",
+                                row.status === "invalid"
+                                  ? "text-red-600 dark:text-red-400"
+                                  : "text-yellow-700 dark:text-yellow-400"
+                              )}
+                            >
+                              {row.errors.join(" ")}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  {rows.length > PREVIEW_ROW_LIMIT && (
+                    <p
+                      className="text-xs"
+                      style={{ color: "var(--text-secondary)" }}
+                    >
+                      Showing the first {PREVIEW_ROW_LIMIT} of {rows.length}{" "}
+                      rows.
+                    </p>
+                  )}
+                </>
+              )}
+              <div className="flex justify-end space-x-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setStep("select")}
+                  className="btn-secondary"
+                >
+                  Back
+                </button>
+                <button
+                  type="button"
+                  onClick={handleImport}
+                  disabled={rows.length === 0 || rowCounts.new === 0}
+                  className="btn-primary"
+                >
+                  {rows.length === 0
+                    ? "Checking..."
+                    : `Import ${rowCounts.new} Bookmark${
+                        rowCounts.new !== 1 ? "s" : ""
+                      }`}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {step === "importing" && (
+            <div className="space-y-3">
+              <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-primary-500 transition-all duration-300"
+                  style={{ width: `${progressPercent}%` }}
+                />
+              </div>
+              <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+                Importing {progress.processed} of {progress.total}...
+              </p>
+            </div>
+          )}
+
+          {step === "done" && report && (
+            <div className="space-y-4">
+              <div className="flex items-center space-x-2">
+                <CheckCircle className="h-5 w-5 text-green-500" />
+                <span
+                  className="text-sm font-medium"
+                  style={{ color: "var(--text-primary)" }}
+                >
+                  Import complete
+                </span>
+              </div>
+              <ul className="text-sm space-y-1 text-gray-700 dark:text-gray-300">
+                <li>Imported: {report.imported}</li>
+                <li>Skipped (already bookmarked): {report.skipped}</li>
+                <li>Invalid: {report.invalid}</li>
+              </ul>
+              {report.invalidEntries.length > 0 && (
+                <div className="max-h-40 overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-700 p-2">
+                  {report.invalidEntries.map((entry, index) => (
+                    <div
+                      key={`invalid-${index}`}
+                      className="text-xs py-1 text-gray-600 dark:text-gray-400"
+                    >
+                      <p className="truncate font-medium">
+                        {entry.title || entry.url || "(untitled)"}
+                      </p>
+                      <p className="text-red-600 dark:text-red-400">
+                        {entry.reason}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="flex justify-end pt-4">
+                <button type="button" onClick={onClose} className="btn-primary">
+                  Done
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -12,7 +12,9 @@ export const Pagination: React.FC<PaginationProps> = ({
   pagination,
   onPageChange,
 }) => {
-  const { currentPage, totalPages, totalItems, itemsPerPage } = pagination;
+  const { currentPage, totalPages, totalItems, itemsPerPage, mode } = pagination;
+  // Cursor pages are fetched in sequence, so only previous/next navigation is offered
+  const isCursorMode = mode === "cursor";
 
   if (totalPages <= 1) {
     return null;
@@ -115,7 +117,12 @@ export const Pagination: React.FC<PaginationProps> = ({
                 </button>
 
                 {/* Page numbers */}
-                {visiblePages.map((page, index) => {
+                {isCursorMode && (
+                  <span className="relative inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Page {currentPage} of {totalPages}
+                  </span>
+                )}
+                {!isCursorMode && visiblePages.map((page, index) => {
                   if (page === "...") {
                     return (
                       <span
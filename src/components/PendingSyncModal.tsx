@@ -0,0 +1,203 @@
+import React, { useState } from "react";
+import {
+  X,
+  RefreshCw,
+  Trash2,
+  AlertTriangle,
+  CloudOff,
+  CheckCircle,
+} from "lucide-react";
+import type { PendingOperation } from "../types/bookmark";
+import clsx from "clsx";
+
+interface PendingSyncModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  operations: PendingOperation[];
+  isOnline: boolean;
+  syncing: boolean;
+  onSyncNow: () => Promise<void>;
+  onRetry: (id: string) => Promise<void>;
+  onDiscard: (id: string) => Promise<void>;
+}
+
+const OPERATION_LABELS: Record<PendingOperation["type"], string> = {
+  create: "Add",
+  update: "Edit",
+  delete: "Delete",
+};
+
+export const PendingSyncModal: React.FC<PendingSyncModalProps> = ({
+  isOpen,
+  onClose,
+  operations,
+  isOnline,
+  syncing,
+  onSyncNow,
+  onRetry,
+  onDiscard,
+}) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const runAction = async (id: string, action: (id: string) => Promise<void>) => {
+    try {
+      setError(null);
+      setBusyId(id);
+      await action(id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sync failed");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSyncNow = async () => {
+    try {
+      setError(null);
+      await onSyncNow();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sync failed");
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen px-4 pt-4 pb-20 text-center">
+        {/* Backdrop */}
+        <div
+          className="fixed inset-0 transition-opacity bg-black bg-opacity-50 backdrop-blur-md"
+          onClick={onClose}
+        />
+
+        {/* Modal */}
+        <div className="relative inline-block w-full max-w-lg p-6 my-8 text-left align-middle transition-all transform card shadow-xl rounded-2xl z-10">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <h3
+              className="text-lg font-medium"
+              style={{ color: "var(--text-primary)" }}
+            >
+              Pending Sync
+            </h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors duration-200"
+            >
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          {!isOnline && (
+            <div className="mb-4 flex items-start space-x-2 text-sm text-amber-600 dark:text-amber-400">
+              <CloudOff className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>
+                You are offline. Changes are saved on this device and will sync
+                when the connection returns.
+              </span>
+            </div>
+          )}
+
+          {error && (
+            <div className="mb-4 flex items-start space-x-2 text-sm text-red-600 dark:text-red-400">
+              <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {operations.length === 0 ? (
+            <div className="flex items-center space-x-2 py-4">
+              <CheckCircle className="h-5 w-5 text-green-500" />
+              <span
+                className="text-sm"
+                style={{ color: "var(--text-secondary)" }}
+              >
+                All changes are synced.
+              </span>
+            </div>
+          ) : (
+            <ul className="max-h-80 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700 rounded-lg border border-gray-200 dark:border-gray-700">
+              {operations.map((operation) => (
+                <li
+                  key={operation.id}
+                  className="flex items-start justify-between p-3 space-x-3"
+                >
+                  <div className="min-w-0">
+                    <p
+                      className="text-sm font-medium truncate"
+                      style={{ color: "var(--text-primary)" }}
+                    >
+                      <span
+                        className={clsx(
+                          "inline-block mr-2 px-1.5 py-0.5 rounded text-xs",
+                          operation.type === "delete"
+                            ? "bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300"
+                            : "bg-primary-100 text-primary-700 dark:bg-primary-900/40 dark:text-primary-300"
+                        )}
+                      >
+                        {OPERATION_LABELS[operation.type]}
+                      </span>
+                      {operation.title || "(untitled)"}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Queued {operation.queuedAt.toLocaleString()}
+                    </p>
+                    {operation.error && (
+                      <p className="text-xs text-red-600 dark:text-red-400">
+                        {operation.error}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="flex items-center flex-shrink-0 space-x-1">
+                    {operation.status !== "pending" && (
+                      <button
+                        type="button"
+                        onClick={() => runAction(operation.id, onRetry)}
+                        disabled={!isOnline || busyId === operation.id}
+                        className="px-2 py-1 text-xs rounded text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+                        title={
+                          operation.status === "conflict"
+                            ? "Replace the newer version with your offline change"
+                            : "Try again"
+                        }
+                      >
+                        {operation.status === "conflict" ? "Overwrite" : "Retry"}
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => runAction(operation.id, onDiscard)}
+                      disabled={busyId === operation.id}
+                      className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                      title="Discard change"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button type="button" onClick={onClose} className="btn-secondary">
+              Close
+            </button>
+            <button
+              type="button"
+              onClick={handleSyncNow}
+              disabled={!isOnline || syncing || operations.length === 0}
+              className="btn-primary flex items-center space-x-2"
+            >
+              <RefreshCw className={clsx("h-4 w-4", syncing && "animate-spin")} />
+              <span>{syncing ? "Syncing..." : "Sync Now"}</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React from "react";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Globe,
+  Pin,
+  PinOff,
+  Star,
+} from "lucide-react";
+import type { Bookmark } from "../types/bookmark";
+
+interface PinnedStripProps {
+  pinned: Bookmark[]; // In their manual order
+  onReorder: (orderedIds: string[]) => Promise<void>;
+  onUnpin: (id: string, pinned: boolean) => void;
+  onVisit?: (id: string) => void;
+}
+
+export const PinnedStrip: React.FC<PinnedStripProps> = ({
+  pinned,
+  onReorder,
+  onUnpin,
+  onVisit,
+}) => {
+  const handleMove = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= pinned.length) return;
+
+    const orderedIds = pinned.map((bookmark) => bookmark.id);
+    [orderedIds[index], orderedIds[target]] = [
+      orderedIds[target],
+      orderedIds[index],
+    ];
+    onReorder(orderedIds).catch(() => {
+      // Error handling is done in the parent component via toast
+    });
+  };
+
+  if (pinned.length === 0) return null;
+
+  return (
+    <section className="mb-6">
+      <h2
+        className="flex items-center space-x-2 mb-2 text-sm font-medium"
+        style={{ color: "var(--text-primary)" }}
+      >
+        <Pin className="h-4 w-4" />
+        <span>Pinned</span>
+      </h2>
+      <ul className="flex gap-3 overflow-x-auto pb-2">
+        {pinned.map((bookmark, index) => (
+          <li
+            key={bookmark.id}
+            className="group card flex items-center flex-shrink-0 w-56 px-3 py-2 space-x-2"
+          >
+            {bookmark.favicon ? (
+              <img
+                src={bookmark.favicon}
+                alt=""
+                className="h-4 w-4 flex-shrink-0 rounded"
+              />
+            ) : (
+              <Globe className="h-4 w-4 flex-shrink-0 text-gray-400" />
+            )}
+            <a
+              href={bookmark.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              onClick={() => onVisit?.(bookmark.id)}
+              className="flex-1 min-w-0 text-sm font-medium truncate hover:text-primary-600 dark:hover:text-primary-400"
+              style={{ color: "var(--text-primary)" }}
+              title={bookmark.title}
+            >
+              {bookmark.title}
+            </a>
+            {bookmark.favorite && (
+              <Star className="h-3 w-3 flex-shrink-0 fill-yellow-400 text-yellow-400 hidden md:block md:group-hover:hidden" />
+            )}
+
+            {/* Actions - always shown on touch screens, on hover otherwise */}
+            <div className="flex md:hidden md:group-hover:flex items-center flex-shrink-0">
+              <button
+                type="button"
+                onClick={() => handleMove(index, -1)}
+                disabled={index === 0}
+                className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 disabled:opacity-30"
+                title="Move left"
+              >
+                <ChevronLeft className="h-3 w-3" />
+              </button>
+              <button
+                type="button"
+                onClick={() => handleMove(index, 1)}
+                disabled={index === pinned.length - 1}
+                className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 disabled:opacity-30"
+                title="Move right"
+              >
+                <ChevronRight className="h-3 w-3" />
+              </button>
+              <button
+                type="button"
+                onClick={() => onUnpin(bookmark.id, false)}
+                className="p-1 text-gray-400 hover:text-red-600"
+                title="Unpin"
+              >
+                <PinOff className="h-3 w-3" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
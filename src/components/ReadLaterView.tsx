@@ -0,0 +1,199 @@
+import React, { useState, useMemo } from "react";
+import {
+  ArrowLeft,
+  ArrowDownUp,
+  BookOpen,
+  CheckCircle,
+  Archive,
+  X,
+  Globe,
+  Inbox,
+} from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+import type {
+  Bookmark,
+  ReadStatus,
+  ReadStatusCounts,
+} from "../types/bookmark";
+import clsx from "clsx";
+
+interface ReadLaterViewProps {
+  queue: Bookmark[]; // Most recently saved first
+  counts: ReadStatusCounts;
+  onReadStatusChange: (id: string, status: ReadStatus | null) => void;
+  onVisit?: (id: string) => void;
+  onClose: () => void;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Helper function to describe how long a bookmark has been waiting
+const formatAge = (queuedAt: Date): string => {
+  const days = Math.floor((Date.now() - queuedAt.getTime()) / DAY);
+  if (days <= 0) return "Saved today";
+  if (days === 1) return "Saved yesterday";
+  if (days < 7) return `Saved ${days} days ago`;
+  const weeks = Math.floor(days / 7);
+  if (days < 30) return `Saved ${weeks} week${weeks !== 1 ? "s" : ""} ago`;
+  const months = Math.floor(days / 30);
+  return `Saved ${months} month${months !== 1 ? "s" : ""} ago`;
+};
+
+const getHostname = (url: string): string => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+};
+
+export const ReadLaterView: React.FC<ReadLaterViewProps> = ({
+  queue,
+  counts,
+  onReadStatusChange,
+  onVisit,
+  onClose,
+}) => {
+  const [oldestFirst, setOldestFirst] = useState(false);
+
+  const sortedQueue = useMemo(
+    () => (oldestFirst ? [...queue].reverse() : queue),
+    [queue, oldestFirst]
+  );
+
+  const openBookmark = (bookmark: Bookmark) => {
+    window.open(bookmark.url, "_blank", "noopener,noreferrer");
+    onVisit?.(bookmark.id);
+    // Opening something saved for later starts reading it
+    if (bookmark.readState?.status === "unread") {
+      onReadStatusChange(bookmark.id, "reading");
+    }
+  };
+
+  const renderAction = (
+    bookmark: Bookmark,
+    status: ReadStatus | null,
+    label: string,
+    Icon: LucideIcon
+  ) => (
+    <button
+      type="button"
+      onClick={() => onReadStatusChange(bookmark.id, status)}
+      className="p-1.5 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-100 dark:hover:text-gray-200 dark:hover:bg-gray-700 transition-colors duration-200"
+      title={label}
+      aria-label={label}
+    >
+      <Icon className="h-4 w-4" />
+    </button>
+  );
+
+  return (
+    <div>
+      {/* View Header */}
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg text-gray-500 hover:text-gray-700 hover:bg-gray-100 dark:text-gray-400 dark:hover:text-gray-200 dark:hover:bg-gray-800 transition-colors duration-200"
+            title="Back to all bookmarks"
+            aria-label="Back to all bookmarks"
+          >
+            <ArrowLeft className="h-4 w-4" />
+          </button>
+          <div>
+            <h2
+              className="text-lg font-semibold"
+              style={{ color: "var(--text-primary)" }}
+            >
+              Read later
+            </h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {counts.unread} unread · {counts.reading} in progress ·{" "}
+              {counts.read} read · {counts.archived} archived
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={() => setOldestFirst(!oldestFirst)}
+          className="btn-secondary flex items-center space-x-1 py-1 text-sm"
+        >
+          <ArrowDownUp className="h-4 w-4" />
+          <span>{oldestFirst ? "Oldest first" : "Newest first"}</span>
+        </button>
+      </div>
+
+      {sortedQueue.length === 0 ? (
+        <div className="flex flex-col items-center py-12 text-sm text-gray-500 dark:text-gray-400">
+          <Inbox className="h-10 w-10 mb-3" />
+          <p>Nothing left to read.</p>
+          <p>Use "Read later" on a bookmark to queue it up here.</p>
+        </div>
+      ) : (
+        <ul className="card divide-y divide-gray-200 dark:divide-gray-700">
+          {sortedQueue.map((bookmark) => {
+            const isReading = bookmark.readState?.status === "reading";
+
+            return (
+              <li
+                key={bookmark.id}
+                className="flex items-center space-x-3 px-4 py-3"
+              >
+                {bookmark.favicon ? (
+                  <img
+                    src={bookmark.favicon}
+                    alt=""
+                    className="h-5 w-5 flex-shrink-0 rounded"
+                  />
+                ) : (
+                  <Globe className="h-5 w-5 flex-shrink-0 text-gray-400" />
+                )}
+
+                <div className="min-w-0 flex-1">
+                  <button
+                    type="button"
+                    onClick={() => openBookmark(bookmark)}
+                    className={clsx(
+                      "block max-w-full text-left text-sm truncate hover:text-primary-600 dark:hover:text-primary-400 transition-colors duration-200",
+                      isReading ? "font-normal" : "font-semibold"
+                    )}
+                    style={{ color: "var(--text-primary)" }}
+                    title={bookmark.title}
+                  >
+                    {bookmark.title}
+                  </button>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {getHostname(bookmark.url)} ·{" "}
+                    {formatAge(bookmark.readState!.queuedAt)}
+                    {isReading && (
+                      <span className="ml-1 text-amber-600 dark:text-amber-400">
+                        · In progress
+                      </span>
+                    )}
+                  </p>
+                </div>
+
+                <div className="flex items-center flex-shrink-0">
+                  {!isReading &&
+                    renderAction(
+                      bookmark,
+                      "reading",
+                      "Start reading",
+                      BookOpen
+                    )}
+                  {renderAction(bookmark, "read", "Mark as read", CheckCircle)}
+                  {renderAction(bookmark, "archived", "Archive", Archive)}
+                  {renderAction(
+                    bookmark,
+                    null,
+                    "Remove from reading list",
+                    X
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,214 @@
+import React, { useState } from "react";
+import { Edit, Plus, Save, Search, Trash2 } from "lucide-react";
+import type { SavedSearch } from "../types/bookmark";
+import clsx from "clsx";
+
+interface SavedSearchListProps {
+  savedSearches: SavedSearch[];
+  counts: Record<string, number>;
+  activeSavedSearchId: string | null;
+  onOpen: (savedSearch: SavedSearch) => void;
+  onCreate: (name: string) => Promise<void>;
+  onRename: (savedSearch: SavedSearch, name: string) => Promise<void>;
+  onUpdateFilters: (savedSearch: SavedSearch) => Promise<void>;
+  onDelete: (savedSearch: SavedSearch) => void;
+}
+
+// Inline editor state: either naming a new saved search or renaming `savedSearchId`
+type EditorState =
+  | { mode: "create" }
+  | { mode: "rename"; savedSearchId: string }
+  | null;
+
+interface SavedSearchEditorProps {
+  initialName?: string;
+  onSave: (name: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+const SavedSearchEditor: React.FC<SavedSearchEditorProps> = ({
+  initialName = "",
+  onSave,
+  onCancel,
+}) => {
+  const [name, setName] = useState(initialName);
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || saving) return;
+
+    try {
+      setSaving(true);
+      await onSave(name);
+    } catch {
+      // Error handling is done in the parent component via toast
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="py-1">
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") onCancel();
+        }}
+        className="input-field w-full py-1 text-sm"
+        placeholder="Saved search name"
+        autoFocus
+        disabled={saving}
+      />
+    </form>
+  );
+};
+
+export const SavedSearchList: React.FC<SavedSearchListProps> = ({
+  savedSearches,
+  counts,
+  activeSavedSearchId,
+  onOpen,
+  onCreate,
+  onRename,
+  onUpdateFilters,
+  onDelete,
+}) => {
+  const [editor, setEditor] = useState<EditorState>(null);
+
+  const handleCreate = async (name: string) => {
+    await onCreate(name);
+    setEditor(null);
+  };
+
+  const handleRename = async (savedSearch: SavedSearch, name: string) => {
+    await onRename(savedSearch, name);
+    setEditor(null);
+  };
+
+  const handleUpdateFilters = (savedSearch: SavedSearch) => {
+    onUpdateFilters(savedSearch).catch(() => {
+      // Error handling is done in the parent component via toast
+    });
+  };
+
+  return (
+    <aside className="card p-3">
+      <div className="flex items-center justify-between mb-2 px-1">
+        <h2
+          className="text-sm font-medium"
+          style={{ color: "var(--text-primary)" }}
+        >
+          Saved searches
+        </h2>
+        <button
+          type="button"
+          onClick={() => setEditor({ mode: "create" })}
+          className="p-1 rounded text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+          title="Save current filters"
+        >
+          <Plus className="h-4 w-4" />
+        </button>
+      </div>
+
+      <ul>
+        {savedSearches.map((savedSearch) => {
+          const isActive = activeSavedSearchId === savedSearch.id;
+
+          if (
+            editor?.mode === "rename" &&
+            editor.savedSearchId === savedSearch.id
+          ) {
+            return (
+              <li key={savedSearch.id}>
+                <SavedSearchEditor
+                  initialName={savedSearch.name}
+                  onSave={(name) => handleRename(savedSearch, name)}
+                  onCancel={() => setEditor(null)}
+                />
+              </li>
+            );
+          }
+
+          return (
+            <li key={savedSearch.id}>
+              <div
+                className={clsx(
+                  "group flex items-center rounded-lg px-2 transition-colors duration-200",
+                  isActive
+                    ? "bg-primary-50 dark:bg-primary-900/40 text-primary-700 dark:text-primary-300"
+                    : "text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                )}
+              >
+                <button
+                  type="button"
+                  onClick={() => onOpen(savedSearch)}
+                  className="flex items-center flex-1 min-w-0 space-x-2 py-1.5 text-left text-sm"
+                  title={savedSearch.filters.search || savedSearch.name}
+                >
+                  <Search className="h-4 w-4 flex-shrink-0" />
+                  <span className="truncate">{savedSearch.name}</span>
+                </button>
+
+                <span className="ml-2 text-xs text-gray-500 dark:text-gray-400 group-hover:hidden">
+                  {counts[savedSearch.id] ?? ""}
+                </span>
+
+                {/* Actions */}
+                <div className="hidden group-hover:flex items-center flex-shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => handleUpdateFilters(savedSearch)}
+                    disabled={isActive}
+                    className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 disabled:opacity-30"
+                    title="Replace with current filters"
+                  >
+                    <Save className="h-3 w-3" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setEditor({
+                        mode: "rename",
+                        savedSearchId: savedSearch.id,
+                      })
+                    }
+                    className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                    title="Rename saved search"
+                  >
+                    <Edit className="h-3 w-3" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onDelete(savedSearch)}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title="Delete saved search"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                </div>
+              </div>
+            </li>
+          );
+        })}
+        {editor?.mode === "create" && (
+          <li>
+            <SavedSearchEditor
+              onSave={handleCreate}
+              onCancel={() => setEditor(null)}
+            />
+          </li>
+        )}
+      </ul>
+
+      {savedSearches.length === 0 && editor === null && (
+        <p className="px-2 text-xs text-gray-500 dark:text-gray-400">
+          Save the current search, tags and sort order to reopen them in one
+          click.
+        </p>
+      )}
+    </aside>
+  );
+};
@@ -0,0 +1,135 @@
+import React, { useState, useRef } from "react";
+import { Search, AlertTriangle } from "lucide-react";
+import type { SearchQueryError, SearchSuggestion } from "../types/bookmark";
+import { getSearchSuggestions } from "../utils/searchQuery";
+import clsx from "clsx";
+
+interface SearchInputProps {
+  value: string;
+  onChange: (query: string) => void;
+  placeholder: string;
+  inputClassName?: string;
+  error: SearchQueryError | null;
+  suggestionSource: { tags: string[]; domains: string[] };
+}
+
+export const SearchInput: React.FC<SearchInputProps> = ({
+  value,
+  onChange,
+  placeholder,
+  inputClassName,
+  error,
+  suggestionSource,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const updateSuggestions = (query: string, cursor: number) => {
+    setSuggestions(getSearchSuggestions(query, cursor, suggestionSource));
+    setActiveIndex(0);
+  };
+
+  const applySuggestion = (suggestion: SearchSuggestion) => {
+    onChange(suggestion.query);
+    updateSuggestions(suggestion.query, suggestion.cursor);
+
+    // Restore the caret after React has re-rendered the new value
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(suggestion.cursor, suggestion.cursor);
+    });
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onChange(e.target.value);
+    updateSuggestions(
+      e.target.value,
+      e.target.selectionStart ?? e.target.value.length
+    );
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((prev) => (prev + 1) % suggestions.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex(
+        (prev) => (prev - 1 + suggestions.length) % suggestions.length
+      );
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      applySuggestion(suggestions[activeIndex]);
+    } else if (e.key === "Escape") {
+      setSuggestions([]);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+        <Search className="h-5 w-5 text-gray-400" />
+      </div>
+      <input
+        ref={inputRef}
+        type="text"
+        placeholder={placeholder}
+        value={value}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setSuggestions([])}
+        className={clsx(
+          "input-field pl-10 pr-4",
+          error && "border-red-500 focus:ring-red-500",
+          inputClassName
+        )}
+        aria-invalid={!!error}
+        aria-autocomplete="list"
+      />
+
+      {suggestions.length > 0 && (
+        <ul className="absolute left-0 right-0 mt-1 py-1 bg-white dark:bg-gray-800 rounded-md shadow-lg ring-1 ring-black ring-opacity-5 z-50 max-h-64 overflow-y-auto">
+          {suggestions.map((suggestion, index) => (
+            <li key={suggestion.label}>
+              <button
+                type="button"
+                // Keep focus in the input so onBlur doesn't close the list first
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  applySuggestion(suggestion);
+                }}
+                className={clsx(
+                  "flex items-center justify-between w-full px-4 py-2 text-sm text-left",
+                  index === activeIndex
+                    ? "bg-gray-100 dark:bg-gray-700"
+                    : "hover:bg-gray-100 dark:hover:bg-gray-700"
+                )}
+              >
+                <span className="font-mono text-gray-700 dark:text-gray-300 truncate">
+                  {suggestion.label}
+                </span>
+                {suggestion.description && (
+                  <span className="ml-4 text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
+                    {suggestion.description}
+                  </span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <p className="absolute left-0 mt-1 px-2 py-1 flex items-center space-x-1 rounded bg-white dark:bg-gray-800 shadow text-xs text-red-600 dark:text-red-400 z-40">
+          <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+          <span>
+            {error.message} (at character {error.position + 1})
+          </span>
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,380 @@
+import React, { useState, useEffect, useMemo } from "react";
+import { X, Edit, Trash2, Merge, AlertTriangle, Search } from "lucide-react";
+import type { BookmarkTag } from "../types/bookmark";
+import { bookmarkService } from "../services/bookmarkService";
+import {
+  TAG_COLORS,
+  TAG_COLOR_NAMES,
+  getTagBadgeClass,
+  getTagDotClass,
+} from "../utils/tagColors";
+import clsx from "clsx";
+
+interface TagManagerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tags: BookmarkTag[];
+  tagColors: Record<string, string>;
+  onTagsChanged: (message: string) => void;
+}
+
+// Row-level editor: renaming, picking a colour for, or confirming deletion of one tag
+type RowEditor =
+  | { mode: "rename"; name: string; value: string }
+  | { mode: "color"; name: string }
+  | { mode: "delete"; name: string }
+  | null;
+
+// Helper function to describe how many bookmarks an operation changed
+const formatBookmarkCount = (count: number): string =>
+  `${count} bookmark${count !== 1 ? "s" : ""}`;
+
+export const TagManagerModal: React.FC<TagManagerModalProps> = ({
+  isOpen,
+  onClose,
+  tags,
+  tagColors,
+  onTagsChanged,
+}) => {
+  const [filter, setFilter] = useState("");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [mergeTarget, setMergeTarget] = useState("");
+  const [rowEditor, setRowEditor] = useState<RowEditor>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the console every time the modal is opened
+  useEffect(() => {
+    if (isOpen) {
+      setFilter("");
+      setSelected(new Set());
+      setMergeTarget("");
+      setRowEditor(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  // Drop selections for tags that no longer exist after an operation
+  useEffect(() => {
+    setSelected((prev) => {
+      const names = new Set(tags.map((tag) => tag.name));
+      const next = new Set(Array.from(prev).filter((name) => names.has(name)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [tags]);
+
+  const visibleTags = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    return query ? tags.filter((tag) => tag.name.includes(query)) : tags;
+  }, [tags, filter]);
+
+  const runOperation = async (operation: () => Promise<string>) => {
+    try {
+      setError(null);
+      setBusy(true);
+      const message = await operation();
+      setRowEditor(null);
+      onTagsChanged(message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Tag update failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRename = (name: string, newName: string) =>
+    runOperation(async () => {
+      const count = await bookmarkService.renameTag(name, newName);
+      return `Renamed "${name}" on ${formatBookmarkCount(count)}`;
+    });
+
+  const handleRecolor = (name: string, color: string) =>
+    runOperation(async () => {
+      await bookmarkService.recolorTag(name, color);
+      return `Updated the colour of "${name}"`;
+    });
+
+  const handleDelete = (name: string) =>
+    runOperation(async () => {
+      const count = await bookmarkService.deleteTag(name);
+      return `Removed "${name}" from ${formatBookmarkCount(count)}`;
+    });
+
+  const handleMerge = () =>
+    runOperation(async () => {
+      const names = Array.from(selected);
+      const count = await bookmarkService.mergeTags(names, mergeTarget);
+      setSelected(new Set());
+      setMergeTarget("");
+      return `Merged ${names.length} tags on ${formatBookmarkCount(count)}`;
+    });
+
+  const toggleSelected = (name: string) => {
+    const next = new Set(selected);
+    if (next.has(name)) {
+      next.delete(name);
+    } else {
+      next.add(name);
+      // Suggest the first selected tag as the merge target
+      if (!mergeTarget) setMergeTarget(name);
+    }
+    setSelected(next);
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen px-4 pt-4 pb-20 text-center">
+        {/* Backdrop */}
+        <div
+          className="fixed inset-0 transition-opacity bg-black bg-opacity-50 backdrop-blur-md"
+          onClick={busy ? undefined : onClose}
+        />
+
+        {/* Modal */}
+        <div className="relative inline-block w-full max-w-lg p-6 my-8 text-left align-middle transition-all transform card shadow-xl rounded-2xl z-10">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <h3
+              className="text-lg font-medium"
+              style={{ color: "var(--text-primary)" }}
+            >
+              Manage Tags
+            </h3>
+            <button
+              onClick={onClose}
+              disabled={busy}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors duration-200 disabled:opacity-50"
+            >
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          {error && (
+            <div className="mb-4 flex items-start space-x-2 text-sm text-red-600 dark:text-red-400">
+              <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {/* Filter */}
+          <div className="relative mb-3">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <Search className="h-4 w-4 text-gray-400" />
+            </div>
+            <input
+              type="text"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              className="input-field pl-9 py-1.5 text-sm"
+              placeholder={`Filter ${tags.length} tags...`}
+            />
+          </div>
+
+          {/* Tag List */}
+          <ul className="max-h-80 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700">
+            {visibleTags.map((tag) => {
+              const editing = rowEditor?.name === tag.name ? rowEditor : null;
+
+              return (
+                <li key={tag.id} className="py-2">
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(tag.name)}
+                      onChange={() => toggleSelected(tag.name)}
+                      disabled={busy}
+                      className="rounded text-primary-600 focus:ring-primary-500"
+                      aria-label={`Select ${tag.name} for merging`}
+                    />
+
+                    {editing?.mode === "rename" ? (
+                      <form
+                        className="flex-1 min-w-0"
+                        onSubmit={(e) => {
+                          e.preventDefault();
+                          handleRename(tag.name, editing.value);
+                        }}
+                      >
+                        <input
+                          type="text"
+                          value={editing.value}
+                          onChange={(e) =>
+                            setRowEditor({ ...editing, value: e.target.value })
+                          }
+                          onKeyDown={(e) => {
+                            if (e.key === "Escape") setRowEditor(null);
+                          }}
+                          className="input-field py-1 text-sm"
+                          autoFocus
+                          disabled={busy}
+                        />
+                      </form>
+                    ) : (
+                      <span
+                        className={clsx(
+                          "inline-flex items-center px-2 py-1 rounded-full text-xs font-medium truncate",
+                          getTagBadgeClass(tag.name, tagColors)
+                        )}
+                      >
+                        {tag.name}
+                      </span>
+                    )}
+
+                    <span className="flex-1 text-right text-xs text-gray-500 dark:text-gray-400">
+                      {formatBookmarkCount(tag.usageCount ?? 0)}
+                    </span>
+
+                    {/* Actions */}
+                    <div className="flex items-center flex-shrink-0">
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setRowEditor(
+                            editing?.mode === "color"
+                              ? null
+                              : { mode: "color", name: tag.name }
+                          )
+                        }
+                        disabled={busy}
+                        className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                        title="Change colour"
+                      >
+                        <span
+                          className={clsx(
+                            "block w-3 h-3 rounded-full",
+                            getTagDotClass(tag.name, tagColors)
+                          )}
+                        />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setRowEditor({
+                            mode: "rename",
+                            name: tag.name,
+                            value: tag.name,
+                          })
+                        }
+                        disabled={busy}
+                        className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                        title="Rename tag"
+                      >
+                        <Edit className="h-3 w-3" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setRowEditor({ mode: "delete", name: tag.name })
+                        }
+                        disabled={busy}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        title="Delete tag"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </button>
+                    </div>
+                  </div>
+
+                  {editing?.mode === "color" && (
+                    <div className="flex flex-wrap gap-2 mt-2 pl-6">
+                      {TAG_COLOR_NAMES.map((color) => (
+                        <button
+                          key={color}
+                          type="button"
+                          onClick={() => handleRecolor(tag.name, color)}
+                          disabled={busy}
+                          className={clsx(
+                            "w-5 h-5 rounded-full",
+                            TAG_COLORS[color].dot,
+                            tag.color === color &&
+                              "ring-2 ring-offset-2 ring-primary-500 dark:ring-offset-gray-800"
+                          )}
+                          title={color}
+                          aria-label={`Use ${color}`}
+                        />
+                      ))}
+                    </div>
+                  )}
+
+                  {editing?.mode === "delete" && (
+                    <div className="flex items-center justify-between mt-2 pl-6 text-xs text-gray-700 dark:text-gray-300">
+                      <span>
+                        Remove "{tag.name}" from{" "}
+                        {formatBookmarkCount(tag.usageCount ?? 0)}?
+                      </span>
+                      <div className="flex space-x-2">
+                        <button
+                          type="button"
+                          onClick={() => setRowEditor(null)}
+                          disabled={busy}
+                          className="btn-secondary py-1 px-2 text-xs"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDelete(tag.name)}
+                          disabled={busy}
+                          className="py-1 px-2 rounded-lg text-xs font-medium bg-red-600 hover:bg-red-700 text-white"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+
+          {visibleTags.length === 0 && (
+            <p className="py-4 text-sm text-center text-gray-500 dark:text-gray-400">
+              {tags.length === 0
+                ? "No tags yet. Add tags to your bookmarks to manage them here."
+                : "No tags match the filter."}
+            </p>
+          )}
+
+          {/* Merge Bar */}
+          {selected.size > 1 && (
+            <form
+              className="flex items-center space-x-2 pt-4 mt-2 border-t border-gray-200 dark:border-gray-700"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleMerge();
+              }}
+            >
+              <span className="text-sm text-gray-700 dark:text-gray-300 flex-shrink-0">
+                Merge {selected.size} tags into
+              </span>
+              <input
+                type="text"
+                value={mergeTarget}
+                onChange={(e) => setMergeTarget(e.target.value)}
+                className="input-field flex-1 min-w-0 py-1 text-sm"
+                placeholder="Tag name"
+                list="tag-merge-targets"
+                disabled={busy}
+              />
+              <datalist id="tag-merge-targets">
+                {Array.from(selected).map((name) => (
+                  <option key={name} value={name} />
+                ))}
+              </datalist>
+              <button
+                type="submit"
+                disabled={busy || !mergeTarget.trim()}
+                className="btn-primary flex items-center space-x-1 py-1"
+              >
+                <Merge className="h-4 w-4" />
+                <span>Merge</span>
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useState, useEffect, useRef } from "react";
+import { ZoomIn, ZoomOut } from "lucide-react";
+import {
+  MAX_THUMBNAIL_ZOOM,
+  THUMBNAIL_HEIGHT,
+  THUMBNAIL_WIDTH,
+  clampThumbnailCrop,
+  cropThumbnail,
+  drawThumbnailCrop,
+  getCenteredThumbnailCrop,
+  zoomThumbnailCrop,
+} from "../utils/thumbnailCrop";
+import type { ThumbnailCrop } from "../utils/thumbnailCrop";
+
+interface ThumbnailCropperProps {
+  image: HTMLImageElement;
+  onApply: (dataUrl: string) => void;
+  onCancel: () => void;
+}
+
+export const ThumbnailCropper: React.FC<ThumbnailCropperProps> = ({
+  image,
+  onApply,
+  onCancel,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const [crop, setCrop] = useState<ThumbnailCrop>(() =>
+    getCenteredThumbnailCrop(image.naturalWidth, image.naturalHeight)
+  );
+
+  useEffect(() => {
+    setCrop(getCenteredThumbnailCrop(image.naturalWidth, image.naturalHeight));
+  }, [image]);
+
+  // The preview canvas is the output itself, scaled down by CSS
+  useEffect(() => {
+    const context = canvasRef.current?.getContext("2d");
+    if (context) {
+      drawThumbnailCrop(context, image, crop);
+    }
+  }, [image, crop]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!dragRef.current) return;
+
+    // Convert screen pixels to thumbnail pixels
+    const ratio = THUMBNAIL_WIDTH / e.currentTarget.clientWidth;
+    const deltaX = (e.clientX - dragRef.current.x) * ratio;
+    const deltaY = (e.clientY - dragRef.current.y) * ratio;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+
+    setCrop((prev) =>
+      clampThumbnailCrop(
+        {
+          ...prev,
+          offsetX: prev.offsetX + deltaX,
+          offsetY: prev.offsetY + deltaY,
+        },
+        image.naturalWidth,
+        image.naturalHeight
+      )
+    );
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleZoom = (zoom: number) => {
+    setCrop((prev) =>
+      zoomThumbnailCrop(prev, image.naturalWidth, image.naturalHeight, zoom)
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <canvas
+        ref={canvasRef}
+        width={THUMBNAIL_WIDTH}
+        height={THUMBNAIL_HEIGHT}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className="w-full rounded-lg border border-gray-200 dark:border-gray-700 cursor-move touch-none"
+        aria-label="Drag to choose the part of the image to show"
+      />
+      <div className="flex items-center space-x-2">
+        <ZoomOut className="h-4 w-4 text-gray-400 flex-shrink-0" />
+        <input
+          type="range"
+          min={1}
+          max={MAX_THUMBNAIL_ZOOM}
+          step={0.01}
+          value={crop.zoom}
+          onChange={(e) => handleZoom(Number(e.target.value))}
+          className="flex-1 accent-primary-600"
+          aria-label="Zoom"
+        />
+        <ZoomIn className="h-4 w-4 text-gray-400 flex-shrink-0" />
+      </div>
+      <div className="flex justify-end space-x-2">
+        <button type="button" onClick={onCancel} className="btn-secondary">
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => onApply(cropThumbnail(image, crop))}
+          className="btn-primary"
+        >
+          Use Image
+        </button>
+      </div>
+    </div>
+  );
+};
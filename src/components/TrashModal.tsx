@@ -0,0 +1,243 @@
+import React, { useState, useEffect } from "react";
+import { X, RotateCcw, Trash2, AlertTriangle } from "lucide-react";
+import type { Bookmark } from "../types/bookmark";
+import { bookmarkService } from "../services/bookmarkService";
+
+interface TrashModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  trash: Bookmark[];
+  retentionDays: number;
+  onTrashChanged: (message: string) => void;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Helper function to describe how many bookmarks an operation changed
+const formatBookmarkCount = (count: number): string =>
+  `${count} bookmark${count !== 1 ? "s" : ""}`;
+
+// Helper function to describe when a bookmark in the trash will be purged
+const formatPurgeTime = (deletedAt: Date, retentionDays: number): string => {
+  const daysLeft = Math.ceil(
+    (deletedAt.getTime() + retentionDays * DAY - Date.now()) / DAY
+  );
+  if (daysLeft <= 0) return "Deleted for good soon";
+  return `Deleted for good in ${daysLeft} day${daysLeft !== 1 ? "s" : ""}`;
+};
+
+export const TrashModal: React.FC<TrashModalProps> = ({
+  isOpen,
+  onClose,
+  trash,
+  retentionDays,
+  onTrashChanged,
+}) => {
+  // Id of the bookmark awaiting permanent deletion, or "all" for emptying the trash
+  const [confirming, setConfirming] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setConfirming(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const runOperation = async (operation: () => Promise<string>) => {
+    try {
+      setError(null);
+      setBusy(true);
+      const message = await operation();
+      setConfirming(null);
+      onTrashChanged(message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Trash update failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRestore = (bookmark: Bookmark) =>
+    runOperation(async () => {
+      await bookmarkService.restoreBookmark(bookmark.id);
+      return `Restored "${bookmark.title}"`;
+    });
+
+  const handleDelete = (bookmark: Bookmark) =>
+    runOperation(async () => {
+      await bookmarkService.deleteFromTrash([bookmark.id]);
+      return `Deleted "${bookmark.title}" for good`;
+    });
+
+  const handleEmptyTrash = () =>
+    runOperation(async () => {
+      const count = await bookmarkService.deleteFromTrash();
+      return `Deleted ${formatBookmarkCount(count)} for good`;
+    });
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen px-4 pt-4 pb-20 text-center">
+        {/* Backdrop */}
+        <div
+          className="fixed inset-0 transition-opacity bg-black bg-opacity-50 backdrop-blur-md"
+          onClick={busy ? undefined : onClose}
+        />
+
+        {/* Modal */}
+        <div className="relative inline-block w-full max-w-lg p-6 my-8 text-left align-middle transition-all transform card shadow-xl rounded-2xl z-10">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-2">
+            <h3
+              className="text-lg font-medium"
+              style={{ color: "var(--text-primary)" }}
+            >
+              Trash
+            </h3>
+            <button
+              onClick={onClose}
+              disabled={busy}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors duration-200 disabled:opacity-50"
+            >
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+          <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
+            Deleted bookmarks are kept for {retentionDays} day
+            {retentionDays !== 1 ? "s" : ""} before they are removed for good.
+          </p>
+
+          {error && (
+            <div className="mb-4 flex items-start space-x-2 text-sm text-red-600 dark:text-red-400">
+              <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {trash.length === 0 ? (
+            <p className="py-8 text-sm text-center text-gray-500 dark:text-gray-400">
+              The trash is empty.
+            </p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700">
+              {trash.map((bookmark) => (
+                <li key={bookmark.id} className="py-2">
+                  <div className="flex items-center space-x-3">
+                    <div className="min-w-0 flex-1">
+                      <p
+                        className="text-sm font-medium truncate"
+                        style={{ color: "var(--text-primary)" }}
+                      >
+                        {bookmark.title}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                        {bookmark.url}
+                      </p>
+                      <p className="text-xs text-gray-400 dark:text-gray-500">
+                        {formatPurgeTime(bookmark.deletedAt!, retentionDays)}
+                      </p>
+                    </div>
+                    <div className="flex items-center flex-shrink-0">
+                      <button
+                        type="button"
+                        onClick={() => handleRestore(bookmark)}
+                        disabled={busy}
+                        className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                        title="Restore"
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setConfirming(bookmark.id)}
+                        disabled={busy}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        title="Delete for good"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+
+                  {confirming === bookmark.id && (
+                    <div className="flex items-center justify-between mt-2 text-xs text-gray-700 dark:text-gray-300">
+                      <span>Delete this bookmark for good?</span>
+                      <div className="flex space-x-2">
+                        <button
+                          type="button"
+                          onClick={() => setConfirming(null)}
+                          disabled={busy}
+                          className="btn-secondary py-1 px-2 text-xs"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDelete(bookmark)}
+                          disabled={busy}
+                          className="py-1 px-2 rounded-lg text-xs font-medium bg-red-600 hover:bg-red-700 text-white"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {/* Empty Trash */}
+          {trash.length > 0 && (
+            <div className="flex items-center justify-between pt-4 mt-2 border-t border-gray-200 dark:border-gray-700">
+              {confirming === "all" ? (
+                <>
+                  <span className="text-sm text-gray-700 dark:text-gray-300">
+                    Delete {formatBookmarkCount(trash.length)} for good?
+                  </span>
+                  <div className="flex space-x-2">
+                    <button
+                      type="button"
+                      onClick={() => setConfirming(null)}
+                      disabled={busy}
+                      className="btn-secondary py-1"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleEmptyTrash}
+                      disabled={busy}
+                      className="py-1 px-3 rounded-lg text-sm font-medium bg-red-600 hover:bg-red-700 text-white"
+                    >
+                      Empty trash
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <span className="text-sm text-gray-700 dark:text-gray-300">
+                    {formatBookmarkCount(trash.length)}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => setConfirming("all")}
+                    disabled={busy}
+                    className="btn-secondary flex items-center space-x-1 py-1"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    <span>Empty trash</span>
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -3,6 +3,7 @@ import { CheckCircle, XCircle, X } from "lucide-react";
 import {
   ToastContext,
   type Toast,
+  type ToastAction,
   type ToastType,
 } from "./ToastContextDefinition";
 
@@ -18,9 +19,14 @@ export const ToastProvider: React.FC<ToastProviderProps> = ({ children }) => {
   }, []);
 
   const showToast = useCallback(
-    (type: ToastType, message: string, duration: number = 5000) => {
+    (
+      type: ToastType,
+      message: string,
+      duration: number = 5000,
+      action?: ToastAction
+    ) => {
       const id = Math.random().toString(36).substr(2, 9);
-      const newToast: Toast = { id, type, message, duration };
+      const newToast: Toast = { id, type, message, duration, action };
 
       setToasts((prev) => [...prev, newToast]);
 
@@ -96,6 +102,20 @@ const ToastItem: React.FC<ToastItemProps> = ({ toast, onRemove }) => {
             {toast.message}
           </p>
         </div>
+        {toast.action && (
+          <div className="ml-4 flex-shrink-0">
+            <button
+              type="button"
+              className="text-sm font-medium text-primary-600 hover:text-primary-700 dark:text-primary-400 dark:hover:text-primary-300"
+              onClick={() => {
+                toast.action?.onClick();
+                onRemove(toast.id);
+              }}
+            >
+              {toast.action.label}
+            </button>
+          </div>
+        )}
         <div className="ml-4 flex-shrink-0">
           <button
             type="button"
@@ -2,15 +2,27 @@ import { createContext } from "react";
 
 export type ToastType = "success" | "error";
 
+// Button shown next to the message, e.g. "Undo"; clicking it also dismisses the toast
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
 export interface Toast {
   id: string;
   type: ToastType;
   message: string;
   duration?: number;
+  action?: ToastAction;
 }
 
 interface ToastContextType {
-  showToast: (type: ToastType, message: string, duration?: number) => void;
+  showToast: (
+    type: ToastType,
+    message: string,
+    duration?: number,
+    action?: ToastAction
+  ) => void;
   removeToast: (id: string) => void;
 }
 
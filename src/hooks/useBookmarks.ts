@@ -1,18 +1,21 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import type { Bookmark, BookmarkFilters, PaginationInfo } from "../types/bookmark";
-import { bookmarkService } from "../services/bookmarkService";
+import { bookmarkService, VISIT_SORT_OPTIONS } from "../services/bookmarkService";
+import type { BookmarkCursor } from "../services/bookmarkService";
 
 interface UseBookmarksResult {
   bookmarks: Bookmark[];
   loading: boolean;
   error: string | null;
   pagination: PaginationInfo;
+  currentPage: number;
+  setCurrentPage: (page: number) => void;
   refreshBookmarks: () => Promise<void>;
+  updateLocalBookmark: (id: string, update: (bookmark: Bookmark) => Partial<Bookmark>) => void;
 }
 
 export const useBookmarks = (
   filters: BookmarkFilters,
-  currentPage: number = 1,
   itemsPerPage: number = 12
 ): UseBookmarksResult => {
   const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
@@ -25,16 +28,53 @@ export const useBookmarks = (
     itemsPerPage: 12,
   });
 
-  const loadBookmarks = useCallback(async () => {
+  // The page belongs to the filters it was picked for, so new filters start at page 1
+  // in the same render instead of loading the old page first
+  const [pageState, setPageState] = useState({ filters, itemsPerPage, page: 1 });
+  const currentPage =
+    pageState.filters === filters && pageState.itemsPerPage === itemsPerPage ? pageState.page : 1;
+
+  const setCurrentPage = useCallback((page: number) => {
+    setPageState({ filters, itemsPerPage, page });
+  }, [filters, itemsPerPage]);
+
+  // Cursor that ends each loaded page, indexed by page number - 1; cursors are only
+  // valid for the query they came from
+  const cursorsRef = useRef<{
+    filters: BookmarkFilters;
+    itemsPerPage: number;
+    cursors: Array<BookmarkCursor | null>;
+  }>({ filters, itemsPerPage, cursors: [] });
+
+  // Only the latest request may update the list; older replies are dropped
+  const requestIdRef = useRef(0);
+
+  const loadBookmarks = useCallback(async (showLoading: boolean = true) => {
+    const requestId = ++requestIdRef.current;
+    if (cursorsRef.current.filters !== filters || cursorsRef.current.itemsPerPage !== itemsPerPage) {
+      cursorsRef.current = { filters, itemsPerPage, cursors: [] };
+    }
+    const { cursors } = cursorsRef.current;
+
     try {
-      setLoading(true);
+      if (showLoading) {
+        setLoading(true);
+      }
       setError(null);
-      
-      const result = await bookmarkService.getBookmarks(filters, currentPage, itemsPerPage);
-      
+
+      const cursor = currentPage > 1 ? cursors[currentPage - 2] : null;
+      const result = await bookmarkService.getBookmarksPage(filters, currentPage, itemsPerPage, cursor);
+      if (requestId !== requestIdRef.current) {
+        return;
+      }
+
+      cursors[currentPage - 1] = result.nextCursor;
       setBookmarks(result.bookmarks);
       setPagination(result.pagination);
     } catch (err) {
+      if (requestId !== requestIdRef.current) {
+        return;
+      }
       setError(err instanceof Error ? err.message : "Failed to load bookmarks");
       setBookmarks([]);
       setPagination({
@@ -44,7 +84,9 @@ export const useBookmarks = (
         itemsPerPage,
       });
     } finally {
-      setLoading(false);
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+      }
     }
   }, [filters, currentPage, itemsPerPage]);
 
@@ -52,15 +94,51 @@ export const useBookmarks = (
     loadBookmarks();
   }, [loadBookmarks]);
 
+  // Keep a stable subscription while always reloading with the latest filters
+  const loadBookmarksRef = useRef(loadBookmarks);
+  const sortByRef = useRef(filters.sortBy);
+  useEffect(() => {
+    loadBookmarksRef.current = loadBookmarks;
+    sortByRef.current = filters.sortBy;
+  }, [loadBookmarks, filters.sortBy]);
+
+  // Reload in the background when bookmarks change in Firestore or in another tab;
+  // written visits only change the order of a list sorted by visits
+  useEffect(() => {
+    try {
+      return bookmarkService.subscribeToChanges((scope) => {
+        if (scope === "bookmarks" || (scope === "visits" && VISIT_SORT_OPTIONS.includes(sortByRef.current))) {
+          loadBookmarksRef.current(false);
+        }
+      });
+    } catch {
+      // Not signed in yet; the app only mounts this hook for authenticated users
+      return undefined;
+    }
+  }, []);
+
   const refreshBookmarks = useCallback(async () => {
     await loadBookmarks();
   }, [loadBookmarks]);
 
+  // Show a change on a loaded bookmark without reloading the page
+  const updateLocalBookmark = useCallback(
+    (id: string, update: (bookmark: Bookmark) => Partial<Bookmark>) => {
+      setBookmarks((prev) =>
+        prev.map((bookmark) => (bookmark.id === id ? { ...bookmark, ...update(bookmark) } : bookmark))
+      );
+    },
+    []
+  );
+
   return {
     bookmarks,
     loading,
     error,
     pagination,
+    currentPage,
+    setCurrentPage,
     refreshBookmarks,
+    updateLocalBookmark,
   };
 };
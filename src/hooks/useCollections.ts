@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback } from "react";
+import type { Collection } from "../types/bookmark";
+import { bookmarkService } from "../services/bookmarkService";
+
+interface UseCollectionsResult {
+  collections: Collection[];
+  loading: boolean;
+  error: string | null;
+  refreshCollections: () => Promise<void>;
+}
+
+export const useCollections = (): UseCollectionsResult => {
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCollections = useCallback(async (showLoading: boolean = true) => {
+    try {
+      if (showLoading) {
+        setLoading(true);
+      }
+      setError(null);
+
+      const result = await bookmarkService.getCollections();
+
+      setCollections(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load collections");
+      setCollections([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCollections();
+  }, [loadCollections]);
+
+  // Pick up collection changes made in another tab
+  useEffect(() => {
+    try {
+      return bookmarkService.subscribeToChanges((scope) => {
+        if (scope === "collections") {
+          loadCollections(false);
+        }
+      });
+    } catch {
+      // Not signed in yet; the app only mounts this hook for authenticated users
+      return undefined;
+    }
+  }, [loadCollections]);
+
+  const refreshCollections = useCallback(async () => {
+    await loadCollections();
+  }, [loadCollections]);
+
+  return {
+    collections,
+    loading,
+    error,
+    refreshCollections,
+  };
+};
@@ -0,0 +1,65 @@
+import { useState, useEffect, useCallback } from "react";
+import type {
+  BookmarkFilters,
+  BookmarkImportProgress,
+  LinkCheckReport,
+} from "../types/bookmark";
+import { bookmarkService } from "../services/bookmarkService";
+import { linkCheckService } from "../services/linkCheckService";
+import { offlineQueueService } from "../services/offlineQueueService";
+
+// Let the bookmarks load before the first periodic check, then check again every hour
+const PERIODIC_CHECK_DELAY = 15 * 1000;
+const PERIODIC_CHECK_INTERVAL = 60 * 60 * 1000;
+
+interface UseLinkHealthResult {
+  enabled: boolean; // Whether a link checker is configured
+  progress: BookmarkImportProgress | null; // Progress of a running on-demand check
+  checkFilteredLinks: (filters: BookmarkFilters) => Promise<LinkCheckReport>;
+  checkLink: (id: string) => Promise<LinkCheckReport>;
+}
+
+export const useLinkHealth = (): UseLinkHealthResult => {
+  const enabled = linkCheckService.isEnabled();
+  const [progress, setProgress] = useState<BookmarkImportProgress | null>(null);
+
+  // Check the links that are due in the background; results arrive through the live sync
+  useEffect(() => {
+    if (!enabled) return;
+
+    const checkDueLinks = () => {
+      if (!offlineQueueService.isOnline()) return;
+      bookmarkService.checkDueLinks().catch(() => {
+        // Periodic checks are best effort; the links are retried on the next run
+      });
+    };
+
+    const timeoutId = setTimeout(checkDueLinks, PERIODIC_CHECK_DELAY);
+    const intervalId = setInterval(checkDueLinks, PERIODIC_CHECK_INTERVAL);
+    return () => {
+      clearTimeout(timeoutId);
+      clearInterval(intervalId);
+    };
+  }, [enabled]);
+
+  const checkFilteredLinks = useCallback(async (filters: BookmarkFilters) => {
+    try {
+      setProgress({ processed: 0, total: 0 });
+      return await bookmarkService.checkFilteredLinks(filters, setProgress);
+    } finally {
+      setProgress(null);
+    }
+  }, []);
+
+  const checkLink = useCallback(
+    (id: string) => bookmarkService.checkLinks([id]),
+    []
+  );
+
+  return {
+    enabled,
+    progress,
+    checkFilteredLinks,
+    checkLink,
+  };
+};
@@ -0,0 +1,105 @@
+import { useState, useEffect, useCallback } from "react";
+import type { PendingOperation } from "../types/bookmark";
+import { bookmarkService } from "../services/bookmarkService";
+import { offlineQueueService } from "../services/offlineQueueService";
+
+interface UsePendingSyncResult {
+  operations: PendingOperation[];
+  isOnline: boolean;
+  syncing: boolean;
+  syncNow: () => Promise<void>;
+  retryOperation: (id: string) => Promise<void>;
+  discardOperation: (id: string) => Promise<void>;
+}
+
+export const usePendingSync = (): UsePendingSyncResult => {
+  const [operations, setOperations] = useState<PendingOperation[]>([]);
+  const [isOnline, setIsOnline] = useState(offlineQueueService.isOnline());
+  const [syncing, setSyncing] = useState(false);
+
+  const loadOperations = useCallback(async () => {
+    try {
+      setOperations(await bookmarkService.getPendingOperations());
+    } catch {
+      setOperations([]);
+    }
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    try {
+      setSyncing(true);
+      await bookmarkService.syncPendingOperations();
+    } finally {
+      setSyncing(false);
+      await loadOperations();
+    }
+  }, [loadOperations]);
+
+  // Track the queue in this tab and in other tabs
+  useEffect(() => {
+    loadOperations();
+    const unsubscribeQueue = offlineQueueService.subscribe(loadOperations);
+    let unsubscribeChanges: (() => void) | undefined;
+    try {
+      unsubscribeChanges = bookmarkService.subscribeToChanges((scope) => {
+        if (scope === "bookmarks") {
+          loadOperations();
+        }
+      });
+    } catch {
+      // Not signed in yet; the app only mounts this hook for authenticated users
+    }
+
+    return () => {
+      unsubscribeQueue();
+      unsubscribeChanges?.();
+    };
+  }, [loadOperations]);
+
+  // Track connectivity; the service replays the queue itself when the connection returns
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, []);
+
+  // Replay anything left over from a previous session
+  useEffect(() => {
+    if (offlineQueueService.isOnline()) {
+      syncNow().catch(() => {
+        // Operations stay queued and are retried on the next sync
+      });
+    }
+  }, [syncNow]);
+
+  const retryOperation = useCallback(
+    async (id: string) => {
+      await bookmarkService.retryPendingOperation(id);
+      await loadOperations();
+    },
+    [loadOperations]
+  );
+
+  const discardOperation = useCallback(
+    async (id: string) => {
+      await bookmarkService.discardPendingOperation(id);
+      await loadOperations();
+    },
+    [loadOperations]
+  );
+
+  return {
+    operations,
+    isOnline,
+    syncing,
+    syncNow,
+    retryOperation,
+    discardOperation,
+  };
+};
@@ -0,0 +1,49 @@
+import { useState, useEffect, useCallback } from "react";
+import type { Bookmark } from "../types/bookmark";
+import { bookmarkService } from "../services/bookmarkService";
+
+interface UsePinnedBookmarksResult {
+  pinned: Bookmark[]; // In their manual order
+  refreshPinned: () => Promise<void>;
+}
+
+export const usePinnedBookmarks = (
+  refreshTrigger: number = 0
+): UsePinnedBookmarksResult => {
+  const [pinned, setPinned] = useState<Bookmark[]>([]);
+
+  const loadPinned = useCallback(async () => {
+    try {
+      setPinned(await bookmarkService.getPinnedBookmarks());
+    } catch {
+      setPinned([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPinned();
+  }, [loadPinned, refreshTrigger]);
+
+  // Pins changed in another tab update the strip too
+  useEffect(() => {
+    try {
+      return bookmarkService.subscribeToChanges((scope) => {
+        if (scope === "bookmarks") {
+          loadPinned();
+        }
+      });
+    } catch {
+      // Not signed in yet; the app only mounts this hook for authenticated users
+      return undefined;
+    }
+  }, [loadPinned]);
+
+  const refreshPinned = useCallback(async () => {
+    await loadPinned();
+  }, [loadPinned]);
+
+  return {
+    pinned,
+    refreshPinned,
+  };
+};
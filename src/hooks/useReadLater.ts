@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback } from "react";
+import type { Bookmark, ReadStatusCounts } from "../types/bookmark";
+import { bookmarkService } from "../services/bookmarkService";
+
+const EMPTY_COUNTS: ReadStatusCounts = {
+  unread: 0,
+  reading: 0,
+  read: 0,
+  archived: 0,
+};
+
+interface UseReadLaterResult {
+  queue: Bookmark[]; // Unread and half-read bookmarks, most recently saved first
+  counts: ReadStatusCounts;
+  refreshReadLater: () => Promise<void>;
+}
+
+export const useReadLater = (refreshTrigger: number = 0): UseReadLaterResult => {
+  const [queue, setQueue] = useState<Bookmark[]>([]);
+  const [counts, setCounts] = useState<ReadStatusCounts>(EMPTY_COUNTS);
+
+  const loadReadLater = useCallback(async () => {
+    try {
+      const [nextQueue, nextCounts] = await Promise.all([
+        bookmarkService.getReadLaterQueue(),
+        bookmarkService.getReadStatusCounts(),
+      ]);
+      setQueue(nextQueue);
+      setCounts(nextCounts);
+    } catch {
+      setQueue([]);
+      setCounts(EMPTY_COUNTS);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReadLater();
+  }, [loadReadLater, refreshTrigger]);
+
+  // Statuses changed in another tab update the queue too
+  useEffect(() => {
+    try {
+      return bookmarkService.subscribeToChanges((scope) => {
+        if (scope === "bookmarks") {
+          loadReadLater();
+        }
+      });
+    } catch {
+      // Not signed in yet; the app only mounts this hook for authenticated users
+      return undefined;
+    }
+  }, [loadReadLater]);
+
+  const refreshReadLater = useCallback(async () => {
+    await loadReadLater();
+  }, [loadReadLater]);
+
+  return {
+    queue,
+    counts,
+    refreshReadLater,
+  };
+};
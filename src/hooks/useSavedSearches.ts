@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback } from "react";
+import type { SavedSearch } from "../types/bookmark";
+import { bookmarkService } from "../services/bookmarkService";
+
+interface UseSavedSearchesResult {
+  savedSearches: SavedSearch[];
+  counts: Record<string, number>; // Matching bookmarks per saved search id
+  loading: boolean;
+  error: string | null;
+  refreshSavedSearches: () => Promise<void>;
+}
+
+export const useSavedSearches = (
+  refreshTrigger: number = 0
+): UseSavedSearchesResult => {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSavedSearches = useCallback(async () => {
+    try {
+      setError(null);
+
+      const result = await bookmarkService.getSavedSearches();
+      setSavedSearches(result);
+      setCounts(await bookmarkService.getSavedSearchCounts(result));
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to load saved searches"
+      );
+      setSavedSearches([]);
+      setCounts({});
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Counts change whenever bookmarks do, so reload silently alongside them
+  useEffect(() => {
+    loadSavedSearches();
+  }, [loadSavedSearches, refreshTrigger]);
+
+  // Pick up changes made in another tab or on another device
+  useEffect(() => {
+    try {
+      return bookmarkService.subscribeToChanges(() => {
+        loadSavedSearches();
+      });
+    } catch {
+      // Not signed in yet; the app only mounts this hook for authenticated users
+      return undefined;
+    }
+  }, [loadSavedSearches]);
+
+  const refreshSavedSearches = useCallback(async () => {
+    await loadSavedSearches();
+  }, [loadSavedSearches]);
+
+  return {
+    savedSearches,
+    counts,
+    loading,
+    error,
+    refreshSavedSearches,
+  };
+};
@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import type { BookmarkTag } from "../types/bookmark";
+import { bookmarkService } from "../services/bookmarkService";
+
+interface UseTagsResult {
+  tags: BookmarkTag[];
+  tagColors: Record<string, string>; // Colour per tag name
+  loading: boolean;
+  error: string | null;
+  refreshTags: () => Promise<void>;
+}
+
+export const useTags = (refreshTrigger: number = 0): UseTagsResult => {
+  const [tags, setTags] = useState<BookmarkTag[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTags = useCallback(async () => {
+    try {
+      setError(null);
+
+      const result = await bookmarkService.getTags();
+
+      setTags(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load tags");
+      setTags([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Usage counts change whenever bookmarks do, so reload silently alongside them
+  useEffect(() => {
+    loadTags();
+  }, [loadTags, refreshTrigger]);
+
+  // Pick up tag and bookmark changes made in another tab
+  useEffect(() => {
+    try {
+      return bookmarkService.subscribeToChanges((scope) => {
+        if (scope === "tags" || scope === "bookmarks") {
+          loadTags();
+        }
+      });
+    } catch {
+      // Not signed in yet; the app only mounts this hook for authenticated users
+      return undefined;
+    }
+  }, [loadTags]);
+
+  const tagColors = useMemo(
+    () => Object.fromEntries(tags.map((tag) => [tag.name, tag.color])),
+    [tags]
+  );
+
+  const refreshTags = useCallback(async () => {
+    await loadTags();
+  }, [loadTags]);
+
+  return {
+    tags,
+    tagColors,
+    loading,
+    error,
+    refreshTags,
+  };
+};
@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback } from "react";
+import type { Bookmark } from "../types/bookmark";
+import { bookmarkService } from "../services/bookmarkService";
+
+// Let the bookmarks load before purging expired items from the trash
+const PURGE_DELAY = 10 * 1000;
+
+interface UseTrashResult {
+  trash: Bookmark[]; // Most recently deleted first
+  retentionDays: number; // Days before a deleted bookmark is purged
+  refreshTrash: () => Promise<void>;
+}
+
+export const useTrash = (refreshTrigger: number = 0): UseTrashResult => {
+  const [trash, setTrash] = useState<Bookmark[]>([]);
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setTrash(await bookmarkService.getTrash());
+    } catch {
+      setTrash([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash, refreshTrigger]);
+
+  // Deleting and restoring in another tab changes the trash too
+  useEffect(() => {
+    try {
+      return bookmarkService.subscribeToChanges((scope) => {
+        if (scope === "bookmarks") {
+          loadTrash();
+        }
+      });
+    } catch {
+      // Not signed in yet; the app only mounts this hook for authenticated users
+      return undefined;
+    }
+  }, [loadTrash]);
+
+  // Purge bookmarks that outlived the retention window once per session
+  useEffect(() => {
+    const timeoutId = setTimeout(async () => {
+      try {
+        if ((await bookmarkService.purgeExpiredTrash()) > 0) {
+          await loadTrash();
+        }
+      } catch {
+        // Purging is best effort; expired items are picked up next time
+      }
+    }, PURGE_DELAY);
+
+    return () => clearTimeout(timeoutId);
+  }, [loadTrash]);
+
+  const refreshTrash = useCallback(async () => {
+    await loadTrash();
+  }, [loadTrash]);
+
+  return {
+    trash,
+    retentionDays: bookmarkService.getTrashRetentionDays(),
+    refreshTrash,
+  };
+};
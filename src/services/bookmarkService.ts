@@ -6,23 +6,78 @@ import {
   deleteDoc,
   getDocs,
   getDoc,
+  setDoc,
+  deleteField,
   query,
   where,
+  orderBy,
+  limit,
+  startAfter,
+  getCountFromServer,
+  onSnapshot,
   Timestamp,
   QueryDocumentSnapshot,
+  writeBatch,
+  increment,
 } from 'firebase/firestore';
-import type { DocumentData } from 'firebase/firestore';
+import type { DocumentData, QueryConstraint, QuerySnapshot, Unsubscribe, WriteBatch } from 'firebase/firestore';
 import { db } from '../config/firebase';
 import { auth } from '../config/firebase';
 import { enhancedThumbnailService } from './enhancedThumbnailService';
-import { validateUrl, sanitizeText, validateTag, rateLimiter } from '../utils/security';
+import { validateImageUrl } from './thumbnailProviders';
+import { validateUrl, sanitizeText, validateTag, validateCollectionName, validateSavedSearchName, rateLimiter } from '../utils/security';
 import { cacheService } from './cacheService';
+import { offlineQueueService } from './offlineQueueService';
+import { linkCheckService } from './linkCheckService';
 import { handleError, createError, ErrorCategory } from '../utils/errorHandler';
+import { getEnvVar } from '../utils/env';
+import {
+  buildCollectionTree,
+  flattenCollectionTree,
+  getCollectionPath,
+  getDescendantCollectionIds,
+} from '../utils/collectionTree';
+import { BACKUP_FORMAT, BACKUP_SCHEMA_VERSION } from '../utils/backup';
+import { getPositiveTerms, matchesSearchQuery, matchesTextSubstring, normalizeDomain, parseSearchQuery } from '../utils/searchQuery';
+import { SearchIndex, tokenizeText } from '../utils/searchIndex';
+import { getDefaultTagColor, isTagColor } from '../utils/tagColors';
+import { buildTagTree, getTagAncestors, tagMatchesFilter } from '../utils/tagTree';
+import { evaluateLinkHealth, isLinkCheckDue } from '../utils/linkHealth';
+import { canonicalizeUrl, stripTrackingParameters } from '../utils/urlCanonical';
+import { diffRevisionValues, getRevisionValues, getValuesAtRevision } from '../utils/revisions';
+import { READ_STATUSES, applyReadStatus, countReadStatuses, isInReadLaterQueue, isReadStatus } from '../utils/readState';
 import type {
+  BackupRestoreMode,
+  BackupRestorePreview,
+  BackupRestoreReport,
   Bookmark,
+  BookmarkBackup,
   BookmarkFormData,
   BookmarkFilters,
+  BookmarkImportEntry,
+  BookmarkImportPreviewRow,
+  BookmarkImportProgress,
+  BookmarkImportReport,
+  BookmarkRevision,
+  BookmarkTag,
+  Collection,
+  CollectionFormData,
+  DuplicateGroup,
+  DuplicateMerge,
+  FavoriteFilter,
+  LinkCheckReport,
+  LinkHealth,
+  LinkHealthFilter,
   PaginationInfo,
+  PendingOperation,
+  PendingOperationType,
+  ReadState,
+  ReadStatus,
+  ReadStatusCounts,
+  SavedSearch,
+  SavedSearchFormData,
+  SortOption,
+  TagTreeNode,
 } from '../types/bookmark';
 
 // Helper function to get current user ID
@@ -38,6 +93,40 @@ const getCurrentUserId = (): string => {
   return user.uid;
 };
 
+// Helper function to convert a stored link check result
+const convertFirestoreToLinkHealth = (health: DocumentData): LinkHealth => ({
+  status: health.status,
+  statusCode: health.statusCode ?? null,
+  ...(health.redirectUrl && { redirectUrl: health.redirectUrl }),
+  checkedAt: health.checkedAt?.toDate() || new Date(),
+  consecutiveFailures: health.consecutiveFailures ?? 0,
+});
+
+// Timestamps of a reading list status
+const READ_STATE_DATE_FIELDS = ['queuedAt', 'startedAt', 'readAt', 'archivedAt', 'updatedAt'] as const;
+
+// Helper function to convert a stored reading list status
+const convertFirestoreToReadState = (readState: DocumentData): ReadState => ({
+  status: readState.status,
+  queuedAt: readState.queuedAt?.toDate() || new Date(),
+  ...(readState.startedAt && { startedAt: readState.startedAt.toDate() }),
+  ...(readState.readAt && { readAt: readState.readAt.toDate() }),
+  ...(readState.archivedAt && { archivedAt: readState.archivedAt.toDate() }),
+  updatedAt: readState.updatedAt?.toDate() || new Date(),
+});
+
+// Helper function to convert a reading list status to Firestore data
+const convertReadStateToFirestore = (readState: ReadState): DocumentData => {
+  const data: DocumentData = { status: readState.status };
+  READ_STATE_DATE_FIELDS.forEach((field) => {
+    const value = readState[field];
+    if (value) {
+      data[field] = Timestamp.fromDate(value);
+    }
+  });
+  return data;
+};
+
 // Helper function to convert Firestore document to Bookmark
 const convertFirestoreToBookmark = (doc: QueryDocumentSnapshot<DocumentData>): Bookmark => {
   const data = doc.data();
@@ -50,14 +139,151 @@ const convertFirestoreToBookmark = (doc: QueryDocumentSnapshot<DocumentData>): B
     tags: data.tags || [],
     favicon: data.favicon,
     thumbnail: data.thumbnail,
+    thumbnailSource: data.thumbnailSource === 'user' ? 'user' : undefined,
+    collectionId: data.collectionId ?? null,
+    health: data.health ? convertFirestoreToLinkHealth(data.health) : undefined,
+    readState: isReadStatus(data.readState?.status) ? convertFirestoreToReadState(data.readState) : undefined,
+    favorite: data.favorite === true,
+    pinned: data.pinned === true,
+    pinOrder: data.pinOrder,
+    visitCount: data.visitCount,
+    lastVisitedAt: data.lastVisitedAt?.toDate(),
+    createdAt: data.createdAt?.toDate() || new Date(),
+    updatedAt: data.updatedAt?.toDate() || new Date(),
+    deletedAt: data.deletedAt?.toDate(),
+  };
+};
+
+// Helper function to convert Firestore document to Collection
+const convertFirestoreToCollection = (doc: QueryDocumentSnapshot<DocumentData>): Collection => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    userId: data.userId,
+    name: data.name,
+    parentId: data.parentId ?? null,
+    icon: data.icon,
+    sortOrder: data.sortOrder ?? 0,
+    createdAt: data.createdAt?.toDate() || new Date(),
+    updatedAt: data.updatedAt?.toDate() || new Date(),
+  };
+};
+
+// Sort options a saved search may restore
+const SORT_OPTIONS: SortOption[] = [
+  'newest',
+  'oldest',
+  'title-asc',
+  'title-desc',
+  'relevance',
+  'most-visited',
+  'recently-visited',
+  'least-recently-visited',
+];
+
+// Sorts by visits; bookmarks that were never opened have no visit fields for Firestore to order by
+export const VISIT_SORT_OPTIONS: SortOption[] = ['most-visited', 'recently-visited', 'least-recently-visited'];
+
+// Fields that change when a visit is written
+const VISIT_FIELDS = ['visitCount', 'lastVisitedAt'];
+
+// Helper function to serialize a bookmark for comparison, with sorted keys and without its visits
+const getComparableBookmark = (bookmark: Bookmark): string =>
+  JSON.stringify(bookmark, (key, value: unknown) => {
+    if (VISIT_FIELDS.includes(key)) {
+      return undefined;
+    }
+    return value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.keys(value).sort().map((name) => [name, (value as Record<string, unknown>)[name]]))
+      : value;
+  });
+
+// States the favorite and link health filters may select
+const FAVORITE_FILTERS: FavoriteFilter[] = ['favorite', 'pinned'];
+const LINK_HEALTH_FILTERS: LinkHealthFilter[] = ['broken', 'redirected'];
+
+// Longest search text kept in a saved search
+const MAX_SAVED_SEARCH_QUERY_LENGTH = 500;
+
+// Helper function to keep the known values of a stored list, in their canonical order
+const pickFilterValues = <T extends string>(values: unknown, allowed: T[]): T[] =>
+  Array.isArray(values) ? allowed.filter((value) => values.includes(value)) : [];
+
+// Helper function to keep only known filter fields with valid values
+// (searches saved before the state filters existed have none)
+const sanitizeSavedSearchFilters = (filters: Partial<BookmarkFilters> | undefined): BookmarkFilters => ({
+  search: typeof filters?.search === 'string' ? filters.search.trim().slice(0, MAX_SAVED_SEARCH_QUERY_LENGTH) : '',
+  tags: Array.isArray(filters?.tags) ? filters.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+  tagFilterMode: filters?.tagFilterMode === 'AND' ? 'AND' : 'OR',
+  sortBy: filters?.sortBy && SORT_OPTIONS.includes(filters.sortBy) ? filters.sortBy : 'newest',
+  collectionId: typeof filters?.collectionId === 'string' ? filters.collectionId : null,
+  includeSubcollections: filters?.includeSubcollections !== false,
+  favorites: pickFilterValues(filters?.favorites, FAVORITE_FILTERS),
+  readStatuses: pickFilterValues(filters?.readStatuses, READ_STATUSES),
+  linkHealth: pickFilterValues(filters?.linkHealth, LINK_HEALTH_FILTERS),
+});
+
+// Helper function to check a bookmark against the favorite, reading status and link health filters
+const matchesStateFilters = (bookmark: Bookmark, filters: BookmarkFilters): boolean =>
+  (filters.favorites.length === 0 ||
+    (filters.favorites.includes('favorite') && !!bookmark.favorite) ||
+    (filters.favorites.includes('pinned') && !!bookmark.pinned)) &&
+  (filters.readStatuses.length === 0 ||
+    (!!bookmark.readState && filters.readStatuses.includes(bookmark.readState.status))) &&
+  (filters.linkHealth.length === 0 ||
+    filters.linkHealth.some((status) => bookmark.health?.status === status));
+
+// Helper function to convert Firestore document to SavedSearch
+const convertFirestoreToSavedSearch = (doc: QueryDocumentSnapshot<DocumentData>): SavedSearch => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    userId: data.userId,
+    name: data.name,
+    filters: sanitizeSavedSearchFilters(data.filters),
     createdAt: data.createdAt?.toDate() || new Date(),
     updatedAt: data.updatedAt?.toDate() || new Date(),
   };
 };
 
-// Helper function to convert Bookmark to Firestore data
-const convertBookmarkToFirestore = (bookmark: Partial<Bookmark>) => {
+// Helper function to build the id of a user's tag document (tag names are unique per user)
+const getTagDocumentId = (userId: string, name: string): string =>
+  `${userId}_${encodeURIComponent(name)}`;
+
+// Helper function to convert Firestore document to BookmarkTag
+const convertFirestoreToTag = (doc: QueryDocumentSnapshot<DocumentData>): BookmarkTag => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    name: data.name,
+    color: isTagColor(data.color) ? data.color : getDefaultTagColor(data.name),
+    usageCount: data.usageCount ?? 0,
+  };
+};
+
+// Helper function to convert Firestore document to BookmarkRevision
+const convertFirestoreToRevision = (doc: QueryDocumentSnapshot<DocumentData>): BookmarkRevision => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    bookmarkId: doc.ref.parent.parent?.id ?? '',
+    userId: data.userId,
+    changes: data.changes || [],
+    createdAt: data.createdAt?.toDate() || new Date(),
+  };
+};
+
+// Helper function to list tags together with every parent tag above them, so a paged query
+// can match a parent tag with array-contains instead of expanding it to its nested tags
+const getTagPaths = (tags: string[]): string[] =>
+  Array.from(new Set(tags.flatMap((tag) => [...getTagAncestors(tag), tag])));
+
+// Helper function to convert Bookmark (or Collection) data to Firestore data
+const convertBookmarkToFirestore = (bookmark: Partial<Bookmark> | Record<string, unknown>) => {
   const data: any = { ...bookmark };
+  if (Array.isArray(data.tags)) {
+    data.tagPaths = getTagPaths(data.tags);
+  }
   if (data.createdAt instanceof Date) {
     data.createdAt = Timestamp.fromDate(data.createdAt);
   }
@@ -67,23 +293,284 @@ const convertBookmarkToFirestore = (bookmark: Partial<Bookmark>) => {
   return data;
 };
 
+// Bookmark fields added in backup schema v2, cleared when a v2 backup restores over a bookmark without them
+const BACKUP_STATE_FIELDS = ['readState', 'favorite', 'pinned', 'pinOrder', 'visitCount', 'lastVisitedAt', 'thumbnailSource'];
+
+// Helper function to convert the reading status, favorite, pin and visit fields of a backed-up bookmark
+const convertBackupStateToFirestore = (item: Omit<Bookmark, 'userId'>): DocumentData => ({
+  ...(item.readState && { readState: convertReadStateToFirestore(item.readState) }),
+  ...(item.favorite && { favorite: true }),
+  ...(item.pinned && { pinned: true, pinOrder: item.pinOrder ?? 0 }),
+  ...(item.visitCount && { visitCount: item.visitCount }),
+  ...(item.lastVisitedAt && { lastVisitedAt: Timestamp.fromDate(item.lastVisitedAt) }),
+});
+
+// Bookmarks outside the trash store deletedAt: null rather than leaving the field out,
+// because queries can only filter on fields a document has
+const NOT_DELETED = { deletedAt: null };
+
+// How long a browser remembers that a user's bookmarks were given the fields paged queries filter on
+const QUERY_FIELDS_BACKFILL_TTL = 30 * 24 * 60 * 60 * 1000;
+
+// Helper function to validate and sanitize bookmark form data
+const sanitizeBookmarkFormData = (
+  formData: BookmarkFormData
+): { url: string; title: string; description: string; tags: string[] } => {
+  const urlValidation = validateUrl(formData.url);
+  if (!urlValidation.isValid) {
+    throw new Error(urlValidation.error || 'Invalid URL');
+  }
 
-// Helper function to filter bookmarks by search query (client-side)
-const filterBySearch = (bookmarks: Bookmark[], searchQuery: string): Bookmark[] => {
-  if (!searchQuery.trim()) {
+  const title = sanitizeText(formData.title, 200);
+  if (!title) {
+    throw new Error('Title is required');
+  }
+
+  const description = sanitizeText(formData.description || '', 1000);
+
+  const tags: string[] = [];
+  for (const tag of formData.tags) {
+    const tagValidation = validateTag(tag);
+    if (tagValidation.isValid && tagValidation.sanitizedTag) {
+      tags.push(tagValidation.sanitizedTag);
+    }
+  }
+
+  if (tags.length > 20) {
+    throw new Error('Too many tags (maximum 20 allowed)');
+  }
+
+  return { url: stripTrackingParameters(urlValidation.sanitizedUrl!), title, description, tags };
+};
+
+// Bookmarks created offline get a temporary id until their create is replayed
+const LOCAL_ID_PREFIX = 'local-';
+
+const isLocalBookmarkId = (id: string): boolean => id.startsWith(LOCAL_ID_PREFIX);
+
+// Helper function to create the temporary id of a bookmark whose create is queued
+const createLocalBookmarkId = (): string =>
+  `${LOCAL_ID_PREFIX}${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+// Helper function to detect writes that failed because there is no connection
+const isNetworkError = (error: unknown): boolean =>
+  (error as { code?: string })?.code === 'unavailable' || !offlineQueueService.isOnline();
+
+// Helper function to show queued offline changes on top of bookmarks read from the server
+const applyPendingOperations = (bookmarks: Bookmark[], operations: PendingOperation[]): Bookmark[] => {
+  if (operations.length === 0) {
     return bookmarks;
   }
 
-  const query = searchQuery.toLowerCase();
-  return bookmarks.filter(
-    (bookmark) =>
-      bookmark.title.toLowerCase().includes(query) ||
-      bookmark.description.toLowerCase().includes(query) ||
-      bookmark.url.toLowerCase().includes(query) ||
-      bookmark.tags.some((tag) => tag.toLowerCase().includes(query))
+  const bookmarksById = new Map(bookmarks.map(bookmark => [bookmark.id, bookmark]));
+
+  for (const operation of operations) {
+    const current = bookmarksById.get(operation.bookmarkId);
+
+    if (operation.type === 'delete') {
+      // Deleting moves the bookmark to the trash
+      if (current) {
+        bookmarksById.set(operation.bookmarkId, { ...current, deletedAt: operation.queuedAt });
+      }
+    } else if (operation.type === 'create' && operation.data) {
+      bookmarksById.set(operation.bookmarkId, {
+        id: operation.bookmarkId,
+        userId: operation.userId,
+        title: operation.data.title,
+        url: operation.data.url,
+        description: operation.data.description || '',
+        tags: operation.data.tags,
+        favicon: `https://www.google.com/s2/favicons?domain=${new URL(operation.data.url).hostname}&sz=64`,
+        collectionId: operation.data.collectionId ?? null,
+        createdAt: operation.queuedAt,
+        updatedAt: operation.queuedAt,
+      });
+    } else if (operation.type === 'update' && operation.data && current) {
+      bookmarksById.set(operation.bookmarkId, {
+        ...current,
+        title: operation.data.title,
+        url: operation.data.url,
+        description: operation.data.description || '',
+        tags: operation.data.tags,
+        collectionId: operation.data.collectionId === undefined ? current.collectionId : operation.data.collectionId,
+        updatedAt: operation.queuedAt,
+      });
+    }
+  }
+
+  return Array.from(bookmarksById.values());
+};
+
+// Firestore rejects batches with more than 500 writes
+const BATCH_WRITE_LIMIT = 500;
+
+// Helper function to commit a list of batched write operations in chunks
+const commitInBatches = async (
+  operations: Array<(batch: WriteBatch) => void>,
+  onProgress?: (progress: BookmarkImportProgress) => void
+): Promise<void> => {
+  for (let i = 0; i < operations.length; i += BATCH_WRITE_LIMIT) {
+    const batch = writeBatch(db);
+    operations.slice(i, i + BATCH_WRITE_LIMIT).forEach((operation) => operation(batch));
+    await batch.commit();
+    onProgress?.({ processed: Math.min(i + BATCH_WRITE_LIMIT, operations.length), total: operations.length });
+  }
+};
+
+// Revisions shown in a bookmark's history, newest first
+const REVISION_HISTORY_LIMIT = 50;
+
+// Helper function to get the reference to a bookmark's edit history
+const getRevisionsRef = (bookmarkId: string) => collection(db, 'bookmarks', bookmarkId, 'revisions');
+
+// Helper function to list deletes for the edit history of bookmarks that are removed for good
+const getRevisionDeletes = async (bookmarkIds: string[]): Promise<Array<(batch: WriteBatch) => void>> => {
+  const savedIds = bookmarkIds.filter((id) => !isLocalBookmarkId(id));
+  const snapshots = await Promise.all(savedIds.map((id) => getDocs(getRevisionsRef(id))));
+  return snapshots.flatMap((snapshot) =>
+    snapshot.docs.map((revision) => (batch: WriteBatch) => batch.delete(revision.ref))
   );
 };
 
+// Helper function to run imported or restored data through the same validation as the bookmark form
+const sanitizeImportedBookmark = (
+  entry: BookmarkImportEntry
+): { data?: { url: string; title: string; description: string; tags: string[] }; error?: string; warnings: string[] } => {
+  const urlValidation = validateUrl(entry.url);
+  if (!urlValidation.isValid) {
+    return { error: urlValidation.error || 'Invalid URL', warnings: [] };
+  }
+
+  const url = stripTrackingParameters(urlValidation.sanitizedUrl!);
+  const title = sanitizeText(entry.title, 200) || new URL(url).hostname;
+  const description = sanitizeText(entry.description || '', 1000);
+
+  // Drop tags that fail validation rather than rejecting the whole entry
+  const tags: string[] = [];
+  const warnings: string[] = [];
+  for (const tag of entry.tags) {
+    const tagValidation = validateTag(tag);
+    if (tagValidation.isValid && tagValidation.sanitizedTag) {
+      if (!tags.includes(tagValidation.sanitizedTag)) {
+        tags.push(tagValidation.sanitizedTag);
+      }
+    } else {
+      warnings.push(`Tag "${tag}" dropped: ${tagValidation.error || 'Invalid tag'}`);
+    }
+  }
+  if (tags.length > 20) {
+    warnings.push(`Only the first 20 of ${tags.length} tags are kept`);
+  }
+
+  return { data: { url, title, description, tags: tags.slice(0, 20) }, warnings };
+};
+
+// Helper function to keep only image references that are safe to render
+const sanitizeImageReference = (value?: string): string | undefined =>
+  value && (/^https?:\/\//i.test(value) || value.startsWith('data:image/')) ? value : undefined;
+
+// Helper function to keep a thumbnail suggested by page metadata only if it loads as an image
+const validateSuggestedThumbnail = async (value?: string): Promise<string | undefined> => {
+  const thumbnail = sanitizeImageReference(value);
+  if (!thumbnail || thumbnail.startsWith('data:image/')) {
+    return thumbnail;
+  }
+  return (await validateImageUrl(thumbnail)) ? thumbnail : undefined;
+};
+
+// Days a deleted bookmark stays in the trash before it is purged for good
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// Helper function to read the trash retention window, falling back to the default for invalid values
+const getTrashRetentionDays = (): number => {
+  const days = Number(getEnvVar('VITE_TRASH_RETENTION_DAYS'));
+  return Number.isFinite(days) && days >= 1 ? Math.floor(days) : DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+// Links checked per periodic run, so a large library is checked a slice at a time
+const PERIODIC_LINK_CHECK_LIMIT = 50;
+
+// Firestore allows at most 30 disjunctions ('in' x 'array-contains-any' values) per query
+const MAX_QUERY_DISJUNCTIONS = 30;
+
+// Opaque cursor pointing at the last bookmark of a server-side page
+export type BookmarkCursor = QueryDocumentSnapshot<DocumentData>;
+
+// BroadcastChannel used to tell other tabs of this browser that cached data changed
+const SYNC_CHANNEL_NAME = 'better-bookmarks-sync';
+
+// Which cached data a change notification refers to; 'visits' is a bookmark change
+// that only wrote visit counts
+export type SyncScope = 'bookmarks' | 'visits' | 'collections' | 'savedSearches' | 'tags';
+
+interface SyncMessage {
+  userId: string;
+  scope: SyncScope;
+}
+
+type SyncListener = (scope: SyncScope) => void;
+
+// Visits are collected in memory and written together, at most once per this interval
+const VISIT_FLUSH_DELAY = 30 * 1000;
+
+// Opens of one bookmark that have not been written yet
+interface PendingVisit {
+  count: number;
+  lastVisitedAt: Date;
+}
+
+// Number of bookmarks written per batch during imports (keeps progress updates frequent)
+const IMPORT_BATCH_SIZE = 100;
+
+// Helper function to filter bookmarks by search query and score them for relevance (client-side)
+const filterBySearch = (
+  bookmarks: Bookmark[],
+  searchQuery: string,
+  searchIndex: SearchIndex
+): { bookmarks: Bookmark[]; scores: Map<string, number> } => {
+  const scores = new Map<string, number>();
+  if (!searchQuery.trim()) {
+    return { bookmarks, scores };
+  }
+
+  const { ast, error } = parseSearchQuery(searchQuery);
+  if (!ast) {
+    // The syntax error is shown under the search input; meanwhile match the raw text
+    return {
+      bookmarks: error
+        ? bookmarks.filter((bookmark) => matchesTextSubstring(bookmark, searchQuery.toLowerCase()))
+        : bookmarks,
+      scores,
+    };
+  }
+
+  // Look up each free-text term in the index once
+  const termScores = new Map<string, Map<string, number>>();
+  const getTermScores = (value: string): Map<string, number> => {
+    let result = termScores.get(value);
+    if (!result) {
+      result = searchIndex.search(value);
+      termScores.set(value, result);
+    }
+    return result;
+  };
+
+  // Single words also match with typos; quoted phrases must appear as written
+  const matchText = (bookmark: Bookmark, value: string): boolean =>
+    matchesTextSubstring(bookmark, value) ||
+    (tokenizeText(value).length === 1 && getTermScores(value).has(bookmark.id));
+
+  const matched = bookmarks.filter((bookmark) => matchesSearchQuery(bookmark, ast, matchText));
+
+  const rankedTerms = getPositiveTerms(ast);
+  for (const bookmark of matched) {
+    const score = rankedTerms.reduce((total, term) => total + (getTermScores(term).get(bookmark.id) ?? 0), 0);
+    scores.set(bookmark.id, score);
+  }
+
+  return { bookmarks: matched, scores };
+};
+
 // Helper function to generate thumbnail and favicon for a URL
 const generateThumbnailData = async (url: string, isCreatingBookmark: boolean = false): Promise<{ thumbnail?: string; favicon?: string }> => {
   try {
@@ -111,24 +598,375 @@ const generateThumbnailData = async (url: string, isCreatingBookmark: boolean =
   }
 };
 
+// Longest cropped thumbnail accepted for upload; a 400x300 JPEG is usually well under 100 KB
+const MAX_CUSTOM_THUMBNAIL_LENGTH = 1024 * 1024;
+
+// Helper function to upload a thumbnail the user cropped and get its stored URL
+const uploadCustomThumbnail = async (url: string, dataUrl: string): Promise<string> => {
+  if (!/^data:image\/(jpeg|png|webp);base64,/.test(dataUrl) || dataUrl.length > MAX_CUSTOM_THUMBNAIL_LENGTH) {
+    throw new Error('The thumbnail image is not valid. Please choose the image again.');
+  }
+
+  const result = await enhancedThumbnailService.uploadCustomThumbnail(url, dataUrl);
+  return result.thumbnail!;
+};
+
 class BookmarkService {
   private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
   private readonly BOOKMARKS_CACHE_KEY = 'user_bookmarks';
-  private readonly TAGS_CACHE_KEY = 'user_tags';
+  private readonly TAGS_CACHE_KEY = 'user_tag_tree';
+  private readonly COLLECTIONS_CACHE_KEY = 'user_collections';
+  private readonly SAVED_SEARCHES_CACHE_KEY = 'user_saved_searches';
+  private readonly TAG_RECORDS_CACHE_KEY = 'user_tag_records';
+  private readonly QUERY_FIELDS_BACKFILL_KEY = 'query_fields_backfilled';
+
+  private readonly syncChannel: BroadcastChannel | null =
+    typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(SYNC_CHANNEL_NAME) : null;
+  private readonly syncListeners = new Set<SyncListener>();
+  private unsubscribeSnapshot: Unsubscribe | null = null;
+  private syncInProgress: Promise<void> | null = null;
+  private readonly searchIndex = new SearchIndex();
+  private readonly pendingVisits = new Map<string, PendingVisit>();
+  private visitFlushTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly queryFieldsBackfilledUsers = new Set<string>();
+  // Result counts of paged queries, so paging through the same filters counts them once
+  private readonly pageCounts = new Map<string, number>();
+
+  constructor() {
+    this.syncChannel?.addEventListener('message', (event: MessageEvent<SyncMessage>) => {
+      this.handleBroadcast(event.data);
+    });
+
+    // Replay changes made while offline as soon as the connection returns
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => {
+        if (auth.currentUser) {
+          this.syncPendingOperations().catch(() => {
+            // Operations stay queued and are retried on the next sync
+          });
+          this.flushVisits();
+        }
+      });
+
+      // Write collected visits before the tab is hidden or closed
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'hidden') {
+          this.flushVisits();
+        }
+      });
+    }
+  }
 
   /**
-   * Clear all bookmark-related caches
+   * Clear all bookmark-related caches and tell other tabs to do the same
    */
   private clearBookmarkCaches(): void {
     const userId = getCurrentUserId();
     cacheService.remove(`${this.BOOKMARKS_CACHE_KEY}_${userId}`);
     cacheService.remove(`${this.TAGS_CACHE_KEY}_${userId}`);
+    this.pageCounts.clear();
+    this.broadcast({ userId, scope: 'bookmarks' });
   }
 
   /**
-   * Get cached bookmarks or fetch from Firebase
+   * Clear the collection cache and tell other tabs to do the same
+   */
+  private clearCollectionCaches(): void {
+    const userId = getCurrentUserId();
+    cacheService.remove(`${this.COLLECTIONS_CACHE_KEY}_${userId}`);
+    this.broadcast({ userId, scope: 'collections' });
+  }
+
+  /**
+   * Clear the saved search cache and tell other tabs to do the same
+   */
+  private clearSavedSearchCaches(): void {
+    const userId = getCurrentUserId();
+    cacheService.remove(`${this.SAVED_SEARCHES_CACHE_KEY}_${userId}`);
+    this.broadcast({ userId, scope: 'savedSearches' });
+  }
+
+  /**
+   * Clear the stored tag cache and tell other tabs to do the same
+   */
+  private clearTagCaches(): void {
+    const userId = getCurrentUserId();
+    cacheService.remove(`${this.TAG_RECORDS_CACHE_KEY}_${userId}`);
+    this.broadcast({ userId, scope: 'tags' });
+  }
+
+  /**
+   * Post an invalidation to the other tabs of this browser
+   */
+  private broadcast(message: SyncMessage): void {
+    try {
+      this.syncChannel?.postMessage(message);
+    } catch {
+      // Cross-tab sync is best effort; the Firestore listener still catches up
+    }
+  }
+
+  /**
+   * Drop the caches another tab invalidated and notify local subscribers
+   */
+  private handleBroadcast(message: SyncMessage): void {
+    const userId = auth.currentUser?.uid;
+    if (!message || message.userId !== userId) {
+      return;
+    }
+
+    // The persistent tier is shared between tabs; clearing it again is harmless
+    if (message.scope === 'bookmarks') {
+      cacheService.remove(`${this.BOOKMARKS_CACHE_KEY}_${userId}`);
+      cacheService.remove(`${this.TAGS_CACHE_KEY}_${userId}`);
+      this.pageCounts.clear();
+    } else if (message.scope === 'collections') {
+      cacheService.remove(`${this.COLLECTIONS_CACHE_KEY}_${userId}`);
+    } else if (message.scope === 'savedSearches') {
+      cacheService.remove(`${this.SAVED_SEARCHES_CACHE_KEY}_${userId}`);
+    } else {
+      cacheService.remove(`${this.TAG_RECORDS_CACHE_KEY}_${userId}`);
+    }
+
+    this.notifySyncListeners(message.scope);
+  }
+
+  private notifySyncListeners(scope: SyncScope): void {
+    this.syncListeners.forEach(listener => listener(scope));
+  }
+
+  /**
+   * Apply a snapshot of the user's bookmarks to the cache.
+   * Only the changed documents are applied when the cache is warm.
+   * Returns true when the changes only wrote visit counts.
+   */
+  private applyBookmarksSnapshot(userId: string, snapshot: QuerySnapshot<DocumentData>): boolean {
+    const cacheKey = `${this.BOOKMARKS_CACHE_KEY}_${userId}`;
+    const cached = cacheService.getMemory<Bookmark[]>(cacheKey);
+
+    // Keep the offline copy current so reads work after the connection drops
+    offlineQueueService.saveSnapshot(userId, snapshot.docs.map(convertFirestoreToBookmark));
+
+    // A cold cache is filled on the next read, with pending offline changes applied
+    if (!cached) {
+      this.pageCounts.clear();
+      return false;
+    }
+
+    let visitsOnly = true;
+    const bookmarksById = new Map(cached.map(bookmark => [bookmark.id, bookmark]));
+    snapshot.docChanges().forEach(change => {
+      const previous = bookmarksById.get(change.doc.id);
+      if (change.type === 'removed') {
+        visitsOnly = false;
+        bookmarksById.delete(change.doc.id);
+      } else {
+        const bookmark = this.applyPendingVisits(convertFirestoreToBookmark(change.doc));
+        if (change.type === 'added' || !previous || getComparableBookmark(previous) !== getComparableBookmark(bookmark)) {
+          visitsOnly = false;
+        }
+        bookmarksById.set(change.doc.id, bookmark);
+      }
+    });
+    const bookmarks = Array.from(bookmarksById.values());
+
+    cacheService.setMemory(cacheKey, bookmarks, this.CACHE_TTL);
+    cacheService.setPersistent(cacheKey, bookmarks, this.CACHE_TTL);
+    if (!visitsOnly) {
+      // Counts and tags are derived from bookmarks and are rebuilt on next read
+      this.pageCounts.clear();
+      cacheService.remove(`${this.TAGS_CACHE_KEY}_${userId}`);
+    }
+
+    return visitsOnly;
+  }
+
+  /**
+   * Subscribe to live changes of the current user's data.
+   * Bookmarks are kept in sync through a Firestore listener that is shared by all
+   * subscribers; invalidations from other tabs arrive through a BroadcastChannel.
+   * Returns a function that removes the subscription.
+   */
+  subscribeToChanges(listener: SyncListener): () => void {
+    this.syncListeners.add(listener);
+
+    if (!this.unsubscribeSnapshot) {
+      const userId = getCurrentUserId();
+      const q = query(collection(db, 'bookmarks'), where('userId', '==', userId));
+      let isInitialSnapshot = true;
+
+      this.unsubscribeSnapshot = onSnapshot(
+        q,
+        snapshot => {
+          const visitsOnly = this.applyBookmarksSnapshot(userId, snapshot);
+          // The first snapshot only primes the cache with what is already displayed
+          if (!isInitialSnapshot && snapshot.docChanges().length > 0) {
+            this.notifySyncListeners(visitsOnly ? 'visits' : 'bookmarks');
+          }
+          isInitialSnapshot = false;
+        },
+        () => {
+          // Listener failed (e.g. signed out); allow the next subscriber to start a new one
+          this.unsubscribeSnapshot = null;
+        }
+      );
+    }
+
+    return () => {
+      this.syncListeners.delete(listener);
+      if (this.syncListeners.size === 0 && this.unsubscribeSnapshot) {
+        this.unsubscribeSnapshot();
+        this.unsubscribeSnapshot = null;
+      }
+    };
+  }
+
+  /**
+   * Get cached collections or fetch from Firebase
+   */
+  private async getCachedCollections(): Promise<Collection[]> {
+    const userId = getCurrentUserId();
+    const cacheKey = `${this.COLLECTIONS_CACHE_KEY}_${userId}`;
+
+    let collections = cacheService.getMemory<Collection[]>(cacheKey);
+    if (collections) {
+      return collections;
+    }
+
+    collections = await cacheService.getPersistent<Collection[]>(cacheKey);
+    if (collections) {
+      const deserializedCollections = this.deserializeCollections(collections);
+      cacheService.setMemory(cacheKey, deserializedCollections, this.CACHE_TTL);
+      return deserializedCollections;
+    }
+
+    const collectionsRef = collection(db, 'collections');
+    const q = query(collectionsRef, where('userId', '==', userId));
+    const querySnapshot = await getDocs(q);
+    collections = querySnapshot.docs.map(convertFirestoreToCollection);
+
+    cacheService.setMemory(cacheKey, collections, this.CACHE_TTL);
+    cacheService.setPersistent(cacheKey, collections, this.CACHE_TTL);
+
+    return collections;
+  }
+
+  /**
+   * Deserialize cached collections (convert date strings back to Date objects)
+   */
+  private deserializeCollections(collections: Collection[]): Collection[] {
+    return collections.map(item => ({
+      ...item,
+      createdAt: new Date(item.createdAt),
+      updatedAt: new Date(item.updatedAt)
+    }));
+  }
+
+  /**
+   * Get cached saved searches or fetch from Firebase
+   */
+  private async getCachedSavedSearches(): Promise<SavedSearch[]> {
+    const userId = getCurrentUserId();
+    const cacheKey = `${this.SAVED_SEARCHES_CACHE_KEY}_${userId}`;
+
+    let savedSearches = cacheService.getMemory<SavedSearch[]>(cacheKey);
+    if (savedSearches) {
+      return savedSearches;
+    }
+
+    savedSearches = await cacheService.getPersistent<SavedSearch[]>(cacheKey);
+    if (savedSearches) {
+      const deserializedSavedSearches = savedSearches.map(item => ({
+        ...item,
+        createdAt: new Date(item.createdAt),
+        updatedAt: new Date(item.updatedAt)
+      }));
+      cacheService.setMemory(cacheKey, deserializedSavedSearches, this.CACHE_TTL);
+      return deserializedSavedSearches;
+    }
+
+    const savedSearchesRef = collection(db, 'savedSearches');
+    const q = query(savedSearchesRef, where('userId', '==', userId));
+    const querySnapshot = await getDocs(q);
+    savedSearches = querySnapshot.docs
+      .map(convertFirestoreToSavedSearch)
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    cacheService.setMemory(cacheKey, savedSearches, this.CACHE_TTL);
+    cacheService.setPersistent(cacheKey, savedSearches, this.CACHE_TTL);
+
+    return savedSearches;
+  }
+
+  /**
+   * Get cached tag documents (stored colours) or fetch from Firebase
+   */
+  private async getCachedTagRecords(): Promise<BookmarkTag[]> {
+    const userId = getCurrentUserId();
+    const cacheKey = `${this.TAG_RECORDS_CACHE_KEY}_${userId}`;
+
+    let records = cacheService.getMemory<BookmarkTag[]>(cacheKey);
+    if (records) {
+      return records;
+    }
+
+    records = await cacheService.getPersistent<BookmarkTag[]>(cacheKey);
+    if (records) {
+      cacheService.setMemory(cacheKey, records, this.CACHE_TTL);
+      return records;
+    }
+
+    const tagsRef = collection(db, 'tags');
+    const q = query(tagsRef, where('userId', '==', userId));
+    const querySnapshot = await getDocs(q);
+    records = querySnapshot.docs.map(convertFirestoreToTag);
+
+    cacheService.setMemory(cacheKey, records, this.CACHE_TTL);
+    cacheService.setPersistent(cacheKey, records, this.CACHE_TTL);
+
+    return records;
+  }
+
+  /**
+   * Make sure a collection id refers to one of the current user's collections
+   */
+  private async resolveCollectionId(collectionId: string | null | undefined): Promise<string | null> {
+    if (!collectionId) {
+      return null;
+    }
+
+    // Collections cannot be loaded offline; the id is checked again when the change is replayed
+    if (!offlineQueueService.isOnline()) {
+      return collectionId;
+    }
+
+    const collections = await this.getCachedCollections();
+    if (!collections.some(item => item.id === collectionId)) {
+      throw new Error('Collection not found');
+    }
+    return collectionId;
+  }
+
+  /**
+   * Get bookmarks that are not in the trash
    */
   private async getCachedBookmarks(): Promise<Bookmark[]> {
+    return (await this.getCachedLibrary()).filter(bookmark => !bookmark.deletedAt);
+  }
+
+  /**
+   * Get bookmarks in the trash, most recently deleted first
+   */
+  private async getCachedTrash(): Promise<Bookmark[]> {
+    return (await this.getCachedLibrary())
+      .filter(bookmark => !!bookmark.deletedAt)
+      .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
+  }
+
+  /**
+   * Get cached bookmarks, including the trash, or fetch from Firebase
+   */
+  private async getCachedLibrary(): Promise<Bookmark[]> {
     const userId = getCurrentUserId();
     const cacheKey = `${this.BOOKMARKS_CACHE_KEY}_${userId}`;
     
@@ -138,8 +976,8 @@ class BookmarkService {
       return this.deserializeBookmarks(bookmarks);
     }
 
-    // Try localStorage cache
-    bookmarks = cacheService.getLocal<Bookmark[]>(cacheKey);
+    // Try the persistent cache
+    bookmarks = await cacheService.getPersistent<Bookmark[]>(cacheKey);
     if (bookmarks) {
       const deserializedBookmarks = this.deserializeBookmarks(bookmarks);
       // Also cache in memory for faster access
@@ -147,15 +985,35 @@ class BookmarkService {
       return deserializedBookmarks;
     }
 
-    // Fetch from Firebase
-    const bookmarksRef = collection(db, 'bookmarks');
-    const q = query(bookmarksRef, where('userId', '==', userId));
-    const querySnapshot = await getDocs(q);
-    bookmarks = querySnapshot.docs.map(convertFirestoreToBookmark);
+    // Fetch from Firebase, or from the offline copy when there is no connection
+    let serverBookmarks: Bookmark[] | null = null;
+    if (offlineQueueService.isOnline()) {
+      try {
+        const bookmarksRef = collection(db, 'bookmarks');
+        const q = query(bookmarksRef, where('userId', '==', userId));
+        const querySnapshot = await getDocs(q);
+        serverBookmarks = querySnapshot.docs.map(convertFirestoreToBookmark);
+        await offlineQueueService.saveSnapshot(userId, serverBookmarks);
+        await this.backfillQueryFields(userId, querySnapshot.docs);
+      } catch (error) {
+        if (!isNetworkError(error)) {
+          throw error;
+        }
+      }
+    }
+    if (!serverBookmarks) {
+      serverBookmarks = (await offlineQueueService.getSnapshot(userId)) ?? [];
+    }
+
+    // Show changes that are still waiting to be synced
+    const pendingOperations = await offlineQueueService.getOperations(userId);
+    bookmarks = applyPendingOperations(serverBookmarks, pendingOperations).map((bookmark) =>
+      this.applyPendingVisits(bookmark)
+    );
 
     // Cache the results
     cacheService.setMemory(cacheKey, bookmarks, this.CACHE_TTL);
-    cacheService.setLocal(cacheKey, bookmarks, this.CACHE_TTL);
+    cacheService.setPersistent(cacheKey, bookmarks, this.CACHE_TTL);
 
     return bookmarks;
   }
@@ -166,8 +1024,22 @@ class BookmarkService {
   private deserializeBookmarks(bookmarks: any[]): Bookmark[] {
     return bookmarks.map(bookmark => ({
       ...bookmark,
+      health: bookmark.health && {
+        ...bookmark.health,
+        checkedAt: typeof bookmark.health.checkedAt === 'string' ? new Date(bookmark.health.checkedAt) : bookmark.health.checkedAt
+      },
+      readState: bookmark.readState && {
+        ...bookmark.readState,
+        ...Object.fromEntries(
+          READ_STATE_DATE_FIELDS
+            .filter(field => typeof bookmark.readState[field] === 'string')
+            .map(field => [field, new Date(bookmark.readState[field])])
+        )
+      },
       createdAt: typeof bookmark.createdAt === 'string' ? new Date(bookmark.createdAt) : bookmark.createdAt,
-      updatedAt: typeof bookmark.updatedAt === 'string' ? new Date(bookmark.updatedAt) : bookmark.updatedAt
+      updatedAt: typeof bookmark.updatedAt === 'string' ? new Date(bookmark.updatedAt) : bookmark.updatedAt,
+      lastVisitedAt: typeof bookmark.lastVisitedAt === 'string' ? new Date(bookmark.lastVisitedAt) : bookmark.lastVisitedAt,
+      deletedAt: typeof bookmark.deletedAt === 'string' ? new Date(bookmark.deletedAt) : bookmark.deletedAt
     }));
   }
 
@@ -179,397 +1051,2677 @@ class BookmarkService {
       throw new Error('Too many bookmark creation attempts. Please wait a moment before trying again.');
     }
 
-    // Validate and sanitize input data
-    const urlValidation = validateUrl(formData.url);
-    if (!urlValidation.isValid) {
-      throw new Error(urlValidation.error || 'Invalid URL');
+    if (!offlineQueueService.isOnline()) {
+      if (formData.customThumbnail) {
+        throw new Error('Custom thumbnails can be uploaded once you are online.');
+      }
+      return this.queueBookmarkChange('create', createLocalBookmarkId(), formData);
     }
 
-    const sanitizedTitle = sanitizeText(formData.title, 200);
-    if (!sanitizedTitle) {
-      throw new Error('Title is required');
-    }
-
-    const sanitizedDescription = sanitizeText(formData.description || '', 1000);
-    
-    // Validate and sanitize tags
-    const sanitizedTags: string[] = [];
-    for (const tag of formData.tags) {
-      const tagValidation = validateTag(tag);
-      if (tagValidation.isValid && tagValidation.sanitizedTag) {
-        sanitizedTags.push(tagValidation.sanitizedTag);
+    try {
+      return await this.saveNewBookmark(formData);
+    } catch (error) {
+      // The queue has no room for a custom thumbnail, so that create has to wait for the connection
+      if (isNetworkError(error) && !formData.customThumbnail) {
+        return this.queueBookmarkChange('create', createLocalBookmarkId(), formData);
       }
+      const userMessage = handleError(error, 'createBookmark');
+      throw new Error(userMessage);
     }
+  }
 
-    if (sanitizedTags.length > 20) {
-      throw new Error('Too many tags (maximum 20 allowed)');
-    }
+  /**
+   * Validate and write a new bookmark to Firestore
+   */
+  private async saveNewBookmark(formData: BookmarkFormData): Promise<Bookmark> {
+    const userId = getCurrentUserId();
+
+    // Validate and sanitize input data
+    const {
+      url: sanitizedUrl,
+      title: sanitizedTitle,
+      description: sanitizedDescription,
+      tags: sanitizedTags,
+    } = sanitizeBookmarkFormData(formData);
+
+    const collectionId = await this.resolveCollectionId(formData.collectionId);
 
     const now = new Date();
 
-    // Generate thumbnail and favicon (skip access check since we're creating the bookmark)
-    const thumbnailData = await generateThumbnailData(urlValidation.sanitizedUrl!, true);
+    // Use the image the user uploaded or the one suggested by the page's metadata if it loads,
+    // and generate the rest (skip access check since we're creating the bookmark)
+    const customThumbnail = formData.customThumbnail
+      ? await uploadCustomThumbnail(sanitizedUrl, formData.customThumbnail)
+      : undefined;
+    const suggestedThumbnail = customThumbnail ?? await validateSuggestedThumbnail(formData.thumbnail);
+    const thumbnailData = suggestedThumbnail
+      ? { thumbnail: suggestedThumbnail, favicon: `https://www.google.com/s2/favicons?domain=${new URL(sanitizedUrl).hostname}&sz=64` }
+      : await generateThumbnailData(sanitizedUrl, true);
 
     const bookmarkData = {
       userId,
       title: sanitizedTitle,
-      url: urlValidation.sanitizedUrl!,
+      url: sanitizedUrl,
       description: sanitizedDescription,
       tags: sanitizedTags,
-      favicon: thumbnailData.favicon,
+      favicon: sanitizeImageReference(formData.favicon) ?? thumbnailData.favicon,
       thumbnail: thumbnailData.thumbnail,
+      ...(customThumbnail && { thumbnailSource: 'user' as const }),
+      collectionId,
       createdAt: now,
       updatedAt: now,
     };
 
+    const docRef = await addDoc(collection(db, 'bookmarks'), { ...convertBookmarkToFirestore(bookmarkData), ...NOT_DELETED });
+    const bookmark: Bookmark = {
+      id: docRef.id,
+      ...bookmarkData,
+    };
+
+    // Clear caches after creating bookmark
+    this.clearBookmarkCaches();
+    this.searchIndex.add(bookmark);
+
+    return bookmark;
+  }
+
+  async updateBookmark(id: string, formData: BookmarkFormData): Promise<Bookmark> {
+    // Bookmarks created offline are updated by rewriting their queued create
+    if (!offlineQueueService.isOnline() || isLocalBookmarkId(id)) {
+      if (formData.customThumbnail !== undefined) {
+        throw new Error('Thumbnails can be changed once you are online and the bookmark has synced.');
+      }
+      return this.queueBookmarkChange('update', id, formData);
+    }
+
     try {
-      const docRef = await addDoc(collection(db, 'bookmarks'), convertBookmarkToFirestore(bookmarkData));
-      
-      // Clear caches after creating bookmark
-      this.clearBookmarkCaches();
-      
-      return {
-        id: docRef.id,
-        ...bookmarkData,
-      };
+      return await this.saveBookmarkUpdate(id, formData);
     } catch (error) {
-      const userMessage = handleError(error, 'createBookmark');
+      // The queue has no room for a thumbnail change, so that edit has to wait for the connection
+      if (isNetworkError(error) && formData.customThumbnail === undefined) {
+        return this.queueBookmarkChange('update', id, formData);
+      }
+      const userMessage = handleError(error, 'updateBookmark');
       throw new Error(userMessage);
     }
   }
 
-  async updateBookmark(id: string, formData: BookmarkFormData): Promise<Bookmark> {
+  /**
+   * Validate and write a bookmark update to Firestore
+   */
+  private async saveBookmarkUpdate(id: string, formData: BookmarkFormData): Promise<Bookmark> {
     const userId = getCurrentUserId();
     const bookmarkRef = doc(db, 'bookmarks', id);
 
-    try {
-      // First, verify the bookmark belongs to the current user
-      const bookmarkDoc = await getDoc(bookmarkRef);
-      if (!bookmarkDoc.exists()) {
-        throw new Error('Bookmark not found');
-      }
+    // First, verify the bookmark belongs to the current user
+    const bookmarkDoc = await getDoc(bookmarkRef);
+    if (!bookmarkDoc.exists()) {
+      throw new Error('Bookmark not found');
+    }
 
-      const bookmarkData = bookmarkDoc.data();
-      if (bookmarkData.userId !== userId) {
-        throw new Error('Unauthorized: You can only update your own bookmarks');
-      }
+    const bookmarkData = bookmarkDoc.data();
+    if (bookmarkData.userId !== userId) {
+      throw new Error('Unauthorized: You can only update your own bookmarks');
+    }
 
-      // Validate and sanitize input data
-      const urlValidation = validateUrl(formData.url);
-      if (!urlValidation.isValid) {
-        throw new Error(urlValidation.error || 'Invalid URL');
-      }
+    // Validate and sanitize input data
+    const {
+      url: sanitizedUrl,
+      title: sanitizedTitle,
+      description: sanitizedDescription,
+      tags: sanitizedTags,
+    } = sanitizeBookmarkFormData(formData);
 
-      const sanitizedTitle = sanitizeText(formData.title, 200);
-      if (!sanitizedTitle) {
-        throw new Error('Title is required');
-      }
+    // Keep the current collection unless the form explicitly sets one
+    const collectionId = formData.collectionId === undefined
+      ? bookmarkData.collectionId ?? null
+      : await this.resolveCollectionId(formData.collectionId);
 
-      const sanitizedDescription = sanitizeText(formData.description || '', 1000);
-      
-      // Validate and sanitize tags
-      const sanitizedTags: string[] = [];
-      for (const tag of formData.tags) {
-        const tagValidation = validateTag(tag);
-        if (tagValidation.isValid && tagValidation.sanitizedTag) {
-          sanitizedTags.push(tagValidation.sanitizedTag);
-        }
-      }
+    // Check if URL changed to regenerate thumbnails (tracking parameters, fragments and the like don't count)
+    const urlChanged = canonicalizeUrl(bookmarkData.url) !== canonicalizeUrl(sanitizedUrl);
+    const hasCustomThumbnail = bookmarkData.thumbnailSource === 'user';
+    const revertThumbnail = formData.customThumbnail === null && hasCustomThumbnail;
+    let thumbnailData: { favicon?: string; thumbnail?: string };
 
-      if (sanitizedTags.length > 20) {
-        throw new Error('Too many tags (maximum 20 allowed)');
+    if (formData.customThumbnail) {
+      thumbnailData = {
+        favicon: bookmarkData.favicon,
+        thumbnail: await uploadCustomThumbnail(sanitizedUrl, formData.customThumbnail),
+      };
+    } else if (revertThumbnail || (urlChanged && !hasCustomThumbnail)) {
+      // Regenerate thumbnails if URL changed, unless the user picked the thumbnail
+      // (don't skip access check since bookmark exists)
+      if (revertThumbnail) {
+        // Older versions cached uploads under the page URL; never serve one back as generated
+        cacheService.remove(`thumbnail_${sanitizedUrl}`);
       }
+      thumbnailData = await generateThumbnailData(sanitizedUrl, false);
+    } else {
+      // Keep existing thumbnails
+      thumbnailData = {
+        favicon: bookmarkData.favicon,
+        thumbnail: bookmarkData.thumbnail,
+      };
+    }
 
-      // Check if URL changed to regenerate thumbnails
-      const urlChanged = bookmarkData.url !== urlValidation.sanitizedUrl;
-      let thumbnailData: { favicon?: string; thumbnail?: string };
-
-      if (urlChanged) {
-        // Regenerate thumbnails if URL changed (don't skip access check since bookmark exists)
-        thumbnailData = await generateThumbnailData(urlValidation.sanitizedUrl!, false);
-      } else {
-        // Keep existing thumbnails
-        thumbnailData = {
-          favicon: bookmarkData.favicon,
-          thumbnail: bookmarkData.thumbnail,
-        };
-      }
+    const updateData: any = {
+      title: sanitizedTitle,
+      url: sanitizedUrl,
+      description: sanitizedDescription,
+      tags: sanitizedTags,
+      collectionId,
+      updatedAt: new Date(),
+    };
 
-      const updateData: any = {
-        title: sanitizedTitle,
-        url: urlValidation.sanitizedUrl!,
-        description: sanitizedDescription,
-        tags: sanitizedTags,
-        updatedAt: new Date(),
-      };
+    // Only add favicon and thumbnail if they exist (Firebase doesn't allow undefined)
+    if (thumbnailData.favicon) {
+      updateData.favicon = thumbnailData.favicon;
+    }
+    if (thumbnailData.thumbnail) {
+      updateData.thumbnail = thumbnailData.thumbnail;
+    }
+    if (formData.customThumbnail || (hasCustomThumbnail && !revertThumbnail)) {
+      updateData.thumbnailSource = 'user';
+    }
 
-      // Only add favicon and thumbnail if they exist (Firebase doesn't allow undefined)
-      if (thumbnailData.favicon) {
-        updateData.favicon = thumbnailData.favicon;
-      }
-      if (thumbnailData.thumbnail) {
-        updateData.thumbnail = thumbnailData.thumbnail;
-      }
+    // Record what the edit changed in the same write as the edit itself
+    const changes = diffRevisionValues(getRevisionValues(bookmarkData), getRevisionValues(updateData));
+    const batch = writeBatch(db);
+
+    // The last link check was for the old URL; a reverted upload must not outlive the revert
+    batch.update(bookmarkRef, {
+      ...convertBookmarkToFirestore(updateData),
+      ...(urlChanged && { health: deleteField() }),
+      ...(revertThumbnail && { thumbnailSource: deleteField() }),
+      ...(revertThumbnail && !thumbnailData.thumbnail && { thumbnail: deleteField() }),
+    });
+    if (changes.length > 0) {
+      batch.set(doc(getRevisionsRef(id)), { userId, changes, createdAt: Timestamp.now() });
+    }
+    await batch.commit();
+
+    // Merge the edit into the stored bookmark, so fields the form doesn't cover (reading list,
+    // favorite, pins, visits, link health) stay in the search index
+    const storedBookmark = convertFirestoreToBookmark(bookmarkDoc as QueryDocumentSnapshot<DocumentData>);
+    const bookmark: Bookmark = this.applyPendingVisits({
+      ...storedBookmark,
+      ...updateData,
+      ...(urlChanged && { health: undefined }),
+      ...(revertThumbnail && { thumbnailSource: undefined }),
+      ...(revertThumbnail && !thumbnailData.thumbnail && { thumbnail: undefined }),
+    });
+
+    // Clear caches after updating bookmark
+    this.clearBookmarkCaches();
+    this.searchIndex.add(bookmark);
+
+    if (hasCustomThumbnail && (formData.customThumbnail || revertThumbnail)) {
+      await this.deleteReplacedCustomThumbnail(storedBookmark);
+    }
 
-      await updateDoc(bookmarkRef, convertBookmarkToFirestore(updateData));
+    return bookmark;
+  }
 
-      // Clear caches after updating bookmark
-      this.clearBookmarkCaches();
+  /**
+   * Get a bookmark's edit history, newest first
+   */
+  async getBookmarkHistory(bookmarkId: string): Promise<BookmarkRevision[]> {
+    // Bookmarks created offline have no history until they are saved
+    if (isLocalBookmarkId(bookmarkId)) {
+      return [];
+    }
 
-      return {
-        id,
-        userId,
-        ...updateData,
-        createdAt: bookmarkData.createdAt?.toDate() || new Date(),
-      };
+    try {
+      getCurrentUserId();
+      const q = query(getRevisionsRef(bookmarkId), orderBy('createdAt', 'desc'), limit(REVISION_HISTORY_LIMIT));
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(convertFirestoreToRevision);
     } catch (error) {
-      const userMessage = handleError(error, 'updateBookmark');
+      const userMessage = handleError(error, 'getBookmarkHistory');
       throw new Error(userMessage);
     }
   }
 
-  async deleteBookmark(id: string): Promise<void> {
-    const userId = getCurrentUserId();
-    const bookmarkRef = doc(db, 'bookmarks', id);
+  /**
+   * Put a bookmark back the way it was right after a revision, or before the oldest
+   * revision for null. The revert is saved like any other edit, so it is validated
+   * and shows up in the history itself.
+   */
+  async revertBookmark(bookmarkId: string, revisionId: string | null): Promise<Bookmark> {
+    if (!offlineQueueService.isOnline()) {
+      throw new Error('Bookmarks can be reverted once you are online.');
+    }
 
+    let formData: BookmarkFormData;
     try {
-      // First, verify the bookmark belongs to the current user
-      const bookmarkDoc = await getDoc(bookmarkRef);
-      if (!bookmarkDoc.exists()) {
+      const bookmark = (await this.getCachedBookmarks()).find((item) => item.id === bookmarkId);
+      if (!bookmark) {
         throw new Error('Bookmark not found');
       }
 
-      const bookmarkData = bookmarkDoc.data();
-      if (bookmarkData.userId !== userId) {
-        throw new Error('Unauthorized: You can only delete your own bookmarks');
-      }
-
-      await deleteDoc(bookmarkRef);
-      
-      // Clear caches after deleting bookmark
-      this.clearBookmarkCaches();
+      const revisions = await this.getBookmarkHistory(bookmarkId);
+      const values = getValuesAtRevision(getRevisionValues(bookmark), revisions, revisionId);
+
+      // A collection deleted since then leaves the bookmark where it is
+      const collections = await this.getCachedCollections();
+      const collectionId = values.collectionId as string | null;
+      formData = {
+        title: values.title as string,
+        url: values.url as string,
+        description: values.description as string,
+        tags: values.tags as string[],
+        collectionId: !collectionId || collections.some((item) => item.id === collectionId) ? collectionId : undefined,
+      };
     } catch (error) {
-      const userMessage = handleError(error, 'deleteBookmark');
+      const userMessage = handleError(error, 'revertBookmark');
       throw new Error(userMessage);
     }
+
+    return this.updateBookmark(bookmarkId, formData);
   }
 
-  async getBookmarks(
-    filters: BookmarkFilters,
-    page: number = 1,
-    pageSize: number = 12
-  ): Promise<{ bookmarks: Bookmark[]; pagination: PaginationInfo }> {
-    try {
-      // Use cached bookmarks to avoid Firebase reads
-      let bookmarks = await this.getCachedBookmarks();
+  async deleteBookmark(id: string): Promise<void> {
+    // Bookmarks created offline are deleted by dropping their queued create
+    if (!offlineQueueService.isOnline() || isLocalBookmarkId(id)) {
+      await this.queueBookmarkChange('delete', id);
+      return;
+    }
 
-      // Apply all filtering and sorting client-side for now
-      
-      // Apply search filtering
-      if (filters.search) {
-        bookmarks = filterBySearch(bookmarks, filters.search);
+    try {
+      await this.saveBookmarkDelete(id);
+    } catch (error) {
+      if (isNetworkError(error)) {
+        await this.queueBookmarkChange('delete', id);
+        return;
       }
+      const userMessage = handleError(error, 'deleteBookmark');
+      throw new Error(userMessage);
+    }
+  }
 
-      // Apply tag filtering
-      if (filters.tags.length > 0) {
-        if (filters.tagFilterMode === 'AND') {
-          bookmarks = bookmarks.filter((bookmark) =>
-            filters.tags.every((tag) => bookmark.tags.includes(tag))
-          );
-        } else {
-          bookmarks = bookmarks.filter((bookmark) =>
-            filters.tags.some((tag) => bookmark.tags.includes(tag))
-          );
-        }
-      }
+  /**
+   * Move a bookmark to the trash in Firestore
+   */
+  private async saveBookmarkDelete(id: string): Promise<void> {
+    const userId = getCurrentUserId();
+    const bookmarkRef = doc(db, 'bookmarks', id);
 
-      // Apply sorting
-      bookmarks.sort((a, b) => {
-        switch (filters.sortBy) {
-          case 'newest':
-            return b.createdAt.getTime() - a.createdAt.getTime();
-          case 'oldest':
-            return a.createdAt.getTime() - b.createdAt.getTime();
-          case 'title-asc':
-            return a.title.localeCompare(b.title);
-          case 'title-desc':
-            return b.title.localeCompare(a.title);
-          default:
-            return b.createdAt.getTime() - a.createdAt.getTime();
-        }
-      });
+    // First, verify the bookmark belongs to the current user
+    const bookmarkDoc = await getDoc(bookmarkRef);
+    if (!bookmarkDoc.exists()) {
+      throw new Error('Bookmark not found');
+    }
 
-      // Calculate pagination
-      const totalItems = bookmarks.length;
-      const totalPages = Math.ceil(totalItems / pageSize);
-      const startIndex = (page - 1) * pageSize;
-      const endIndex = startIndex + pageSize;
-      const paginatedBookmarks = bookmarks.slice(startIndex, endIndex);
+    const bookmarkData = bookmarkDoc.data();
+    if (bookmarkData.userId !== userId) {
+      throw new Error('Unauthorized: You can only delete your own bookmarks');
+    }
 
-      const pagination: PaginationInfo = {
-        currentPage: page,
-        totalPages,
-        totalItems,
-        itemsPerPage: pageSize,
-      };
+    // updatedAt is left alone, so the move doesn't count as an edit
+    await updateDoc(bookmarkRef, { deletedAt: Timestamp.fromDate(new Date()) });
 
-      return {
-        bookmarks: paginatedBookmarks,
-        pagination,
-      };
+    // Clear caches after deleting bookmark
+    this.clearBookmarkCaches();
+    this.searchIndex.remove(id);
+  }
+
+  /**
+   * Get the bookmarks in the trash, most recently deleted first
+   */
+  async getTrash(): Promise<Bookmark[]> {
+    try {
+      return await this.getCachedTrash();
     } catch (error) {
-      const userMessage = handleError(error, 'getBookmarks');
+      const userMessage = handleError(error, 'getTrash');
       throw new Error(userMessage);
     }
   }
 
-  async getAllTags(): Promise<string[]> {
+  /**
+   * Days a deleted bookmark is kept in the trash before it is purged
+   */
+  getTrashRetentionDays(): number {
+    return getTrashRetentionDays();
+  }
+
+  /**
+   * Take a bookmark out of the trash. A delete still queued offline is simply dropped.
+   */
+  async restoreBookmark(id: string): Promise<void> {
     const userId = getCurrentUserId();
-    const cacheKey = `${this.TAGS_CACHE_KEY}_${userId}`;
-    
+
     try {
-      // Try cache first
-      let tags = cacheService.getMemory<string[]>(cacheKey);
-      if (tags) {
-        return tags;
+      const operations = await offlineQueueService.getOperations(userId);
+      const queuedDelete = operations.find(operation => operation.bookmarkId === id && operation.type === 'delete');
+      if (queuedDelete) {
+        await offlineQueueService.removeOperation(queuedDelete.id);
+        this.clearBookmarkCaches();
+        return;
       }
 
-      tags = cacheService.getLocal<string[]>(cacheKey);
-      if (tags) {
-        cacheService.setMemory(cacheKey, tags, this.CACHE_TTL);
-        return tags;
+      if (!offlineQueueService.isOnline()) {
+        throw new Error('Bookmarks can be restored from the trash once you are online.');
       }
 
-      // Extract tags from cached bookmarks to avoid additional Firebase read
-      const bookmarks = await this.getCachedBookmarks();
-      const tagSet = new Set<string>();
-      
-      bookmarks.forEach((bookmark) => {
-        if (bookmark.tags && Array.isArray(bookmark.tags)) {
-          bookmark.tags.forEach((tag: string) => tagSet.add(tag));
-        }
-      });
+      const bookmark = (await this.getCachedTrash()).find(item => item.id === id);
+      if (!bookmark) {
+        throw new Error('Bookmark not found in the trash');
+      }
 
-      tags = Array.from(tagSet).sort();
-      
-      // Cache the results
-      cacheService.setMemory(cacheKey, tags, this.CACHE_TTL);
-      cacheService.setLocal(cacheKey, tags, this.CACHE_TTL);
+      await updateDoc(doc(db, 'bookmarks', id), NOT_DELETED);
 
-      return tags;
+      this.clearBookmarkCaches();
+      this.searchIndex.add({ ...bookmark, deletedAt: undefined });
     } catch (error) {
-      const userMessage = handleError(error, 'getAllTags');
+      const userMessage = handleError(error, 'restoreBookmark');
       throw new Error(userMessage);
     }
   }
 
-  async getBookmarkById(id: string): Promise<Bookmark | null> {
-    const userId = getCurrentUserId();
-    
-    try {
-      // Try to find in cached bookmarks first
-      const bookmarks = await this.getCachedBookmarks();
-      const cachedBookmark = bookmarks.find(bookmark => bookmark.id === id);
-      
-      if (cachedBookmark) {
-        return cachedBookmark;
-      }
-      
-      // Fallback to Firebase if not in cache
-      const bookmarkRef = doc(db, 'bookmarks', id);
-      const bookmarkDoc = await getDoc(bookmarkRef);
-      
-      if (!bookmarkDoc.exists()) {
-        return null;
-      }
-
-      const bookmarkData = bookmarkDoc.data();
-      if (bookmarkData.userId !== userId) {
-        throw new Error('Unauthorized: You can only access your own bookmarks');
-      }
+  /**
+   * Delete bookmarks in the trash for good. Pass no ids to empty the whole trash.
+   * Returns the number of bookmarks deleted.
+   */
+  async deleteFromTrash(ids?: string[]): Promise<number> {
+    if (!offlineQueueService.isOnline()) {
+      throw new Error('The trash can only be emptied while online. Please try again once you are reconnected.');
+    }
 
-      return convertFirestoreToBookmark(bookmarkDoc as QueryDocumentSnapshot<DocumentData>);
+    try {
+      const trash = await this.getCachedTrash();
+      const selected = ids ? new Set(ids) : null;
+      return await this.purgeBookmarks(trash.filter(bookmark => !selected || selected.has(bookmark.id)));
     } catch (error) {
-      const userMessage = handleError(error, 'getBookmarkById');
+      const userMessage = handleError(error, 'deleteFromTrash');
       throw new Error(userMessage);
     }
   }
 
-  // Helper method to check if URL already exists for the current user
-  async urlExists(url: string, excludeId?: string): Promise<boolean> {
+  /**
+   * Delete bookmarks that have been in the trash longer than the retention window.
+   * Returns the number of bookmarks purged.
+   */
+  async purgeExpiredTrash(): Promise<number> {
+    if (!offlineQueueService.isOnline()) {
+      return 0;
+    }
+
     try {
-      // Use cached bookmarks to avoid Firebase read
-      const bookmarks = await this.getCachedBookmarks();
-      
-      if (excludeId) {
-        return bookmarks.some(bookmark => bookmark.url === url && bookmark.id !== excludeId);
-      }
-      
-      return bookmarks.some(bookmark => bookmark.url === url);
+      const cutoff = Date.now() - getTrashRetentionDays() * 24 * 60 * 60 * 1000;
+      const expired = (await this.getCachedTrash()).filter(bookmark => bookmark.deletedAt!.getTime() < cutoff);
+      return await this.purgeBookmarks(expired);
     } catch (error) {
-      // Silently fail for URL existence check to avoid blocking user actions
-      return false;
+      const userMessage = handleError(error, 'purgeExpiredTrash');
+      throw new Error(userMessage);
     }
   }
 
   /**
-   * Regenerate thumbnail for an existing bookmark
-   * This creates a new thumbnail without replacing existing Firebase Storage images
+   * Delete bookmarks from Firestore along with thumbnail metadata nothing else uses
    */
-  async regenerateThumbnail(id: string): Promise<Bookmark> {
+  private async purgeBookmarks(bookmarks: Bookmark[]): Promise<number> {
     const userId = getCurrentUserId();
-    const bookmarkRef = doc(db, 'bookmarks', id);
+    const purged = bookmarks.filter(bookmark => bookmark.userId === userId && !isLocalBookmarkId(bookmark.id));
+    if (purged.length === 0) {
+      return 0;
+    }
 
-    try {
-      // First, verify the bookmark belongs to the current user
-      const bookmarkDoc = await getDoc(bookmarkRef);
-      if (!bookmarkDoc.exists()) {
-        throw new Error('Bookmark not found');
-      }
+    // Edit history goes first: its security rules look up the bookmark it belongs to
+    await commitInBatches([
+      ...(await getRevisionDeletes(purged.map(bookmark => bookmark.id))),
+      ...purged.map(bookmark => (batch: WriteBatch) => batch.delete(doc(db, 'bookmarks', bookmark.id))),
+    ]);
+
+    // Thumbnails are shared between bookmarks of the same URL, so only clean up URLs nothing points at any more
+    const purgedIds = new Set(purged.map(bookmark => bookmark.id));
+    const remaining = (await this.getCachedLibrary()).filter(bookmark => !purgedIds.has(bookmark.id));
+    const remainingUrls = new Set(remaining.map(bookmark => bookmark.url));
+    const remainingThumbnails = new Set(
+      remaining.map(bookmark => bookmark.thumbnail).filter((thumbnail): thumbnail is string => !!thumbnail)
+    );
 
-      const bookmarkData = bookmarkDoc.data();
-      if (bookmarkData.userId !== userId) {
-        throw new Error('Unauthorized: You can only regenerate thumbnails for your own bookmarks');
-      }
+    this.clearBookmarkCaches();
 
-      // Clear ALL caches before regeneration to ensure fresh data
-      this.clearBookmarkCaches();
-      
-      // Also clear the local browser cache for this thumbnail
-      const thumbnailCacheKey = `thumbnail_${bookmarkData.url}`;
-      localStorage.removeItem(thumbnailCacheKey);
+    // Uploads go first, while their metadata still says where the file is
+    await this.deleteUnusedCustomThumbnails(purged, remaining);
+    await enhancedThumbnailService.deleteOrphanedThumbnails(
+      purged.map(bookmark => bookmark.url).filter(url => !remainingUrls.has(url)),
+      remainingThumbnails
+    );
 
-      // Regenerate the thumbnail using the enhanced service
-      const thumbnailResult = await enhancedThumbnailService.regenerateThumbnail(bookmarkData.url, true);
+    return purged.length;
+  }
+
+  /**
+   * Delete the files of thumbnails the given bookmarks had uploaded, unless a bookmark in
+   * the library or the trash still shows them (e.g. the survivor of a duplicate merge)
+   */
+  private async deleteUnusedCustomThumbnails(bookmarks: Bookmark[], remaining: Bookmark[]): Promise<void> {
+    const usedThumbnails = new Set(remaining.map(bookmark => bookmark.thumbnail));
+
+    for (const bookmark of bookmarks) {
+      if (bookmark.thumbnailSource === 'user' && bookmark.thumbnail && !usedThumbnails.has(bookmark.thumbnail)) {
+        await enhancedThumbnailService.deleteCustomThumbnail(bookmark.url, bookmark.thumbnail);
+      }
+    }
+  }
+
+  /**
+   * Delete the upload a bookmark showed before its thumbnail was replaced or reverted
+   */
+  private async deleteReplacedCustomThumbnail(previous: Bookmark): Promise<void> {
+    try {
+      await this.deleteUnusedCustomThumbnails([previous], await this.getCachedLibrary());
+    } catch {
+      // Cleanup errors are not critical
+    }
+  }
+
+  /**
+   * Change a bookmark's reading list status, or take it off the reading list with null.
+   * updatedAt is left alone, so this doesn't count as an edit.
+   */
+  async setReadStatus(id: string, status: ReadStatus | null): Promise<Bookmark> {
+    if (!offlineQueueService.isOnline()) {
+      throw new Error('The reading list can be changed once you are online.');
+    }
+    if (isLocalBookmarkId(id)) {
+      throw new Error('This bookmark can be saved for later once it has synced.');
+    }
+
+    try {
+      const bookmark = (await this.getCachedBookmarks()).find((item) => item.id === id);
+      if (!bookmark) {
+        throw new Error('Bookmark not found');
+      }
+
+      const readState = status ? applyReadStatus(bookmark.readState, status) : undefined;
+      await updateDoc(doc(db, 'bookmarks', id), {
+        readState: readState ? convertReadStateToFirestore(readState) : deleteField(),
+      });
+
+      this.clearBookmarkCaches();
+      return { ...bookmark, readState };
+    } catch (error) {
+      const userMessage = handleError(error, 'setReadStatus');
+      throw new Error(userMessage);
+    }
+  }
+
+  /**
+   * Get the read-later queue: unread and half-read bookmarks, most recently saved first
+   */
+  async getReadLaterQueue(): Promise<Bookmark[]> {
+    try {
+      return (await this.getCachedBookmarks())
+        .filter(isInReadLaterQueue)
+        .sort((a, b) => b.readState!.queuedAt.getTime() - a.readState!.queuedAt.getTime());
+    } catch (error) {
+      const userMessage = handleError(error, 'getReadLaterQueue');
+      throw new Error(userMessage);
+    }
+  }
+
+  /**
+   * Count the bookmarks in each reading list status
+   */
+  async getReadStatusCounts(): Promise<ReadStatusCounts> {
+    try {
+      return countReadStatuses(await this.getCachedBookmarks());
+    } catch (error) {
+      const userMessage = handleError(error, 'getReadStatusCounts');
+      throw new Error(userMessage);
+    }
+  }
+
+  /**
+   * Star or unstar a bookmark. updatedAt is left alone, so this doesn't count as an edit.
+   */
+  async setFavorite(id: string, favorite: boolean): Promise<void> {
+    if (!offlineQueueService.isOnline()) {
+      throw new Error('Favorites can be changed once you are online.');
+    }
+    if (isLocalBookmarkId(id)) {
+      throw new Error('This bookmark can be starred once it has synced.');
+    }
+
+    try {
+      await updateDoc(doc(db, 'bookmarks', id), { favorite: favorite ? true : deleteField() });
+      this.clearBookmarkCaches();
+    } catch (error) {
+      const userMessage = handleError(error, 'setFavorite');
+      throw new Error(userMessage);
+    }
+  }
+
+  /**
+   * Pin a bookmark to the end of the Pinned strip, or unpin it
+   */
+  async setPinned(id: string, pinned: boolean): Promise<void> {
+    if (!offlineQueueService.isOnline()) {
+      throw new Error('Pins can be changed once you are online.');
+    }
+    if (isLocalBookmarkId(id)) {
+      throw new Error('This bookmark can be pinned once it has synced.');
+    }
+
+    try {
+      const pinnedBookmarks = await this.getPinnedBookmarks();
+      const pinOrder = pinnedBookmarks.reduce((max, bookmark) => Math.max(max, bookmark.pinOrder ?? 0), -1) + 1;
+
+      await updateDoc(
+        doc(db, 'bookmarks', id),
+        pinned ? { pinned: true, pinOrder } : { pinned: deleteField(), pinOrder: deleteField() }
+      );
+      this.clearBookmarkCaches();
+    } catch (error) {
+      const userMessage = handleError(error, 'setPinned');
+      throw new Error(userMessage);
+    }
+  }
+
+  /**
+   * Get the pinned bookmarks in their manual order
+   */
+  async getPinnedBookmarks(): Promise<Bookmark[]> {
+    try {
+      return (await this.getCachedBookmarks())
+        .filter((bookmark) => bookmark.pinned)
+        .sort((a, b) => (a.pinOrder ?? 0) - (b.pinOrder ?? 0) || a.createdAt.getTime() - b.createdAt.getTime());
+    } catch (error) {
+      const userMessage = handleError(error, 'getPinnedBookmarks');
+      throw new Error(userMessage);
+    }
+  }
+
+  /**
+   * Store the manual order of the Pinned strip
+   */
+  async reorderPinnedBookmarks(orderedIds: string[]): Promise<void> {
+    try {
+      const pinnedIds = new Set((await this.getPinnedBookmarks()).map((bookmark) => bookmark.id));
+
+      await commitInBatches(
+        orderedIds
+          .filter((id) => pinnedIds.has(id))
+          .map((id, index) => (batch: WriteBatch) => {
+            batch.update(doc(db, 'bookmarks', id), { pinOrder: index });
+          })
+      );
+
+      this.clearBookmarkCaches();
+    } catch (error) {
+      const userMessage = handleError(error, 'reorderPinnedBookmarks');
+      throw new Error(userMessage);
+    }
+  }
+
+  /**
+   * Count an open of a bookmark. Visits are shown right away and written in one batch
+   * a little later, so opening links doesn't cost a Firestore write each time.
+   * Returns false when the visit is not counted.
+   */
+  recordVisit(id: string): boolean {
+    // Bookmarks created offline have no document to count against yet
+    if (isLocalBookmarkId(id)) {
+      return false;
+    }
+
+    const now = new Date();
+    const pending = this.pendingVisits.get(id);
+    this.pendingVisits.set(id, { count: (pending?.count ?? 0) + 1, lastVisitedAt: now });
+
+    // Update the cached copy in place; other tabs catch up once the visits are written
+    const cacheKey = `${this.BOOKMARKS_CACHE_KEY}_${getCurrentUserId()}`;
+    const cached = cacheService.getMemory<Bookmark[]>(cacheKey);
+    if (cached) {
+      const bookmarks = cached.map((bookmark) =>
+        bookmark.id === id ? { ...bookmark, visitCount: (bookmark.visitCount ?? 0) + 1, lastVisitedAt: now } : bookmark
+      );
+      cacheService.setMemory(cacheKey, bookmarks, this.CACHE_TTL);
+      cacheService.setPersistent(cacheKey, bookmarks, this.CACHE_TTL);
+    }
+
+    if (!this.visitFlushTimer) {
+      this.visitFlushTimer = setTimeout(() => this.flushVisits(), VISIT_FLUSH_DELAY);
+    }
+    return true;
+  }
+
+  /**
+   * Write the collected visits. Visits that fail to save are kept for the next flush.
+   */
+  private async flushVisits(): Promise<void> {
+    if (this.visitFlushTimer) {
+      clearTimeout(this.visitFlushTimer);
+      this.visitFlushTimer = null;
+    }
+    if (this.pendingVisits.size === 0 || !offlineQueueService.isOnline() || !auth.currentUser) {
+      return;
+    }
+
+    const visits = Array.from(this.pendingVisits.entries());
+    this.pendingVisits.clear();
+
+    try {
+      await commitInBatches(
+        visits.map(([id, visit]) => (batch: WriteBatch) => {
+          batch.update(doc(db, 'bookmarks', id), {
+            visitCount: increment(visit.count),
+            lastVisitedAt: Timestamp.fromDate(visit.lastVisitedAt),
+          });
+        })
+      );
+    } catch (error) {
+      // A bookmark deleted in the meantime fails the whole batch; drop its visits and retry the rest
+      const liveIds = new Set((await this.getCachedLibrary().catch(() => [])).map((bookmark) => bookmark.id));
+      visits.forEach(([id, visit]) => {
+        if (!liveIds.has(id)) return;
+        const pending = this.pendingVisits.get(id);
+        this.pendingVisits.set(id, {
+          count: visit.count + (pending?.count ?? 0),
+          lastVisitedAt: pending?.lastVisitedAt ?? visit.lastVisitedAt,
+        });
+      });
+      handleError(error, 'flushVisits');
+    }
+  }
+
+  /**
+   * Add visits that have not been written yet to a bookmark read from Firestore
+   */
+  private applyPendingVisits(bookmark: Bookmark): Bookmark {
+    const pending = this.pendingVisits.get(bookmark.id);
+    if (!pending) {
+      return bookmark;
+    }
+    return { ...bookmark, visitCount: (bookmark.visitCount ?? 0) + pending.count, lastVisitedAt: pending.lastVisitedAt };
+  }
+
+  /**
+   * Queue a bookmark change made while offline and return the bookmark as it will look
+   * once synced. Changes to the same bookmark are folded into one operation, so replay
+   * writes each bookmark once and conflicts are checked against the version the first
+   * offline edit was based on.
+   */
+  private async queueBookmarkChange(type: 'create' | 'update', bookmarkId: string, formData: BookmarkFormData): Promise<Bookmark>;
+  private async queueBookmarkChange(type: 'delete', bookmarkId: string): Promise<void>;
+  private async queueBookmarkChange(
+    type: PendingOperationType,
+    bookmarkId: string,
+    formData?: BookmarkFormData
+  ): Promise<Bookmark | void> {
+    const userId = getCurrentUserId();
+
+    let data: BookmarkFormData | undefined;
+    if (formData) {
+      data = { ...sanitizeBookmarkFormData(formData), collectionId: await this.resolveCollectionId(formData.collectionId) };
+      // An update without a collection keeps the current one
+      if (type === 'update' && formData.collectionId === undefined) {
+        data.collectionId = undefined;
+      }
+    }
+
+    const operations = await offlineQueueService.getOperations(userId);
+    const existing = operations.find(operation => operation.bookmarkId === bookmarkId);
+    const bookmarks = await this.getCachedBookmarks();
+    const bookmark = bookmarks.find(item => item.id === bookmarkId);
+
+    if (type !== 'create' && !bookmark) {
+      throw new Error('Bookmark not found');
+    }
+
+    if (existing?.type === 'create') {
+      if (type === 'delete') {
+        await offlineQueueService.removeOperation(existing.id);
+      } else {
+        await offlineQueueService.saveOperation({
+          ...existing,
+          title: data!.title,
+          data: {
+            ...data!,
+            collectionId: data!.collectionId === undefined ? existing.data?.collectionId : data!.collectionId,
+          },
+        });
+      }
+    } else {
+      await offlineQueueService.saveOperation({
+        id: existing?.id ?? `op_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+        userId,
+        type,
+        bookmarkId,
+        title: data?.title ?? bookmark?.title ?? '',
+        data,
+        baseUpdatedAt: existing?.baseUpdatedAt ?? bookmark?.updatedAt,
+        queuedAt: existing?.queuedAt ?? new Date(),
+        status: 'pending',
+      });
+    }
+
+    this.clearBookmarkCaches();
+
+    if (type !== 'delete') {
+      const queued = (await this.getCachedBookmarks()).find(item => item.id === bookmarkId);
+      if (!queued) {
+        throw new Error('Bookmark not found');
+      }
+      return queued;
+    }
+  }
+
+  /**
+   * Write one queued operation to Firestore.
+   * Returns a conflict message instead of writing when the server copy changed after the
+   * offline edit, unless `overwrite` is set.
+   */
+  private async replayOperation(operation: PendingOperation, overwrite: boolean): Promise<string | null> {
+    if (operation.type === 'create') {
+      await this.saveNewBookmark(operation.data!);
+      return null;
+    }
+
+    const bookmarkDoc = await getDoc(doc(db, 'bookmarks', operation.bookmarkId));
+
+    if (!bookmarkDoc.exists()) {
+      if (operation.type === 'delete') {
+        return null;
+      }
+      if (!overwrite) {
+        return 'This bookmark was deleted on another device.';
+      }
+      // Overwriting a deleted bookmark brings it back with the offline edits
+      await this.saveNewBookmark(operation.data!);
+      return null;
+    }
+
+    const remoteUpdatedAt: Date | undefined = bookmarkDoc.data().updatedAt?.toDate();
+    if (
+      !overwrite &&
+      remoteUpdatedAt &&
+      operation.baseUpdatedAt &&
+      remoteUpdatedAt.getTime() > operation.baseUpdatedAt.getTime()
+    ) {
+      return 'This bookmark was changed on another device after your offline edit.';
+    }
+
+    if (operation.type === 'update') {
+      await this.saveBookmarkUpdate(operation.bookmarkId, operation.data!);
+    } else {
+      await this.saveBookmarkDelete(operation.bookmarkId);
+    }
+    return null;
+  }
+
+  /**
+   * Replay one operation and update its queue entry with the outcome
+   */
+  private async processOperation(operation: PendingOperation, overwrite: boolean): Promise<void> {
+    try {
+      const conflict = await this.replayOperation(operation, overwrite);
+      if (conflict) {
+        await offlineQueueService.saveOperation({ ...operation, status: 'conflict', error: conflict });
+      } else {
+        await offlineQueueService.removeOperation(operation.id);
+      }
+    } catch (error) {
+      if (isNetworkError(error)) {
+        throw error;
+      }
+      await offlineQueueService.saveOperation({
+        ...operation,
+        status: 'failed',
+        error: handleError(error, 'syncPendingOperations'),
+      });
+    }
+  }
+
+  /**
+   * Get the current user's queued offline changes, oldest first
+   */
+  async getPendingOperations(): Promise<PendingOperation[]> {
+    const userId = getCurrentUserId();
+    return offlineQueueService.getOperations(userId);
+  }
+
+  /**
+   * Replay queued offline changes in order. Operations that conflict or fail stay in
+   * the queue for the user to retry or discard; a lost connection stops the replay.
+   */
+  syncPendingOperations(): Promise<void> {
+    if (!this.syncInProgress) {
+      this.syncInProgress = (async () => {
+        const userId = getCurrentUserId();
+        const operations = await offlineQueueService.getOperations(userId);
+        const pending = operations.filter(operation => operation.status === 'pending');
+
+        try {
+          for (const operation of pending) {
+            if (!offlineQueueService.isOnline()) {
+              break;
+            }
+            await this.processOperation(operation, false);
+          }
+        } catch {
+          // Connection dropped mid-sync; the remaining operations are retried later
+        } finally {
+          if (pending.length > 0) {
+            this.clearBookmarkCaches();
+          }
+        }
+      })().finally(() => {
+        this.syncInProgress = null;
+      });
+    }
+    return this.syncInProgress;
+  }
+
+  /**
+   * Retry a failed operation, or overwrite the server copy for a conflicting one
+   */
+  async retryPendingOperation(id: string): Promise<void> {
+    const operation = (await this.getPendingOperations()).find(item => item.id === id);
+    if (!operation) {
+      return;
+    }
+
+    if (!offlineQueueService.isOnline()) {
+      throw new Error('You are offline. Changes will sync when the connection returns.');
+    }
+
+    try {
+      await this.processOperation({ ...operation, status: 'pending', error: undefined }, operation.status === 'conflict');
+    } catch (error) {
+      const userMessage = handleError(error, 'retryPendingOperation');
+      throw new Error(userMessage);
+    } finally {
+      this.clearBookmarkCaches();
+    }
+  }
+
+  /**
+   * Drop a queued operation without writing it
+   */
+  async discardPendingOperation(id: string): Promise<void> {
+    await offlineQueueService.removeOperation(id);
+    this.clearBookmarkCaches();
+  }
+
+  /**
+   * Apply search, tag, collection and state filters in memory.
+   * Also returns relevance scores for the search matches.
+   */
+  private async applyFilters(
+    bookmarks: Bookmark[],
+    filters: BookmarkFilters
+  ): Promise<{ bookmarks: Bookmark[]; scores: Map<string, number> }> {
+    let scores = new Map<string, number>();
+
+    // Apply search filtering
+    if (filters.search) {
+      this.searchIndex.sync(bookmarks);
+      ({ bookmarks, scores } = filterBySearch(bookmarks, filters.search, this.searchIndex));
+    }
+
+    // Apply tag filtering (a parent tag also matches the tags nested below it)
+    if (filters.tags.length > 0) {
+      const hasTag = (bookmark: Bookmark, filterTag: string) =>
+        bookmark.tags.some((tag) => tagMatchesFilter(tag, filterTag));
+
+      if (filters.tagFilterMode === 'AND') {
+        bookmarks = bookmarks.filter((bookmark) =>
+          filters.tags.every((tag) => hasTag(bookmark, tag))
+        );
+      } else {
+        bookmarks = bookmarks.filter((bookmark) =>
+          filters.tags.some((tag) => hasTag(bookmark, tag))
+        );
+      }
+    }
+
+    // Apply collection filtering
+    if (filters.collectionId) {
+      const scope = new Set([filters.collectionId]);
+      if (filters.includeSubcollections) {
+        const collections = await this.getCachedCollections();
+        getDescendantCollectionIds(collections, filters.collectionId).forEach((id) => scope.add(id));
+      }
+      bookmarks = bookmarks.filter(
+        (bookmark) => !!bookmark.collectionId && scope.has(bookmark.collectionId)
+      );
+    }
+
+    bookmarks = bookmarks.filter((bookmark) => matchesStateFilters(bookmark, filters));
+
+    return { bookmarks, scores };
+  }
+
+  /**
+   * Sort bookmarks in place by the chosen option
+   */
+  private sortBookmarks(bookmarks: Bookmark[], sortBy: SortOption, relevanceScores: Map<string, number>): void {
+    bookmarks.sort((a, b) => {
+      switch (sortBy) {
+        case 'newest':
+          return b.createdAt.getTime() - a.createdAt.getTime();
+        case 'oldest':
+          return a.createdAt.getTime() - b.createdAt.getTime();
+        case 'title-asc':
+          return a.title.localeCompare(b.title);
+        case 'title-desc':
+          return b.title.localeCompare(a.title);
+        case 'relevance':
+          return (
+            (relevanceScores.get(b.id) ?? 0) - (relevanceScores.get(a.id) ?? 0) ||
+            b.createdAt.getTime() - a.createdAt.getTime()
+          );
+        case 'most-visited':
+          return (
+            (b.visitCount ?? 0) - (a.visitCount ?? 0) ||
+            (b.lastVisitedAt?.getTime() ?? 0) - (a.lastVisitedAt?.getTime() ?? 0) ||
+            b.createdAt.getTime() - a.createdAt.getTime()
+          );
+        case 'recently-visited':
+          return (
+            (b.lastVisitedAt?.getTime() ?? 0) - (a.lastVisitedAt?.getTime() ?? 0) ||
+            b.createdAt.getTime() - a.createdAt.getTime()
+          );
+        case 'least-recently-visited':
+          // Bookmarks that were never opened come first, oldest first
+          return (
+            (a.lastVisitedAt?.getTime() ?? 0) - (b.lastVisitedAt?.getTime() ?? 0) ||
+            a.createdAt.getTime() - b.createdAt.getTime()
+          );
+        default:
+          return b.createdAt.getTime() - a.createdAt.getTime();
+      }
+    });
+  }
+
+  /**
+   * Get every bookmark matching the filters, in their chosen order, for an export.
+   * Without filters the whole library is returned, newest first.
+   */
+  async getBookmarksForExport(filters: BookmarkFilters | null): Promise<Bookmark[]> {
+    try {
+      if (!filters) {
+        const bookmarks = [...(await this.getCachedBookmarks())];
+        this.sortBookmarks(bookmarks, 'newest', new Map());
+        return bookmarks;
+      }
+
+      const { bookmarks, scores } = await this.applyFilters(await this.getCachedBookmarks(), filters);
+      this.sortBookmarks(bookmarks, filters.sortBy, scores);
+      return bookmarks;
+    } catch (error) {
+      const userMessage = handleError(error, 'getBookmarksForExport');
+      throw new Error(userMessage);
+    }
+  }
+
+  async getBookmarks(
+    filters: BookmarkFilters,
+    page: number = 1,
+    pageSize: number = 12
+  ): Promise<{ bookmarks: Bookmark[]; pagination: PaginationInfo }> {
+    try {
+      // Use cached bookmarks to avoid Firebase reads
+      // Apply all filtering and sorting client-side for now
+      const { bookmarks, scores: relevanceScores } = await this.applyFilters(
+        await this.getCachedBookmarks(),
+        filters
+      );
+
+      this.sortBookmarks(bookmarks, filters.sortBy, relevanceScores);
+
+      // Calculate pagination
+      const totalItems = bookmarks.length;
+      const totalPages = Math.ceil(totalItems / pageSize);
+      const startIndex = (page - 1) * pageSize;
+      const endIndex = startIndex + pageSize;
+      const paginatedBookmarks = bookmarks.slice(startIndex, endIndex);
+
+      const pagination: PaginationInfo = {
+        currentPage: page,
+        totalPages,
+        totalItems,
+        itemsPerPage: pageSize,
+        mode: 'offset',
+      };
+
+      return {
+        bookmarks: paginatedBookmarks,
+        pagination,
+      };
+    } catch (error) {
+      const userMessage = handleError(error, 'getBookmarks');
+      throw new Error(userMessage);
+    }
+  }
+
+  /**
+   * Translate filters into Firestore query constraints.
+   * Returns null when the filters can only be evaluated in memory: text search, AND across
+   * several tags (Firestore allows a single array-contains per query), favorites and pins
+   * together, too many disjunctions, or a sort by visits.
+   */
+  private async buildPageConstraints(filters: BookmarkFilters, userId: string): Promise<QueryConstraint[] | null> {
+    if (filters.search.trim()) {
+      return null;
+    }
+
+    const constraints: QueryConstraint[] = [where('userId', '==', userId), where('deletedAt', '==', null)];
+    let disjunctions = 1;
+
+    if (filters.collectionId) {
+      const collectionIds = [filters.collectionId];
+      if (filters.includeSubcollections) {
+        const collections = await this.getCachedCollections();
+        collectionIds.push(...getDescendantCollectionIds(collections, filters.collectionId));
+      }
+
+      if (collectionIds.length === 1) {
+        constraints.push(where('collectionId', '==', collectionIds[0]));
+      } else {
+        constraints.push(where('collectionId', 'in', collectionIds));
+        disjunctions *= collectionIds.length;
+      }
+    }
+
+    if (filters.tags.length > 1 && filters.tagFilterMode === 'AND') {
+      return null;
+    }
+
+    if (filters.tags.length > 0) {
+      // Parent tags match their nested tags through tagPaths, which lists the parents of every tag
+      if (filters.tags.length === 1) {
+        constraints.push(where('tagPaths', 'array-contains', filters.tags[0]));
+      } else {
+        constraints.push(where('tagPaths', 'array-contains-any', filters.tags));
+        disjunctions *= filters.tags.length;
+      }
+    }
+
+    // Starred or pinned needs an OR across two fields, which is left to the in-memory path
+    if (filters.favorites.length > 1) {
+      return null;
+    }
+    if (filters.favorites.length === 1) {
+      constraints.push(where(filters.favorites[0], '==', true));
+    }
+
+    const stateFilters = [
+      { field: 'readState.status', values: filters.readStatuses },
+      { field: 'health.status', values: filters.linkHealth },
+    ];
+    for (const { field, values } of stateFilters) {
+      if (values.length === 1) {
+        constraints.push(where(field, '==', values[0]));
+      } else if (values.length > 1) {
+        constraints.push(where(field, 'in', values));
+        disjunctions *= values.length;
+      }
+    }
+
+    if (disjunctions > MAX_QUERY_DISJUNCTIONS) {
+      return null;
+    }
+
+    if (VISIT_SORT_OPTIONS.includes(filters.sortBy)) {
+      return null;
+    }
+
+    switch (filters.sortBy) {
+      case 'oldest':
+        constraints.push(orderBy('createdAt', 'asc'));
+        break;
+      case 'title-asc':
+        constraints.push(orderBy('title', 'asc'));
+        break;
+      case 'title-desc':
+        constraints.push(orderBy('title', 'desc'));
+        break;
+      case 'newest':
+      default:
+        constraints.push(orderBy('createdAt', 'desc'));
+    }
+
+    return constraints;
+  }
+
+  /**
+   * Write deletedAt and tagPaths on bookmarks saved before those fields were always written,
+   * so paged queries (which filter on them) don't miss them. Works on documents the library
+   * read already fetched, so it costs no reads of its own.
+   */
+  private async backfillQueryFields(userId: string, docs: QueryDocumentSnapshot<DocumentData>[]): Promise<void> {
+    try {
+      await commitInBatches(
+        docs
+          .filter((bookmarkDoc) => bookmarkDoc.data().deletedAt === undefined || !Array.isArray(bookmarkDoc.data().tagPaths))
+          .map((bookmarkDoc) => (batch: WriteBatch) => {
+            const data = bookmarkDoc.data();
+            batch.update(bookmarkDoc.ref, {
+              ...(data.deletedAt === undefined && NOT_DELETED),
+              tagPaths: getTagPaths(Array.isArray(data.tags) ? data.tags : []),
+            });
+          })
+      );
+
+      this.queryFieldsBackfilledUsers.add(userId);
+      await cacheService.setPersistent(`${this.QUERY_FIELDS_BACKFILL_KEY}_${userId}`, true, QUERY_FIELDS_BACKFILL_TTL);
+    } catch (error) {
+      // Paged queries keep falling back to memory until a later library read succeeds
+      handleError(error, 'backfillQueryFields');
+    }
+  }
+
+  /**
+   * Check whether this browser has seen every bookmark of the user carry the fields paged queries filter on
+   */
+  private async hasQueryFields(userId: string): Promise<boolean> {
+    if (this.queryFieldsBackfilledUsers.has(userId)) {
+      return true;
+    }
+    if (await cacheService.getPersistent<boolean>(`${this.QUERY_FIELDS_BACKFILL_KEY}_${userId}`)) {
+      this.queryFieldsBackfilledUsers.add(userId);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Get a page of bookmarks using Firestore cursors, so only the visible page is read.
+   * Pass the cursor returned for the previous page; without one (e.g. when jumping
+   * straight to a later page), when the filters need a text search, or until older
+   * bookmarks have been given the fields the query filters on, this falls back to the
+   * in-memory path in getBookmarks.
+   */
+  async getBookmarksPage(
+    filters: BookmarkFilters,
+    page: number = 1,
+    pageSize: number = 12,
+    cursor?: BookmarkCursor | null
+  ): Promise<{ bookmarks: Bookmark[]; pagination: PaginationInfo; nextCursor: BookmarkCursor | null }> {
+    const userId = getCurrentUserId();
+
+    try {
+      const constraints = await this.buildPageConstraints(filters, userId);
+      const hasCursor = page === 1 || !!cursor;
+
+      if (constraints && hasCursor && offlineQueueService.isOnline() && (await this.hasQueryFields(userId))) {
+        const bookmarksRef = collection(db, 'bookmarks');
+        const pageConstraints = cursor ? [...constraints, startAfter(cursor), limit(pageSize)] : [...constraints, limit(pageSize)];
+
+        // Count once per set of filters; any change to the bookmarks clears the counts
+        const countKey = `${userId}_${JSON.stringify(filters)}`;
+        const knownCount = this.pageCounts.get(countKey);
+        const [totalItems, pageSnapshot] = await Promise.all([
+          knownCount ?? getCountFromServer(query(bookmarksRef, ...constraints)).then((snapshot) => snapshot.data().count),
+          getDocs(query(bookmarksRef, ...pageConstraints)),
+        ]);
+        this.pageCounts.set(countKey, totalItems);
+        const docs = pageSnapshot.docs;
+
+        return {
+          bookmarks: docs.map((bookmarkDoc) => this.applyPendingVisits(convertFirestoreToBookmark(bookmarkDoc))),
+          pagination: {
+            currentPage: page,
+            totalPages: Math.ceil(totalItems / pageSize),
+            totalItems,
+            itemsPerPage: pageSize,
+            mode: 'cursor',
+          },
+          nextCursor: docs.length > 0 ? docs[docs.length - 1] : null,
+        };
+      }
+    } catch (error) {
+      // A missing composite index is reported as failed-precondition; serve the page from memory
+      // instead, which also covers reads while offline
+      if ((error as { code?: string })?.code !== 'failed-precondition' && !isNetworkError(error)) {
+        const userMessage = handleError(error, 'getBookmarksPage');
+        throw new Error(userMessage);
+      }
+    }
+
+    const result = await this.getBookmarks(filters, page, pageSize);
+    return {
+      ...result,
+      nextCursor: null,
+    };
+  }
+
+  /**
+   * Get the tag tree, with the number of bookmarks under each node. Flat tags are
+   * top-level nodes without children.
+   */
+  async getAllTags(): Promise<TagTreeNode[]> {
+    const userId = getCurrentUserId();
+    const cacheKey = `${this.TAGS_CACHE_KEY}_${userId}`;
+    
+    try {
+      // Try cache first
+      let tags = cacheService.getMemory<TagTreeNode[]>(cacheKey);
+      if (tags) {
+        return tags;
+      }
+
+      tags = await cacheService.getPersistent<TagTreeNode[]>(cacheKey);
+      if (tags) {
+        cacheService.setMemory(cacheKey, tags, this.CACHE_TTL);
+        return tags;
+      }
+
+      // Extract tags from cached bookmarks to avoid additional Firebase read
+      const bookmarks = await this.getCachedBookmarks();
+      tags = buildTagTree(
+        bookmarks.map((bookmark) => (Array.isArray(bookmark.tags) ? bookmark.tags : []))
+      );
+      
+      // Cache the results
+      cacheService.setMemory(cacheKey, tags, this.CACHE_TTL);
+      cacheService.setPersistent(cacheKey, tags, this.CACHE_TTL);
+
+      return tags;
+    } catch (error) {
+      const userMessage = handleError(error, 'getAllTags');
+      throw new Error(userMessage);
+    }
+  }
+
+  /**
+   * Get the domains the user has bookmarked, most bookmarked first
+   */
+  async getAllDomains(): Promise<string[]> {
+    try {
+      const bookmarks = await this.getCachedBookmarks();
+      const counts = new Map<string, number>();
+
+      bookmarks.forEach((bookmark) => {
+        try {
+          const domain = normalizeDomain(new URL(bookmark.url).hostname);
+          counts.set(domain, (counts.get(domain) || 0) + 1);
+        } catch {
+          // Skip bookmarks with unparseable URLs
+        }
+      });
+
+      return Array.from(counts.entries())
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .map(([domain]) => domain);
+    } catch (error) {
+      const userMessage = handleError(error, 'getAllDomains');
+      throw new Error(userMessage);
+    }
+  }
+
+  async getBookmarkById(id: string): Promise<Bookmark | null> {
+    const userId = getCurrentUserId();
+    
+    try {
+      // Try to find in cached bookmarks first
+      const bookmarks = await this.getCachedBookmarks();
+      const cachedBookmark = bookmarks.find(bookmark => bookmark.id === id);
+      
+      if (cachedBookmark) {
+        return cachedBookmark;
+      }
+      
+      // Fallback to Firebase if not in cache
+      const bookmarkRef = doc(db, 'bookmarks', id);
+      const bookmarkDoc = await getDoc(bookmarkRef);
+      
+      if (!bookmarkDoc.exists()) {
+        return null;
+      }
+
+      const bookmarkData = bookmarkDoc.data();
+      if (bookmarkData.userId !== userId) {
+        throw new Error('Unauthorized: You can only access your own bookmarks');
+      }
+
+      return convertFirestoreToBookmark(bookmarkDoc as QueryDocumentSnapshot<DocumentData>);
+    } catch (error) {
+      const userMessage = handleError(error, 'getBookmarkById');
+      throw new Error(userMessage);
+    }
+  }
+
+  // Helper method to check if URL already exists for the current user
+  async urlExists(url: string, excludeId?: string): Promise<boolean> {
+    return (await this.findDuplicate(url, excludeId)) !== null;
+  }
+
+  /**
+   * Find a bookmark whose URL canonicalizes to the same address as the given URL
+   */
+  async findDuplicate(url: string, excludeId?: string): Promise<Bookmark | null> {
+    try {
+      const canonicalUrl = canonicalizeUrl(url);
+      return (await this.getBookmarksByCanonicalUrl(excludeId)).get(canonicalUrl) ?? null;
+    } catch {
+      // Silently fail for URL existence check to avoid blocking user actions
+      return null;
+    }
+  }
+
+  /**
+   * Index the library by canonical URL, so a batch of URLs
+   * can be checked without canonicalizing every bookmark for each one
+   */
+  private async getBookmarksByCanonicalUrl(excludeId?: string): Promise<Map<string, Bookmark>> {
+    // Use cached bookmarks to avoid Firebase read
+    const bookmarks = await this.getCachedBookmarks();
+    const bookmarksByUrl = new Map<string, Bookmark>();
+    for (const bookmark of bookmarks) {
+      const canonicalUrl = canonicalizeUrl(bookmark.url);
+      if (bookmark.id !== excludeId && !bookmarksByUrl.has(canonicalUrl)) {
+        bookmarksByUrl.set(canonicalUrl, bookmark);
+      }
+    }
+    return bookmarksByUrl;
+  }
+
+  /**
+   * Group bookmarks whose URLs canonicalize to the same address, largest groups first
+   */
+  async findDuplicateGroups(): Promise<DuplicateGroup[]> {
+    try {
+      const bookmarks = await this.getCachedBookmarks();
+      const groups = new Map<string, Bookmark[]>();
+
+      for (const bookmark of bookmarks) {
+        const canonicalUrl = canonicalizeUrl(bookmark.url);
+        const group = groups.get(canonicalUrl);
+        if (group) {
+          group.push(bookmark);
+        } else {
+          groups.set(canonicalUrl, [bookmark]);
+        }
+      }
+
+      return Array.from(groups, ([canonicalUrl, group]) => ({
+        canonicalUrl,
+        bookmarks: group.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+      }))
+        .filter((group) => group.bookmarks.length > 1)
+        .sort((a, b) => b.bookmarks.length - a.bookmarks.length || a.canonicalUrl.localeCompare(b.canonicalUrl));
+    } catch (error) {
+      const userMessage = handleError(error, 'findDuplicateGroups');
+      throw new Error(userMessage);
+    }
+  }
+
+  /**
+   * Merge duplicate bookmarks into the one to keep: tags are combined, the longest
+   * description and the earliest creation date win, and the duplicates are moved to
+   * the trash. The kept bookmark's title, URL and collection stay as they are.
+   */
+  async mergeDuplicates(keepId: string, duplicateIds: string[]): Promise<DuplicateMerge> {
+    if (!offlineQueueService.isOnline()) {
+      throw new Error('Duplicates can be merged once you are online.');
+    }
+
+    try {
+      const userId = getCurrentUserId();
+      const bookmarks = await this.getCachedBookmarks();
+      const target = bookmarks.find((bookmark) => bookmark.id === keepId);
+      const duplicates = bookmarks.filter((bookmark) => duplicateIds.includes(bookmark.id) && bookmark.id !== keepId);
+
+      if (!target) {
+        throw new Error('Bookmark not found');
+      }
+      if ([target, ...duplicates].some((bookmark) => isLocalBookmarkId(bookmark.id))) {
+        throw new Error('Duplicates can be merged once all of them have synced.');
+      }
+      if (duplicates.length === 0) {
+        return { bookmark: target, previous: target, duplicateIds: [] };
+      }
+
+      const merged = [target, ...duplicates];
+      const tags = Array.from(new Set(merged.flatMap((bookmark) => bookmark.tags))).slice(0, 20);
+      const description = merged.reduce(
+        (longest, bookmark) => ((bookmark.description || '').length > longest.length ? bookmark.description || '' : longest),
+        ''
+      );
+      const createdAt = new Date(Math.min(...merged.map((bookmark) => bookmark.createdAt.getTime())));
+      // A thumbnail taken from a duplicate keeps its source, so an upload stays protected
+      const thumbnailDonor = target.thumbnail ? undefined : duplicates.find((bookmark) => bookmark.thumbnail);
+      const updatedAt = new Date();
+
+      const updateData: Record<string, unknown> = { tags, description, createdAt, updatedAt };
+      if (thumbnailDonor) {
+        updateData.thumbnail = thumbnailDonor.thumbnail;
+        if (thumbnailDonor.thumbnailSource) {
+          updateData.thumbnailSource = thumbnailDonor.thumbnailSource;
+        }
+      }
+
+      // A star or pin on any of the duplicates carries over to the kept bookmark
+      const favorite = merged.some((bookmark) => bookmark.favorite);
+      const pinnedDuplicate = target.pinned ? undefined : duplicates.find((bookmark) => bookmark.pinned);
+      if (favorite) {
+        updateData.favorite = true;
+      }
+      if (pinnedDuplicate) {
+        updateData.pinned = true;
+        updateData.pinOrder = pinnedDuplicate.pinOrder ?? 0;
+      }
+
+      // Duplicates go to the trash like any other delete, so the merge can be undone; their
+      // uploaded thumbnails are cleaned up once they are purged, unless the kept bookmark took one over
+      const deletedAt = Timestamp.fromDate(updatedAt);
+      const changes = diffRevisionValues(getRevisionValues(target), getRevisionValues({ ...target, tags, description }));
+      const operations: Array<(batch: WriteBatch) => void> = [
+        (batch) => batch.update(doc(db, 'bookmarks', keepId), convertBookmarkToFirestore(updateData)),
+        ...(changes.length > 0
+          ? [(batch: WriteBatch) => batch.set(doc(getRevisionsRef(keepId)), { userId, changes, createdAt: deletedAt })]
+          : []),
+        ...duplicates.map((bookmark) => (batch: WriteBatch) => batch.update(doc(db, 'bookmarks', bookmark.id), { deletedAt })),
+      ];
+      await commitInBatches(operations);
+
+      const bookmark: Bookmark = {
+        ...target,
+        tags,
+        description,
+        createdAt,
+        updatedAt,
+        ...(thumbnailDonor && { thumbnail: thumbnailDonor.thumbnail, thumbnailSource: thumbnailDonor.thumbnailSource }),
+        ...(favorite && { favorite }),
+        ...(pinnedDuplicate && { pinned: true, pinOrder: pinnedDuplicate.pinOrder ?? 0 }),
+      };
+
+      this.clearBookmarkCaches();
+      duplicates.forEach((duplicate) => this.searchIndex.remove(duplicate.id));
+      this.searchIndex.add(bookmark);
+
+      return { bookmark, previous: target, duplicateIds: duplicates.map((duplicate) => duplicate.id) };
+    } catch (error) {
+      const userMessage = handleError(error, 'mergeDuplicates');
+      throw new Error(userMessage);
+    }
+  }
+
+  /**
+   * Undo a duplicate merge: the kept bookmark gets back what the merge changed and the
+   * duplicates still in the trash are restored
+   */
+  async undoMergeDuplicates(merge: DuplicateMerge): Promise<void> {
+    if (!offlineQueueService.isOnline()) {
+      throw new Error('Merges can be undone once you are online.');
+    }
+
+    try {
+      const userId = getCurrentUserId();
+      const { previous } = merge;
+      const restored = (await this.getCachedTrash()).filter((bookmark) => merge.duplicateIds.includes(bookmark.id));
+      const now = new Date();
+
+      const restoreData = {
+        tags: previous.tags,
+        description: previous.description,
+        createdAt: previous.createdAt,
+        updatedAt: now,
+      };
+      const changes = diffRevisionValues(getRevisionValues(merge.bookmark), getRevisionValues(previous));
+
+      await commitInBatches([
+        (batch) =>
+          batch.update(doc(db, 'bookmarks', previous.id), {
+            ...convertBookmarkToFirestore(restoreData),
+            thumbnail: previous.thumbnail ?? deleteField(),
+            thumbnailSource: previous.thumbnailSource ?? deleteField(),
+            favorite: previous.favorite ? true : deleteField(),
+            ...(previous.pinned
+              ? { pinned: true, pinOrder: previous.pinOrder ?? 0 }
+              : { pinned: deleteField(), pinOrder: deleteField() }),
+          }),
+        ...(changes.length > 0
+          ? [(batch: WriteBatch) => batch.set(doc(getRevisionsRef(previous.id)), { userId, changes, createdAt: Timestamp.fromDate(now) })]
+          : []),
+        ...restored.map((bookmark) => (batch: WriteBatch) => batch.update(doc(db, 'bookmarks', bookmark.id), NOT_DELETED)),
+      ]);
+
+      this.clearBookmarkCaches();
+      this.searchIndex.add({ ...previous, updatedAt: now });
+      restored.forEach((bookmark) => this.searchIndex.add({ ...bookmark, deletedAt: undefined }));
+    } catch (error) {
+      const userMessage = handleError(error, 'undoMergeDuplicates');
+      throw new Error(userMessage);
+    }
+  }
+
+  /**
+   * Regenerate thumbnail for an existing bookmark
+   * This creates a new thumbnail without replacing existing Firebase Storage images.
+   * A thumbnail the user uploaded is only replaced when forced.
+   */
+  async regenerateThumbnail(id: string, force: boolean = false): Promise<Bookmark> {
+    const userId = getCurrentUserId();
+
+    if (!offlineQueueService.isOnline() || isLocalBookmarkId(id)) {
+      throw new Error('Thumbnails can be regenerated once you are online and the bookmark has synced.');
+    }
+    const bookmarkRef = doc(db, 'bookmarks', id);
+
+    try {
+      // First, verify the bookmark belongs to the current user
+      const bookmarkDoc = await getDoc(bookmarkRef);
+      if (!bookmarkDoc.exists()) {
+        throw new Error('Bookmark not found');
+      }
+
+      const bookmarkData = bookmarkDoc.data();
+      if (bookmarkData.userId !== userId) {
+        throw new Error('Unauthorized: You can only regenerate thumbnails for your own bookmarks');
+      }
+      if (bookmarkData.thumbnailSource === 'user' && !force) {
+        throw new Error('This bookmark uses a thumbnail you uploaded. Confirm to replace it with a generated one.');
+      }
+
+      // Clear ALL caches before regeneration to ensure fresh data
+      this.clearBookmarkCaches();
+      
+      // Also clear the local browser cache for this thumbnail
+      cacheService.remove(`thumbnail_${bookmarkData.url}`);
+
+      // Regenerate the thumbnail using the enhanced service
+      const thumbnailResult = await enhancedThumbnailService.regenerateThumbnail(bookmarkData.url, true);
 
       // Update the bookmark with the new thumbnail
       const updateData = {
-        thumbnail: thumbnailResult.thumbnail,
+        thumbnail: thumbnailResult.thumbnail,
+        updatedAt: new Date(),
+      };
+
+      await updateDoc(bookmarkRef, {
+        ...convertBookmarkToFirestore(updateData),
+        thumbnailSource: deleteField(),
+      });
+
+      // Clear caches again after updating bookmark to force fresh fetch
+      this.clearBookmarkCaches();
+
+      if (bookmarkData.thumbnailSource === 'user') {
+        await this.deleteReplacedCustomThumbnail(convertFirestoreToBookmark(bookmarkDoc as QueryDocumentSnapshot<DocumentData>));
+      }
+
+      return {
+        id,
+        userId,
+        title: bookmarkData.title,
+        url: bookmarkData.url,
+        description: bookmarkData.description || '',
+        tags: bookmarkData.tags || [],
+        favicon: bookmarkData.favicon,
+        thumbnail: thumbnailResult.thumbnail,
+        collectionId: bookmarkData.collectionId ?? null,
+        createdAt: bookmarkData.createdAt?.toDate() || new Date(),
+        updatedAt: updateData.updatedAt,
+      };
+    } catch (error) {
+      const userMessage = handleError(error, 'regenerateThumbnail');
+      throw new Error(userMessage);
+    }
+  }
+
+  /**
+   * Check the links of the given bookmarks through the link checker and store the health
+   * on each bookmark. Health writes leave updatedAt alone so they never conflict with edits.
+   */
+  async checkLinks(
+    ids: string[],
+    onProgress?: (progress: BookmarkImportProgress) => void
+  ): Promise<LinkCheckReport> {
+    if (!linkCheckService.isEnabled()) {
+      throw new Error('Link checking is not configured.');
+    }
+    if (!offlineQueueService.isOnline()) {
+      throw new Error('Links can only be checked while online. Please try again once you are reconnected.');
+    }
+
+    const userId = getCurrentUserId();
+    const report: LinkCheckReport = { checked: 0, broken: 0, redirected: 0 };
+
+    try {
+      const selected = new Set(ids);
+      const bookmarks = (await this.getCachedBookmarks()).filter(
+        (bookmark) => selected.has(bookmark.id) && bookmark.userId === userId && !isLocalBookmarkId(bookmark.id)
+      );
+      if (bookmarks.length === 0) {
+        return report;
+      }
+
+      const results = await linkCheckService.checkUrls(bookmarks.map((bookmark) => bookmark.url), onProgress);
+      if (results.size === 0) {
+        throw new Error('The link checker is not responding. Please try again later.');
+      }
+
+      const checkedAt = new Date();
+      const operations: Array<(batch: WriteBatch) => void> = [];
+
+      bookmarks.forEach((bookmark) => {
+        const result = results.get(bookmark.url);
+        if (!result) {
+          return;
+        }
+
+        const health = evaluateLinkHealth(bookmark.url, result, bookmark.health, checkedAt);
+        report.checked++;
+        if (health.status === 'broken') report.broken++;
+        if (health.status === 'redirected') report.redirected++;
+
+        operations.push(batch =>
+          batch.update(doc(db, 'bookmarks', bookmark.id), {
+            health: { ...health, checkedAt: Timestamp.fromDate(checkedAt) },
+          })
+        );
+      });
+
+      await commitInBatches(operations);
+      this.clearBookmarkCaches();
+
+      return report;
+    } catch (error) {
+      const userMessage = handleError(error, 'checkLinks');
+      throw new Error(userMessage);
+    }
+  }
+
+  /**
+   * Check the links of every bookmark matching the filters
+   */
+  async checkFilteredLinks(
+    filters: BookmarkFilters,
+    onProgress?: (progress: BookmarkImportProgress) => void
+  ): Promise<LinkCheckReport> {
+    const { bookmarks } = await this.applyFilters(await this.getCachedBookmarks(), filters);
+    return this.checkLinks(bookmarks.map((bookmark) => bookmark.id), onProgress);
+  }
+
+  /**
+   * Check the links that are due for their periodic check, least recently checked first
+   */
+  async checkDueLinks(): Promise<LinkCheckReport> {
+    const now = Date.now();
+    const due = (await this.getCachedBookmarks())
+      .filter((bookmark) => !isLocalBookmarkId(bookmark.id) && isLinkCheckDue(bookmark, now))
+      .sort((a, b) => (a.health?.checkedAt.getTime() ?? 0) - (b.health?.checkedAt.getTime() ?? 0))
+      .slice(0, PERIODIC_LINK_CHECK_LIMIT);
+
+    return this.checkLinks(due.map((bookmark) => bookmark.id));
+  }
+
+  /**
+   * Point a bookmark at the URL its link redirects to
+   */
+  async updateUrlToRedirect(id: string): Promise<Bookmark> {
+    const bookmark = (await this.getCachedBookmarks()).find((item) => item.id === id);
+    const redirectUrl = bookmark?.health?.redirectUrl;
+    if (!bookmark || !redirectUrl) {
+      throw new Error('This bookmark has no redirect to follow.');
+    }
+
+    return this.updateBookmark(id, {
+      title: bookmark.title,
+      url: redirectUrl,
+      description: bookmark.description,
+      tags: bookmark.tags,
+      collectionId: bookmark.collectionId ?? null,
+    });
+  }
+
+  /**
+   * Import bookmarks in batched writes.
+   * Entries go through the same validation as createBookmark, URLs that are already
+   * bookmarked are skipped, and thumbnails are left for regeneration to keep imports fast.
+   * Read states, favorites and folders from other services are carried over.
+   */
+  async importBookmarks(
+    entries: BookmarkImportEntry[],
+    onProgress?: (progress: BookmarkImportProgress) => void
+  ): Promise<BookmarkImportReport> {
+    const userId = getCurrentUserId();
+
+    if (!rateLimiter.isAllowed(`bookmark-import-${userId}`, 3, 60000)) {
+      throw new Error('Too many import attempts. Please wait a moment before trying again.');
+    }
+
+    const report: BookmarkImportReport = {
+      imported: 0,
+      skipped: 0,
+      invalid: 0,
+      invalidEntries: [],
+    };
+
+    const rows = await this.previewImport(entries);
+    rows.forEach((row) => {
+      if (row.status === 'invalid') {
+        report.invalid++;
+        report.invalidEntries.push({
+          title: row.entry.title,
+          url: row.entry.url,
+          reason: row.errors[0] || 'Invalid URL',
+        });
+      } else if (row.status === 'duplicate') {
+        report.skipped++;
+      }
+    });
+    const newRows = rows.filter((row) => row.status === 'new' && row.data);
+
+    try {
+      // Entries from other services are filed into collections named after their folders
+      const folderCollectionIds = await this.createImportFolders(
+        newRows.map((row) => row.entry.folder).filter((folder): folder is string => !!folder)
+      );
+
+      const pending = newRows.map(({ entry, data }) => {
+        const createdAt = entry.createdAt && !isNaN(entry.createdAt.getTime()) ? entry.createdAt : new Date();
+
+        return convertBookmarkToFirestore({
+          userId,
+          ...data!,
+          favicon: `https://www.google.com/s2/favicons?domain=${new URL(data!.url).hostname}&sz=64`,
+          collectionId: (entry.folder && folderCollectionIds.get(entry.folder.toLowerCase())) ?? null,
+          ...(entry.readStatus && {
+            readState: convertReadStateToFirestore(applyReadStatus(undefined, entry.readStatus, createdAt)),
+          }),
+          ...(entry.favorite && { favorite: true }),
+          ...NOT_DELETED,
+          createdAt,
+          updatedAt: createdAt,
+        });
+      });
+
+      onProgress?.({ processed: 0, total: pending.length });
+
+      const bookmarksRef = collection(db, 'bookmarks');
+      for (let i = 0; i < pending.length; i += IMPORT_BATCH_SIZE) {
+        const chunk = pending.slice(i, i + IMPORT_BATCH_SIZE);
+        const batch = writeBatch(db);
+        chunk.forEach((data) => batch.set(doc(bookmarksRef), data));
+        await batch.commit();
+
+        report.imported += chunk.length;
+        onProgress?.({ processed: report.imported, total: pending.length });
+      }
+    } catch (error) {
+      const userMessage = handleError(error, 'importBookmarks');
+      throw new Error(`${userMessage} (${report.imported} bookmarks were imported before the error)`);
+    } finally {
+      // Clear caches after importing, even if only part of the import succeeded
+      this.clearBookmarkCaches();
+    }
+
+    return report;
+  }
+
+  /**
+   * Validate import entries and check them against the library, without writing anything
+   */
+  async previewImport(entries: BookmarkImportEntry[]): Promise<BookmarkImportPreviewRow[]> {
+    try {
+      const bookmarksByUrl = await this.getBookmarksByCanonicalUrl();
+      const seenUrls = new Set<string>(); // Canonical URLs of earlier entries
+      const rows: BookmarkImportPreviewRow[] = [];
+
+      for (const entry of entries) {
+        const { data, error, warnings } = sanitizeImportedBookmark(entry);
+        if (!data) {
+          rows.push({ entry, status: 'invalid', errors: [error || 'Invalid URL'] });
+          continue;
+        }
+
+        const canonicalUrl = canonicalizeUrl(data.url);
+        const isDuplicate = seenUrls.has(canonicalUrl) || bookmarksByUrl.has(canonicalUrl);
+        seenUrls.add(canonicalUrl);
+        rows.push({ entry, data, status: isDuplicate ? 'duplicate' : 'new', errors: warnings });
+      }
+
+      return rows;
+    } catch (error) {
+      const userMessage = handleError(error, 'previewImport');
+      throw new Error(userMessage);
+    }
+  }
+
+  /**
+   * Find or create a top-level collection for each imported folder name.
+   * Returns collection ids by lowercased folder name; folders with invalid names are left out.
+   */
+  private async createImportFolders(folders: string[]): Promise<Map<string, string>> {
+    const folderCollectionIds = new Map<string, string>();
+    if (folders.length === 0) {
+      return folderCollectionIds;
+    }
+
+    const userId = getCurrentUserId();
+    const collections = await this.getCachedCollections();
+    const operations: Array<(batch: WriteBatch) => void> = [];
+    let sortOrder = collections
+      .filter((item) => item.parentId === null)
+      .reduce((max, item) => Math.max(max, item.sortOrder + 1), 0);
+
+    for (const folder of folders) {
+      const key = folder.toLowerCase();
+      if (folderCollectionIds.has(key)) {
+        continue;
+      }
+
+      const existing = collections.find((item) => item.name.toLowerCase() === key);
+      if (existing) {
+        folderCollectionIds.set(key, existing.id);
+        continue;
+      }
+
+      const nameValidation = validateCollectionName(folder);
+      if (!nameValidation.isValid) {
+        continue;
+      }
+
+      const now = new Date();
+      const collectionRef = doc(collection(db, 'collections'));
+      const collectionData = convertBookmarkToFirestore({
+        userId,
+        name: nameValidation.sanitizedName!,
+        parentId: null,
+        icon: '',
+        sortOrder: sortOrder++,
+        createdAt: now,
+        updatedAt: now,
+      });
+      operations.push((batch) => batch.set(collectionRef, collectionData));
+      folderCollectionIds.set(key, collectionRef.id);
+    }
+
+    if (operations.length > 0) {
+      await commitInBatches(operations);
+      this.clearCollectionCaches();
+    }
+
+    return folderCollectionIds;
+  }
+
+  /**
+   * Build a full-account backup of bookmarks, collections and tag metadata
+   */
+  async exportBackup(): Promise<BookmarkBackup> {
+    try {
+      // Always back up what is in Firestore, not what another tab may have left in the cache
+      this.clearBookmarkCaches();
+      this.clearCollectionCaches();
+      this.clearTagCaches();
+
+      const bookmarks = await this.getCachedBookmarks();
+      const collections = await this.getCachedCollections();
+      const tagColors = new Map((await this.getCachedTagRecords()).map((record) => [record.name, record.color]));
+
+      const tagCounts = new Map<string, number>();
+      bookmarks.forEach((bookmark) => {
+        bookmark.tags.forEach((tag) => tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1));
+      });
+
+      return {
+        format: BACKUP_FORMAT,
+        schemaVersion: BACKUP_SCHEMA_VERSION,
+        exportedAt: new Date(),
+        bookmarks: bookmarks.map((bookmark) => ({
+          id: bookmark.id,
+          title: bookmark.title,
+          url: bookmark.url,
+          description: bookmark.description,
+          tags: bookmark.tags,
+          favicon: bookmark.favicon,
+          thumbnail: bookmark.thumbnail,
+          thumbnailSource: bookmark.thumbnail ? bookmark.thumbnailSource : undefined,
+          collectionId: bookmark.collectionId ?? null,
+          readState: bookmark.readState,
+          favorite: bookmark.favorite || undefined,
+          pinned: bookmark.pinned || undefined,
+          pinOrder: bookmark.pinned ? bookmark.pinOrder : undefined,
+          visitCount: bookmark.visitCount || undefined,
+          lastVisitedAt: bookmark.lastVisitedAt,
+          createdAt: bookmark.createdAt,
+          updatedAt: bookmark.updatedAt,
+        })),
+        collections: collections.map((item) => ({
+          id: item.id,
+          name: item.name,
+          parentId: item.parentId,
+          icon: item.icon || undefined,
+          sortOrder: item.sortOrder,
+          createdAt: item.createdAt,
+          updatedAt: item.updatedAt,
+        })),
+        tags: Array.from(tagCounts.entries())
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([name, usageCount]) => ({ name, usageCount, color: tagColors.get(name) })),
+      };
+    } catch (error) {
+      const userMessage = handleError(error, 'exportBackup');
+      throw new Error(userMessage);
+    }
+  }
+
+  /**
+   * Summarize what restoring a backup would change
+   */
+  async previewBackupRestore(backup: BookmarkBackup): Promise<BackupRestorePreview> {
+    try {
+      const bookmarks = await this.getCachedBookmarks();
+      const existingUrls = new Set(bookmarks.map((bookmark) => canonicalizeUrl(bookmark.url)));
+      const backupUrls = new Set(
+        backup.bookmarks
+          .map((bookmark) => validateUrl(bookmark.url).sanitizedUrl)
+          .filter((url): url is string => !!url)
+          .map((url) => canonicalizeUrl(url))
+      );
+      const existingBookmarks = Array.from(backupUrls).filter((url) => existingUrls.has(url)).length;
+
+      return {
+        bookmarks: backup.bookmarks.length,
+        collections: backup.collections.length,
+        tags: backup.tags.length,
+        newBookmarks: backupUrls.size - existingBookmarks,
+        existingBookmarks,
+        currentBookmarks: bookmarks.length,
+      };
+    } catch (error) {
+      const userMessage = handleError(error, 'previewBackupRestore');
+      throw new Error(userMessage);
+    }
+  }
+
+  /**
+   * Restore a backup.
+   * Bookmarks are matched by canonical URL and collections by path, so restoring the same
+   * backup twice leaves the library unchanged instead of creating duplicates.
+   */
+  async restoreBackup(
+    backup: BookmarkBackup,
+    mode: BackupRestoreMode,
+    onProgress?: (progress: BookmarkImportProgress) => void
+  ): Promise<BackupRestoreReport> {
+    const userId = getCurrentUserId();
+
+    if (!rateLimiter.isAllowed(`bookmark-restore-${userId}`, 3, 60000)) {
+      throw new Error('Too many restore attempts. Please wait a moment before trying again.');
+    }
+
+    try {
+      // Work from fresh data so URL and path matching is accurate
+      this.clearBookmarkCaches();
+      this.clearCollectionCaches();
+      this.clearTagCaches();
+
+      let existingBookmarks = await this.getCachedBookmarks();
+      let existingCollections = await this.getCachedCollections();
+
+      const report: BackupRestoreReport = {
+        created: 0,
+        updated: 0,
+        deleted: 0,
+        invalid: 0,
+        collectionsCreated: 0,
+      };
+      const operations: Array<(batch: WriteBatch) => void> = [];
+
+      if (mode === 'replace') {
+        // Replacing starts over with an empty trash and no edit history as well
+        const replacedBookmarks = [...existingBookmarks, ...(await this.getCachedTrash())];
+        operations.push(...(await getRevisionDeletes(replacedBookmarks.map((bookmark) => bookmark.id))));
+        replacedBookmarks.forEach((bookmark) => {
+          operations.push((batch) => batch.delete(doc(db, 'bookmarks', bookmark.id)));
+        });
+        existingCollections.forEach((item) => {
+          operations.push((batch) => batch.delete(doc(db, 'collections', item.id)));
+        });
+        (await this.getCachedTagRecords()).forEach((record) => {
+          operations.push((batch) => batch.delete(doc(db, 'tags', record.id)));
+        });
+        report.deleted = existingBookmarks.length;
+        existingBookmarks = [];
+        existingCollections = [];
+      }
+
+      // Restore collections parents-first, reusing any collection that already exists at the same path
+      const backupCollections: Collection[] = backup.collections.map((item) => ({ ...item, userId }));
+      const collectionIdMap = new Map<string, string>();
+      const collectionIdsByPath = new Map(
+        existingCollections.map((item) => [getCollectionPath(existingCollections, item.id).toLowerCase(), item.id])
+      );
+
+      for (const { collection: item } of flattenCollectionTree(buildCollectionTree(backupCollections))) {
+        const nameValidation = validateCollectionName(item.name);
+        if (!nameValidation.isValid) {
+          continue;
+        }
+
+        const path = getCollectionPath(backupCollections, item.id).toLowerCase();
+        const existingId = collectionIdsByPath.get(path);
+        if (existingId) {
+          collectionIdMap.set(item.id, existingId);
+          continue;
+        }
+
+        const collectionRef = doc(collection(db, 'collections'));
+        collectionIdMap.set(item.id, collectionRef.id);
+        collectionIdsByPath.set(path, collectionRef.id);
+
+        const collectionData = convertBookmarkToFirestore({
+          userId,
+          name: nameValidation.sanitizedName!,
+          parentId: item.parentId ? collectionIdMap.get(item.parentId) ?? null : null,
+          icon: sanitizeText(item.icon || '', 16),
+          sortOrder: item.sortOrder,
+          createdAt: item.createdAt,
+          updatedAt: item.updatedAt,
+        });
+        operations.push((batch) => batch.set(collectionRef, collectionData));
+        report.collectionsCreated++;
+      }
+
+      // Restore bookmarks, updating in place when the URL is already bookmarked
+      const bookmarkIdsByUrl = new Map(existingBookmarks.map((bookmark) => [canonicalizeUrl(bookmark.url), bookmark.id]));
+      const restoredUrls = new Set<string>();
+
+      for (const item of backup.bookmarks) {
+        const { data } = sanitizeImportedBookmark(item);
+        if (!data) {
+          report.invalid++;
+          continue;
+        }
+        const canonicalUrl = canonicalizeUrl(data.url);
+        if (restoredUrls.has(canonicalUrl)) {
+          continue;
+        }
+        restoredUrls.add(canonicalUrl);
+
+        const bookmarkData: Record<string, unknown> = {
+          ...data,
+          ...convertBackupStateToFirestore(item),
+          collectionId: item.collectionId ? collectionIdMap.get(item.collectionId) ?? null : null,
+          createdAt: item.createdAt,
+          updatedAt: item.updatedAt,
+        };
+
+        // Firebase doesn't allow undefined values
+        const favicon = sanitizeImageReference(item.favicon);
+        const thumbnail = sanitizeImageReference(item.thumbnail);
+        if (favicon) {
+          bookmarkData.favicon = favicon;
+        }
+        if (thumbnail) {
+          bookmarkData.thumbnail = thumbnail;
+          if (item.thumbnailSource) {
+            bookmarkData.thumbnailSource = item.thumbnailSource;
+          }
+        }
+
+        const existingId = bookmarkIdsByUrl.get(canonicalUrl);
+        // v1 backups don't record these fields, so only a v2 backup clears them on the bookmark it restores over
+        if (existingId && backup.schemaVersion >= 2) {
+          BACKUP_STATE_FIELDS.filter((field) => !(field in bookmarkData)).forEach((field) => {
+            bookmarkData[field] = deleteField();
+          });
+        }
+        if (existingId) {
+          operations.push((batch) => batch.update(doc(db, 'bookmarks', existingId), convertBookmarkToFirestore(bookmarkData)));
+          report.updated++;
+        } else {
+          const bookmarkRef = doc(collection(db, 'bookmarks'));
+          operations.push((batch) =>
+            batch.set(bookmarkRef, convertBookmarkToFirestore({ ...bookmarkData, ...NOT_DELETED, userId }))
+          );
+          report.created++;
+        }
+      }
+
+      // Restore tag colours; tags without a stored colour keep their default one
+      const now = Timestamp.fromDate(new Date());
+      backup.tags.forEach((item) => {
+        const tagValidation = validateTag(item.name);
+        if (!item.color || !tagValidation.isValid || !tagValidation.sanitizedTag) {
+          return;
+        }
+        const tagData = {
+          userId,
+          name: tagValidation.sanitizedTag,
+          color: item.color,
+          usageCount: item.usageCount,
+          updatedAt: now,
+        };
+        operations.push((batch) => batch.set(doc(db, 'tags', getTagDocumentId(userId, tagData.name)), tagData));
+      });
+
+      await commitInBatches(operations, onProgress);
+
+      return report;
+    } catch (error) {
+      const userMessage = handleError(error, 'restoreBackup');
+      throw new Error(userMessage);
+    } finally {
+      this.clearBookmarkCaches();
+      this.clearCollectionCaches();
+      this.clearTagCaches();
+    }
+  }
+
+  async getCollections(): Promise<Collection[]> {
+    try {
+      return await this.getCachedCollections();
+    } catch (error) {
+      const userMessage = handleError(error, 'getCollections');
+      throw new Error(userMessage);
+    }
+  }
+
+  async createCollection(formData: CollectionFormData): Promise<Collection> {
+    const userId = getCurrentUserId();
+
+    if (!rateLimiter.isAllowed(`collection-create-${userId}`, 10, 60000)) {
+      throw new Error('Too many collection creation attempts. Please wait a moment before trying again.');
+    }
+
+    const nameValidation = validateCollectionName(formData.name);
+    if (!nameValidation.isValid) {
+      throw new Error(nameValidation.error || 'Invalid collection name');
+    }
+
+    try {
+      const collections = await this.getCachedCollections();
+      const parentId = await this.resolveCollectionId(formData.parentId);
+
+      // Append the new collection after its existing siblings
+      const siblings = collections.filter(item => item.parentId === parentId);
+      const sortOrder = siblings.reduce((max, item) => Math.max(max, item.sortOrder + 1), 0);
+
+      const now = new Date();
+      const collectionData = {
+        userId,
+        name: nameValidation.sanitizedName!,
+        parentId,
+        icon: sanitizeText(formData.icon || '', 16),
+        sortOrder,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      const docRef = await addDoc(collection(db, 'collections'), convertBookmarkToFirestore(collectionData));
+
+      this.clearCollectionCaches();
+
+      return {
+        id: docRef.id,
+        ...collectionData,
+      };
+    } catch (error) {
+      const userMessage = handleError(error, 'createCollection');
+      throw new Error(userMessage);
+    }
+  }
+
+  async updateCollection(id: string, formData: CollectionFormData): Promise<Collection> {
+    const nameValidation = validateCollectionName(formData.name);
+    if (!nameValidation.isValid) {
+      throw new Error(nameValidation.error || 'Invalid collection name');
+    }
+
+    try {
+      const collections = await this.getCachedCollections();
+      const existing = collections.find(item => item.id === id);
+      if (!existing) {
+        throw new Error('Collection not found');
+      }
+
+      const parentId = await this.resolveCollectionId(formData.parentId);
+
+      // A collection cannot be moved into itself or one of its own sub-collections
+      if (parentId && (parentId === id || getDescendantCollectionIds(collections, id).includes(parentId))) {
+        throw new Error('A collection cannot be moved into itself or one of its sub-collections');
+      }
+
+      const updateData = {
+        name: nameValidation.sanitizedName!,
+        parentId,
+        icon: sanitizeText(formData.icon || '', 16),
+        sortOrder: existing.sortOrder,
         updatedAt: new Date(),
       };
 
-      await updateDoc(bookmarkRef, convertBookmarkToFirestore(updateData));
+      // Moving to a new parent appends the collection after its new siblings
+      if (parentId !== existing.parentId) {
+        const siblings = collections.filter(item => item.parentId === parentId);
+        updateData.sortOrder = siblings.reduce((max, item) => Math.max(max, item.sortOrder + 1), 0);
+      }
+
+      await updateDoc(doc(db, 'collections', id), convertBookmarkToFirestore(updateData));
 
-      // Clear caches again after updating bookmark to force fresh fetch
-      this.clearBookmarkCaches();
+      this.clearCollectionCaches();
 
       return {
-        id,
+        ...existing,
+        ...updateData,
+      };
+    } catch (error) {
+      const userMessage = handleError(error, 'updateCollection');
+      throw new Error(userMessage);
+    }
+  }
+
+  /**
+   * Persist a new order for collections that share the same parent
+   */
+  async reorderCollections(orderedIds: string[]): Promise<void> {
+    try {
+      const collections = await this.getCachedCollections();
+      const now = Timestamp.fromDate(new Date());
+
+      await commitInBatches(
+        orderedIds
+          .filter(id => collections.some(item => item.id === id))
+          .map((id, index) => (batch: WriteBatch) => {
+            batch.update(doc(db, 'collections', id), { sortOrder: index, updatedAt: now });
+          })
+      );
+
+      this.clearCollectionCaches();
+    } catch (error) {
+      const userMessage = handleError(error, 'reorderCollections');
+      throw new Error(userMessage);
+    }
+  }
+
+  /**
+   * Delete a collection. Its sub-collections and bookmarks move up to its parent.
+   */
+  async deleteCollection(id: string): Promise<void> {
+    const userId = getCurrentUserId();
+
+    try {
+      const collections = await this.getCachedCollections();
+      const existing = collections.find(item => item.id === id);
+      if (!existing) {
+        throw new Error('Collection not found');
+      }
+
+      // Bookmarks in the trash move up too, so they come back somewhere sensible
+      const bookmarks = await this.getCachedLibrary();
+      const now = Timestamp.fromDate(new Date());
+      const operations: Array<(batch: WriteBatch) => void> = [];
+
+      collections
+        .filter(item => item.parentId === id)
+        .forEach(child => {
+          operations.push(batch => batch.update(doc(db, 'collections', child.id), { parentId: existing.parentId, updatedAt: now }));
+        });
+
+      bookmarks
+        .filter(bookmark => bookmark.collectionId === id && bookmark.userId === userId)
+        .forEach(bookmark => {
+          operations.push(batch => batch.update(doc(db, 'bookmarks', bookmark.id), { collectionId: existing.parentId, updatedAt: now }));
+        });
+
+      // Delete the collection last so a partial failure never leaves orphaned children
+      operations.push(batch => batch.delete(doc(db, 'collections', id)));
+      await commitInBatches(operations);
+
+      this.clearCollectionCaches();
+      this.clearBookmarkCaches();
+    } catch (error) {
+      const userMessage = handleError(error, 'deleteCollection');
+      throw new Error(userMessage);
+    }
+  }
+
+  async getSavedSearches(): Promise<SavedSearch[]> {
+    try {
+      return await this.getCachedSavedSearches();
+    } catch (error) {
+      const userMessage = handleError(error, 'getSavedSearches');
+      throw new Error(userMessage);
+    }
+  }
+
+  /**
+   * Count the bookmarks each saved search currently matches, keyed by saved search id
+   */
+  async getSavedSearchCounts(savedSearches: SavedSearch[]): Promise<Record<string, number>> {
+    try {
+      const bookmarks = await this.getCachedBookmarks();
+      const counts: Record<string, number> = {};
+
+      for (const savedSearch of savedSearches) {
+        const result = await this.applyFilters(bookmarks, savedSearch.filters);
+        counts[savedSearch.id] = result.bookmarks.length;
+      }
+
+      return counts;
+    } catch (error) {
+      const userMessage = handleError(error, 'getSavedSearchCounts');
+      throw new Error(userMessage);
+    }
+  }
+
+  async createSavedSearch(formData: SavedSearchFormData): Promise<SavedSearch> {
+    const userId = getCurrentUserId();
+
+    if (!rateLimiter.isAllowed(`saved-search-create-${userId}`, 10, 60000)) {
+      throw new Error('Too many saved search creation attempts. Please wait a moment before trying again.');
+    }
+
+    const nameValidation = validateSavedSearchName(formData.name);
+    if (!nameValidation.isValid) {
+      throw new Error(nameValidation.error || 'Invalid saved search name');
+    }
+
+    try {
+      const now = new Date();
+      const savedSearchData = {
         userId,
-        title: bookmarkData.title,
-        url: bookmarkData.url,
-        description: bookmarkData.description || '',
-        tags: bookmarkData.tags || [],
-        favicon: bookmarkData.favicon,
-        thumbnail: thumbnailResult.thumbnail,
-        createdAt: bookmarkData.createdAt?.toDate() || new Date(),
-        updatedAt: updateData.updatedAt,
+        name: nameValidation.sanitizedName!,
+        filters: sanitizeSavedSearchFilters(formData.filters),
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      const docRef = await addDoc(collection(db, 'savedSearches'), convertBookmarkToFirestore(savedSearchData));
+
+      this.clearSavedSearchCaches();
+
+      return {
+        id: docRef.id,
+        ...savedSearchData,
       };
     } catch (error) {
-      const userMessage = handleError(error, 'regenerateThumbnail');
+      const userMessage = handleError(error, 'createSavedSearch');
+      throw new Error(userMessage);
+    }
+  }
+
+  /**
+   * Rename a saved search and/or replace the filters it stores
+   */
+  async updateSavedSearch(id: string, formData: SavedSearchFormData): Promise<SavedSearch> {
+    const nameValidation = validateSavedSearchName(formData.name);
+    if (!nameValidation.isValid) {
+      throw new Error(nameValidation.error || 'Invalid saved search name');
+    }
+
+    try {
+      const savedSearches = await this.getCachedSavedSearches();
+      const existing = savedSearches.find(item => item.id === id);
+      if (!existing) {
+        throw new Error('Saved search not found');
+      }
+
+      const updateData = {
+        name: nameValidation.sanitizedName!,
+        filters: sanitizeSavedSearchFilters(formData.filters),
+        updatedAt: new Date(),
+      };
+
+      await updateDoc(doc(db, 'savedSearches', id), convertBookmarkToFirestore(updateData));
+
+      this.clearSavedSearchCaches();
+
+      return {
+        ...existing,
+        ...updateData,
+      };
+    } catch (error) {
+      const userMessage = handleError(error, 'updateSavedSearch');
+      throw new Error(userMessage);
+    }
+  }
+
+  async deleteSavedSearch(id: string): Promise<void> {
+    try {
+      const savedSearches = await this.getCachedSavedSearches();
+      if (!savedSearches.some(item => item.id === id)) {
+        throw new Error('Saved search not found');
+      }
+
+      await deleteDoc(doc(db, 'savedSearches', id));
+
+      this.clearSavedSearchCaches();
+    } catch (error) {
+      const userMessage = handleError(error, 'deleteSavedSearch');
+      throw new Error(userMessage);
+    }
+  }
+
+  /**
+   * Get every tag in use with its colour and live usage count, sorted by name
+   */
+  async getTags(): Promise<BookmarkTag[]> {
+    const userId = getCurrentUserId();
+
+    try {
+      const [bookmarks, records] = await Promise.all([
+        this.getCachedBookmarks(),
+        this.getCachedTagRecords(),
+      ]);
+
+      const usageCounts = new Map<string, number>();
+      bookmarks.forEach((bookmark) => {
+        bookmark.tags.forEach((tag) => usageCounts.set(tag, (usageCounts.get(tag) ?? 0) + 1));
+      });
+
+      const colors = new Map(records.map((record) => [record.name, record.color]));
+
+      return Array.from(usageCounts.entries())
+        .map(([name, usageCount]) => ({
+          id: getTagDocumentId(userId, name),
+          name,
+          color: colors.get(name) ?? getDefaultTagColor(name),
+          usageCount,
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+      const userMessage = handleError(error, 'getTags');
+      throw new Error(userMessage);
+    }
+  }
+
+  /**
+   * Store the colour shown for a tag everywhere it appears
+   */
+  async recolorTag(name: string, color: string): Promise<void> {
+    if (!isTagColor(color)) {
+      throw new Error('Please choose one of the available tag colours');
+    }
+
+    try {
+      const userId = getCurrentUserId();
+      const tags = await this.getTags();
+      const tag = tags.find((item) => item.name === name);
+      if (!tag) {
+        throw new Error('Tag not found');
+      }
+
+      await setDoc(doc(db, 'tags', tag.id), {
+        userId,
+        name,
+        color,
+        usageCount: tag.usageCount ?? 0,
+        updatedAt: Timestamp.fromDate(new Date()),
+      });
+
+      this.clearTagCaches();
+    } catch (error) {
+      const userMessage = handleError(error, 'recolorTag');
+      throw new Error(userMessage);
+    }
+  }
+
+  /**
+   * Rename a tag on every bookmark that uses it, together with the tags nested below it
+   * ("lang" to "languages" turns "lang/js" into "languages/js"). Returns the number of
+   * bookmarks changed.
+   */
+  async renameTag(name: string, newName: string): Promise<number> {
+    const tagValidation = validateTag(newName);
+    if (!tagValidation.isValid) {
+      throw new Error(tagValidation.error || 'Invalid tag name');
+    }
+    const targetName = tagValidation.sanitizedTag!;
+
+    try {
+      const tags = await this.getTags();
+      const renamedTags = tags.filter((item) => tagMatchesFilter(item.name, name));
+      if (renamedTags.length === 0) {
+        throw new Error('Tag not found');
+      }
+      if (targetName === name) {
+        return 0;
+      }
+
+      const renameTagName = (item: string) =>
+        tagMatchesFilter(item, name) ? `${targetName}${item.slice(name.length)}` : item;
+      const renamedNames = new Set(renamedTags.map((item) => item.name));
+      const conflict = renamedTags
+        .map((item) => renameTagName(item.name))
+        .find((newTagName) => tags.some((item) => item.name === newTagName && !renamedNames.has(newTagName)));
+      if (conflict) {
+        throw new Error(`A tag named "${conflict}" already exists. Merge the tags instead.`);
+      }
+
+      return await this.commitTagChanges(
+        (bookmarkTags) => Array.from(new Set(bookmarkTags.map(renameTagName))),
+        Array.from(renamedNames),
+        renamedTags.map((item) => ({ name: renameTagName(item.name), color: item.color }))
+      );
+    } catch (error) {
+      const userMessage = handleError(error, 'renameTag');
+      throw new Error(userMessage);
+    }
+  }
+
+  /**
+   * Replace several tags with one, e.g. `js` and `javascript`. The target may be one of
+   * the merged tags or a new name. Returns the number of bookmarks changed.
+   */
+  async mergeTags(names: string[], targetName: string): Promise<number> {
+    const tagValidation = validateTag(targetName);
+    if (!tagValidation.isValid) {
+      throw new Error(tagValidation.error || 'Invalid tag name');
+    }
+    const target = tagValidation.sanitizedTag!;
+
+    try {
+      const tags = await this.getTags();
+      const sources = new Set(names.filter((name) => name !== target));
+      if (sources.size === 0) {
+        throw new Error('Select at least one other tag to merge');
+      }
+
+      // Keep the target's colour, or the first merged tag's when the target is new
+      const existingTarget = tags.find((item) => item.name === target);
+      const firstSource = tags.find((item) => sources.has(item.name));
+      const color = existingTarget?.color ?? firstSource?.color ?? getDefaultTagColor(target);
+
+      return await this.commitTagChanges(
+        (bookmarkTags) => {
+          if (!bookmarkTags.some((item) => sources.has(item))) {
+            return bookmarkTags;
+          }
+          const merged = bookmarkTags.filter((item) => !sources.has(item));
+          return merged.includes(target) ? merged : [...merged, target];
+        },
+        Array.from(sources),
+        [{ name: target, color }]
+      );
+    } catch (error) {
+      const userMessage = handleError(error, 'mergeTags');
+      throw new Error(userMessage);
+    }
+  }
+
+  /**
+   * Remove a tag from every bookmark. Returns the number of bookmarks changed.
+   */
+  async deleteTag(name: string): Promise<number> {
+    try {
+      return await this.commitTagChanges(
+        (bookmarkTags) => bookmarkTags.filter((item) => item !== name),
+        [name]
+      );
+    } catch (error) {
+      const userMessage = handleError(error, 'deleteTag');
       throw new Error(userMessage);
     }
   }
+
+  /**
+   * Rewrite the tags of every affected bookmark in batched writes, delete the tag documents
+   * of removed tags and store the resulting tags with their new usage counts
+   */
+  private async commitTagChanges(
+    rewriteTags: (tags: string[]) => string[],
+    removedTags: string[],
+    resultTags: Array<{ name: string; color: string }> = []
+  ): Promise<number> {
+    // Bookmarks changed offline would overwrite the rewritten tags when they sync
+    if (!offlineQueueService.isOnline()) {
+      throw new Error('Tags can only be changed while online. Please try again once you are reconnected.');
+    }
+
+    const userId = getCurrentUserId();
+    // Rewrite bookmarks in the trash too, so restoring one doesn't bring an old tag back
+    const bookmarks = await this.getCachedLibrary();
+    const now = Timestamp.fromDate(new Date());
+    const operations: Array<(batch: WriteBatch) => void> = [];
+    const resultUsageCounts = new Map(resultTags.map((resultTag) => [resultTag.name, 0]));
+    let changedBookmarks = 0;
+
+    bookmarks
+      .filter((bookmark) => bookmark.userId === userId && !isLocalBookmarkId(bookmark.id))
+      .forEach((bookmark) => {
+        const tags = rewriteTags(bookmark.tags);
+        if (!bookmark.deletedAt) {
+          tags
+            .filter((tag) => resultUsageCounts.has(tag))
+            .forEach((tag) => resultUsageCounts.set(tag, resultUsageCounts.get(tag)! + 1));
+        }
+
+        const changed = tags.length !== bookmark.tags.length || tags.some((tag, index) => tag !== bookmark.tags[index]);
+        if (changed) {
+          // The rewrite is an edit like any other, so it goes into the bookmark's history
+          const changes = diffRevisionValues(getRevisionValues(bookmark), getRevisionValues({ ...bookmark, tags }));
+          operations.push(batch => batch.update(doc(db, 'bookmarks', bookmark.id), { tags, tagPaths: getTagPaths(tags), updatedAt: now }));
+          operations.push(batch => batch.set(doc(getRevisionsRef(bookmark.id)), { userId, changes, createdAt: now }));
+          changedBookmarks++;
+        }
+      });
+
+    // Tags only have a document once they have been recoloured, renamed or merged into
+    const records = await this.getCachedTagRecords();
+    records
+      .filter((record) => removedTags.includes(record.name))
+      .forEach((record) => {
+        operations.push(batch => batch.delete(doc(db, 'tags', record.id)));
+      });
+
+    resultTags.forEach((resultTag) => {
+      operations.push(batch =>
+        batch.set(doc(db, 'tags', getTagDocumentId(userId, resultTag.name)), {
+          userId,
+          name: resultTag.name,
+          color: resultTag.color,
+          usageCount: resultUsageCounts.get(resultTag.name) ?? 0,
+          updatedAt: now,
+        })
+      );
+    });
+
+    await commitInBatches(operations);
+
+    this.clearBookmarkCaches();
+    this.clearTagCaches();
+
+    return changedBookmarks;
+  }
 }
 
 export const bookmarkService = new BookmarkService();
@@ -1,6 +1,6 @@
 /**
  * Cache Service for reducing Firebase API calls
- * Implements in-memory and localStorage caching strategies
+ * Implements an in-memory tier on top of a persistent IndexedDB tier
  */
 
 interface CacheEntry<T> {
@@ -9,10 +9,88 @@ interface CacheEntry<T> {
   expires: number;
 }
 
+// Metadata for a persistent entry. Lists of records with an `id` are stored one
+// record per row so large libraries don't have to be serialized as one value.
+interface PersistentEntry {
+  key: string;
+  data?: unknown; // Inline value for anything that is not a record list
+  ids?: string[]; // Record ids in their original order
+  size: number; // Approximate size in bytes, used for eviction
+  timestamp: number;
+  expires: number;
+  lastAccessed: number;
+}
+
+interface PersistentRecord {
+  key: string;
+  id: string;
+  data: unknown;
+}
+
+const DB_NAME = 'better-bookmarks-cache';
+const ENTRIES_STORE = 'entries';
+const RECORDS_STORE = 'records';
+
+/**
+ * Schema migrations, applied in order. Migration n upgrades the database from
+ * version n to n + 1; append a new step to change the schema.
+ */
+const MIGRATIONS: Array<(db: IDBDatabase) => void> = [
+  // v1: entry metadata and per-record storage, replacing the localStorage tier
+  (db) => {
+    const entries = db.createObjectStore(ENTRIES_STORE, { keyPath: 'key' });
+    entries.createIndex('lastAccessed', 'lastAccessed');
+    const records = db.createObjectStore(RECORDS_STORE, { keyPath: ['key', 'id'] });
+    records.createIndex('key', 'key');
+
+    // Drop the cache entries and thumbnails the old localStorage tier left behind
+    try {
+      Object.keys(localStorage)
+        .filter(key => key.startsWith('cache_') || key.startsWith('thumbnail_'))
+        .forEach(key => localStorage.removeItem(key));
+    } catch {
+      // localStorage may be unavailable; there is nothing to clean up then
+    }
+  },
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
+// Wrap an IndexedDB request in a promise
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Resolve once a transaction has committed
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Approximate size of a value in bytes (UTF-16 characters of its JSON form)
+const estimateSize = (value: unknown): number => {
+  try {
+    return (JSON.stringify(value)?.length ?? 0) * 2;
+  } catch {
+    return 0;
+  }
+};
+
+const isRecordList = (value: unknown): value is Array<{ id: string }> =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every(item => typeof item === 'object' && item !== null && typeof (item as { id?: unknown }).id === 'string');
+
 class CacheService {
   private memoryCache = new Map<string, CacheEntry<any>>();
   private readonly DEFAULT_TTL = 5 * 60 * 1000; // 5 minutes
   private readonly MAX_MEMORY_SIZE = 100;
+  private readonly MAX_PERSISTENT_SIZE = 50 * 1024 * 1024; // 50 MB
+  private dbPromise: Promise<IDBDatabase> | null = null;
 
   /**
    * Set data in memory cache
@@ -51,53 +129,171 @@ class CacheService {
   }
 
   /**
-   * Set data in localStorage cache
+   * Open the cache database, running any pending schema migrations
    */
-  setLocal<T>(key: string, data: T, ttl: number = this.DEFAULT_TTL): void {
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = (event) => {
+          for (let version = event.oldVersion; version < DB_VERSION; version++) {
+            MIGRATIONS[version](request.result);
+          }
+        };
+        request.onsuccess = () => {
+          const db = request.result;
+          // Let a newer version in another tab upgrade the schema
+          db.onversionchange = () => {
+            db.close();
+            this.dbPromise = null;
+          };
+          resolve(db);
+        };
+        request.onerror = () => reject(request.error);
+      });
+
+      // Allow a later call to retry if opening failed
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Set data in the persistent cache
+   */
+  async setPersistent<T>(key: string, data: T, ttl: number = this.DEFAULT_TTL): Promise<void> {
     try {
-      const entry: CacheEntry<T> = {
-        data,
-        timestamp: Date.now(),
-        expires: Date.now() + ttl
+      const db = await this.openDatabase();
+      const transaction = db.transaction([ENTRIES_STORE, RECORDS_STORE], 'readwrite');
+      const entries = transaction.objectStore(ENTRIES_STORE);
+      const records = transaction.objectStore(RECORDS_STORE);
+      const now = Date.now();
+
+      records.delete(IDBKeyRange.bound([key], [key, []]));
+
+      const entry: PersistentEntry = {
+        key,
+        size: 0,
+        timestamp: now,
+        expires: now + ttl,
+        lastAccessed: now,
       };
 
-      localStorage.setItem(`cache_${key}`, JSON.stringify(entry));
+      if (isRecordList(data)) {
+        entry.ids = data.map(item => item.id);
+        for (const item of data) {
+          const record: PersistentRecord = { key, id: item.id, data: item };
+          entry.size += estimateSize(item);
+          records.put(record);
+        }
+      } else {
+        entry.data = data;
+        entry.size = estimateSize(data);
+      }
+
+      entries.put(entry);
+      await transactionDone(transaction);
+      await this.evictPersistent(key);
     } catch (error) {
-      // Silently fail for localStorage operations
+      // Silently fail for persistent cache operations
     }
   }
 
   /**
-   * Get data from localStorage cache
+   * Get data from the persistent cache
    */
-  getLocal<T>(key: string): T | null {
+  async getPersistent<T>(key: string): Promise<T | null> {
     try {
-      const cached = localStorage.getItem(`cache_${key}`);
-      if (!cached) return null;
+      const db = await this.openDatabase();
+      const transaction = db.transaction([ENTRIES_STORE, RECORDS_STORE], 'readwrite');
+      const entries = transaction.objectStore(ENTRIES_STORE);
+      const entry = await requestToPromise<PersistentEntry | undefined>(entries.get(key));
+
+      if (!entry) {
+        return null;
+      }
 
-      const entry: CacheEntry<T> = JSON.parse(cached);
-      
       if (Date.now() > entry.expires) {
-        localStorage.removeItem(`cache_${key}`);
+        entries.delete(key);
+        transaction.objectStore(RECORDS_STORE).delete(IDBKeyRange.bound([key], [key, []]));
+        await transactionDone(transaction);
         return null;
       }
 
-      return entry.data;
+      entries.put({ ...entry, lastAccessed: Date.now() });
+
+      if (!entry.ids) {
+        await transactionDone(transaction);
+        return entry.data as T;
+      }
+
+      const records = await requestToPromise<PersistentRecord[]>(
+        transaction.objectStore(RECORDS_STORE).index('key').getAll(key)
+      );
+      await transactionDone(transaction);
+
+      const recordsById = new Map(records.map(record => [record.id, record.data]));
+      return entry.ids.filter(id => recordsById.has(id)).map(id => recordsById.get(id)) as T;
     } catch (error) {
       return null;
     }
   }
 
   /**
-   * Remove from both caches
+   * Remove an entry from the persistent cache
    */
-  remove(key: string): void {
-    this.memoryCache.delete(key);
+  async removePersistent(key: string): Promise<void> {
     try {
-      localStorage.removeItem(`cache_${key}`);
+      const db = await this.openDatabase();
+      const transaction = db.transaction([ENTRIES_STORE, RECORDS_STORE], 'readwrite');
+      transaction.objectStore(ENTRIES_STORE).delete(key);
+      transaction.objectStore(RECORDS_STORE).delete(IDBKeyRange.bound([key], [key, []]));
+      await transactionDone(transaction);
     } catch (error) {
-      // Silently fail for localStorage operations
+      // Silently fail for persistent cache operations
+    }
+  }
+
+  /**
+   * Drop expired entries, then least recently used ones until the cache fits its size budget
+   */
+  private async evictPersistent(keepKey: string): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction([ENTRIES_STORE, RECORDS_STORE], 'readwrite');
+    const entries = transaction.objectStore(ENTRIES_STORE);
+    const records = transaction.objectStore(RECORDS_STORE);
+
+    // Oldest access first
+    const allEntries = await requestToPromise<PersistentEntry[]>(entries.index('lastAccessed').getAll());
+    const now = Date.now();
+    let totalSize = allEntries.reduce((sum, entry) => sum + entry.size, 0);
+
+    for (const entry of allEntries) {
+      const expired = now > entry.expires;
+      if (entry.key === keepKey || (!expired && totalSize <= this.MAX_PERSISTENT_SIZE)) {
+        continue;
+      }
+      entries.delete(entry.key);
+      records.delete(IDBKeyRange.bound([entry.key], [entry.key, []]));
+      totalSize -= entry.size;
     }
+
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Remove from both caches
+   */
+  remove(key: string): void {
+    this.memoryCache.delete(key);
+    void this.removePersistent(key);
   }
 
   /**
@@ -105,16 +301,16 @@ class CacheService {
    */
   clear(): void {
     this.memoryCache.clear();
-    try {
-      const keys = Object.keys(localStorage);
-      keys.forEach(key => {
-        if (key.startsWith('cache_')) {
-          localStorage.removeItem(key);
-        }
+    void this.openDatabase()
+      .then(db => {
+        const transaction = db.transaction([ENTRIES_STORE, RECORDS_STORE], 'readwrite');
+        transaction.objectStore(ENTRIES_STORE).clear();
+        transaction.objectStore(RECORDS_STORE).clear();
+        return transactionDone(transaction);
+      })
+      .catch(() => {
+        // Silently fail for persistent cache operations
       });
-    } catch (error) {
-      // Silently fail for localStorage operations
-    }
   }
 
   /**
@@ -132,10 +328,22 @@ class CacheService {
   /**
    * Get cache statistics
    */
-  getStats() {
+  async getStats() {
+    let persistentEntries: PersistentEntry[] = [];
+    try {
+      const db = await this.openDatabase();
+      persistentEntries = await requestToPromise<PersistentEntry[]>(
+        db.transaction(ENTRIES_STORE, 'readonly').objectStore(ENTRIES_STORE).getAll()
+      );
+    } catch (error) {
+      // Report the memory tier only
+    }
+
     return {
       memorySize: this.memoryCache.size,
-      localStorageKeys: Object.keys(localStorage).filter(k => k.startsWith('cache_')).length
+      persistentEntries: persistentEntries.length,
+      persistentBytes: persistentEntries.reduce((sum, entry) => sum + entry.size, 0),
+      persistentLimitBytes: this.MAX_PERSISTENT_SIZE,
     };
   }
 }
@@ -1,7 +1,8 @@
 import { 
   ref, 
   uploadBytes, 
-  getDownloadURL
+  getDownloadURL,
+  deleteObject
 } from 'firebase/storage';
 import { 
   collection, 
@@ -82,7 +83,7 @@ class EnhancedThumbnailService {
       // Try to get cached bookmarks first
       let bookmarks = cacheService.getMemory<any[]>(cacheKey);
       if (!bookmarks) {
-        bookmarks = cacheService.getLocal<any[]>(cacheKey);
+        bookmarks = await cacheService.getPersistent<any[]>(cacheKey);
       }
       
       // If we have cached bookmarks, check them
@@ -337,41 +338,18 @@ class EnhancedThumbnailService {
   }
 
   /**
-   * Cache thumbnail in browser's local storage
+   * Cache thumbnail in the browser's persistent cache
    */
   private cacheThumbnailLocally(url: string, thumbnailUrl: string): void {
-    try {
-      const cacheKey = `thumbnail_${url}`;
-      const cacheData = {
-        url: thumbnailUrl,
-        timestamp: Date.now(),
-        expires: Date.now() + (7 * 24 * 60 * 60 * 1000) // 7 days
-      };
-      localStorage.setItem(cacheKey, JSON.stringify(cacheData));
-    } catch (error) {
-      // Don't throw error for cache failure
-    }
+    // Screenshots can be large data URLs, so they go to IndexedDB rather than localStorage
+    cacheService.setPersistent(`thumbnail_${url}`, thumbnailUrl, 7 * 24 * 60 * 60 * 1000); // 7 days
   }
 
   /**
-   * Get cached thumbnail from browser's local storage
+   * Get cached thumbnail from the browser's persistent cache
    */
-  private getCachedThumbnail(url: string): string | null {
-    try {
-      const cacheKey = `thumbnail_${url}`;
-      const cached = localStorage.getItem(cacheKey);
-      if (!cached) return null;
-
-      const cacheData = JSON.parse(cached);
-      if (Date.now() > cacheData.expires) {
-        localStorage.removeItem(cacheKey);
-        return null;
-      }
-
-      return cacheData.url;
-    } catch (error) {
-      return null;
-    }
+  private async getCachedThumbnail(url: string): Promise<string | null> {
+    return cacheService.getPersistent<string>(`thumbnail_${url}`);
   }
 
   /**
@@ -389,7 +367,7 @@ class EnhancedThumbnailService {
       }
 
       // Check browser cache first
-      const cachedThumbnail = this.getCachedThumbnail(url);
+      const cachedThumbnail = await this.getCachedThumbnail(url);
       if (cachedThumbnail) {
         // Don't assume type from cache, we need to determine it properly
         // For now, let's skip cache to ensure we get the correct type
@@ -542,6 +520,41 @@ class EnhancedThumbnailService {
     }
   }
 
+  /**
+   * Remove the current user's thumbnail metadata for URLs that are no longer bookmarked,
+   * e.g. after bookmarks are purged from the trash. Metadata still backing one of the
+   * remaining thumbnails is kept. The stored images themselves are left alone, since
+   * other users' bookmarks may point at the same shared file.
+   */
+  async deleteOrphanedThumbnails(urls: string[], remainingThumbnails: Set<string>): Promise<void> {
+    try {
+      const userId = this.getCurrentUserId();
+      const metadataRef = collection(db, this.COLLECTION_NAME);
+
+      for (const url of new Set(urls)) {
+        const q = query(metadataRef, where('userId', '==', userId), where('url', '==', url));
+        const querySnapshot = await getDocs(q);
+
+        for (const doc of querySnapshot.docs) {
+          const data = doc.data();
+          if (remainingThumbnails.has(data.storageUrl)) {
+            continue;
+          }
+
+          try {
+            await deleteDoc(doc.ref);
+            cacheService.remove(`thumbnail_metadata_${data.urlHash}`);
+          } catch {
+            // Continue with other deletions even if one fails
+          }
+        }
+        cacheService.remove(`thumbnail_${url}`);
+      }
+    } catch {
+      // Cleanup errors are not critical
+    }
+  }
+
   /**
    * Get screenshot statistics for the current user
    * Only tracks screenshots since video thumbnails and favicons are not stored in Firebase
@@ -597,8 +610,7 @@ class EnhancedThumbnailService {
 
       // Clear browser cache for this URL to force fresh generation
       if (forceNew) {
-        const cacheKey = `thumbnail_${url}`;
-        localStorage.removeItem(cacheKey);
+        cacheService.remove(`thumbnail_${url}`);
         
         // Also clear the metadata cache to force fresh lookup
         const urlHash = await this.generateUrlHash(url);
@@ -675,6 +687,80 @@ class EnhancedThumbnailService {
     }
   }
 
+  /**
+   * Store an image the user uploaded as a bookmark's thumbnail. Like a regenerated
+   * thumbnail it gets a file of its own, so it never replaces the screenshot other
+   * bookmarks of the URL share. It is not cached under the page URL either, which
+   * would hand it to other bookmarks of the URL as their generated thumbnail.
+   */
+  async uploadCustomThumbnail(url: string, dataUrl: string): Promise<ThumbnailResult> {
+    const userId = this.getCurrentUserId();
+    const urlHash = await this.generateUrlHash(url);
+    const uniqueHash = `${urlHash}_user_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+    const metadata: ThumbnailMetadata = {
+      url,
+      type: 'screenshot',
+      source: 'user',
+      createdAt: new Date().toISOString(),
+      urlHash: uniqueHash,
+      userId
+    };
+
+    const { storageUrl, storagePath } = await this.uploadThumbnailToStorage(dataUrl, uniqueHash, metadata);
+    await this.storeThumbnailMetadata(url, uniqueHash, storageUrl, storagePath, 'screenshot', 'user');
+
+    return {
+      thumbnail: storageUrl,
+      type: 'image',
+      source: 'user',
+      method: 'upload'
+    };
+  }
+
+  /**
+   * Delete a thumbnail the user uploaded, both the stored image and its metadata, once
+   * the bookmark no longer shows it. Uploads have a file of their own, so unlike
+   * generated thumbnails nothing else can be using them.
+   */
+  async deleteCustomThumbnail(url: string, storageUrl: string): Promise<void> {
+    try {
+      const userId = this.getCurrentUserId();
+      const metadataRef = collection(db, this.COLLECTION_NAME);
+      const q = query(metadataRef, where('userId', '==', userId), where('storageUrl', '==', storageUrl));
+      const querySnapshot = await getDocs(q);
+
+      for (const doc of querySnapshot.docs) {
+        const data = doc.data();
+        if (data.source !== 'user') {
+          continue;
+        }
+
+        try {
+          await deleteObject(ref(storage, data.storagePath));
+        } catch (deleteError) {
+          // Already gone; the metadata still has to go
+          if ((deleteError as { code?: string }).code !== 'storage/object-not-found') {
+            continue;
+          }
+        }
+
+        try {
+          await deleteDoc(doc.ref);
+          cacheService.remove(`thumbnail_metadata_${data.urlHash}`);
+        } catch {
+          // Continue with other deletions even if one fails
+        }
+      }
+
+      if ((await this.getCachedThumbnail(url)) === storageUrl) {
+        cacheService.remove(`thumbnail_${url}`);
+      }
+    } catch {
+      // Cleanup errors are not critical
+    }
+  }
+
   /**
    * Check if the enhanced service is properly configured
    */
@@ -0,0 +1,91 @@
+import type { BookmarkImportProgress } from '../types/bookmark';
+import { getEnvVar } from '../utils/env';
+import type { LinkCheckResult } from '../utils/linkHealth';
+
+const LINK_CHECK_TIMEOUT = 15000;
+const LINK_CHECK_CONCURRENCY = 4;
+
+interface LinkCheckerResponse {
+  statusCode: number | null;
+  finalUrl: string | null;
+}
+
+class LinkCheckService {
+  private checkerUrl: string | undefined;
+
+  constructor() {
+    // Optional: without a checker, bookmarks simply carry no health status
+    this.checkerUrl = getEnvVar('VITE_LINK_CHECKER_URL')?.replace(/\/+$/, '');
+  }
+
+  /**
+   * Whether a link checker is configured
+   */
+  isEnabled(): boolean {
+    return !!this.checkerUrl;
+  }
+
+  /**
+   * Ask the link checker for the status code and final URL of a page.
+   * Throws when the checker itself fails, so that doesn't count against the link.
+   */
+  async checkUrl(url: string): Promise<LinkCheckResult> {
+    if (!this.checkerUrl) {
+      throw new Error('Link checker not configured');
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), LINK_CHECK_TIMEOUT);
+
+    try {
+      const response = await fetch(`${this.checkerUrl}/api/v1/check?url=${encodeURIComponent(url)}`, {
+        headers: { Accept: 'application/json' },
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Link checker failed: HTTP ${response.status}`);
+      }
+
+      const data: LinkCheckerResponse = await response.json();
+      return {
+        statusCode: typeof data.statusCode === 'number' ? data.statusCode : null,
+        finalUrl: typeof data.finalUrl === 'string' ? data.finalUrl : null,
+      };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Check several URLs with a few requests in flight at a time. URLs the checker
+   * could not handle are left out of the result.
+   */
+  async checkUrls(
+    urls: string[],
+    onProgress?: (progress: BookmarkImportProgress) => void
+  ): Promise<Map<string, LinkCheckResult>> {
+    const pending = Array.from(new Set(urls));
+    const total = pending.length;
+    const results = new Map<string, LinkCheckResult>();
+    let processed = 0;
+
+    const worker = async () => {
+      for (let url = pending.shift(); url !== undefined; url = pending.shift()) {
+        try {
+          results.set(url, await this.checkUrl(url));
+        } catch {
+          // Leave the link's previous health untouched
+        }
+        processed++;
+        onProgress?.({ processed, total });
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(LINK_CHECK_CONCURRENCY, total) }, worker));
+
+    return results;
+  }
+}
+
+export const linkCheckService = new LinkCheckService();
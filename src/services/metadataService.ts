@@ -0,0 +1,105 @@
+import type { PageMetadata } from '../types/bookmark';
+import { getEnvVar } from '../utils/env';
+import { parsePageMetadata, resolvePageUrl } from '../utils/pageMetadata';
+import { cacheService } from './cacheService';
+
+// Pages are read through the proxy because browsers block cross-origin page fetches
+const METADATA_TIMEOUT = 8000;
+const METADATA_CACHE_TTL = 30 * 60 * 1000; // 30 minutes
+const MAX_HTML_LENGTH = 1024 * 1024; // Metadata lives in <head>; ignore the rest of huge pages
+
+class MetadataService {
+  private proxyUrl: string | undefined;
+
+  constructor() {
+    // Optional: without a proxy, bookmarks are added without suggestions
+    this.proxyUrl = getEnvVar('VITE_METADATA_PROXY_URL')?.replace(/\/+$/, '');
+  }
+
+  /**
+   * Whether a metadata proxy is configured
+   */
+  isEnabled(): boolean {
+    return !!this.proxyUrl;
+  }
+
+  /**
+   * Fetch a page's raw HTML through the metadata proxy
+   */
+  async fetchPage(url: string, signal?: AbortSignal): Promise<string> {
+    if (!this.proxyUrl) {
+      throw new Error('Metadata proxy not configured');
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), METADATA_TIMEOUT);
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort);
+
+    try {
+      const response = await fetch(`${this.proxyUrl}/api/v1/page?url=${encodeURIComponent(url)}`, {
+        headers: { Accept: 'text/html' },
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Unable to fetch page details: HTTP ${response.status}`);
+      }
+
+      const html = await response.text();
+      return html.slice(0, MAX_HTML_LENGTH);
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  /**
+   * Get the title, description, favicon and suggested thumbnail for a URL.
+   * Results are cached so re-typing the same URL doesn't refetch the page.
+   */
+  async getMetadata(url: string, signal?: AbortSignal): Promise<PageMetadata> {
+    const cacheKey = `metadata_${url}`;
+    const cached = cacheService.getMemory<PageMetadata>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const html = await this.fetchPage(url, signal);
+    const metadata = parsePageMetadata(html, url);
+    cacheService.setMemory(cacheKey, metadata, METADATA_CACHE_TTL);
+    return metadata;
+  }
+
+  /**
+   * Get the thumbnail_url of an oEmbed response, fetched through the metadata proxy.
+   * Resolves to undefined when the endpoint returns no usable thumbnail.
+   */
+  async getOEmbedThumbnail(oEmbedUrl: string, signal?: AbortSignal): Promise<string | undefined> {
+    const cacheKey = `oembed_${oEmbedUrl}`;
+    const cached = cacheService.getMemory<{ thumbnail?: string }>(cacheKey);
+    if (cached) {
+      return cached.thumbnail;
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(await this.fetchPage(oEmbedUrl, signal));
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        data = null; // Not JSON, e.g. an XML endpoint mislabelled as JSON
+      } else {
+        throw error;
+      }
+    }
+
+    const thumbnailUrl = typeof data === 'object' && data !== null && 'thumbnail_url' in data
+      ? data.thumbnail_url
+      : undefined;
+    const thumbnail = typeof thumbnailUrl === 'string' ? resolvePageUrl(thumbnailUrl, oEmbedUrl) : undefined;
+    cacheService.setMemory(cacheKey, { thumbnail }, METADATA_CACHE_TTL);
+    return thumbnail;
+  }
+}
+
+export const metadataService = new MetadataService();
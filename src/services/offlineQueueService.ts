@@ -0,0 +1,151 @@
+/**
+ * Offline Queue Service
+ * Persists bookmark changes made while offline in IndexedDB, together with the
+ * last known copy of the user's bookmarks so reads keep working without a network
+ */
+
+import type { Bookmark, PendingOperation } from '../types/bookmark';
+
+interface BookmarkSnapshot {
+  userId: string;
+  bookmarks: Bookmark[];
+  savedAt: Date;
+}
+
+type QueueListener = () => void;
+
+const DB_NAME = 'better-bookmarks-offline';
+const DB_VERSION = 1;
+const OPERATIONS_STORE = 'operations';
+const SNAPSHOTS_STORE = 'snapshots';
+
+// Wrap an IndexedDB request in a promise
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+class OfflineQueueService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private listeners = new Set<QueueListener>();
+
+  /**
+   * Open the database, creating the object stores on first use
+   */
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('Offline storage is not available in this browser'));
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(OPERATIONS_STORE)) {
+            const store = db.createObjectStore(OPERATIONS_STORE, { keyPath: 'id' });
+            store.createIndex('userId', 'userId');
+          }
+          if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+            db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'userId' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+
+      // Allow a later call to retry if opening failed
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async getStore(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.openDatabase();
+    return db.transaction(name, mode).objectStore(name);
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Whether the browser currently reports a network connection
+   */
+  isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine;
+  }
+
+  /**
+   * Get the queued operations of a user, oldest first
+   */
+  async getOperations(userId: string): Promise<PendingOperation[]> {
+    try {
+      const store = await this.getStore(OPERATIONS_STORE, 'readonly');
+      const operations = await requestToPromise<PendingOperation[]>(store.index('userId').getAll(userId));
+      return operations.sort((a, b) => a.queuedAt.getTime() - b.queuedAt.getTime());
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Add or replace a queued operation
+   */
+  async saveOperation(operation: PendingOperation): Promise<void> {
+    const store = await this.getStore(OPERATIONS_STORE, 'readwrite');
+    await requestToPromise(store.put(operation));
+    this.notify();
+  }
+
+  /**
+   * Remove a queued operation
+   */
+  async removeOperation(id: string): Promise<void> {
+    const store = await this.getStore(OPERATIONS_STORE, 'readwrite');
+    await requestToPromise(store.delete(id));
+    this.notify();
+  }
+
+  /**
+   * Store the last known server copy of a user's bookmarks
+   */
+  async saveSnapshot(userId: string, bookmarks: Bookmark[]): Promise<void> {
+    try {
+      const store = await this.getStore(SNAPSHOTS_STORE, 'readwrite');
+      const snapshot: BookmarkSnapshot = { userId, bookmarks, savedAt: new Date() };
+      await requestToPromise(store.put(snapshot));
+    } catch {
+      // The snapshot is only a fallback for offline reads
+    }
+  }
+
+  /**
+   * Get the last known server copy of a user's bookmarks
+   */
+  async getSnapshot(userId: string): Promise<Bookmark[] | null> {
+    try {
+      const store = await this.getStore(SNAPSHOTS_STORE, 'readonly');
+      const snapshot = await requestToPromise<BookmarkSnapshot | undefined>(store.get(userId));
+      return snapshot?.bookmarks ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Listen for changes to the queue. Returns a function that removes the listener.
+   */
+  subscribe(listener: QueueListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const offlineQueueService = new OfflineQueueService();
@@ -0,0 +1,379 @@
+/**
+ * Thumbnail providers. Each provider knows how to find a preview image for some URLs;
+ * ThumbnailService tries the ones that can handle a URL in priority order.
+ */
+
+import { metadataService } from './metadataService';
+
+interface ThumbnailResult {
+  thumbnail?: string;
+  type: 'video' | 'screenshot' | 'favicon' | 'image'; // image: a preview image published by the site
+  source: string;
+  isVideoThumbnail?: boolean;
+  method?: string;
+}
+
+interface ThumbnailOptions {
+  width?: number;
+  height?: number;
+  format?: 'png' | 'jpeg';
+  quality?: number;
+  timeout?: number;
+}
+
+interface ThumbnailResolveOptions extends ThumbnailOptions {
+  signal: AbortSignal; // Aborted when the provider runs out of time
+}
+
+interface ThumbnailProvider {
+  id: string;
+  priority: number; // Higher runs first
+  timeout: number; // Milliseconds before the provider is abandoned
+  canHandle: (url: string) => boolean;
+  // Resolves to null when the provider has no thumbnail for the URL
+  resolve: (url: string, options: ThumbnailResolveOptions) => Promise<ThumbnailResult | null>;
+}
+
+const DEFAULT_PROVIDER_TIMEOUT = 8000;
+
+// Helper function to read a URL's hostname without "www.", or null for invalid URLs
+const getHostname = (url: string): string | null => {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+};
+
+// Helper function to fetch JSON, or null when the request fails
+const fetchJson = async <T>(url: string, signal?: AbortSignal): Promise<T | null> => {
+  try {
+    const response = await fetch(url, { signal });
+    return response.ok ? ((await response.json()) as T) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Validate if an image URL is accessible
+ */
+export const validateImageUrl = async (imageUrl: string, signal?: AbortSignal): Promise<boolean> => {
+  try {
+    const response = await fetch(imageUrl, { method: 'HEAD', signal });
+    const contentType = response.headers.get('content-type');
+    return response.ok && (contentType ? contentType.startsWith('image/') : false);
+  } catch {
+    return false;
+  }
+};
+
+// Helper function to return an image as a result if it can be loaded
+const validatedResult = async (
+  thumbnail: string,
+  signal: AbortSignal,
+  result: Omit<ThumbnailResult, 'thumbnail'>
+): Promise<ThumbnailResult | null> => ((await validateImageUrl(thumbnail, signal)) ? { thumbnail, ...result } : null);
+
+const extractYouTubeVideoId = (url: string): string | null => {
+  const patterns = [
+    /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([^&\n?#]+)/,
+    /youtube\.com\/v\/([^&\n?#]+)/,
+    /youtube\.com\/shorts\/([^&\n?#]+)/
+  ];
+
+  for (const pattern of patterns) {
+    const match = url.match(pattern);
+    if (match) return match[1];
+  }
+  return null;
+};
+
+const extractVimeoVideoId = (url: string): string | null => {
+  const match = url.match(/vimeo\.com\/(?:video\/)?(\d+)/);
+  return match ? match[1] : null;
+};
+
+const extractDailymotionVideoId = (url: string): string | null => {
+  const match = url.match(/dailymotion\.com\/video\/([^_?]+)/);
+  return match ? match[1] : null;
+};
+
+const extractTwitchChannel = (url: string): string | null => {
+  const match = url.match(/twitch\.tv\/([^/?]+)/);
+  return match ? match[1] : null;
+};
+
+/**
+ * Extract video thumbnail URL for supported platforms
+ */
+const extractVideoThumbnail = (url: string): { thumbnail?: string; platform?: string } => {
+  const domain = getHostname(url) || '';
+
+  if (domain.includes('youtube.com') || domain.includes('youtu.be')) {
+    const videoId = extractYouTubeVideoId(url);
+    if (videoId) {
+      return { thumbnail: `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg`, platform: 'youtube' };
+    }
+  } else if (domain.includes('vimeo.com')) {
+    const videoId = extractVimeoVideoId(url);
+    if (videoId) {
+      return { thumbnail: `https://vumbnail.com/${videoId}.jpg`, platform: 'vimeo' };
+    }
+  } else if (domain.includes('dailymotion.com')) {
+    const videoId = extractDailymotionVideoId(url);
+    if (videoId) {
+      return { thumbnail: `https://www.dailymotion.com/thumbnail/video/${videoId}`, platform: 'dailymotion' };
+    }
+  }
+
+  return {};
+};
+
+export const videoProvider: ThumbnailProvider = {
+  id: 'video',
+  priority: 70,
+  timeout: DEFAULT_PROVIDER_TIMEOUT,
+  canHandle: (url) => !!extractVideoThumbnail(url).thumbnail,
+  resolve: async (url, { signal }) => {
+    const { thumbnail, platform } = extractVideoThumbnail(url);
+    return thumbnail ? validatedResult(thumbnail, signal, { type: 'video', source: platform || 'unknown' }) : null;
+  },
+};
+
+/**
+ * Get Twitch user profile picture, trying public avatar services before a
+ * constructed CDN URL that often works
+ */
+const getTwitchProfilePicture = async (channelName: string, signal: AbortSignal): Promise<string | null> => {
+  try {
+    const response = await fetch(`https://decapi.me/twitch/avatar/${channelName}`, { signal });
+    if (response.ok) {
+      const avatarUrl = (await response.text()).trim();
+      // Check if it's a valid image URL (not an error message)
+      if (avatarUrl.startsWith('http') && !avatarUrl.includes('error') && await validateImageUrl(avatarUrl, signal)) {
+        return avatarUrl;
+      }
+    }
+  } catch {
+    // Continue to next service
+  }
+
+  const users = await fetchJson<Array<{ logo?: string }>>(`https://api.ivr.fi/v2/twitch/user?login=${channelName}`, signal);
+  const logo = users?.[0]?.logo;
+  if (logo && await validateImageUrl(logo, signal)) {
+    return logo;
+  }
+
+  const constructedUrl = `https://static-cdn.jtvnw.net/jtv_user_pictures/${channelName}-profile_image-300x300.png`;
+  return (await validateImageUrl(constructedUrl, signal)) ? constructedUrl : null;
+};
+
+export const twitchProvider: ThumbnailProvider = {
+  id: 'twitch',
+  priority: 80,
+  timeout: 15000,
+  canHandle: (url) => (getHostname(url) || '').includes('twitch.tv') && !!extractTwitchChannel(url),
+  resolve: async (url, { signal }) => {
+    const thumbnail = await getTwitchProfilePicture(extractTwitchChannel(url)!, signal);
+    return thumbnail
+      ? { thumbnail, type: 'video', source: 'twitch-profile', isVideoThumbnail: true, method: 'profile-picture' }
+      : null;
+  },
+};
+
+// First path segments on github.com that are site pages rather than repository owners
+const GITHUB_RESERVED_PATHS = new Set([
+  'about', 'collections', 'enterprise', 'explore', 'features', 'login', 'marketplace', 'notifications',
+  'orgs', 'pricing', 'pulls', 'issues', 'search', 'settings', 'sponsors', 'topics', 'trending',
+]);
+
+// Helper function to read "owner/repo" from a GitHub repository URL
+const extractGitHubRepo = (url: string): string | null => {
+  if (getHostname(url) !== 'github.com') {
+    return null;
+  }
+  const [owner, repo] = new URL(url).pathname.split('/').filter(Boolean);
+  return owner && repo && !GITHUB_RESERVED_PATHS.has(owner.toLowerCase())
+    ? `${owner}/${repo.replace(/\.git$/, '')}`
+    : null;
+};
+
+export const githubProvider: ThumbnailProvider = {
+  id: 'github',
+  priority: 200,
+  timeout: DEFAULT_PROVIDER_TIMEOUT,
+  canHandle: (url) => !!extractGitHubRepo(url),
+  // The social preview card GitHub shows when a repository link is shared
+  resolve: (url, { signal }) =>
+    validatedResult(`https://opengraph.githubassets.com/1/${extractGitHubRepo(url)}`, signal, {
+      type: 'image',
+      source: 'github',
+      method: 'social-preview',
+    }),
+};
+
+interface OEmbedResponse {
+  thumbnail_url?: string;
+}
+
+// Helper function to build a provider that reads thumbnail_url from a site's oEmbed endpoint
+const createOEmbedProvider = (id: string, pattern: RegExp, endpoint: string): ThumbnailProvider => ({
+  id,
+  priority: 200,
+  timeout: DEFAULT_PROVIDER_TIMEOUT,
+  canHandle: (url) => pattern.test(url),
+  resolve: async (url, { signal }) => {
+    const data = await fetchJson<OEmbedResponse>(`${endpoint}${encodeURIComponent(url)}`, signal);
+    return data?.thumbnail_url
+      ? validatedResult(data.thumbnail_url, signal, { type: 'image', source: id, method: 'oembed' })
+      : null;
+  },
+});
+
+export const spotifyProvider = createOEmbedProvider(
+  'spotify',
+  /^https?:\/\/open\.spotify\.com\/(?:intl-[a-z-]+\/)?(?:track|album|playlist|episode|show|artist)\/\w+/i,
+  'https://open.spotify.com/oembed?url='
+);
+
+export const soundcloudProvider = createOEmbedProvider(
+  'soundcloud',
+  /^https?:\/\/(?:www\.|m\.)?soundcloud\.com\/[^/?#]+/i,
+  'https://soundcloud.com/oembed?format=json&url='
+);
+
+interface RedditListing {
+  data?: {
+    children?: Array<{
+      data?: {
+        thumbnail?: string;
+        preview?: { images?: Array<{ source?: { url?: string } }> };
+      };
+    }>;
+  };
+}
+
+// Helper function to read a Reddit post id from a post or short link
+const extractRedditPostId = (url: string): string | null => {
+  const match = url.match(/^https?:\/\/(?:(?:www|old|new|np)\.)?reddit\.com\/r\/[^/]+\/comments\/(\w+)/i)
+    || url.match(/^https?:\/\/redd\.it\/(\w+)/i);
+  return match ? match[1] : null;
+};
+
+export const redditProvider: ThumbnailProvider = {
+  id: 'reddit',
+  priority: 200,
+  timeout: DEFAULT_PROVIDER_TIMEOUT,
+  canHandle: (url) => !!extractRedditPostId(url),
+  resolve: async (url, { signal }) => {
+    // raw_json=1 returns URLs without HTML entities
+    const listings = await fetchJson<RedditListing[]>(
+      `https://www.reddit.com/comments/${extractRedditPostId(url)}.json?raw_json=1`,
+      signal
+    );
+    const post = listings?.[0]?.data?.children?.[0]?.data;
+    // The preview is full size; the thumbnail is a small crop, or a keyword such as "self"
+    const image = post?.preview?.images?.[0]?.source?.url
+      || (post?.thumbnail?.startsWith('http') ? post.thumbnail : undefined);
+    return image ? validatedResult(image, signal, { type: 'image', source: 'reddit', method: 'post-preview' }) : null;
+  },
+};
+
+// Helper function to check that an image is a remote http(s) URL, not an inline data URL
+const isRemoteImage = (thumbnail: string | undefined): thumbnail is string => !!thumbnail && /^https?:\/\//i.test(thumbnail);
+
+/**
+ * The preview image a page declares for sharing: its OpenGraph, Twitter card or JSON-LD
+ * image, or else the thumbnail from its oEmbed endpoint. Pages are read through the
+ * metadata proxy, so the provider is skipped when none is configured.
+ */
+export const pageImageProvider: ThumbnailProvider = {
+  id: 'opengraph',
+  priority: 150,
+  timeout: 15000,
+  canHandle: (url) => metadataService.isEnabled() && /^https?:\/\//i.test(url),
+  resolve: async (url, { signal }) => {
+    const metadata = await metadataService.getMetadata(url, signal);
+
+    if (isRemoteImage(metadata.thumbnail)) {
+      const result = await validatedResult(metadata.thumbnail, signal, {
+        type: 'image',
+        source: 'opengraph',
+        method: 'meta-tags',
+      });
+      if (result) {
+        return result;
+      }
+    }
+
+    if (metadata.oEmbedUrl) {
+      const thumbnail = await metadataService.getOEmbedThumbnail(metadata.oEmbedUrl, signal);
+      if (isRemoteImage(thumbnail)) {
+        return validatedResult(thumbnail, signal, { type: 'image', source: 'oembed', method: 'oembed' });
+      }
+    }
+
+    return null;
+  },
+};
+
+// arXiv has no per-paper image, so papers get the card image arXiv shares links with
+export const arxivProvider: ThumbnailProvider = {
+  id: 'arxiv',
+  priority: 60,
+  timeout: DEFAULT_PROVIDER_TIMEOUT,
+  canHandle: (url) => /^https?:\/\/(?:www\.|export\.)?arxiv\.org\/(?:abs|pdf)\/[\w.-]+/i.test(url),
+  resolve: (_url, { signal }) =>
+    validatedResult('https://arxiv.org/static/browse/0.3.4/images/arxiv-logo-fb.png', signal, {
+      type: 'image',
+      source: 'arxiv',
+      method: 'site-image',
+    }),
+};
+
+// Stack Exchange sites outside *.stackexchange.com, by hostname
+const STACK_EXCHANGE_SITES: Record<string, string> = {
+  'stackoverflow.com': 'stackoverflow',
+  'superuser.com': 'superuser',
+  'serverfault.com': 'serverfault',
+  'askubuntu.com': 'askubuntu',
+  'mathoverflow.net': 'mathoverflow',
+};
+
+// Helper function to get the Stack Exchange site a question URL belongs to
+const getStackExchangeSite = (url: string): string | null => {
+  const hostname = getHostname(url);
+  if (!hostname || !/\/questions\/\d+/.test(url)) {
+    return null;
+  }
+  return STACK_EXCHANGE_SITES[hostname] || hostname.match(/^([\w-]+)\.stackexchange\.com$/)?.[1] || null;
+};
+
+// Questions have no image of their own; the site's icon beats a favicon
+export const stackExchangeProvider: ThumbnailProvider = {
+  id: 'stackexchange',
+  priority: 60,
+  timeout: DEFAULT_PROVIDER_TIMEOUT,
+  canHandle: (url) => !!getStackExchangeSite(url),
+  resolve: (url, { signal }) =>
+    validatedResult(`https://cdn.sstatic.net/Sites/${getStackExchangeSite(url)}/Img/apple-touch-icon@2.png`, signal, {
+      type: 'image',
+      source: 'stackexchange',
+      method: 'site-image',
+    }),
+};
+
+export const faviconProvider: ThumbnailProvider = {
+  id: 'favicon',
+  priority: 0,
+  timeout: 5000,
+  canHandle: (url) => !!getHostname(url),
+  resolve: (url, { signal }) =>
+    validatedResult(`https://www.google.com/s2/favicons?domain=${new URL(url).hostname}&sz=64`, signal, {
+      type: 'favicon',
+      source: 'google-favicon',
+    }),
+};
+
+export type { ThumbnailResult, ThumbnailOptions, ThumbnailResolveOptions, ThumbnailProvider };
@@ -1,11 +1,3 @@
-interface ThumbnailResult {
-  thumbnail?: string;
-  type: 'video' | 'screenshot' | 'favicon';
-  source: string;
-  isVideoThumbnail?: boolean;
-  method?: string;
-}
-
 interface ApiThumbnailResponse {
   thumbnailUrl: string;
   isVideoThumbnail: boolean;
@@ -14,14 +6,6 @@ interface ApiThumbnailResponse {
   method: string;
 }
 
-interface ThumbnailOptions {
-  width?: number;
-  height?: number;
-  format?: 'png' | 'jpeg';
-  quality?: number;
-  timeout?: number;
-}
-
 interface ScreenshotApiError {
   error: string;
   message: string;
@@ -30,186 +14,194 @@ interface ScreenshotApiError {
   timestamp: string;
 }
 
-import { getEnvVarWithFallback } from '../utils/env';
+interface ThumbnailProviderMetrics {
+  attempts: number;
+  successes: number;
+  misses: number; // Finished without finding a thumbnail
+  failures: number; // Threw an error
+  timeouts: number;
+  totalDuration: number; // Milliseconds spent across all attempts
+  lastError?: string;
+}
+
+interface ThumbnailProviderConfig {
+  order?: string[]; // Provider ids to try first, in this order; the rest follow by priority
+  disabled?: string[];
+}
+
+import { getEnvVar, getEnvVarWithFallback } from '../utils/env';
+import {
+  arxivProvider,
+  faviconProvider,
+  githubProvider,
+  pageImageProvider,
+  redditProvider,
+  soundcloudProvider,
+  spotifyProvider,
+  stackExchangeProvider,
+  twitchProvider,
+  videoProvider,
+} from './thumbnailProviders';
+import type { ThumbnailOptions, ThumbnailProvider, ThumbnailResult } from './thumbnailProviders';
+
+// Helper function to read the provider order from VITE_THUMBNAIL_PROVIDERS,
+// e.g. "github,screenshot,-reddit" (a leading "-" disables a provider)
+const parseProviderConfig = (value: string | undefined): ThumbnailProviderConfig => {
+  const ids = (value || '').split(',').map((id) => id.trim()).filter(Boolean);
+  return {
+    order: ids.filter((id) => !id.startsWith('-')),
+    disabled: ids.filter((id) => id.startsWith('-')).map((id) => id.slice(1)),
+  };
+};
 
 class ThumbnailService {
   private screenshotApiUrl: string;
   private apiKey: string;
+  private providers: ThumbnailProvider[];
+  private providerOrder: string[] = [];
+  private disabledProviders = new Set<string>();
+  private metrics = new Map<string, ThumbnailProviderMetrics>();
 
   constructor() {
     // These should be set via environment variables
     this.screenshotApiUrl = getEnvVarWithFallback('VITE_SCREENSHOT_API_URL', 'http://localhost:8080');
     this.apiKey = getEnvVarWithFallback('VITE_SCREENSHOT_API_KEY', '');
+
+    // The screenshot API detects video thumbnails itself, so it runs before the local video
+    // providers; sites that publish a good preview image are asked before paying for a screenshot
+    this.providers = [
+      githubProvider,
+      spotifyProvider,
+      soundcloudProvider,
+      redditProvider,
+      pageImageProvider,
+      {
+        id: 'screenshot',
+        priority: 100,
+        timeout: 60000, // Covers the retries
+        canHandle: () => !!this.apiKey,
+        resolve: (url, { signal, ...options }) => this.takeScreenshotWithRetry(url, options, 2, signal),
+      },
+      twitchProvider,
+      videoProvider,
+      arxivProvider,
+      stackExchangeProvider,
+      faviconProvider,
+    ];
+    this.configureProviders(parseProviderConfig(getEnvVar('VITE_THUMBNAIL_PROVIDERS')));
   }
 
   /**
-   * Extract video thumbnail URL for supported platforms
+   * Add a thumbnail provider. It is tried in priority order unless the configured
+   * order lists it.
    */
-  private extractVideoThumbnail(url: string): { thumbnail?: string; platform?: string } {
-    try {
-      const urlObj = new URL(url);
-      const domain = urlObj.hostname.toLowerCase();
-
-      // YouTube video detection
-      if (domain.includes('youtube.com') || domain.includes('youtu.be')) {
-        const videoId = this.extractYouTubeVideoId(url);
-        if (videoId) {
-          return {
-            thumbnail: `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg`,
-            platform: 'youtube'
-          };
-        }
-      }
-      
-      // Vimeo video detection
-      else if (domain.includes('vimeo.com')) {
-        const videoId = this.extractVimeoVideoId(url);
-        if (videoId) {
-          return {
-            thumbnail: `https://vumbnail.com/${videoId}.jpg`,
-            platform: 'vimeo'
-          };
-        }
-      }
-      
-      // Dailymotion video detection
-      else if (domain.includes('dailymotion.com')) {
-        const videoId = this.extractDailymotionVideoId(url);
-        if (videoId) {
-          return {
-            thumbnail: `https://www.dailymotion.com/thumbnail/video/${videoId}`,
-            platform: 'dailymotion'
-          };
-        }
-      }
-      
-      // Twitch video/stream detection - handled separately in generateThumbnail due to async API call
-      else if (domain.includes('twitch.tv')) {
-        // Return empty object to indicate Twitch URL detected but needs async handling
-        return { platform: 'twitch' };
-      }
-
-      return {};
-    } catch (error) {
-      return {};
+  registerProvider(provider: ThumbnailProvider): void {
+    if (this.providers.some((item) => item.id === provider.id)) {
+      throw new Error(`A thumbnail provider with id "${provider.id}" is already registered`);
     }
+    this.providers.push(provider);
   }
 
-  private extractYouTubeVideoId(url: string): string | null {
-    const patterns = [
-      /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([^&\n?#]+)/,
-      /youtube\.com\/v\/([^&\n?#]+)/,
-      /youtube\.com\/shorts\/([^&\n?#]+)/
-    ];
-    
-    for (const pattern of patterns) {
-      const match = url.match(pattern);
-      if (match) return match[1];
-    }
-    return null;
+  /**
+   * Remove a thumbnail provider
+   */
+  unregisterProvider(id: string): void {
+    this.providers = this.providers.filter((provider) => provider.id !== id);
   }
 
-  private extractVimeoVideoId(url: string): string | null {
-    const match = url.match(/vimeo\.com\/(?:video\/)?(\d+)/);
-    return match ? match[1] : null;
+  /**
+   * Change which providers run first and which are skipped. Replaces the
+   * configuration read from VITE_THUMBNAIL_PROVIDERS.
+   */
+  configureProviders(config: ThumbnailProviderConfig): void {
+    this.providerOrder = config.order || [];
+    this.disabledProviders = new Set(config.disabled || []);
   }
 
-  private extractDailymotionVideoId(url: string): string | null {
-    const match = url.match(/dailymotion\.com\/video\/([^_?]+)/);
-    return match ? match[1] : null;
-  }
+  /**
+   * Get the enabled providers in the order they are tried
+   */
+  getProviders(): ThumbnailProvider[] {
+    const rank = (provider: ThumbnailProvider) => {
+      const index = this.providerOrder.indexOf(provider.id);
+      return index === -1 ? this.providerOrder.length : index;
+    };
 
-  private extractTwitchChannel(url: string): string | null {
-    const match = url.match(/twitch\.tv\/([^/?]+)/);
-    return match ? match[1] : null;
+    return this.providers
+      .filter((provider) => !this.disabledProviders.has(provider.id))
+      .sort((a, b) => rank(a) - rank(b) || b.priority - a.priority);
   }
 
   /**
-   * Get Twitch user profile picture using Twitch API
+   * Get success and failure counts per provider since the page was loaded
    */
-  private async getTwitchProfilePicture(channelName: string): Promise<string | null> {
-    try {
-      // Try multiple services for getting Twitch profile pictures
-      const services = [
-        `https://decapi.me/twitch/avatar/${channelName}`,
-        `https://api.ivr.fi/v2/twitch/user?login=${channelName}`,
-        `https://twitchtracker.com/api/channels/summary/${channelName}`
-      ];
-      
-      // Try decapi.me first
-      try {
-        const response = await fetch(services[0]);
-        if (response.ok) {
-          const avatarUrl = await response.text();
-          // Check if it's a valid image URL (not an error message)
-          if (avatarUrl.startsWith('http') && !avatarUrl.includes('error')) {
-            const isValid = await this.validateImageUrl(avatarUrl.trim());
-            if (isValid) {
-              return avatarUrl.trim();
-            }
-          }
-        }
-      } catch (error) {
-        // Continue to next service
-      }
-      
-      // Try ivr.fi API
-      try {
-        const response = await fetch(services[1]);
-        if (response.ok) {
-          const data = await response.json();
-          if (data && data.length > 0 && data[0].logo) {
-            const isValid = await this.validateImageUrl(data[0].logo);
-            if (isValid) {
-              return data[0].logo;
-            }
-          }
-        }
-      } catch (error) {
-        // Continue to next approach
-      }
-      
-      // Fallback: Use a constructed URL pattern that often works
-      // Twitch profile pictures follow a pattern, though this is not guaranteed
-      const constructedUrl = `https://static-cdn.jtvnw.net/jtv_user_pictures/${channelName}-profile_image-300x300.png`;
-      try {
-        const isValid = await this.validateImageUrl(constructedUrl);
-        if (isValid) {
-          return constructedUrl;
-        }
-      } catch (error) {
-        // Continue to final fallback
-      }
-      
-      return null;
-    } catch (error) {
-      return null;
-    }
+  getProviderMetrics(): Record<string, ThumbnailProviderMetrics> {
+    return Object.fromEntries(
+      Array.from(this.metrics.entries()).map(([id, metrics]) => [id, { ...metrics }])
+    );
   }
 
   /**
-   * Get favicon URL for a domain
+   * Reset the provider metrics
    */
-  private getFaviconUrl(url: string): string {
-    try {
-      const urlObj = new URL(url);
-      const domain = urlObj.hostname;
-      return `https://www.google.com/s2/favicons?domain=${domain}&sz=64`;
-    } catch (error) {
-      return '';
+  resetProviderMetrics(): void {
+    this.metrics.clear();
+  }
+
+  private getMetrics(id: string): ThumbnailProviderMetrics {
+    let metrics = this.metrics.get(id);
+    if (!metrics) {
+      metrics = { attempts: 0, successes: 0, misses: 0, failures: 0, timeouts: 0, totalDuration: 0 };
+      this.metrics.set(id, metrics);
     }
+    return metrics;
   }
 
   /**
-   * Validate if an image URL is accessible
+   * Run one provider within its timeout, recording the outcome. Errors and
+   * timeouts resolve to null so the next provider can be tried.
    */
-  private async validateImageUrl(imageUrl: string): Promise<boolean> {
+  private async runProvider(
+    provider: ThumbnailProvider,
+    url: string,
+    options: ThumbnailOptions
+  ): Promise<ThumbnailResult | null> {
+    const metrics = this.getMetrics(provider.id);
+    const controller = new AbortController();
+    const startedAt = Date.now();
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    let timedOut = false;
+    metrics.attempts++;
+
     try {
-      const response = await fetch(imageUrl, { method: 'HEAD' });
-      const contentType = response.headers.get('content-type');
-      return response.ok && (contentType ? contentType.startsWith('image/') : false);
+      const result = await Promise.race([
+        provider.resolve(url, { ...options, signal: controller.signal }),
+        new Promise<never>((_, reject) => {
+          timeoutId = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+            reject(new Error(`Timed out after ${provider.timeout}ms`));
+          }, provider.timeout);
+        }),
+      ]);
+
+      if (result?.thumbnail) {
+        metrics.successes++;
+        return result;
+      }
+      metrics.misses++;
+      return null;
     } catch (error) {
-      return false;
+      if (timedOut) {
+        metrics.timeouts++;
+      } else {
+        metrics.failures++;
+      }
+      metrics.lastError = error instanceof Error ? error.message : String(error);
+      return null;
+    } finally {
+      clearTimeout(timeoutId);
+      metrics.totalDuration += Date.now() - startedAt;
     }
   }
 
@@ -219,19 +211,20 @@ class ThumbnailService {
   private async takeScreenshotWithRetry(
     url: string,
     options: ThumbnailOptions = {},
-    retries: number = 2
+    retries: number = 2,
+    signal?: AbortSignal
   ): Promise<ThumbnailResult> {
     try {
-      return await this.takeScreenshot(url, options);
+      return await this.takeScreenshot(url, options, signal);
     } catch (error: any) {
       const isRetryable = error.message.includes('service temporarily unavailable') ||
                          error.message.includes('loading timeout');
 
-      if (isRetryable && retries > 0) {
+      if (isRetryable && retries > 0 && !signal?.aborted) {
         // Wait before retry with exponential backoff (2s, 4s)
         const waitTime = (3 - retries) * 2000;
         await new Promise(resolve => setTimeout(resolve, waitTime));
-        return this.takeScreenshotWithRetry(url, options, retries - 1);
+        return this.takeScreenshotWithRetry(url, options, retries - 1, signal);
       }
 
       throw error;
@@ -241,7 +234,11 @@ class ThumbnailService {
   /**
    * Take a screenshot using the screenshot API with intelligent video thumbnail detection
    */
-  private async takeScreenshot(url: string, options: ThumbnailOptions = {}): Promise<ThumbnailResult> {
+  private async takeScreenshot(
+    url: string,
+    options: ThumbnailOptions = {},
+    signal?: AbortSignal
+  ): Promise<ThumbnailResult> {
     const {
       width = 400,
       height = 300,
@@ -274,6 +271,7 @@ class ThumbnailService {
           bannerTimeout: 5000,
           detectVideoThumbnails: true, // Enable intelligent video thumbnail detection
         }),
+        signal,
       });
 
       if (!response.ok) {
@@ -341,84 +339,32 @@ class ThumbnailService {
   }
 
   /**
-   * Generate thumbnail for a bookmark URL with fallback strategy
+   * Generate thumbnail for a bookmark URL by trying each provider that can handle it
+   * in turn, falling back to no thumbnail when none finds one
    */
   async generateThumbnail(url: string, options: ThumbnailOptions = {}): Promise<ThumbnailResult> {
-    try {
-      // Step 1: Use the new API with intelligent video thumbnail detection first (with retry)
+    for (const provider of this.getProviders()) {
+      let canHandle = false;
       try {
-        const apiResult = await this.takeScreenshotWithRetry(url, options);
-        return apiResult;
-      } catch (screenshotError) {
-        // API screenshot failed, continue with fallback methods
+        canHandle = provider.canHandle(url);
+      } catch {
+        // A provider that cannot parse the URL does not handle it
       }
-
-      // Step 2: Handle Twitch URLs specifically (requires async call)
-      try {
-        const urlObj = new URL(url);
-        const domain = urlObj.hostname.toLowerCase();
-        
-        if (domain.includes('twitch.tv')) {
-          const channelName = this.extractTwitchChannel(url);
-          if (channelName) {
-            const twitchProfilePicture = await this.getTwitchProfilePicture(channelName);
-            if (twitchProfilePicture) {
-              return {
-                thumbnail: twitchProfilePicture,
-                type: 'video',
-                source: 'twitch-profile',
-                isVideoThumbnail: true,
-                method: 'profile-picture'
-              };
-            }
-          }
-        }
-      } catch (twitchError) {
-        // Twitch API failed, continue with other fallback methods
+      if (!canHandle) {
+        continue;
       }
 
-      // Step 3: Try to extract video thumbnail using local methods as fallback
-      const videoResult = this.extractVideoThumbnail(url);
-      if (videoResult.thumbnail) {
-        const isValid = await this.validateImageUrl(videoResult.thumbnail);
-        if (isValid) {
-          return {
-            thumbnail: videoResult.thumbnail,
-            type: 'video',
-            source: videoResult.platform || 'unknown'
-          };
-        }
+      const result = await this.runProvider(provider, url, options);
+      if (result) {
+        return result;
       }
-
-      // Step 4: Fallback to favicon
-      const faviconUrl = this.getFaviconUrl(url);
-      if (faviconUrl) {
-        const isValid = await this.validateImageUrl(faviconUrl);
-        if (isValid) {
-          return {
-            thumbnail: faviconUrl,
-            type: 'favicon',
-            source: 'google-favicon'
-          };
-        }
-      }
-
-      // Step 5: No thumbnail available
-      return {
-        type: 'favicon',
-        source: 'none'
-      };
-
-    } catch (error) {
-      
-      // Final fallback to favicon
-      const faviconUrl = this.getFaviconUrl(url);
-      return {
-        thumbnail: faviconUrl || undefined,
-        type: 'favicon',
-        source: 'fallback'
-      };
     }
+
+    // No thumbnail available
+    return {
+      type: 'favicon',
+      source: 'none'
+    };
   }
 
   /**
@@ -454,4 +400,4 @@ class ThumbnailService {
 }
 
 export const thumbnailService = new ThumbnailService();
-export type { ThumbnailResult, ThumbnailOptions };
+export type { ThumbnailResult, ThumbnailOptions, ThumbnailProvider, ThumbnailProviderConfig, ThumbnailProviderMetrics };
@@ -14,8 +14,84 @@ export interface Bookmark {
   tags: string[];
   favicon?: string;
   thumbnail?: string;
+  thumbnailSource?: 'user'; // Set when the user uploaded the thumbnail; missing for generated ones
+  collectionId?: string | null; // Collection the bookmark is filed under
+  health?: LinkHealth; // Result of the last link check; missing until the link is checked
+  readState?: ReadState; // Reading list status; missing until the bookmark is saved for later
+  favorite?: boolean; // Starred
+  pinned?: boolean; // Shown in the Pinned strip above the bookmarks
+  pinOrder?: number; // Position in the Pinned strip
+  visitCount?: number; // Times the bookmark was opened from the app
+  lastVisitedAt?: Date; // When the bookmark was last opened
   createdAt: Date;
   updatedAt: Date;
+  deletedAt?: Date; // Set while the bookmark is in the trash
+}
+
+// ok: reachable; redirected: reachable at another URL; broken: gone or failing repeatedly;
+// error: the last check failed but the link is not considered broken yet
+export type LinkHealthStatus = 'ok' | 'redirected' | 'broken' | 'error';
+
+export interface LinkHealth {
+  status: LinkHealthStatus;
+  statusCode: number | null; // null when the page could not be reached at all
+  redirectUrl?: string; // Final URL after redirects, when it differs from the bookmark URL
+  checkedAt: Date;
+  consecutiveFailures: number;
+}
+
+// unread: saved for later; reading: opened but not finished; read: finished;
+// archived: finished and kept out of the way
+export type ReadStatus = 'unread' | 'reading' | 'read' | 'archived';
+
+export interface ReadState {
+  status: ReadStatus;
+  queuedAt: Date; // When the bookmark was (last) saved for later
+  startedAt?: Date; // When reading started
+  readAt?: Date;
+  archivedAt?: Date;
+  updatedAt: Date; // Last status change
+}
+
+export type ReadStatusCounts = Record<ReadStatus, number>;
+
+export interface LinkCheckReport {
+  checked: number;
+  broken: number;
+  redirected: number;
+}
+
+// Bookmarks whose URLs canonicalize to the same address
+export interface DuplicateGroup {
+  canonicalUrl: string;
+  bookmarks: Bookmark[]; // Oldest first
+}
+
+// What merging a duplicate group changed, so the merge can be undone
+export interface DuplicateMerge {
+  bookmark: Bookmark; // The kept bookmark after the merge
+  previous: Bookmark; // The kept bookmark before the merge
+  duplicateIds: string[]; // Duplicates moved to the trash
+}
+
+// Bookmark fields recorded in the edit history
+export type RevisionField = 'title' | 'url' | 'description' | 'tags' | 'collectionId';
+
+export type RevisionValue = string | string[] | null;
+
+export interface RevisionChange {
+  field: RevisionField;
+  oldValue: RevisionValue;
+  newValue: RevisionValue;
+}
+
+// One edit of a bookmark, stored in the bookmark's revisions subcollection
+export interface BookmarkRevision {
+  id: string;
+  bookmarkId: string;
+  userId: string; // Who made the edit
+  changes: RevisionChange[]; // Only the fields that changed
+  createdAt: Date;
 }
 
 export interface BookmarkFormData {
@@ -23,15 +99,201 @@ export interface BookmarkFormData {
   url: string;
   description?: string;
   tags: string[];
+  collectionId?: string | null;
+  favicon?: string; // Suggested by page metadata; generated when missing
+  thumbnail?: string;
+  customThumbnail?: string | null; // Cropped image (data URL) to upload, or null to go back to a generated thumbnail
+}
+
+export interface PageMetadata {
+  title?: string;
+  description?: string;
+  siteName?: string;
+  favicon?: string; // Absolute URL
+  thumbnail?: string; // Absolute URL of the suggested preview image
+  oEmbedUrl?: string; // Absolute URL of the page's JSON oEmbed endpoint, if it advertises one
+}
+
+export interface Collection {
+  id: string;
+  userId: string; // Owner of the collection
+  name: string;
+  parentId: string | null; // null for top-level collections
+  icon?: string;
+  sortOrder: number;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
-export type SortOption = 'newest' | 'oldest' | 'title-asc' | 'title-desc';
+export interface CollectionFormData {
+  name: string;
+  parentId: string | null;
+  icon?: string;
+}
+
+export interface CollectionTreeNode {
+  collection: Collection;
+  children: CollectionTreeNode[];
+  depth: number;
+}
+
+export interface TagTreeNode {
+  name: string; // Full tag, e.g. "lang/rust"
+  label: string; // Last segment, e.g. "rust"
+  count: number; // Bookmarks tagged with this tag or any tag nested below it
+  isTag: boolean; // False for namespaces that only exist as a prefix of other tags
+  children: TagTreeNode[];
+  depth: number;
+}
+
+export interface BookmarkImportEntry {
+  title: string;
+  url: string;
+  description?: string;
+  tags: string[];
+  createdAt?: Date;
+  folder?: string; // Folder in the source service, filed into the collection of the same name
+  readStatus?: ReadStatus; // Unread or archived in a read-later service
+  favorite?: boolean;
+}
+
+// How an import entry would be handled, shown before anything is written
+export type BookmarkImportRowStatus = 'new' | 'duplicate' | 'invalid';
+
+export interface BookmarkImportPreviewRow {
+  entry: BookmarkImportEntry;
+  data?: BookmarkFormData; // The entry after validation, as it would be saved
+  status: BookmarkImportRowStatus;
+  errors: string[]; // Why the entry is invalid, or which of its tags will be dropped
+}
+
+export interface BookmarkImportProgress {
+  processed: number;
+  total: number;
+}
+
+export interface BookmarkImportReport {
+  imported: number;
+  skipped: number; // Already bookmarked or repeated within the import
+  invalid: number;
+  invalidEntries: Array<{ title: string; url: string; reason: string }>;
+}
+
+export interface BookmarkBackup {
+  format: 'better-bookmarks-backup';
+  schemaVersion: number;
+  exportedAt: Date;
+  bookmarks: Omit<Bookmark, 'userId'>[];
+  collections: Omit<Collection, 'userId'>[];
+  tags: Array<{ name: string; usageCount: number; color?: string }>;
+}
+
+export type BackupRestoreMode = 'merge' | 'replace';
+
+export interface BackupRestorePreview {
+  bookmarks: number;
+  collections: number;
+  tags: number;
+  newBookmarks: number; // URLs not in the library yet
+  existingBookmarks: number; // URLs that merge would update in place
+  currentBookmarks: number; // Bookmarks that replace would delete
+}
+
+export interface BackupRestoreReport {
+  created: number;
+  updated: number;
+  deleted: number;
+  invalid: number;
+  collectionsCreated: number;
+}
+
+export type PendingOperationType = 'create' | 'update' | 'delete';
+
+export type PendingOperationStatus = 'pending' | 'conflict' | 'failed';
+
+// A bookmark change made while offline, waiting to be written to Firestore
+export interface PendingOperation {
+  id: string;
+  userId: string;
+  type: PendingOperationType;
+  bookmarkId: string; // Temporary "local-" id for bookmarks created offline
+  title: string; // Shown in the pending sync list
+  data?: BookmarkFormData; // Sanitized form data for creates and updates
+  baseUpdatedAt?: Date; // updatedAt of the bookmark the change was made against, for conflict detection
+  queuedAt: Date;
+  status: PendingOperationStatus;
+  error?: string;
+}
+
+// Parsed search query (see utils/searchQuery.ts for the syntax)
+export type SearchQueryNode =
+  | { type: 'and'; children: SearchQueryNode[] }
+  | { type: 'or'; children: SearchQueryNode[] }
+  | { type: 'not'; child: SearchQueryNode }
+  | { type: 'text'; value: string } // Free text or a "quoted phrase" matched anywhere
+  | { type: 'tag'; value: string }
+  | { type: 'site'; value: string }
+  | { type: 'title'; value: string }
+  | { type: 'date'; field: 'before' | 'after'; value: Date }
+  | { type: 'is'; value: 'untagged' | 'broken' | 'redirected' | 'favorite' | 'pinned' | ReadStatus }
+  | { type: 'has'; value: 'thumbnail' };
+
+export interface SearchQueryError {
+  message: string;
+  position: number; // Character offset in the query where the problem starts
+}
+
+export interface ParsedSearchQuery {
+  ast: SearchQueryNode | null; // null for an empty query or when there is an error
+  error: SearchQueryError | null;
+}
+
+export interface SearchSuggestion {
+  label: string; // Text shown in the dropdown
+  description?: string;
+  query: string; // Full query after accepting the suggestion
+  cursor: number; // Cursor position after accepting the suggestion
+}
+
+export type SortOption =
+  | 'newest'
+  | 'oldest'
+  | 'title-asc'
+  | 'title-desc'
+  | 'relevance'
+  | 'most-visited'
+  | 'recently-visited'
+  | 'least-recently-visited';
+
+// Bookmark states the filter panel narrows by, next to reading list statuses
+export type FavoriteFilter = 'favorite' | 'pinned';
+export type LinkHealthFilter = 'broken' | 'redirected';
 
 export interface BookmarkFilters {
   search: string;
   tags: string[];
   tagFilterMode: 'AND' | 'OR';
   sortBy: SortOption;
+  collectionId: string | null;
+  includeSubcollections: boolean;
+  // Each group matches bookmarks in any of its selected states; empty groups don't filter
+  favorites: FavoriteFilter[];
+  readStatuses: ReadStatus[];
+  linkHealth: LinkHealthFilter[];
+}
+
+export interface SavedSearch {
+  id: string;
+  userId: string; // Owner of the saved search
+  name: string;
+  filters: BookmarkFilters; // Restored exactly when the saved search is opened
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SavedSearchFormData {
+  name: string;
+  filters: BookmarkFilters;
 }
 
 export interface PaginationInfo {
@@ -39,4 +301,5 @@ export interface PaginationInfo {
   totalPages: number;
   totalItems: number;
   itemsPerPage: number;
+  mode?: 'offset' | 'cursor'; // Cursor pages can only step to the previous or next page
 }
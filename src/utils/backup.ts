@@ -0,0 +1,162 @@
+/**
+ * Serialization and validation for full-account JSON backups
+ */
+
+import type { BookmarkBackup, ReadState } from '../types/bookmark';
+import { isReadStatus } from './readState';
+import { isTagColor } from './tagColors';
+
+export const BACKUP_FORMAT = 'better-bookmarks-backup';
+
+/**
+ * Bump when the backup layout changes, and teach parseBackup to read older versions.
+ * v2 added reading status, favorites, pins, visits, uploaded thumbnails and tag colours.
+ */
+export const BACKUP_SCHEMA_VERSION = 2;
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseDate = (value: unknown): Date => {
+  const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : new Date(NaN);
+  return isNaN(date.getTime()) ? new Date() : date;
+};
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value ? value : undefined;
+
+const optionalDate = (value: unknown): Date | undefined =>
+  value === undefined || value === null ? undefined : parseDate(value);
+
+const parseReadState = (value: unknown): ReadState | undefined => {
+  if (!isRecord(value) || !isReadStatus(value.status)) {
+    return undefined;
+  }
+
+  return {
+    status: value.status,
+    queuedAt: parseDate(value.queuedAt),
+    startedAt: optionalDate(value.startedAt),
+    readAt: optionalDate(value.readAt),
+    archivedAt: optionalDate(value.archivedAt),
+    updatedAt: parseDate(value.updatedAt),
+  };
+};
+
+// JSON with object keys sorted, so documents that differ only in key order compare equal
+const toComparableJson = (json: string): string =>
+  JSON.stringify(JSON.parse(json), (_key, value: unknown) =>
+    isRecord(value) ? Object.fromEntries(Object.keys(value).sort().map((key) => [key, value[key]])) : value
+  );
+
+/**
+ * Serialize a backup to the JSON document that is downloaded
+ */
+export const serializeBackup = (backup: BookmarkBackup): string =>
+  JSON.stringify(backup, null, 2);
+
+/**
+ * Serialize a backup and make sure parseBackup reads every field back unchanged,
+ * so a file that would restore incompletely is never downloaded
+ */
+export const serializeVerifiedBackup = (backup: BookmarkBackup): string => {
+  const json = serializeBackup(backup);
+  if (toComparableJson(serializeBackup(parseBackup(json))) !== toComparableJson(json)) {
+    throw new Error('The backup could not be verified, so it was not downloaded. Please try again.');
+  }
+  return json;
+};
+
+/**
+ * File name for a backup taken at the given time
+ */
+export const getBackupFileName = (date: Date = new Date()): string =>
+  `better-bookmarks-backup-${date.toISOString().slice(0, 10)}.json`;
+
+/**
+ * Parse and validate a backup file.
+ * Throws an Error with a user-facing message when the file cannot be restored.
+ */
+export const parseBackup = (json: string): BookmarkBackup => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The backup file is not valid JSON.');
+  }
+
+  if (!isRecord(data) || data.format !== BACKUP_FORMAT) {
+    throw new Error('This file is not a Better Bookmarks backup.');
+  }
+
+  if (typeof data.schemaVersion !== 'number' || data.schemaVersion < 1) {
+    throw new Error('The backup file is missing a valid schema version.');
+  }
+
+  if (data.schemaVersion > BACKUP_SCHEMA_VERSION) {
+    throw new Error(
+      `This backup was created by a newer version of Better Bookmarks (schema ${data.schemaVersion}). Please update the app before restoring it.`
+    );
+  }
+
+  if (!Array.isArray(data.bookmarks)) {
+    throw new Error('The backup file does not contain a bookmark list.');
+  }
+
+  const bookmarks = data.bookmarks.map((item, index) => {
+    if (!isRecord(item) || typeof item.url !== 'string' || typeof item.title !== 'string') {
+      throw new Error(`Bookmark #${index + 1} in the backup is missing a title or URL.`);
+    }
+
+    return {
+      id: typeof item.id === 'string' ? item.id : `backup-${index}`,
+      title: item.title,
+      url: item.url,
+      description: typeof item.description === 'string' ? item.description : '',
+      tags: Array.isArray(item.tags) ? item.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+      favicon: optionalString(item.favicon),
+      thumbnail: optionalString(item.thumbnail),
+      thumbnailSource: item.thumbnailSource === 'user' ? ('user' as const) : undefined,
+      collectionId: optionalString(item.collectionId) ?? null,
+      readState: parseReadState(item.readState),
+      favorite: item.favorite === true || undefined,
+      pinned: item.pinned === true || undefined,
+      pinOrder: item.pinned === true && typeof item.pinOrder === 'number' ? item.pinOrder : undefined,
+      visitCount: typeof item.visitCount === 'number' && item.visitCount > 0 ? item.visitCount : undefined,
+      lastVisitedAt: optionalDate(item.lastVisitedAt),
+      createdAt: parseDate(item.createdAt),
+      updatedAt: parseDate(item.updatedAt),
+    };
+  });
+
+  const collections = (Array.isArray(data.collections) ? data.collections : [])
+    .filter((item): item is UnknownRecord => isRecord(item) && typeof item.id === 'string' && typeof item.name === 'string')
+    .map((item) => ({
+      id: item.id as string,
+      name: item.name as string,
+      parentId: optionalString(item.parentId) ?? null,
+      icon: optionalString(item.icon),
+      sortOrder: typeof item.sortOrder === 'number' ? item.sortOrder : 0,
+      createdAt: parseDate(item.createdAt),
+      updatedAt: parseDate(item.updatedAt),
+    }));
+
+  const tags = (Array.isArray(data.tags) ? data.tags : [])
+    .filter((item): item is UnknownRecord => isRecord(item) && typeof item.name === 'string')
+    .map((item) => ({
+      name: item.name as string,
+      usageCount: typeof item.usageCount === 'number' ? item.usageCount : 0,
+      color: isTagColor(item.color) ? item.color : undefined,
+    }));
+
+  return {
+    format: BACKUP_FORMAT,
+    schemaVersion: data.schemaVersion,
+    exportedAt: parseDate(data.exportedAt),
+    bookmarks,
+    collections,
+    tags,
+  };
+};
@@ -0,0 +1,221 @@
+/**
+ * Exporters that turn a list of bookmarks into files for people who don't use the app
+ */
+
+import type { Bookmark } from '../types/bookmark';
+import { escapeCsvField } from './csv';
+import { serializeNetscapeBookmarks } from './netscapeBookmarks';
+
+export type ExportFormat = 'html' | 'csv' | 'markdown';
+
+export type CsvColumn =
+  | 'title'
+  | 'url'
+  | 'description'
+  | 'tags'
+  | 'collection'
+  | 'createdAt'
+  | 'updatedAt'
+  | 'favorite'
+  | 'visitCount'
+  | 'lastVisitedAt';
+
+export type MarkdownGrouping = 'tag' | 'date';
+
+export interface ExportOptions {
+  csvColumns?: CsvColumn[];
+  markdownGrouping?: MarkdownGrouping;
+  collectionPaths?: Record<string, string>; // Collection id -> "Parent / Child", for the collection column
+  exportedAt?: Date;
+}
+
+export interface ExportFile {
+  content: string;
+  mimeType: string;
+  fileName: string;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  html: { label: 'Browser bookmarks (HTML)', extension: 'html', mimeType: 'text/html' },
+  csv: { label: 'Spreadsheet (CSV)', extension: 'csv', mimeType: 'text/csv' },
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+};
+
+// Columns in the order they appear in the file
+export const CSV_COLUMNS: Array<{ id: CsvColumn; label: string }> = [
+  { id: 'title', label: 'Title' },
+  { id: 'url', label: 'URL' },
+  { id: 'description', label: 'Description' },
+  { id: 'tags', label: 'Tags' },
+  { id: 'collection', label: 'Collection' },
+  { id: 'createdAt', label: 'Added' },
+  { id: 'updatedAt', label: 'Updated' },
+  { id: 'favorite', label: 'Favorite' },
+  { id: 'visitCount', label: 'Visits' },
+  { id: 'lastVisitedAt', label: 'Last visited' },
+];
+
+export const DEFAULT_CSV_COLUMNS: CsvColumn[] = ['title', 'url', 'description', 'tags', 'createdAt'];
+
+// Helper function to get the text of one CSV cell
+const getCsvValue = (bookmark: Bookmark, column: CsvColumn, options: ExportOptions): string => {
+  switch (column) {
+    case 'title':
+      return bookmark.title;
+    case 'url':
+      return bookmark.url;
+    case 'description':
+      return bookmark.description;
+    case 'tags':
+      return bookmark.tags.join(', ');
+    case 'collection':
+      return bookmark.collectionId ? options.collectionPaths?.[bookmark.collectionId] ?? '' : '';
+    case 'createdAt':
+      return bookmark.createdAt.toISOString();
+    case 'updatedAt':
+      return bookmark.updatedAt.toISOString();
+    case 'favorite':
+      return bookmark.favorite ? 'yes' : 'no';
+    case 'visitCount':
+      return String(bookmark.visitCount ?? 0);
+    case 'lastVisitedAt':
+      return bookmark.lastVisitedAt?.toISOString() ?? '';
+  }
+};
+
+/**
+ * Serialize bookmarks to RFC 4180 CSV: a header row, CRLF line breaks, quoted fields where needed
+ */
+export const serializeCsv = (
+  bookmarks: Bookmark[],
+  columns: CsvColumn[] = DEFAULT_CSV_COLUMNS,
+  options: ExportOptions = {}
+): string => {
+  // Keep the documented column order whatever order the columns were picked in
+  const selected = CSV_COLUMNS.filter((column) => columns.includes(column.id));
+  if (selected.length === 0) {
+    throw new Error('Choose at least one column to export.');
+  }
+
+  const rows = [
+    selected.map((column) => escapeCsvField(column.label)),
+    ...bookmarks.map((bookmark) =>
+      selected.map((column) => escapeCsvField(getCsvValue(bookmark, column.id, options)))
+    ),
+  ];
+  return rows.map((row) => row.join(',')).join('\r\n') + '\r\n';
+};
+
+// Helper function to escape text that is shown inline in Markdown
+const escapeMarkdown = (value: string): string =>
+  value.replace(/\s+/g, ' ').trim().replace(/([\\`*_[\]<>#|])/g, '\\$1');
+
+// Helper function to keep a URL from ending a Markdown link early
+const escapeMarkdownUrl = (url: string): string =>
+  url.replace(/ /g, '%20').replace(/\(/g, '%28').replace(/\)/g, '%29');
+
+// Helper function to render one bookmark as a list item
+const formatMarkdownItem = (bookmark: Bookmark, showTags: boolean): string => {
+  let line = `- [${escapeMarkdown(bookmark.title) || escapeMarkdown(bookmark.url)}](${escapeMarkdownUrl(bookmark.url)})`;
+  if (bookmark.description) {
+    line += ` - ${escapeMarkdown(bookmark.description)}`;
+  }
+  if (showTags && bookmark.tags.length > 0) {
+    line += ` ${bookmark.tags.map((tag) => `\`${tag}\``).join(' ')}`;
+  }
+  return line;
+};
+
+// Helper function to group bookmarks under each of their tags, untagged ones last
+const groupByTag = (bookmarks: Bookmark[]): Array<[string, Bookmark[]]> => {
+  const groups = new Map<string, Bookmark[]>();
+  const untagged: Bookmark[] = [];
+
+  bookmarks.forEach((bookmark) => {
+    if (bookmark.tags.length === 0) {
+      untagged.push(bookmark);
+    }
+    bookmark.tags.forEach((tag) => {
+      const group = groups.get(tag) || [];
+      group.push(bookmark);
+      groups.set(tag, group);
+    });
+  });
+
+  const sorted = Array.from(groups.entries()).sort(([a], [b]) => a.localeCompare(b));
+  return untagged.length > 0 ? [...sorted, ['Untagged', untagged]] : sorted;
+};
+
+// Helper function to group bookmarks by the month they were added, newest month first
+const groupByMonth = (bookmarks: Bookmark[]): Array<[string, Bookmark[]]> => {
+  const monthFormat = new Intl.DateTimeFormat('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+  const groups = new Map<string, { label: string; bookmarks: Bookmark[] }>();
+
+  bookmarks.forEach((bookmark) => {
+    const key = bookmark.createdAt.toISOString().slice(0, 7);
+    const group = groups.get(key) || { label: monthFormat.format(bookmark.createdAt), bookmarks: [] };
+    group.bookmarks.push(bookmark);
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([, group]) => [group.label, group.bookmarks]);
+};
+
+/**
+ * Serialize bookmarks to a Markdown document with one section per tag or per month.
+ * A bookmark with several tags is listed under each of them.
+ */
+export const serializeMarkdown = (
+  bookmarks: Bookmark[],
+  grouping: MarkdownGrouping = 'tag',
+  exportedAt: Date = new Date()
+): string => {
+  const groups = grouping === 'tag' ? groupByTag(bookmarks) : groupByMonth(bookmarks);
+  const count = `${bookmarks.length} bookmark${bookmarks.length !== 1 ? 's' : ''}`;
+
+  const lines = ['# Bookmarks', '', `_${count}, exported ${exportedAt.toISOString().slice(0, 10)}_`];
+  groups.forEach(([heading, items]) => {
+    lines.push('', `## ${escapeMarkdown(heading)}`, '');
+    items.forEach((bookmark) => lines.push(formatMarkdownItem(bookmark, grouping === 'date')));
+  });
+
+  return lines.join('\n') + '\n';
+};
+
+/**
+ * File name for an export taken at the given time
+ */
+export const getExportFileName = (format: ExportFormat, date: Date = new Date()): string =>
+  `better-bookmarks-${date.toISOString().slice(0, 10)}.${EXPORT_FORMATS[format].extension}`;
+
+/**
+ * Build the file for an export in the chosen format
+ */
+export const exportBookmarks = (
+  bookmarks: Bookmark[],
+  format: ExportFormat,
+  options: ExportOptions = {}
+): ExportFile => {
+  const exportedAt = options.exportedAt ?? new Date();
+  let content: string;
+
+  switch (format) {
+    case 'html':
+      content = serializeNetscapeBookmarks(bookmarks);
+      break;
+    case 'csv':
+      content = serializeCsv(bookmarks, options.csvColumns, options);
+      break;
+    case 'markdown':
+      content = serializeMarkdown(bookmarks, options.markdownGrouping, exportedAt);
+      break;
+  }
+
+  return {
+    content,
+    mimeType: `${EXPORT_FORMATS[format].mimeType};charset=utf-8`,
+    fileName: getExportFileName(format, exportedAt),
+  };
+};
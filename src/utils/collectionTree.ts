@@ -0,0 +1,84 @@
+/**
+ * Helpers for working with nested bookmark collections
+ */
+
+import type { Collection, CollectionTreeNode } from '../types/bookmark';
+
+/**
+ * Order siblings by their explicit sort order, then alphabetically
+ */
+const compareCollections = (a: Collection, b: Collection): number =>
+  a.sortOrder - b.sortOrder || a.name.localeCompare(b.name);
+
+/**
+ * Build a nested tree from a flat list of collections.
+ * Collections whose parent no longer exists are promoted to the top level.
+ */
+export const buildCollectionTree = (collections: Collection[]): CollectionTreeNode[] => {
+  const ids = new Set(collections.map((collection) => collection.id));
+  const childrenByParent = new Map<string | null, Collection[]>();
+
+  for (const collection of collections) {
+    const parentId = collection.parentId && ids.has(collection.parentId) ? collection.parentId : null;
+    const siblings = childrenByParent.get(parentId) || [];
+    siblings.push(collection);
+    childrenByParent.set(parentId, siblings);
+  }
+
+  const buildLevel = (parentId: string | null, depth: number): CollectionTreeNode[] =>
+    (childrenByParent.get(parentId) || [])
+      .sort(compareCollections)
+      .map((collection) => ({
+        collection,
+        children: buildLevel(collection.id, depth + 1),
+        depth,
+      }));
+
+  return buildLevel(null, 0);
+};
+
+/**
+ * Flatten a collection tree into display order (depth-first)
+ */
+export const flattenCollectionTree = (nodes: CollectionTreeNode[]): CollectionTreeNode[] =>
+  nodes.flatMap((node) => [node, ...flattenCollectionTree(node.children)]);
+
+/**
+ * Get the ids of every collection nested below the given one (not including itself)
+ */
+export const getDescendantCollectionIds = (collections: Collection[], collectionId: string): string[] => {
+  const descendants: string[] = [];
+  const queue = [collectionId];
+  const visited = new Set<string>(queue);
+
+  while (queue.length > 0) {
+    const currentId = queue.shift()!;
+    for (const collection of collections) {
+      if (collection.parentId === currentId && !visited.has(collection.id)) {
+        visited.add(collection.id);
+        descendants.push(collection.id);
+        queue.push(collection.id);
+      }
+    }
+  }
+
+  return descendants;
+};
+
+/**
+ * Get the full path of a collection, e.g. "Projects/Client A/Specs"
+ */
+export const getCollectionPath = (collections: Collection[], collectionId: string): string => {
+  const byId = new Map(collections.map((collection) => [collection.id, collection]));
+  const names: string[] = [];
+  const visited = new Set<string>();
+  let current = byId.get(collectionId);
+
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    names.unshift(current.name);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return names.join('/');
+};
@@ -10,6 +10,10 @@ declare global {
       VITE_FIREBASE_APP_ID?: string;
       VITE_SCREENSHOT_API_URL?: string;
       VITE_SCREENSHOT_API_KEY?: string;
+      VITE_THUMBNAIL_PROVIDERS?: string;
+      VITE_METADATA_PROXY_URL?: string;
+      VITE_LINK_CHECKER_URL?: string;
+      VITE_TRASH_RETENTION_DAYS?: string;
     };
     ENV_STATUS?: {
       hasFirebaseConfig: boolean;
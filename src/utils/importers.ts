@@ -0,0 +1,216 @@
+/**
+ * Importers for the export files of browsers and other bookmark services.
+ * Each importer recognises its own file and maps the source fields onto import entries;
+ * validation and deduplication happen in BookmarkService.
+ */
+
+import type { BookmarkImportEntry } from '../types/bookmark';
+import { parseCsvRecords } from './csv';
+import { isNetscapeBookmarkFile, parseNetscapeBookmarks } from './netscapeBookmarks';
+
+export interface ImportParseOptions {
+  folderTags?: boolean; // Only used by importers with supportsFolderTags
+}
+
+export interface BookmarkImporter {
+  id: string;
+  label: string;
+  instructions: string; // Where to find the export in the source service
+  accept: string; // For the file input
+  supportsFolderTags?: boolean;
+  detect: (content: string, fileName: string) => boolean;
+  parse: (content: string, options: ImportParseOptions) => BookmarkImportEntry[];
+}
+
+// Helper function to parse a date given as seconds since epoch or as an ISO string
+const parseTimestamp = (value: string | number | undefined): Date | undefined => {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const date = /^\d+$/.test(String(value)) ? new Date(Number(value) * 1000) : new Date(String(value));
+  return isNaN(date.getTime()) || date.getTime() === 0 ? undefined : date;
+};
+
+// Helper function to turn a tag from another service into our tag format ("Web Dev" -> "web-dev")
+const normalizeTag = (tag: string): string => tag.trim().toLowerCase().replace(/\s+/g, '-');
+
+// Helper function to split a tag list and drop empty tags
+const splitTags = (value: string | undefined, separator: string | RegExp): string[] =>
+  (value || '').split(separator).map(normalizeTag).filter(Boolean);
+
+// Helper function to check that a CSV file has the columns an importer needs
+const hasCsvColumns = (content: string, columns: string[]): boolean => {
+  const header = content.replace(/^\uFEFF/, '').split(/\r?\n/, 1)[0].toLowerCase();
+  const names = header.split(',').map((name) => name.trim().replace(/^"|"$/g, ''));
+  return columns.every((column) => names.includes(column));
+};
+
+const browserImporter: BookmarkImporter = {
+  id: 'browser',
+  label: 'Browser (bookmarks.html)',
+  instructions: 'Export your bookmarks from Chrome, Firefox, Safari or Edge as an HTML file.',
+  accept: '.html,.htm,text/html',
+  supportsFolderTags: true,
+  detect: (content) => isNetscapeBookmarkFile(content),
+  parse: (content, options) => parseNetscapeBookmarks(content, { folderTags: options.folderTags }),
+};
+
+// Pocket's HTML export lists unread items first, then the archive, each under an <h1>
+const parsePocketHtml = (content: string): BookmarkImportEntry[] => {
+  const document = new DOMParser().parseFromString(content, 'text/html');
+
+  return Array.from(document.querySelectorAll('a[href]')).map((anchor) => {
+    const list = anchor.closest('ul')?.previousElementSibling;
+    const isArchived = list?.tagName === 'H1' && /archive/i.test(list.textContent || '');
+
+    return {
+      title: anchor.textContent?.trim() || '',
+      url: anchor.getAttribute('href')?.trim() || '',
+      tags: splitTags(anchor.getAttribute('tags') || '', ','),
+      createdAt: parseTimestamp(anchor.getAttribute('time_added') || undefined),
+      readStatus: isArchived ? 'archived' : 'unread',
+    };
+  });
+};
+
+// Pocket's CSV export: title,url,time_added,tags,status with tags separated by "|"
+const parsePocketCsv = (content: string): BookmarkImportEntry[] =>
+  parseCsvRecords(content).map((record) => ({
+    title: record.title,
+    url: record.url,
+    tags: splitTags(record.tags, '|'),
+    createdAt: parseTimestamp(record.time_added),
+    readStatus: record.status === 'archive' ? 'archived' : 'unread',
+  }));
+
+const pocketImporter: BookmarkImporter = {
+  id: 'pocket',
+  label: 'Pocket',
+  instructions: 'Export from Pocket as HTML (ril_export.html) or CSV (part_000000.csv).',
+  accept: '.html,.htm,.csv,text/html,text/csv',
+  detect: (content) =>
+    /<title>\s*Pocket Export\s*<\/title>/i.test(content) ||
+    hasCsvColumns(content, ['title', 'url', 'time_added', 'status']),
+  parse: (content) => (/<html|<!doctype/i.test(content) ? parsePocketHtml(content) : parsePocketCsv(content)),
+};
+
+interface PinboardPost {
+  href?: string;
+  description?: string; // The title
+  extended?: string; // The notes
+  time?: string;
+  toread?: string;
+  tags?: string;
+}
+
+// Helper function to read a Pinboard JSON export, which is an array of posts
+const readPinboardPosts = (content: string): PinboardPost[] | null => {
+  try {
+    const data: unknown = JSON.parse(content);
+    return Array.isArray(data) && data.every((post) => typeof post === 'object' && post !== null && 'href' in post)
+      ? (data as PinboardPost[])
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+const pinboardImporter: BookmarkImporter = {
+  id: 'pinboard',
+  label: 'Pinboard',
+  instructions: 'Download the JSON backup from Pinboard\'s settings.',
+  accept: '.json,application/json',
+  detect: (content) => readPinboardPosts(content) !== null,
+  parse: (content) =>
+    (readPinboardPosts(content) ?? []).map((post) => ({
+      title: post.description || '',
+      url: post.href || '',
+      description: post.extended || '',
+      tags: splitTags(post.tags, /\s+/),
+      createdAt: parseTimestamp(post.time),
+      ...(post.toread === 'yes' && { readStatus: 'unread' as const }),
+    })),
+};
+
+// Raindrop.io's CSV export: id,title,note,excerpt,url,folder,tags,created,cover,highlights,favorite
+const raindropImporter: BookmarkImporter = {
+  id: 'raindrop',
+  label: 'Raindrop.io',
+  instructions: 'Export a collection (or everything) from Raindrop.io as CSV.',
+  accept: '.csv,text/csv',
+  detect: (content) => hasCsvColumns(content, ['title', 'url', 'folder', 'tags', 'created']),
+  parse: (content) =>
+    parseCsvRecords(content).map((record) => ({
+      title: record.title,
+      url: record.url,
+      description: record.note || record.excerpt,
+      tags: splitTags(record.tags, ','),
+      createdAt: parseTimestamp(record.created),
+      ...(record.folder && record.folder !== 'Unsorted' && { folder: record.folder }),
+      favorite: record.favorite === 'true',
+    })),
+};
+
+// Instapaper's built-in folders map to read states; any other folder is kept as a folder
+const INSTAPAPER_FOLDERS = new Set(['unread', 'archive', 'starred']);
+
+// Helper function to read Instapaper tags, a JSON array in newer exports
+const parseInstapaperTags = (value: string | undefined): string[] => {
+  if (!value) {
+    return [];
+  }
+  try {
+    const tags: unknown = JSON.parse(value);
+    return Array.isArray(tags) ? tags.filter((tag): tag is string => typeof tag === 'string').map(normalizeTag) : [];
+  } catch {
+    return splitTags(value, ',');
+  }
+};
+
+// Instapaper's CSV export: URL,Title,Selection,Folder,Timestamp and optionally Tags
+const instapaperImporter: BookmarkImporter = {
+  id: 'instapaper',
+  label: 'Instapaper',
+  instructions: 'Download the CSV export from Instapaper\'s settings.',
+  accept: '.csv,text/csv',
+  detect: (content) => hasCsvColumns(content, ['url', 'title', 'selection', 'folder', 'timestamp']),
+  parse: (content) =>
+    parseCsvRecords(content).map((record) => {
+      const folder = record.folder.trim();
+      return {
+        title: record.title,
+        url: record.url,
+        description: record.selection,
+        tags: parseInstapaperTags(record.tags),
+        createdAt: parseTimestamp(record.timestamp),
+        ...(folder && !INSTAPAPER_FOLDERS.has(folder.toLowerCase()) && { folder }),
+        readStatus: folder.toLowerCase() === 'archive' ? 'archived' : 'unread',
+        favorite: folder.toLowerCase() === 'starred',
+      };
+    }),
+};
+
+const importers: BookmarkImporter[] = [pocketImporter, pinboardImporter, raindropImporter, instapaperImporter];
+
+/**
+ * Add an importer for another service. Importers are tried in the order they were
+ * registered when detecting a file's format.
+ */
+export const registerImporter = (importer: BookmarkImporter): void => {
+  if (importer.id === browserImporter.id || importers.some((item) => item.id === importer.id)) {
+    throw new Error(`An importer with id "${importer.id}" is already registered`);
+  }
+  importers.push(importer);
+};
+
+/**
+ * Get the registered importers. The browser importer comes last because it
+ * accepts any file that looks like a bookmarks.html.
+ */
+export const getImporters = (): BookmarkImporter[] => [...importers, browserImporter];
+
+/**
+ * Find the importer that recognises a file, if any
+ */
+export const detectImporter = (content: string, fileName: string): BookmarkImporter | null =>
+  getImporters().find((importer) => importer.detect(content, fileName)) ?? null;
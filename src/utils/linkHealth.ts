@@ -0,0 +1,78 @@
+/**
+ * Link health rules for the broken-link checker: how a check result turns into a
+ * status, and when a bookmark is due for its next periodic check
+ */
+
+import type { Bookmark, LinkHealth } from '../types/bookmark';
+
+export interface LinkCheckResult {
+  statusCode: number | null; // null when the page could not be reached at all
+  finalUrl: string | null; // URL after following redirects
+}
+
+// Failed checks in a row before a link that is not known to be gone counts as broken
+export const BROKEN_AFTER_FAILURES = 3;
+
+// Status codes that mean the page is gone, without waiting for repeated failures
+const GONE_STATUS_CODES = new Set([404, 410]);
+
+const LINK_CHECK_INTERVAL = 7 * 24 * 60 * 60 * 1000; // 7 days
+const FAILING_LINK_CHECK_INTERVAL = 24 * 60 * 60 * 1000; // 1 day, so failures add up quickly
+
+// Compare URLs without their fragment or a trailing slash
+const normalizeForComparison = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return parsed.href.replace(/\/$/, '');
+  } catch {
+    return url.replace(/\/$/, '');
+  }
+};
+
+/**
+ * Turn a check result into the health stored on the bookmark, counting failures
+ * on from the previous check
+ */
+export const evaluateLinkHealth = (
+  url: string,
+  result: LinkCheckResult,
+  previous?: LinkHealth,
+  checkedAt: Date = new Date()
+): LinkHealth => {
+  const { statusCode, finalUrl } = result;
+
+  if (statusCode !== null && statusCode >= 200 && statusCode < 400) {
+    const redirected = !!finalUrl && normalizeForComparison(finalUrl) !== normalizeForComparison(url);
+    return {
+      status: redirected ? 'redirected' : 'ok',
+      statusCode,
+      ...(redirected && { redirectUrl: finalUrl }),
+      checkedAt,
+      consecutiveFailures: 0,
+    };
+  }
+
+  const consecutiveFailures = (previous?.consecutiveFailures ?? 0) + 1;
+  const isGone = statusCode !== null && GONE_STATUS_CODES.has(statusCode);
+
+  return {
+    status: isGone || consecutiveFailures >= BROKEN_AFTER_FAILURES ? 'broken' : 'error',
+    statusCode,
+    checkedAt,
+    consecutiveFailures,
+  };
+};
+
+/**
+ * Whether a bookmark's link should be checked again. Links that never were checked
+ * are due right away; failing links are rechecked sooner than healthy ones.
+ */
+export const isLinkCheckDue = (bookmark: Bookmark, now: number = Date.now()): boolean => {
+  if (!bookmark.health) {
+    return true;
+  }
+
+  const interval = bookmark.health.consecutiveFailures > 0 ? FAILING_LINK_CHECK_INTERVAL : LINK_CHECK_INTERVAL;
+  return now - bookmark.health.checkedAt.getTime() >= interval;
+};
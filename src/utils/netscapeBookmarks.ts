@@ -0,0 +1,183 @@
+/**
+ * Netscape bookmark file (bookmarks.html) support
+ * This is the format exported by Chrome, Firefox, Safari and Edge
+ */
+
+import type { Bookmark, BookmarkImportEntry } from '../types/bookmark';
+
+export interface NetscapeParseOptions {
+  folderTags?: boolean; // Turn each folder in an entry's path into a tag
+}
+
+// Root folders created by browsers that carry no meaning as tags
+const BROWSER_ROOT_FOLDERS = new Set([
+  'bookmarks',
+  'bookmarks bar',
+  'bookmarks toolbar',
+  'bookmarks menu',
+  'favorites bar',
+  'favourites bar',
+  'other bookmarks',
+  'mobile bookmarks',
+  'other favorites',
+]);
+
+/**
+ * Convert a folder name into something that can pass validateTag
+ * (e.g. "Client A" -> "client-a")
+ */
+export const folderNameToTag = (name: string): string =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .replace(/[^a-z0-9_-]/g, '')
+    .replace(/-{2,}/g, '-')
+    .replace(/^-|-$/g, '');
+
+/**
+ * Get the folder names an anchor is nested in, outermost first
+ */
+const getFolderPath = (anchor: Element): string[] => {
+  const path: string[] = [];
+  let node = anchor.parentElement;
+
+  while (node) {
+    if (node.tagName === 'DL') {
+      // A folder's <DL> follows its <H3>, either as a sibling or inside the same <DT>
+      let heading: Element | null = node.previousElementSibling;
+      while (heading && heading.tagName !== 'H3' && heading.tagName !== 'DT' && heading.tagName !== 'DL') {
+        heading = heading.previousElementSibling;
+      }
+      if (heading?.tagName === 'H3' && heading.textContent) {
+        path.unshift(heading.textContent.trim());
+      }
+    }
+    node = node.parentElement;
+  }
+
+  return path;
+};
+
+/**
+ * Get the <DD> description that belongs to an anchor, if any
+ */
+const getDescription = (anchor: Element): string => {
+  const term = anchor.closest('dt');
+  const next = term?.nextElementSibling;
+  if (next?.tagName === 'DD') {
+    return next.textContent?.trim() || '';
+  }
+  // Some exporters nest the <DD> inside the <DT>
+  const nested = term?.querySelector(':scope > dd');
+  return nested?.textContent?.trim() || '';
+};
+
+/**
+ * Parse an ADD_DATE attribute (seconds since epoch; some exporters use microseconds)
+ */
+const parseAddDate = (value: string | null): Date | undefined => {
+  if (!value || !/^\d+$/.test(value)) {
+    return undefined;
+  }
+
+  let seconds = Number(value);
+  // Values past the year 5000 in seconds are almost certainly microseconds
+  while (seconds > 100000000000) {
+    seconds = Math.floor(seconds / 1000);
+  }
+
+  const date = new Date(seconds * 1000);
+  return isNaN(date.getTime()) || seconds === 0 ? undefined : date;
+};
+
+/**
+ * Check whether a document looks like a Netscape bookmark file
+ */
+export const isNetscapeBookmarkFile = (html: string): boolean =>
+  /<!DOCTYPE\s+NETSCAPE-Bookmark-file-1>/i.test(html) || (/<DL>/i.test(html) && /<A\s[^>]*HREF=/i.test(html));
+
+/**
+ * Parse a Netscape bookmark file into import entries.
+ * Entries are returned raw; validation happens when they are imported.
+ */
+export const parseNetscapeBookmarks = (
+  html: string,
+  options: NetscapeParseOptions = {}
+): BookmarkImportEntry[] => {
+  const { folderTags = true } = options;
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  const anchors = Array.from(document.querySelectorAll('a[href]'));
+
+  return anchors.map((anchor) => {
+    const tags = new Set<string>();
+
+    if (folderTags) {
+      getFolderPath(anchor)
+        .filter((folder) => !BROWSER_ROOT_FOLDERS.has(folder.toLowerCase()))
+        .map(folderNameToTag)
+        .filter(Boolean)
+        .forEach((tag) => tags.add(tag));
+    }
+
+    // Firefox and Pinboard store tags as a comma separated TAGS attribute
+    (anchor.getAttribute('tags') || '')
+      .split(',')
+      .map((tag) => tag.trim().toLowerCase())
+      .filter(Boolean)
+      .forEach((tag) => tags.add(tag));
+
+    return {
+      title: anchor.textContent?.trim() || '',
+      url: anchor.getAttribute('href')?.trim() || '',
+      description: getDescription(anchor),
+      tags: Array.from(tags),
+      createdAt: parseAddDate(anchor.getAttribute('add_date')),
+    };
+  });
+};
+
+// Helper function to escape text for HTML content and attribute values
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Helper function to format a date as seconds since epoch, like browsers write ADD_DATE
+const toEpochSeconds = (date: Date): string => String(Math.floor(date.getTime() / 1000));
+
+/**
+ * Serialize bookmarks to a Netscape bookmark file that browsers can import.
+ * Bookmarks are written as one flat list; tags go into the TAGS attribute.
+ */
+export const serializeNetscapeBookmarks = (bookmarks: Bookmark[]): string => {
+  const entries = bookmarks.map((bookmark) => {
+    const attributes = [
+      `HREF="${escapeHtml(bookmark.url)}"`,
+      `ADD_DATE="${toEpochSeconds(bookmark.createdAt)}"`,
+      `LAST_MODIFIED="${toEpochSeconds(bookmark.updatedAt)}"`,
+      ...(bookmark.tags.length > 0 ? [`TAGS="${escapeHtml(bookmark.tags.join(','))}"`] : []),
+    ];
+    const lines = [`    <DT><A ${attributes.join(' ')}>${escapeHtml(bookmark.title)}</A>`];
+    if (bookmark.description) {
+      lines.push(`    <DD>${escapeHtml(bookmark.description)}`);
+    }
+    return lines.join('\n');
+  });
+
+  return [
+    '<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+    '<!-- This is an automatically generated file.',
+    '     It will be read and overwritten.',
+    '     DO NOT EDIT! -->',
+    '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+    '<TITLE>Bookmarks</TITLE>',
+    '<H1>Bookmarks</H1>',
+    '<DL><p>',
+    ...entries,
+    '</DL><p>',
+    '',
+  ].join('\n');
+};
@@ -0,0 +1,172 @@
+/**
+ * Extraction of bookmark details from a page's HTML
+ * Reads <title>, OpenGraph, Twitter card, JSON-LD, <link rel="icon"> and oEmbed discovery tags
+ */
+
+import type { PageMetadata } from '../types/bookmark';
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Collapse whitespace; DOMParser has already decoded entities
+const cleanText = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const text = value.replace(/\s+/g, ' ').trim();
+  return text || undefined;
+};
+
+/**
+ * Resolve a possibly relative URL against the page, keeping only http(s) and inline images
+ */
+export const resolvePageUrl = (value: string | undefined, baseUrl: string): string | undefined => {
+  if (!value) return undefined;
+  if (value.startsWith('data:image/')) return value;
+
+  try {
+    const resolved = new URL(value.trim(), baseUrl);
+    return resolved.protocol === 'http:' || resolved.protocol === 'https:' ? resolved.href : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Map of lowercased `property`/`name` to the first content seen, e.g. "og:title"
+const collectMetaTags = (document: Document): Map<string, string> => {
+  const tags = new Map<string, string>();
+  document.querySelectorAll('meta[content]').forEach((meta) => {
+    const key = (meta.getAttribute('property') || meta.getAttribute('name') || '').trim().toLowerCase();
+    const content = cleanText(meta.getAttribute('content'));
+    if (key && content && !tags.has(key)) {
+      tags.set(key, content);
+    }
+  });
+  return tags;
+};
+
+// JSON-LD images may be a URL, an ImageObject, or a list of either
+const getJsonLdImage = (value: unknown): string | undefined => {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return getJsonLdImage(value[0]);
+  if (isRecord(value)) return getJsonLdImage(value.url ?? value.contentUrl);
+  return undefined;
+};
+
+/**
+ * Flatten every JSON-LD block (including @graph lists) into the nodes that describe
+ * the page itself, skipping organisations, breadcrumbs and the like
+ */
+const collectJsonLdNodes = (document: Document): UnknownRecord[] => {
+  const nodes: UnknownRecord[] = [];
+
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (isRecord(value)) {
+      nodes.push(value);
+      if (Array.isArray(value['@graph'])) {
+        value['@graph'].forEach(visit);
+      }
+    }
+  };
+
+  document.querySelectorAll('script[type="application/ld+json"]').forEach((script) => {
+    try {
+      visit(JSON.parse(script.textContent || ''));
+    } catch {
+      // Pages regularly ship malformed JSON-LD; ignore the block
+    }
+  });
+
+  const isContentNode = (node: UnknownRecord): boolean => {
+    const types = ([] as unknown[]).concat(node['@type']).map(String);
+    return types.some((type) => /Article|Posting|WebPage|Product|Recipe|Video|Event|Book|Course/i.test(type));
+  };
+
+  return nodes.filter(isContentNode);
+};
+
+const getJsonLdValue = (
+  nodes: UnknownRecord[],
+  read: (node: UnknownRecord) => string | undefined
+): string | undefined => {
+  for (const node of nodes) {
+    const value = read(node);
+    if (value) return value;
+  }
+  return undefined;
+};
+
+// Prefer the largest declared icon; "any" (SVG) counts as the largest
+const getIconSize = (link: Element): number => {
+  const sizes = (link.getAttribute('sizes') || '').toLowerCase();
+  if (sizes === 'any') return Number.MAX_SAFE_INTEGER;
+  const match = sizes.match(/(\d+)x(\d+)/);
+  return match ? parseInt(match[1], 10) : 0;
+};
+
+const findFavicon = (document: Document): string | undefined => {
+  const icons = Array.from(document.querySelectorAll('link[rel][href]')).filter((link) => {
+    const rel = (link.getAttribute('rel') || '').toLowerCase().split(/\s+/);
+    return rel.includes('icon') || rel.includes('apple-touch-icon');
+  });
+
+  icons.sort((a, b) => getIconSize(b) - getIconSize(a));
+  return icons[0]?.getAttribute('href') ?? undefined;
+};
+
+// oEmbed discovery: <link rel="alternate" type="application/json+oembed" href="...">
+const findOEmbedUrl = (document: Document): string | undefined => {
+  const link = Array.from(document.querySelectorAll('link[rel][type][href]')).find(
+    (element) =>
+      (element.getAttribute('rel') || '').toLowerCase().split(/\s+/).includes('alternate') &&
+      (element.getAttribute('type') || '').toLowerCase() === 'application/json+oembed'
+  );
+  return link?.getAttribute('href') ?? undefined;
+};
+
+/**
+ * Parse page details from HTML fetched from `pageUrl`. Relative image and icon
+ * URLs are resolved against the page's <base href> or the page URL.
+ */
+export const parsePageMetadata = (html: string, pageUrl: string): PageMetadata => {
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  const meta = collectMetaTags(document);
+  const jsonLd = collectJsonLdNodes(document);
+  const baseUrl = resolvePageUrl(document.querySelector('base[href]')?.getAttribute('href') ?? undefined, pageUrl) ?? pageUrl;
+
+  const title =
+    meta.get('og:title') ||
+    meta.get('twitter:title') ||
+    getJsonLdValue(jsonLd, (node) => cleanText(node.headline) ?? cleanText(node.name)) ||
+    cleanText(document.querySelector('title')?.textContent);
+
+  const description =
+    meta.get('og:description') ||
+    meta.get('twitter:description') ||
+    getJsonLdValue(jsonLd, (node) => cleanText(node.description)) ||
+    meta.get('description');
+
+  const thumbnail =
+    meta.get('og:image:secure_url') ||
+    meta.get('og:image') ||
+    meta.get('og:image:url') ||
+    meta.get('twitter:image') ||
+    meta.get('twitter:image:src') ||
+    getJsonLdValue(jsonLd, (node) => getJsonLdImage(node.image) ?? getJsonLdImage(node.thumbnailUrl));
+
+  const siteName =
+    meta.get('og:site_name') ||
+    meta.get('application-name') ||
+    getJsonLdValue(jsonLd, (node) => (isRecord(node.publisher) ? cleanText(node.publisher.name) : undefined));
+
+  return {
+    title,
+    description,
+    siteName,
+    favicon: resolvePageUrl(findFavicon(document), baseUrl),
+    thumbnail: resolvePageUrl(thumbnail, baseUrl),
+    oEmbedUrl: resolvePageUrl(findOEmbedUrl(document), baseUrl),
+  };
+};
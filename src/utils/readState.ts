@@ -0,0 +1,61 @@
+/**
+ * Reading list rules: how a status change updates a bookmark's read state, and
+ * which bookmarks make up the read-later queue
+ */
+
+import type { Bookmark, ReadState, ReadStatus, ReadStatusCounts } from '../types/bookmark';
+
+export const READ_STATUSES: ReadStatus[] = ['unread', 'reading', 'read', 'archived'];
+
+export const isReadStatus = (value: unknown): value is ReadStatus =>
+  typeof value === 'string' && (READ_STATUSES as string[]).includes(value);
+
+/**
+ * Move a bookmark to a new reading status. Saving a bookmark for later again starts
+ * it over; the other statuses keep the timestamps of the steps before them.
+ */
+export const applyReadStatus = (previous: ReadState | undefined, status: ReadStatus, now: Date = new Date()): ReadState => {
+  if (status === 'unread' || !previous) {
+    return {
+      status,
+      queuedAt: now,
+      ...(status === 'reading' && { startedAt: now }),
+      ...(status === 'read' && { readAt: now }),
+      ...(status === 'archived' && { archivedAt: now }),
+      updatedAt: now,
+    };
+  }
+
+  const next: ReadState = { ...previous, status, updatedAt: now };
+  switch (status) {
+    case 'reading':
+      next.startedAt = now;
+      delete next.readAt;
+      delete next.archivedAt;
+      break;
+    case 'read':
+      next.readAt = now;
+      delete next.archivedAt;
+      break;
+    case 'archived':
+      next.archivedAt = now;
+      break;
+  }
+  return next;
+};
+
+/**
+ * Bookmarks waiting to be read: saved for later or started but not finished
+ */
+export const isInReadLaterQueue = (bookmark: Bookmark): boolean =>
+  bookmark.readState?.status === 'unread' || bookmark.readState?.status === 'reading';
+
+export const countReadStatuses = (bookmarks: Bookmark[]): ReadStatusCounts => {
+  const counts: ReadStatusCounts = { unread: 0, reading: 0, read: 0, archived: 0 };
+  bookmarks.forEach((bookmark) => {
+    if (bookmark.readState) {
+      counts[bookmark.readState.status]++;
+    }
+  });
+  return counts;
+};
@@ -0,0 +1,133 @@
+/**
+ * Bookmark edit history: which fields an edit changed, what a bookmark looked like
+ * as of an earlier revision, and word-level diffs for showing a change
+ */
+
+import type { BookmarkRevision, RevisionChange, RevisionField, RevisionValue } from '../types/bookmark';
+
+export const REVISION_FIELDS: RevisionField[] = ['title', 'url', 'description', 'tags', 'collectionId'];
+
+export type RevisionValues = Record<RevisionField, RevisionValue>;
+
+export interface DiffSegment {
+  text: string;
+  type: 'same' | 'added' | 'removed';
+}
+
+// Descriptions are capped at 1000 characters, so word diffs stay small; past this, show a plain replacement
+const MAX_DIFF_WORDS = 400;
+
+/**
+ * Pick the recorded fields off a bookmark or Firestore document, with missing
+ * optional fields normalized so they compare equal to their empty values
+ */
+export const getRevisionValues = (source: {
+  title?: string;
+  url?: string;
+  description?: string;
+  tags?: string[];
+  collectionId?: string | null;
+}): RevisionValues => ({
+  title: source.title ?? '',
+  url: source.url ?? '',
+  description: source.description ?? '',
+  tags: source.tags ?? [],
+  collectionId: source.collectionId ?? null,
+});
+
+const valuesEqual = (a: RevisionValue, b: RevisionValue): boolean => {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, i) => item === b[i]);
+  }
+  return a === b;
+};
+
+/**
+ * List the fields that differ between two versions of a bookmark
+ */
+export const diffRevisionValues = (before: RevisionValues, after: RevisionValues): RevisionChange[] =>
+  REVISION_FIELDS.filter((field) => !valuesEqual(before[field], after[field])).map((field) => ({
+    field,
+    oldValue: before[field],
+    newValue: after[field],
+  }));
+
+/**
+ * Work out a bookmark's fields as they were right after a revision by undoing every
+ * later revision, newest first. Pass null for the version before the oldest revision.
+ * Revisions must be sorted newest first.
+ */
+export const getValuesAtRevision = (
+  current: RevisionValues,
+  revisions: BookmarkRevision[],
+  revisionId: string | null
+): RevisionValues => {
+  const values = { ...current };
+  for (const revision of revisions) {
+    if (revision.id === revisionId) {
+      return values;
+    }
+    revision.changes.forEach((change) => {
+      values[change.field] = change.oldValue;
+    });
+  }
+
+  if (revisionId !== null) {
+    throw new Error('Revision not found');
+  }
+  return values;
+};
+
+const tokenize = (text: string): string[] => text.match(/\s+|[^\s]+/g) ?? [];
+
+// Helper function to merge neighbouring segments of the same type
+const pushSegment = (segments: DiffSegment[], text: string, type: DiffSegment['type']) => {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ text, type });
+  }
+};
+
+/**
+ * Word-level diff of two strings, from the longest common subsequence of their words
+ */
+export const diffWords = (oldText: string, newText: string): DiffSegment[] => {
+  const a = tokenize(oldText);
+  const b = tokenize(newText);
+
+  if (a.length > MAX_DIFF_WORDS || b.length > MAX_DIFF_WORDS) {
+    return [
+      ...(oldText ? [{ text: oldText, type: 'removed' as const }] : []),
+      ...(newText ? [{ text: newText, type: 'added' as const }] : []),
+    ];
+  }
+
+  // lengths[i][j]: longest common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, a[i], 'same');
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pushSegment(segments, a[i++], 'removed');
+    } else {
+      pushSegment(segments, b[j++], 'added');
+    }
+  }
+  a.slice(i).forEach((token) => pushSegment(segments, token, 'removed'));
+  b.slice(j).forEach((token) => pushSegment(segments, token, 'added'));
+
+  return segments;
+};
@@ -0,0 +1,253 @@
+/**
+ * In-browser inverted index for ranked, typo-tolerant bookmark search
+ * Scores use BM25 per field (title, tags, description, URL) with field weights
+ */
+
+import type { Bookmark } from '../types/bookmark';
+import { normalizeDomain } from './searchQuery';
+
+type IndexField = 'title' | 'tags' | 'description' | 'url';
+
+type FieldCounts = Partial<Record<IndexField, number>>;
+
+interface IndexedDocument {
+  updatedAt: number;
+  lengths: FieldCounts;
+  terms: string[];
+}
+
+const INDEX_FIELDS: IndexField[] = ['title', 'tags', 'description', 'url'];
+
+// How much a match in each field counts towards the score
+const FIELD_WEIGHTS: Record<IndexField, number> = {
+  title: 3,
+  tags: 2,
+  description: 1,
+  url: 1,
+};
+
+// BM25 parameters: term frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+// Score multipliers for inexact matches
+const PREFIX_WEIGHT = 0.8;
+const TYPO_WEIGHTS = [1, 0.6, 0.4];
+
+// URL tokens that carry no meaning
+const URL_STOP_WORDS = new Set(['www', 'http', 'https', 'com', 'org', 'net', 'html', 'htm', 'php', 'index']);
+
+/**
+ * Split text into lowercase word tokens
+ */
+export const tokenizeText = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+const tokenizeUrl = (url: string): string[] => {
+  let text = url;
+  try {
+    const parsed = new URL(url);
+    text = `${normalizeDomain(parsed.hostname)} ${parsed.pathname}`;
+  } catch {
+    // Index the raw string when the URL cannot be parsed
+  }
+  return tokenizeText(text).filter(token => !URL_STOP_WORDS.has(token));
+};
+
+/**
+ * Number of typos tolerated for a search term: none for short words, more for long ones
+ */
+export const getTypoTolerance = (term: string): number => {
+  if (term.length < 4) return 0;
+  if (term.length < 8) return 1;
+  return 2;
+};
+
+/**
+ * Edit distance (insertions, deletions, substitutions and adjacent transpositions),
+ * giving up once it exceeds `max`
+ */
+export const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > max) {
+      return max + 1;
+    }
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+/**
+ * How well an indexed word matches a search term: 1 for an exact match, less for
+ * prefix and typo matches, 0 for no match
+ */
+export const getMatchWeight = (word: string, term: string): number => {
+  if (word === term) {
+    return 1;
+  }
+  if (term.length >= 2 && word.startsWith(term)) {
+    return PREFIX_WEIGHT;
+  }
+
+  const tolerance = getTypoTolerance(term);
+  if (tolerance === 0) {
+    return 0;
+  }
+  const distance = editDistance(word, term, tolerance);
+  return distance <= tolerance ? TYPO_WEIGHTS[distance] : 0;
+};
+
+export class SearchIndex {
+  private documents = new Map<string, IndexedDocument>();
+  private postings = new Map<string, Map<string, FieldCounts>>();
+  private totalLengths: Record<IndexField, number> = { title: 0, tags: 0, description: 0, url: 0 };
+
+  /**
+   * Add a bookmark, replacing any previously indexed version
+   */
+  add(bookmark: Bookmark): void {
+    this.remove(bookmark.id);
+
+    const fieldTokens: Record<IndexField, string[]> = {
+      title: tokenizeText(bookmark.title),
+      tags: bookmark.tags.flatMap(tag => tokenizeText(tag)),
+      description: tokenizeText(bookmark.description),
+      url: tokenizeUrl(bookmark.url),
+    };
+
+    const lengths: FieldCounts = {};
+    const terms = new Set<string>();
+
+    for (const field of INDEX_FIELDS) {
+      const tokens = fieldTokens[field];
+      lengths[field] = tokens.length;
+      this.totalLengths[field] += tokens.length;
+
+      for (const token of tokens) {
+        terms.add(token);
+        let documents = this.postings.get(token);
+        if (!documents) {
+          documents = new Map();
+          this.postings.set(token, documents);
+        }
+        const counts = documents.get(bookmark.id) ?? {};
+        counts[field] = (counts[field] ?? 0) + 1;
+        documents.set(bookmark.id, counts);
+      }
+    }
+
+    this.documents.set(bookmark.id, {
+      updatedAt: bookmark.updatedAt.getTime(),
+      lengths,
+      terms: Array.from(terms),
+    });
+  }
+
+  /**
+   * Remove a bookmark from the index
+   */
+  remove(id: string): void {
+    const document = this.documents.get(id);
+    if (!document) {
+      return;
+    }
+
+    for (const field of INDEX_FIELDS) {
+      this.totalLengths[field] -= document.lengths[field] ?? 0;
+    }
+    for (const term of document.terms) {
+      const documents = this.postings.get(term);
+      documents?.delete(id);
+      if (documents?.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    this.documents.delete(id);
+  }
+
+  /**
+   * Bring the index in line with a bookmark list, re-indexing only what changed
+   */
+  sync(bookmarks: Bookmark[]): void {
+    const ids = new Set<string>();
+
+    for (const bookmark of bookmarks) {
+      ids.add(bookmark.id);
+      const indexed = this.documents.get(bookmark.id);
+      if (!indexed || indexed.updatedAt !== bookmark.updatedAt.getTime()) {
+        this.add(bookmark);
+      }
+    }
+
+    for (const id of Array.from(this.documents.keys())) {
+      if (!ids.has(id)) {
+        this.remove(id);
+      }
+    }
+  }
+
+  /**
+   * Score every bookmark that matches a single search term, allowing prefixes and typos
+   */
+  search(term: string): Map<string, number> {
+    const scores = new Map<string, number>();
+    const normalizedTerms = tokenizeText(term);
+    const documentCount = this.documents.size;
+    if (normalizedTerms.length === 0 || documentCount === 0) {
+      return scores;
+    }
+
+    for (const normalized of normalizedTerms) {
+      for (const [word, documents] of this.postings) {
+        const matchWeight = getMatchWeight(word, normalized);
+        if (matchWeight === 0) {
+          continue;
+        }
+
+        const idf = Math.log(1 + (documentCount - documents.size + 0.5) / (documents.size + 0.5));
+
+        for (const [id, counts] of documents) {
+          const lengths = this.documents.get(id)!.lengths;
+          let score = 0;
+
+          for (const field of INDEX_FIELDS) {
+            const frequency = counts[field];
+            if (!frequency) continue;
+
+            const averageLength = this.totalLengths[field] / documentCount || 1;
+            const lengthRatio = (lengths[field] ?? 0) / averageLength;
+            score +=
+              FIELD_WEIGHTS[field] *
+              ((frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * lengthRatio)));
+          }
+
+          scores.set(id, (scores.get(id) ?? 0) + idf * score * matchWeight);
+        }
+      }
+    }
+
+    return scores;
+  }
+}
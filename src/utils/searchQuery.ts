@@ -0,0 +1,466 @@
+/**
+ * Search query language
+ *
+ * Terms are combined with AND; use OR and parentheses to group alternatives,
+ * and a leading "-" to negate a term or group:
+ *   react tag:frontend -tag:archived (site:github.com OR site:gitlab.com)
+ *   title:"release notes" after:2025-01-01 before:2025-07-01
+ *   is:untagged is:broken is:redirected is:unread is:favorite has:thumbnail
+ */
+
+import type {
+  Bookmark,
+  ParsedSearchQuery,
+  SearchQueryError,
+  SearchQueryNode,
+  SearchSuggestion,
+} from '../types/bookmark';
+import { tagMatchesFilter } from './tagTree';
+
+type SearchField = 'tag' | 'site' | 'title' | 'before' | 'after' | 'is' | 'has';
+
+// Values accepted after is:
+const IS_VALUES = ['untagged', 'broken', 'redirected', 'unread', 'reading', 'read', 'archived', 'favorite', 'pinned'] as const;
+type IsValue = (typeof IS_VALUES)[number];
+
+const isIsValue = (value: string): value is IsValue => (IS_VALUES as readonly string[]).includes(value);
+
+// Operators offered by autocomplete, in display order
+export const SEARCH_FIELDS: Array<{ field: SearchField; description: string }> = [
+  { field: 'tag', description: 'Has a tag or one nested below it' },
+  { field: 'site', description: 'From a domain' },
+  { field: 'title', description: 'Title contains' },
+  { field: 'before', description: 'Added before YYYY-MM-DD' },
+  { field: 'after', description: 'Added on or after YYYY-MM-DD' },
+  { field: 'is', description: 'is:untagged, is:broken, is:unread, is:favorite and more' },
+  { field: 'has', description: 'has:thumbnail' },
+];
+
+const FIELD_NAMES = new Set<string>(SEARCH_FIELDS.map(item => item.field));
+
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'or' | 'and' | 'not'; start: number; end: number }
+  | { kind: 'term'; field: SearchField | null; value: string; start: number; end: number };
+
+class QueryError extends Error {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.position = position;
+  }
+}
+
+const isBoundary = (char: string | undefined): boolean =>
+  char === undefined || /\s/.test(char) || char === '(' || char === ')';
+
+/**
+ * Split a query into tokens
+ */
+const tokenize = (query: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < query.length) {
+    const char = query[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', start: index, end: index + 1 });
+      index++;
+      continue;
+    }
+
+    // A dash directly in front of a term or group negates it
+    const nextChar = query[index + 1];
+    if (char === '-' && nextChar !== undefined && !/\s/.test(nextChar) && nextChar !== ')') {
+      tokens.push({ kind: 'not', start: index, end: index + 1 });
+      index++;
+      continue;
+    }
+
+    // Read a word, keeping quoted sections (e.g. title:"two words") together
+    const start = index;
+    let raw = '';
+    while (index < query.length && !isBoundary(query[index])) {
+      if (query[index] === '"') {
+        const close = query.indexOf('"', index + 1);
+        if (close === -1) {
+          throw new QueryError('Missing closing quote', index);
+        }
+        raw += query.slice(index, close + 1);
+        index = close + 1;
+      } else {
+        raw += query[index];
+        index++;
+      }
+    }
+
+    if (raw === 'OR' || raw === 'AND') {
+      tokens.push({ kind: raw === 'OR' ? 'or' : 'and', start, end: index });
+      continue;
+    }
+
+    const fieldMatch = /^([a-z]+):(.*)$/i.exec(raw);
+    if (fieldMatch && FIELD_NAMES.has(fieldMatch[1].toLowerCase())) {
+      const value = fieldMatch[2].replace(/"/g, '').trim();
+      if (!value) {
+        throw new QueryError(`Missing value after ${fieldMatch[1]}:`, start);
+      }
+      tokens.push({ kind: 'term', field: fieldMatch[1].toLowerCase() as SearchField, value, start, end: index });
+    } else {
+      const value = raw.replace(/"/g, '').trim();
+      if (value) {
+        tokens.push({ kind: 'term', field: null, value, start, end: index });
+      }
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Parse a YYYY-MM-DD date as local midnight
+ */
+const parseQueryDate = (value: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+};
+
+/**
+ * Reduce a URL or domain to a bare hostname (e.g. "https://www.github.com/x" -> "github.com")
+ */
+export const normalizeDomain = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/[/?#:].*$/, '');
+
+/**
+ * Turn a term token into an AST node
+ */
+const termToNode = (token: Extract<Token, { kind: 'term' }>): SearchQueryNode => {
+  const value = token.value;
+
+  switch (token.field) {
+    case 'tag':
+      return { type: 'tag', value: value.toLowerCase() };
+    case 'site':
+      return { type: 'site', value: normalizeDomain(value) };
+    case 'title':
+      return { type: 'title', value: value.toLowerCase() };
+    case 'before':
+    case 'after': {
+      const date = parseQueryDate(value);
+      if (!date) {
+        throw new QueryError(`Invalid date "${value}" (use YYYY-MM-DD)`, token.start);
+      }
+      return { type: 'date', field: token.field, value: date };
+    }
+    case 'is': {
+      const isValue = value.toLowerCase();
+      if (!isIsValue(isValue)) {
+        throw new QueryError(`Unknown value "is:${value}" (try ${IS_VALUES.map(item => `is:${item}`).join(', ')})`, token.start);
+      }
+      return { type: 'is', value: isValue };
+    }
+    case 'has':
+      if (value.toLowerCase() !== 'thumbnail') {
+        throw new QueryError(`Unknown value "has:${value}" (try has:thumbnail)`, token.start);
+      }
+      return { type: 'has', value: 'thumbnail' };
+    default:
+      return { type: 'text', value: value.toLowerCase() };
+  }
+};
+
+/**
+ * Recursive descent parser:
+ *   or    := and ("OR" and)*
+ *   and   := unary (["AND"] unary)*
+ *   unary := "-" unary | "(" or ")" | term
+ */
+class Parser {
+  private position = 0;
+  private readonly tokens: Token[];
+  private readonly queryLength: number;
+
+  constructor(tokens: Token[], queryLength: number) {
+    this.tokens = tokens;
+    this.queryLength = queryLength;
+  }
+
+  parse(): SearchQueryNode {
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next) {
+      throw new QueryError(next.kind === 'rparen' ? 'Unmatched closing parenthesis' : 'Unexpected input', next.start);
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private endPosition(): number {
+    return this.peek()?.start ?? this.queryLength;
+  }
+
+  private parseOr(): SearchQueryNode {
+    const children = [this.parseAnd()];
+
+    while (this.peek()?.kind === 'or') {
+      const operator = this.tokens[this.position++];
+      const next = this.peek();
+      if (!next || next.kind === 'rparen' || next.kind === 'or') {
+        throw new QueryError('OR needs a search term on both sides', operator.start);
+      }
+      children.push(this.parseAnd());
+    }
+
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  private parseAnd(): SearchQueryNode {
+    const children: SearchQueryNode[] = [];
+
+    for (let next = this.peek(); next && next.kind !== 'rparen' && next.kind !== 'or'; next = this.peek()) {
+      if (next.kind === 'and') {
+        this.position++;
+        const following = this.peek();
+        if (children.length === 0 || !following || following.kind === 'rparen' || following.kind === 'or') {
+          throw new QueryError('AND needs a search term on both sides', next.start);
+        }
+        continue;
+      }
+      children.push(this.parseUnary());
+    }
+
+    if (children.length === 0) {
+      const next = this.peek();
+      if (next?.kind === 'or') {
+        throw new QueryError('OR needs a search term on both sides', next.start);
+      }
+      throw new QueryError(next?.kind === 'rparen' ? 'Unmatched closing parenthesis' : 'Expected a search term', this.endPosition());
+    }
+
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  private parseUnary(): SearchQueryNode {
+    const token = this.tokens[this.position++];
+
+    if (token.kind === 'not') {
+      const next = this.peek();
+      if (!next || next.kind === 'rparen' || next.kind === 'or' || next.kind === 'and') {
+        throw new QueryError('Expected a search term after "-"', token.start);
+      }
+      return { type: 'not', child: this.parseUnary() };
+    }
+
+    if (token.kind === 'lparen') {
+      if (this.peek()?.kind === 'rparen') {
+        throw new QueryError('Empty parentheses', token.start);
+      }
+      const node = this.parseOr();
+      if (this.peek()?.kind !== 'rparen') {
+        throw new QueryError('Missing closing parenthesis', token.start);
+      }
+      this.position++;
+      return node;
+    }
+
+    if (token.kind === 'term') {
+      return termToNode(token);
+    }
+
+    throw new QueryError('Unexpected operator', token.start);
+  }
+}
+
+/**
+ * Parse a search query. Syntax errors are returned rather than thrown so they can be
+ * shown next to the search input.
+ */
+export const parseSearchQuery = (query: string): ParsedSearchQuery => {
+  try {
+    const tokens = tokenize(query);
+    if (tokens.length === 0) {
+      return { ast: null, error: null };
+    }
+    return { ast: new Parser(tokens, query.length).parse(), error: null };
+  } catch (error) {
+    if (error instanceof QueryError) {
+      const queryError: SearchQueryError = { message: error.message, position: error.position };
+      return { ast: null, error: queryError };
+    }
+    throw error;
+  }
+};
+
+const getHostname = (url: string): string => {
+  try {
+    return normalizeDomain(new URL(url).hostname);
+  } catch {
+    return normalizeDomain(url);
+  }
+};
+
+/**
+ * Whether a lowercase value appears anywhere in a bookmark's title, description, URL or tags
+ */
+export const matchesTextSubstring = (bookmark: Bookmark, value: string): boolean =>
+  bookmark.title.toLowerCase().includes(value) ||
+  bookmark.description.toLowerCase().includes(value) ||
+  bookmark.url.toLowerCase().includes(value) ||
+  bookmark.tags.some(tag => tag.toLowerCase().includes(value));
+
+/**
+ * Evaluate a parsed query against a bookmark. Free-text terms are matched as
+ * substrings unless a `matchText` function is given (e.g. for fuzzy matching)
+ */
+export const matchesSearchQuery = (
+  bookmark: Bookmark,
+  node: SearchQueryNode,
+  matchText: (bookmark: Bookmark, value: string) => boolean = matchesTextSubstring
+): boolean => {
+  switch (node.type) {
+    case 'and':
+      return node.children.every(child => matchesSearchQuery(bookmark, child, matchText));
+    case 'or':
+      return node.children.some(child => matchesSearchQuery(bookmark, child, matchText));
+    case 'not':
+      return !matchesSearchQuery(bookmark, node.child, matchText);
+    case 'text':
+      return matchText(bookmark, node.value);
+    case 'tag':
+      return bookmark.tags.some(tag => tagMatchesFilter(tag.toLowerCase(), node.value));
+    case 'site': {
+      const hostname = getHostname(bookmark.url);
+      return hostname === node.value || hostname.endsWith(`.${node.value}`);
+    }
+    case 'title':
+      return bookmark.title.toLowerCase().includes(node.value);
+    case 'date':
+      return node.field === 'before'
+        ? bookmark.createdAt.getTime() < node.value.getTime()
+        : bookmark.createdAt.getTime() >= node.value.getTime();
+    case 'is':
+      switch (node.value) {
+        case 'untagged':
+          return bookmark.tags.length === 0;
+        case 'favorite':
+          return !!bookmark.favorite;
+        case 'pinned':
+          return !!bookmark.pinned;
+        case 'broken':
+        case 'redirected':
+          return bookmark.health?.status === node.value;
+        default:
+          return bookmark.readState?.status === node.value;
+      }
+    case 'has':
+      return !!bookmark.thumbnail;
+  }
+};
+
+/**
+ * Collect the values of the given node types that are not under a negation, e.g. the
+ * free-text terms to rank by or the words to highlight in results
+ */
+export const getPositiveTerms = (
+  node: SearchQueryNode | null,
+  types: Array<SearchQueryNode['type']> = ['text']
+): string[] => {
+  if (!node) return [];
+
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return node.children.flatMap(child => getPositiveTerms(child, types));
+    case 'not':
+      return [];
+    case 'text':
+    case 'tag':
+    case 'title':
+      return types.includes(node.type) ? [node.value] : [];
+    default:
+      return [];
+  }
+};
+
+/**
+ * Suggest completions for the word under the cursor: operator names while typing a
+ * bare word, and known tags, domains or keywords after tag:, site:, is: and has:
+ */
+export const getSearchSuggestions = (
+  query: string,
+  cursor: number,
+  source: { tags: string[]; domains: string[] },
+  limit: number = 8
+): SearchSuggestion[] => {
+  let start = cursor;
+  while (start > 0 && !isBoundary(query[start - 1])) {
+    start--;
+  }
+  let end = cursor;
+  while (end < query.length && !isBoundary(query[end])) {
+    end++;
+  }
+
+  const word = query.slice(start, cursor);
+  const negation = word.startsWith('-') ? '-' : '';
+  const text = word.slice(negation.length);
+  if (!text || text.includes('"')) {
+    return [];
+  }
+
+  const before = query.slice(0, start);
+  const after = query.slice(end);
+
+  const build = (insert: string, label: string, description: string | undefined, complete: boolean): SearchSuggestion => {
+    // Completed values are followed by a space so the next term can be typed right away
+    const separator = complete && !after.startsWith(' ') ? ' ' : '';
+    return {
+      label,
+      description,
+      query: `${before}${insert}${separator}${after}`,
+      cursor: before.length + insert.length + (complete ? 1 : 0),
+    };
+  };
+
+  const fieldMatch = /^([a-z]+):(.*)$/i.exec(text);
+  if (fieldMatch) {
+    const field = fieldMatch[1].toLowerCase();
+    const partial = fieldMatch[2].toLowerCase();
+    const values =
+      field === 'tag' ? source.tags :
+      field === 'site' ? source.domains :
+      field === 'is' ? [...IS_VALUES] :
+      field === 'has' ? ['thumbnail'] :
+      [];
+
+    return values
+      .filter(value => value.toLowerCase().startsWith(partial) && value.toLowerCase() !== partial)
+      .slice(0, limit)
+      .map(value => build(`${negation}${field}:${value}`, `${negation}${field}:${value}`, undefined, true));
+  }
+
+  const partial = text.toLowerCase();
+  return SEARCH_FIELDS
+    .filter(item => item.field.startsWith(partial))
+    .slice(0, limit)
+    .map(item => build(`${negation}${item.field}:`, `${item.field}:`, item.description, false));
+};
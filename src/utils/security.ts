@@ -143,21 +143,64 @@ export const validateTag = (tag: string): { isValid: boolean; sanitizedTag?: str
     };
   }
 
-  // Only allow alphanumeric, hyphens, and underscores
-  if (!/^[a-z0-9_-]+$/.test(sanitized)) {
+  // Only allow alphanumeric, hyphens, and underscores, plus slashes and colons between parts
+  if (!/^[a-z0-9_:/-]+$/.test(sanitized)) {
     // Find which characters are invalid
-    const invalidChars = sanitized.match(/[^a-z0-9_-]/g);
+    const invalidChars = sanitized.match(/[^a-z0-9_:/-]/g);
     const uniqueInvalidChars = invalidChars ? [...new Set(invalidChars)].join(', ') : '';
     
     return { 
       isValid: false, 
-      error: `Tag contains invalid characters: ${uniqueInvalidChars}. Only letters, numbers, hyphens (-), and underscores (_) are allowed.` 
+      error: `Tag contains invalid characters: ${uniqueInvalidChars}. Only letters, numbers, hyphens (-), and underscores (_) are allowed, with / or : to nest tags (e.g. lang/rust).` 
+    };
+  }
+
+  // Nested tags need a name on both sides of every separator
+  if (!/^[a-z0-9_-]+(?:[:/][a-z0-9_-]+)*$/.test(sanitized)) {
+    return {
+      isValid: false,
+      error: 'Nested tags cannot start or end with / or :, or contain two separators in a row (e.g. lang/rust, project:atlas).'
     };
   }
 
   return { isValid: true, sanitizedTag: sanitized };
 };
 
+/**
+ * Validate collection name input
+ */
+export const validateCollectionName = (name: string): { isValid: boolean; sanitizedName?: string; error?: string } => {
+  if (!name || typeof name !== 'string') {
+    return { isValid: false, error: 'Collection name cannot be empty' };
+  }
+
+  const sanitized = sanitizeText(name, 100);
+
+  if (!sanitized) {
+    return { isValid: false, error: 'Collection name cannot be empty' };
+  }
+
+  // Slashes are reserved as the separator in collection paths (e.g. "Projects/Client A")
+  if (sanitized.includes('/')) {
+    return { isValid: false, error: 'Collection name cannot contain a slash (/).' };
+  }
+
+  return { isValid: true, sanitizedName: sanitized };
+};
+
+/**
+ * Validate saved search name input
+ */
+export const validateSavedSearchName = (name: string): { isValid: boolean; sanitizedName?: string; error?: string } => {
+  const sanitized = typeof name === 'string' ? sanitizeText(name, 100) : '';
+
+  if (!sanitized) {
+    return { isValid: false, error: 'Saved search name cannot be empty' };
+  }
+
+  return { isValid: true, sanitizedName: sanitized };
+};
+
 /**
  * Rate limiting utility
  */
@@ -0,0 +1,83 @@
+/**
+ * Tag colour palette shared by every component that renders tags.
+ * Tags store the palette key in Firestore; tags without a stored colour fall back
+ * to one derived from their name, so existing tags keep the colour they always had.
+ */
+
+export const TAG_COLORS = {
+  blue: {
+    badge: 'bg-blue-100 text-blue-800 dark:bg-blue-500/20 dark:text-blue-300',
+    dot: 'bg-blue-500',
+  },
+  green: {
+    badge: 'bg-green-100 text-green-800 dark:bg-green-500/20 dark:text-green-300',
+    dot: 'bg-green-500',
+  },
+  purple: {
+    badge: 'bg-purple-100 text-purple-800 dark:bg-purple-500/20 dark:text-purple-300',
+    dot: 'bg-purple-500',
+  },
+  pink: {
+    badge: 'bg-pink-100 text-pink-800 dark:bg-pink-500/20 dark:text-pink-300',
+    dot: 'bg-pink-500',
+  },
+  yellow: {
+    badge: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-500/20 dark:text-yellow-300',
+    dot: 'bg-yellow-500',
+  },
+  indigo: {
+    badge: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-500/20 dark:text-indigo-300',
+    dot: 'bg-indigo-500',
+  },
+  red: {
+    badge: 'bg-red-100 text-red-800 dark:bg-red-500/20 dark:text-red-300',
+    dot: 'bg-red-500',
+  },
+  orange: {
+    badge: 'bg-orange-100 text-orange-800 dark:bg-orange-500/20 dark:text-orange-300',
+    dot: 'bg-orange-500',
+  },
+  teal: {
+    badge: 'bg-teal-100 text-teal-800 dark:bg-teal-500/20 dark:text-teal-300',
+    dot: 'bg-teal-500',
+  },
+  cyan: {
+    badge: 'bg-cyan-100 text-cyan-800 dark:bg-cyan-500/20 dark:text-cyan-300',
+    dot: 'bg-cyan-500',
+  },
+} as const;
+
+export type TagColor = keyof typeof TAG_COLORS;
+
+export const TAG_COLOR_NAMES = Object.keys(TAG_COLORS) as TagColor[];
+
+export const isTagColor = (value: unknown): value is TagColor =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(TAG_COLORS, value);
+
+/**
+ * Colour derived from a hash of the tag name, used until a colour is picked
+ */
+export const getDefaultTagColor = (tag: string): TagColor => {
+  let hash = 0;
+  for (let i = 0; i < tag.length; i++) {
+    const char = tag.charCodeAt(i);
+    hash = (hash << 5) - hash + char;
+    hash = hash & hash; // Convert to 32-bit integer
+  }
+
+  return TAG_COLOR_NAMES[Math.abs(hash) % TAG_COLOR_NAMES.length];
+};
+
+/**
+ * Resolve a tag's colour from the stored colours, falling back to the derived one
+ */
+export const resolveTagColor = (tag: string, tagColors: Record<string, string>): TagColor => {
+  const stored = tagColors[tag];
+  return isTagColor(stored) ? stored : getDefaultTagColor(tag);
+};
+
+export const getTagBadgeClass = (tag: string, tagColors: Record<string, string>): string =>
+  TAG_COLORS[resolveTagColor(tag, tagColors)].badge;
+
+export const getTagDotClass = (tag: string, tagColors: Record<string, string>): string =>
+  TAG_COLORS[resolveTagColor(tag, tagColors)].dot;
@@ -0,0 +1,86 @@
+/**
+ * Helpers for hierarchical tags such as "lang/rust" or "project:atlas".
+ * A slash or colon separates a parent tag from its children; tags without a
+ * separator are ordinary flat tags.
+ */
+
+import type { TagTreeNode } from '../types/bookmark';
+
+const SEPARATOR_PATTERN = /[/:]/;
+
+/**
+ * Get the parent tags of a tag, outermost first: "lang/rust/async" -> ["lang", "lang/rust"]
+ */
+export const getTagAncestors = (tag: string): string[] => {
+  const ancestors: string[] = [];
+  for (let i = 0; i < tag.length; i++) {
+    if (SEPARATOR_PATTERN.test(tag[i])) {
+      ancestors.push(tag.slice(0, i));
+    }
+  }
+  return ancestors;
+};
+
+/**
+ * Check whether a tag is matched by a tag filter: the tag itself or any tag nested below it
+ */
+export const tagMatchesFilter = (tag: string, filterTag: string): boolean =>
+  tag === filterTag ||
+  (tag.length > filterTag.length && tag.startsWith(filterTag) && SEPARATOR_PATTERN.test(tag[filterTag.length]));
+
+/**
+ * Build a tag tree from the tags of each bookmark. A node's count is the number of
+ * bookmarks tagged with it or with any tag nested below it.
+ */
+export const buildTagTree = (bookmarkTags: string[][]): TagTreeNode[] => {
+  const counts = new Map<string, number>();
+  const tags = new Set<string>();
+
+  for (const bookmarkTagList of bookmarkTags) {
+    // Count each bookmark once per node, even if it has several tags below it
+    const nodes = new Set<string>();
+    for (const tag of bookmarkTagList) {
+      tags.add(tag);
+      nodes.add(tag);
+      getTagAncestors(tag).forEach((ancestor) => nodes.add(ancestor));
+    }
+    nodes.forEach((node) => counts.set(node, (counts.get(node) || 0) + 1));
+  }
+
+  const childrenByParent = new Map<string | null, string[]>();
+  for (const name of counts.keys()) {
+    const ancestors = getTagAncestors(name);
+    const parent = ancestors.length > 0 ? ancestors[ancestors.length - 1] : null;
+    const siblings = childrenByParent.get(parent) || [];
+    siblings.push(name);
+    childrenByParent.set(parent, siblings);
+  }
+
+  const buildLevel = (parent: string | null, depth: number): TagTreeNode[] =>
+    (childrenByParent.get(parent) || [])
+      .sort((a, b) => a.localeCompare(b))
+      .map((name) => ({
+        name,
+        label: parent === null ? name : name.slice(parent.length + 1),
+        count: counts.get(name) || 0,
+        isTag: tags.has(name),
+        children: buildLevel(name, depth + 1),
+        depth,
+      }));
+
+  return buildLevel(null, 0);
+};
+
+/**
+ * Flatten a tag tree into display order (depth-first)
+ */
+export const flattenTagTree = (nodes: TagTreeNode[]): TagTreeNode[] =>
+  nodes.flatMap((node) => [node, ...flattenTagTree(node.children)]);
+
+/**
+ * Get the tags in a tree that are actually used on bookmarks, skipping bare namespaces
+ */
+export const getTagNames = (nodes: TagTreeNode[]): string[] =>
+  flattenTagTree(nodes)
+    .filter((node) => node.isTag)
+    .map((node) => node.name);
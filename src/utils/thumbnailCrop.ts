@@ -0,0 +1,124 @@
+/**
+ * Cropping of images users upload as thumbnails to the 400x300 size of bookmark cards
+ */
+
+export const THUMBNAIL_WIDTH = 400;
+export const THUMBNAIL_HEIGHT = 300;
+export const MAX_THUMBNAIL_ZOOM = 4;
+export const MAX_THUMBNAIL_FILE_SIZE = 10 * 1024 * 1024; // Of the original image; the crop is far smaller
+
+export interface ThumbnailCrop {
+  zoom: number; // 1 scales the image to just cover the thumbnail
+  offsetX: number; // Position of the image's top-left corner, in thumbnail pixels (0 or less)
+  offsetY: number;
+}
+
+// Helper function to get the scale from image pixels to thumbnail pixels
+const getCropScale = (width: number, height: number, zoom: number): number =>
+  Math.max(THUMBNAIL_WIDTH / width, THUMBNAIL_HEIGHT / height) * zoom;
+
+/**
+ * Keep the zoom in range and the image covering the whole thumbnail
+ */
+export const clampThumbnailCrop = (crop: ThumbnailCrop, width: number, height: number): ThumbnailCrop => {
+  const zoom = Math.min(Math.max(crop.zoom, 1), MAX_THUMBNAIL_ZOOM);
+  const scale = getCropScale(width, height, zoom);
+  const clamp = (offset: number, min: number) => Math.min(0, Math.max(min, offset));
+
+  return {
+    zoom,
+    offsetX: clamp(crop.offsetX, THUMBNAIL_WIDTH - width * scale),
+    offsetY: clamp(crop.offsetY, THUMBNAIL_HEIGHT - height * scale),
+  };
+};
+
+/**
+ * Crop showing the middle of the image
+ */
+export const getCenteredThumbnailCrop = (width: number, height: number, zoom: number = 1): ThumbnailCrop => {
+  const scale = getCropScale(width, height, zoom);
+  return {
+    zoom,
+    offsetX: (THUMBNAIL_WIDTH - width * scale) / 2,
+    offsetY: (THUMBNAIL_HEIGHT - height * scale) / 2,
+  };
+};
+
+/**
+ * Change the zoom around the middle of the thumbnail, so the part of the image
+ * under it stays in place
+ */
+export const zoomThumbnailCrop = (crop: ThumbnailCrop, width: number, height: number, zoom: number): ThumbnailCrop => {
+  const ratio = getCropScale(width, height, zoom) / getCropScale(width, height, crop.zoom);
+  const centerX = THUMBNAIL_WIDTH / 2;
+  const centerY = THUMBNAIL_HEIGHT / 2;
+
+  return clampThumbnailCrop(
+    {
+      zoom,
+      offsetX: centerX - (centerX - crop.offsetX) * ratio,
+      offsetY: centerY - (centerY - crop.offsetY) * ratio,
+    },
+    width,
+    height
+  );
+};
+
+/**
+ * Draw the cropped image onto a 400x300 canvas. Transparent areas become white,
+ * since thumbnails are saved as JPEG.
+ */
+export const drawThumbnailCrop = (
+  context: CanvasRenderingContext2D,
+  image: HTMLImageElement,
+  crop: ThumbnailCrop
+): void => {
+  const scale = getCropScale(image.naturalWidth, image.naturalHeight, crop.zoom);
+
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(image, crop.offsetX, crop.offsetY, image.naturalWidth * scale, image.naturalHeight * scale);
+};
+
+/**
+ * Render the cropped image as a JPEG data URL
+ */
+export const cropThumbnail = (image: HTMLImageElement, crop: ThumbnailCrop): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = THUMBNAIL_HEIGHT;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Images cannot be cropped in this browser.');
+  }
+  drawThumbnailCrop(context, image, crop);
+  return canvas.toDataURL('image/jpeg', 0.85);
+};
+
+/**
+ * Load an image file the user picked or pasted
+ */
+export const loadThumbnailImage = (file: File): Promise<HTMLImageElement> => {
+  if (!file.type.startsWith('image/')) {
+    return Promise.reject(new Error('Choose an image file.'));
+  }
+  if (file.size > MAX_THUMBNAIL_FILE_SIZE) {
+    return Promise.reject(new Error('Images can be at most 10 MB.'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const objectUrl = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(objectUrl);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(objectUrl);
+      reject(new Error('This image could not be read.'));
+    };
+    image.src = objectUrl;
+  });
+};
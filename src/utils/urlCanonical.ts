@@ -0,0 +1,133 @@
+/**
+ * URL canonicalization for duplicate detection: two bookmarks are duplicates when
+ * their URLs canonicalize to the same string, so "http://www.example.com/page/",
+ * "https://example.com/page?utm_source=x" and "https://example.com/page#top" match.
+ * The canonical form is a comparison key, not a URL to open; saved bookmarks only
+ * lose their tracking parameters.
+ */
+
+export interface UrlCanonicalizationRule {
+  domain: string; // Matches the domain and its subdomains, without "www."
+  keepParams?: string[]; // Only these query parameters identify a page; all others are dropped
+  stripParams?: string[]; // Tracking parameters used by this domain on top of the common ones
+  ignoreParams?: string[]; // Kept in saved URLs but ignored when comparing (e.g. a video's start time)
+  keepFragment?: boolean; // The fragment selects content (e.g. hash-routed apps)
+  keepTrailingSlash?: boolean; // "/page" and "/page/" are different pages
+}
+
+// Query parameters that only track where a visit came from
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'yclid', 'twclid', 'igshid',
+  'mc_cid', 'mc_eid', '_ga', '_gl', '_hsenc', '_hsmi', 'mkt_tok', 'oly_anon_id', 'oly_enc_id',
+  'vero_id', 'wickedid', 'ref_src', 'ref_url',
+]);
+const TRACKING_PARAM_PREFIXES = ['utm_', 'pk_', 'hsa_'];
+
+export const DEFAULT_CANONICALIZATION_RULES: UrlCanonicalizationRule[] = [
+  { domain: 'youtube.com', keepParams: ['v', 'list'] },
+  { domain: 'youtu.be', stripParams: ['si'], ignoreParams: ['t'] },
+  { domain: 'open.spotify.com', stripParams: ['si'] },
+  { domain: 'amazon.com', stripParams: ['ref', 'ref_', 'pd_rd_w', 'pd_rd_r', 'pd_rd_wg', 'pf_rd_p', 'pf_rd_r', 'psc'] },
+  { domain: 'twitter.com', stripParams: ['s', 't'] },
+  { domain: 'x.com', stripParams: ['s', 't'] },
+  { domain: 'news.ycombinator.com', keepParams: ['id', 'p'] },
+  { domain: 'mail.google.com', keepFragment: true },
+];
+
+// Fragments used for routing rather than for jumping within a page ("#/inbox", "#!/post")
+const ROUTING_FRAGMENT_PATTERN = /^#!?\//;
+
+const stripWww = (hostname: string): string => hostname.replace(/^www\./, '');
+
+// Helper function to find the most specific rule for a hostname
+const findRule = (hostname: string, rules: UrlCanonicalizationRule[]): UrlCanonicalizationRule | undefined => {
+  const host = stripWww(hostname);
+  let match: UrlCanonicalizationRule | undefined;
+  for (const rule of rules) {
+    const domain = stripWww(rule.domain.toLowerCase());
+    if ((host === domain || host.endsWith(`.${domain}`)) && (!match || domain.length > match.domain.length)) {
+      match = rule;
+    }
+  }
+  return match;
+};
+
+const isTrackingParam = (name: string, rule?: UrlCanonicalizationRule): boolean => {
+  const key = name.toLowerCase();
+  return (
+    TRACKING_PARAMS.has(key) ||
+    TRACKING_PARAM_PREFIXES.some((prefix) => key.startsWith(prefix)) ||
+    !!rule?.stripParams?.includes(key)
+  );
+};
+
+// Helper function to drop query parameters that don't identify the page
+const filterParams = (params: URLSearchParams, rule?: UrlCanonicalizationRule): [string, string][] =>
+  Array.from(params.entries()).filter(([name]) =>
+    rule?.keepParams
+      ? rule.keepParams.includes(name)
+      : !isTrackingParam(name, rule) && !rule?.ignoreParams?.includes(name.toLowerCase())
+  );
+
+/**
+ * Remove tracking parameters from a URL, leaving everything else as entered.
+ * Used when saving, so stored URLs don't carry campaign or click ids.
+ */
+export const stripTrackingParameters = (
+  url: string,
+  rules: UrlCanonicalizationRule[] = DEFAULT_CANONICALIZATION_RULES
+): string => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+
+  const rule = findRule(parsed.hostname, rules);
+  const names = Array.from(new Set(parsed.searchParams.keys()));
+  const tracking = names.filter((name) => isTrackingParam(name, rule));
+  if (tracking.length === 0) {
+    return url;
+  }
+
+  tracking.forEach((name) => parsed.searchParams.delete(name));
+  return parsed.href.replace(/\?(?=#|$)/, '');
+};
+
+/**
+ * Build the comparison key for a URL: https, lowercase host without "www.", no
+ * tracking parameters, remaining parameters sorted, no trailing slash and no
+ * in-page fragment, subject to the rule for the URL's domain
+ */
+export const canonicalizeUrl = (
+  url: string,
+  rules: UrlCanonicalizationRule[] = DEFAULT_CANONICALIZATION_RULES
+): string => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return parsed.href;
+  }
+
+  const rule = findRule(parsed.hostname, rules);
+  const host = stripWww(parsed.hostname.replace(/\.$/, ''));
+  const port = parsed.port && parsed.port !== '80' && parsed.port !== '443' ? `:${parsed.port}` : '';
+
+  let path = parsed.pathname.replace(/\/{2,}/g, '/');
+  if (!rule?.keepTrailingSlash || path === '/') {
+    path = path.replace(/\/+$/, '');
+  }
+
+  const params = filterParams(parsed.searchParams, rule).sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+
+  const fragment = parsed.hash && (rule?.keepFragment || ROUTING_FRAGMENT_PATTERN.test(parsed.hash)) ? parsed.hash : '';
+
+  return `https://${host}${port}${path}${query}${fragment}`;
+};